@@ -1,3 +1,10 @@
-export { runPolledMatcher } from "./matchers/polling-runner";
+export { runPolledMatcher, runPolledMatcherWithHistory } from "./matchers/polling-runner";
+export { formatPollHistory } from "./matchers/poll-history-formatter";
+export { classifyLocatorError } from "./matchers/failure-classification";
 export { withMatcherState } from "./matchers/matcher-state-utils";
+export { defineLocatorMatcher } from "./matchers/locator-matcher-factory";
+export type { LocatorMatcher, LocatorMatcherProbe } from "./matchers/locator-matcher-factory";
 export type { PollOptions } from "./types/poll-options";
+export type { PollHistoryEntry, PolledMatcherResult } from "./types/polled-matcher-result";
+export type { LocatorMatcherReturnType, MatcherFailureType } from "./types/matcher-failure-type";
+export type { LocatorMatcherContext, LocatorMatcherDefinition } from "./types/locator-matcher-definition";
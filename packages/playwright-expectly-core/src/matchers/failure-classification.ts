@@ -0,0 +1,25 @@
+import type { MatcherFailureType } from "../types/matcher-failure-type";
+import type { PollHistoryEntry } from "../types/polled-matcher-result";
+
+/**
+ * Classifies an error thrown while reading a locator.
+ */
+export function classifyLocatorError(
+	error: Error,
+): Extract<MatcherFailureType, "locator-error" | "strict-mode-violation"> {
+	return /strict mode violation/i.test(error.message) ? "strict-mode-violation" : "locator-error";
+}
+
+/**
+ * Classifies a failed poll by its last observed outcome.
+ */
+export function classifyPollFailure(history: PollHistoryEntry<unknown>[]): MatcherFailureType {
+	const lastEntry = history[history.length - 1];
+	if (!lastEntry) {
+		return "timeout";
+	}
+	if (lastEntry.error) {
+		return classifyLocatorError(lastEntry.error);
+	}
+	return "mismatch";
+}
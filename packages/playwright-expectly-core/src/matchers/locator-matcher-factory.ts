@@ -0,0 +1,152 @@
+import type { ExpectMatcherState, Locator } from "@playwright/test";
+
+import type { LocatorMatcherContext, LocatorMatcherDefinition } from "../types/locator-matcher-definition";
+import type { LocatorMatcherReturnType } from "../types/matcher-failure-type";
+import type { PollOptions } from "../types/poll-options";
+
+import { formatPollHistory } from "./poll-history-formatter";
+import { runPolledMatcherWithHistory } from "./polling-runner";
+
+/**
+ * Outcome of reading and checking a locator once, without polling.
+ */
+export type LocatorMatcherProbe = {
+	pass: boolean;
+	actual: unknown;
+};
+
+export type LocatorMatcher<TArgs extends unknown[]> = ((
+	this: ExpectMatcherState,
+	locator: Locator,
+	...args: [...TArgs, PollOptions?]
+) => Promise<LocatorMatcherReturnType>) & {
+	/**
+	 * Number of matcher arguments before the trailing `PollOptions`.
+	 */
+	arity: number;
+	/**
+	 * Reads and checks `locator` once, e.g. to apply the matcher to every element of a multi-element locator.
+	 * `args` are the matcher arguments without the trailing `PollOptions`.
+	 */
+	probe: (locator: Locator, args: unknown[]) => Promise<LocatorMatcherProbe>;
+	/**
+	 * Builds the failure message body for a value returned by `probe`.
+	 */
+	describe: (context: LocatorMatcherContext<unknown, unknown[]>) => string;
+};
+
+/**
+ * Builds a polled, negation-aware locator matcher from a declarative definition.
+ *
+ * The returned function keeps calling `read` and `check` until the desired condition is met
+ * or the timeout is reached. When the assertion fails, the result carries a `failureType` and the
+ * message shows it, followed by the `describe` text (or the locator error) and the value history.
+ * Locator errors fail the assertion with or without `.not` instead of being rethrown.
+ *
+ * @example
+ * export const myMatchers = withMatcherState({
+ *   toHaveRole: defineLocatorMatcher({
+ *     name: "toHaveRole",
+ *     arity: 1,
+ *     read: async (locator) => locator.getAttribute("role"),
+ *     check: (actual, expected: string) => actual === expected,
+ *     describe: ({ actual, args: [expected], isNot, utils }) =>
+ *       `Expected element to ${isNot ? "not " : ""}have role: ${utils.printExpected(expected)}\n` +
+ *       `Received: ${utils.printReceived(actual)}`,
+ *   }),
+ * });
+ */
+export function defineLocatorMatcher<TActual, TArgs extends unknown[] = []>(
+	definition: LocatorMatcherDefinition<TActual, TArgs>,
+): LocatorMatcher<TArgs> {
+	const arity = resolveArity(definition);
+
+	const matcher = async function (
+		this: ExpectMatcherState,
+		locator: Locator,
+		...rawArgs: [...TArgs, PollOptions?]
+	): Promise<LocatorMatcherReturnType> {
+		if (rawArgs.length > arity + 1) {
+			throw new Error(
+				`${definition.name}: expected at most ${arity} argument${arity === 1 ? "" : "s"} and poll options, received ${rawArgs.length} arguments`,
+			);
+		}
+		const args = rawArgs.slice(0, arity) as TArgs;
+		const options = rawArgs[arity] as PollOptions | undefined;
+		const result = await runPolledMatcherWithHistory(
+			this,
+			options,
+			async () => definition.read(locator, args),
+			(actual) => definition.check(actual, ...args),
+		);
+
+		const { pass, lastValue: actual, failureType } = result;
+
+		const describeFailure = (): string => {
+			if (failureType === "timeout") {
+				return `Timed out after ${result.elapsedMs}ms before the locator value could be read`;
+			}
+			const lastError = result.history[result.history.length - 1]?.error;
+			if (lastError) {
+				return `Locator error: ${lastError.message}`;
+			}
+			return definition.describe({ actual, args, isNot: this.isNot, utils: this.utils });
+		};
+
+		const message = (): string => {
+			const hint = this.utils.matcherHint(definition.name, undefined, definition.hint?.(args), {
+				isNot: this.isNot,
+			});
+
+			if (failureType) {
+				return (
+					hint +
+					"\n\n" +
+					`Failure type: ${failureType}\n` +
+					describeFailure() +
+					"\n\n" +
+					formatPollHistory(result, this.utils)
+				);
+			}
+
+			return hint;
+		};
+
+		return {
+			message,
+			pass,
+			name: definition.name,
+			expected: definition.expected?.(args),
+			actual,
+			failureType,
+		};
+	};
+
+	return Object.assign(matcher, {
+		arity,
+		probe: async (locator: Locator, rawArgs: unknown[]): Promise<LocatorMatcherProbe> => {
+			const args = rawArgs.slice(0, arity) as TArgs;
+			const actual = await definition.read(locator, args);
+			return { pass: definition.check(actual, ...args), actual };
+		},
+		describe: ({ actual, args, isNot, utils }: LocatorMatcherContext<unknown, unknown[]>): string =>
+			definition.describe({ actual: actual as TActual | undefined, args: args as TArgs, isNot, utils }),
+	});
+}
+
+/**
+ * The arity defaults to the parameters of `check` after `actual`. A `check` with rest or default
+ * parameters has no reliable length, so only a `check` that takes at most `actual` may declare another arity.
+ */
+function resolveArity<TActual, TArgs extends unknown[]>(definition: LocatorMatcherDefinition<TActual, TArgs>): number {
+	const checkArity = Math.max(0, definition.check.length - 1);
+	if (definition.arity === undefined) {
+		return checkArity;
+	}
+	if (checkArity !== 0 && definition.arity !== checkArity) {
+		throw new Error(
+			`defineLocatorMatcher: ${definition.name} declares arity ${definition.arity}, but check takes ${checkArity} argument${checkArity === 1 ? "" : "s"} after the actual value`,
+		);
+	}
+	return definition.arity;
+}
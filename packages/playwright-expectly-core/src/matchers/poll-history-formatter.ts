@@ -0,0 +1,47 @@
+import type { ExpectMatcherState } from "@playwright/test";
+
+import type { PollHistoryEntry, PolledMatcherResult } from "../types/polled-matcher-result";
+
+const MAX_HISTORY_ENTRIES = 10;
+
+function formatAttempts(entry: PollHistoryEntry<unknown>): string {
+	return entry.firstAttempt === entry.lastAttempt
+		? `attempt ${entry.firstAttempt}`
+		: `attempts ${entry.firstAttempt}-${entry.lastAttempt}`;
+}
+
+function formatOutcome(entry: PollHistoryEntry<unknown>, utils: ExpectMatcherState["utils"]): string {
+	if (entry.error) {
+		return `threw ${entry.error.name}: ${entry.error.message.split("\n")[0]}`;
+	}
+	return utils.printReceived(entry.value);
+}
+
+/**
+ * Renders the "Value history" section of a polled matcher failure message.
+ *
+ * @example
+ * Value history (6 attempts in 1004ms):
+ *   attempt 1 (+0ms): "Loading..."
+ *   attempts 2-6 (+112ms): "Hello"
+ */
+export function formatPollHistory(result: PolledMatcherResult<unknown>, utils: ExpectMatcherState["utils"]): string {
+	const attemptLabel = result.attempts === 1 ? "attempt" : "attempts";
+	const lines = [`Value history (${result.attempts} ${attemptLabel} in ${result.elapsedMs}ms):`];
+
+	if (result.history.length === 0) {
+		lines.push("  (no value was read before the timeout)");
+		return lines.join("\n");
+	}
+
+	const omitted = result.history.length - MAX_HISTORY_ENTRIES;
+	if (omitted > 0) {
+		lines.push(`  ... ${omitted} earlier ${omitted === 1 ? "value" : "values"} omitted`);
+	}
+
+	for (const entry of result.history.slice(Math.max(0, omitted))) {
+		lines.push(`  ${formatAttempts(entry)} (+${entry.elapsedMs}ms): ${formatOutcome(entry, utils)}`);
+	}
+
+	return lines.join("\n");
+}
@@ -1,23 +1,120 @@
 import { expect as baseExpect, type ExpectMatcherState } from "@playwright/test";
 
 import type { PollOptions } from "../types/poll-options";
+import type { PollHistoryEntry, PolledMatcherResult } from "../types/polled-matcher-result";
 
+import { classifyPollFailure } from "./failure-classification";
+
+function isSameValue(a: unknown, b: unknown): boolean {
+	if (Object.is(a, b)) {
+		return true;
+	}
+	if (typeof a !== "object" || typeof b !== "object" || a === null || b === null) {
+		return false;
+	}
+	return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function isSameOutcome<TValue>(entry: PollHistoryEntry<TValue>, value: TValue | undefined, error?: Error): boolean {
+	if (error || entry.error) {
+		return entry.error?.message === error?.message;
+	}
+	return isSameValue(entry.value, value);
+}
+
+/**
+ * Polls `poll` until it returns the desired condition (`!state.isNot`) or the timeout is reached.
+ * @returns Whether the matcher passes
+ */
 export async function runPolledMatcher(
 	state: ExpectMatcherState,
 	options: PollOptions | undefined,
 	poll: () => Promise<boolean>,
 ): Promise<boolean> {
+	const result = await runPolledMatcherWithHistory(state, options, poll, (matched) => matched);
+	return result.pass;
+}
+
+/**
+ * Polls `read` and `check` until the desired condition (`!state.isNot`) is met or the timeout is reached.
+ * Records every attempt so matchers can report how the value changed over time.
+ */
+export async function runPolledMatcherWithHistory<TValue>(
+	state: ExpectMatcherState,
+	options: PollOptions | undefined,
+	read: () => Promise<TValue>,
+	check: (value: TValue) => boolean,
+): Promise<PolledMatcherResult<TValue>> {
 	const desiredCondition = !state.isNot;
+	const startTime = Date.now();
+	const history: PollHistoryEntry<TValue>[] = [];
+	let attempts = 0;
+	let settled = false;
+	let lastValue: TValue | undefined;
+	let lastError: Error | undefined;
 
+	// Attempts still in flight when the poll times out must not alter the returned result.
+	const record = (attempt: number, value: TValue | undefined, error?: Error): void => {
+		if (settled) {
+			return;
+		}
+
+		const previous = history[history.length - 1];
+		if (previous && isSameOutcome(previous, value, error)) {
+			previous.lastAttempt = attempt;
+			return;
+		}
+
+		history.push({
+			...(error ? { error } : { value }),
+			firstAttempt: attempt,
+			lastAttempt: attempt,
+			elapsedMs: Date.now() - startTime,
+		});
+	};
+
+	let pass: boolean;
 	try {
 		await baseExpect
-			.poll(poll, {
-				timeout: options?.timeout ?? state.timeout,
-				intervals: options?.intervals,
-			})
+			.poll(
+				async () => {
+					const attempt = ++attempts;
+					try {
+						const value = await read();
+						const matched = check(value);
+						record(attempt, value);
+						if (!settled) {
+							lastValue = value;
+						}
+						return matched;
+					} catch (e: unknown) {
+						const error = e instanceof Error ? e : new Error(String(e));
+						record(attempt, undefined, error);
+						if (!settled) {
+							lastError = error;
+						}
+						throw e;
+					}
+				},
+				{
+					timeout: options?.timeout ?? state.timeout,
+					intervals: options?.intervals,
+				},
+			)
 			.toBe(desiredCondition);
-		return desiredCondition;
+		pass = desiredCondition;
 	} catch {
-		return !desiredCondition;
+		pass = !desiredCondition;
 	}
+	settled = true;
+
+	return {
+		pass,
+		attempts,
+		elapsedMs: Date.now() - startTime,
+		history,
+		lastValue,
+		lastError,
+		failureType: pass === desiredCondition ? undefined : classifyPollFailure(history),
+	};
 }
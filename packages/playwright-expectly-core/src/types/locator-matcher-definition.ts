@@ -0,0 +1,61 @@
+import type { ExpectMatcherState, Locator } from "@playwright/test";
+
+/**
+ * Values handed to `describe` when building the failure message of a locator matcher.
+ */
+export type LocatorMatcherContext<TActual, TArgs extends unknown[]> = {
+	/**
+	 * The value produced by the last successful `read` call,
+	 * or `undefined` when the locator could not be read before the timeout.
+	 */
+	actual: TActual | undefined;
+	/**
+	 * The matcher arguments, excluding the trailing `PollOptions`.
+	 */
+	args: TArgs;
+	/**
+	 * Whether the assertion was negated with `.not`.
+	 */
+	isNot: boolean;
+	/**
+	 * Playwright's matcher utils (`printExpected`, `printReceived`, ...).
+	 */
+	utils: ExpectMatcherState["utils"];
+};
+
+export type LocatorMatcherDefinition<TActual, TArgs extends unknown[]> = {
+	/**
+	 * Matcher name, used in the matcher hint and on the returned `MatcherReturnType`.
+	 */
+	name: string;
+	/**
+	 * Number of matcher arguments before the trailing `PollOptions`. Defaults to the number of `check`
+	 * parameters after `actual`; only needed when `check` uses rest or default parameters.
+	 * Defining a matcher whose `check` declares a different number of parameters throws.
+	 */
+	arity?: number;
+	/**
+	 * Reads the value to assert on from the locator. Called on every poll attempt.
+	 * If the last attempt threw, the assertion fails as a `locator-error` (or `strict-mode-violation`).
+	 */
+	read: (locator: Locator, args: NoInfer<TArgs>) => Promise<TActual>;
+	/**
+	 * Returns whether the value read from the locator satisfies the matcher.
+	 * Its parameters after `actual` define the arguments of the resulting matcher.
+	 * Annotate `actual` as well when TypeScript cannot infer it from `read`.
+	 */
+	check: (actual: TActual, ...args: TArgs) => boolean;
+	/**
+	 * Builds the failure message body shown below the matcher hint.
+	 * Only called for `mismatch` failures, so `isNot` tells which direction failed.
+	 */
+	describe: (context: LocatorMatcherContext<NoInfer<TActual>, NoInfer<TArgs>>) => string;
+	/**
+	 * Optional expected-argument text for the matcher hint, e.g. `"4"` for `toBeUUID(4)`.
+	 */
+	hint?: (args: NoInfer<TArgs>) => string | undefined;
+	/**
+	 * Optional `expected` value reported on the returned `MatcherReturnType`.
+	 */
+	expected?: (args: NoInfer<TArgs>) => unknown;
+};
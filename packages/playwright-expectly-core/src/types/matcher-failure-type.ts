@@ -0,0 +1,18 @@
+import type { MatcherReturnType } from "@playwright/test";
+
+/**
+ * Why a polled locator matcher failed:
+ * - `timeout`: no value could be read from the locator before the timeout (e.g. the element never rendered)
+ * - `mismatch`: values were read, but none of them gave the expected outcome
+ * - `locator-error`: reading the locator threw an error (e.g. a detached frame or closed page)
+ * - `strict-mode-violation`: the locator resolved to more than one element
+ */
+export type MatcherFailureType = "timeout" | "mismatch" | "locator-error" | "strict-mode-violation";
+
+/**
+ * `MatcherReturnType` extended with the failure category of polled locator matchers.
+ * Playwright keeps it on `error.matcherResult` when the assertion fails.
+ */
+export type LocatorMatcherReturnType = MatcherReturnType & {
+	failureType?: MatcherFailureType;
+};
@@ -0,0 +1,58 @@
+import type { MatcherFailureType } from "./matcher-failure-type";
+
+/**
+ * A run of consecutive poll attempts that produced the same value or threw the same error.
+ */
+export type PollHistoryEntry<TValue> = {
+	/**
+	 * The value read during these attempts. Absent when the attempts threw.
+	 */
+	value?: TValue;
+	/**
+	 * The error thrown during these attempts.
+	 */
+	error?: Error;
+	/**
+	 * 1-based number of the first attempt that produced this value.
+	 */
+	firstAttempt: number;
+	/**
+	 * 1-based number of the last attempt that produced this value.
+	 */
+	lastAttempt: number;
+	/**
+	 * Milliseconds between the start of polling and the first attempt that produced this value.
+	 */
+	elapsedMs: number;
+};
+
+export type PolledMatcherResult<TValue> = {
+	/**
+	 * Whether the matcher condition was met, with the same meaning as `MatcherReturnType.pass`.
+	 */
+	pass: boolean;
+	/**
+	 * Number of times the value was read.
+	 */
+	attempts: number;
+	/**
+	 * Total time spent polling in milliseconds.
+	 */
+	elapsedMs: number;
+	/**
+	 * Distinct values observed over time, in the order they were first seen.
+	 */
+	history: PollHistoryEntry<TValue>[];
+	/**
+	 * The value produced by the last successful read.
+	 */
+	lastValue: TValue | undefined;
+	/**
+	 * The last error thrown while reading, even if a later attempt succeeded.
+	 */
+	lastError: Error | undefined;
+	/**
+	 * Why the assertion failed, or `undefined` when it passed (taking `.not` into account).
+	 */
+	failureType: MatcherFailureType | undefined;
+};
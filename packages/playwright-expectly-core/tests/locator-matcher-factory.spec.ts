@@ -0,0 +1,182 @@
+import { expect as baseExpect, test } from "@playwright/test";
+import type { ExpectMatcherState, Locator } from "@playwright/test";
+
+import { getRejectedError } from "../../../tests/common/assertion-utils";
+import { defineLocatorMatcher } from "../src/matchers/locator-matcher-factory";
+import { withMatcherState } from "../src/matchers/matcher-state-utils";
+
+const testMatchers = withMatcherState({
+	toHaveRole: defineLocatorMatcher({
+		name: "toHaveRole",
+		arity: 1,
+		read: async (locator) => locator.getAttribute("role"),
+		check: (actual, expected: string) => actual === expected,
+		describe: ({ actual, args: [expected], isNot, utils }) =>
+			`Expected element to ${isNot ? "not " : ""}have role: ${utils.printExpected(expected)}\n` +
+			`Received: ${utils.printReceived(actual)}`,
+		hint: ([expected]) => `"${expected}"`,
+		expected: ([expected]) => `role=${expected}`,
+	}),
+	toBeHidden: defineLocatorMatcher({
+		name: "toBeHidden",
+		read: async (locator) => locator.getAttribute("hidden"),
+		check: (actual) => actual !== null,
+		describe: ({ isNot }) => `Expected element to ${isNot ? "not " : ""}be hidden`,
+	}),
+	toHaveNumericRole: defineLocatorMatcher({
+		name: "toHaveNumericRole",
+		read: async (locator) => locator.getAttribute("role"),
+		check: (actual) => {
+			if (actual === null || Number.isNaN(Number(actual))) {
+				throw new Error(`role "${String(actual)}" is not numeric`);
+			}
+			return true;
+		},
+		describe: () => "Expected element to have a numeric role",
+	}),
+});
+
+const expect = baseExpect.extend(testMatchers);
+
+// Plain text versions of the matcher utils used by `describe`
+const plainUtils = {
+	printExpected: (value: unknown) => `<${String(value)}>`,
+	printReceived: (value: unknown) => `<${String(value)}>`,
+} as unknown as ExpectMatcherState["utils"];
+
+// The matcher throws before it reads the state
+const stateStub = {} as ExpectMatcherState;
+
+test.describe("defineLocatorMatcher", () => {
+	test("should expose the number of arguments before the poll options", () => {
+		baseExpect(testMatchers.toHaveRole.arity).toBe(1);
+		baseExpect(testMatchers.toBeHidden.arity).toBe(0);
+	});
+
+	test("should derive the arity from the parameters of check", () => {
+		const matcher = defineLocatorMatcher({
+			name: "toHaveAttributeValue",
+			read: async (locator) => locator.innerText(),
+			check: (actual, name: string, value: string) => actual === `${name}=${value}`,
+			describe: () => "",
+		});
+
+		baseExpect(matcher.arity).toBe(2);
+	});
+
+	test("should throw when the arity does not match the parameters of check", () => {
+		baseExpect(() =>
+			defineLocatorMatcher({
+				name: "toHaveRole",
+				arity: 2,
+				read: async (locator) => locator.getAttribute("role"),
+				check: (actual, expected: string) => actual === expected,
+				describe: () => "",
+			}),
+		).toThrow("defineLocatorMatcher: toHaveRole declares arity 2, but check takes 1 argument after the actual value");
+	});
+
+	test("should throw when called with more arguments than the arity and poll options", async ({ page }) => {
+		await page.setContent('<button role="tab">Tab</button>');
+		const callWithExtraArgument = testMatchers.toHaveRole as unknown as (
+			this: ExpectMatcherState,
+			locator: Locator,
+			...args: unknown[]
+		) => Promise<unknown>;
+
+		await baseExpect(
+			callWithExtraArgument.call(stateStub, page.locator("button"), "tab", "link", { timeout: 100 }),
+		).rejects.toThrow("toHaveRole: expected at most 1 argument and poll options, received 3 arguments");
+	});
+
+	test("should pass the arguments before the poll options to check", async ({ page }) => {
+		await page.setContent('<button role="tab">Tab</button>');
+		const tab = page.locator("button");
+
+		await expect(tab).toHaveRole("tab", { timeout: 100 });
+		await expect(tab).not.toHaveRole("link");
+		await expect(tab).not.toBeHidden({ timeout: 100 });
+	});
+
+	test("should read and check the locator once with probe", async ({ page }) => {
+		await page.setContent('<button role="tab">Tab</button>');
+		const tab = page.locator("button");
+
+		baseExpect(await testMatchers.toHaveRole.probe(tab, ["tab", { timeout: 100 }])).toEqual({
+			pass: true,
+			actual: "tab",
+		});
+		baseExpect(await testMatchers.toHaveRole.probe(tab, ["link"])).toEqual({ pass: false, actual: "tab" });
+		await baseExpect(testMatchers.toHaveNumericRole.probe(tab, [])).rejects.toThrow('role "tab" is not numeric');
+	});
+
+	test("should build the failure message body with describe", () => {
+		baseExpect(
+			testMatchers.toHaveRole.describe({ actual: "tab", args: ["link"], isNot: false, utils: plainUtils }),
+		).toBe("Expected element to have role: <link>\nReceived: <tab>");
+		baseExpect(
+			testMatchers.toHaveRole.describe({ actual: "link", args: ["link"], isNot: true, utils: plainUtils }),
+		).toBe("Expected element to not have role: <link>\nReceived: <link>");
+	});
+
+	test("should render the hint and report the expected and actual values on a mismatch", async ({ page }) => {
+		await page.setContent('<button role="tab">Tab</button>');
+		const error = await getRejectedError(expect(page.locator("button")).toHaveRole("link", { timeout: 100 }));
+
+		// The hint text is colored, so only its parts are matched
+		baseExpect(error.message.split("\n")[0]).toMatch(/toHaveRole.*\(.*"link".*\)/);
+		baseExpect(error.message).toContain("Failure type: mismatch");
+		baseExpect(error.message).toContain("Expected element to have role:");
+		baseExpect(error.message).toContain("Value history (");
+		baseExpect(error).toHaveProperty("matcherResult.failureType", "mismatch");
+		baseExpect(error).toHaveProperty("matcherResult.expected", "role=link");
+		baseExpect(error).toHaveProperty("matcherResult.actual", "tab");
+	});
+
+	test("should describe the negated direction of a mismatch", async ({ page }) => {
+		await page.setContent('<button role="tab">Tab</button>');
+		const error = await getRejectedError(expect(page.locator("button")).not.toHaveRole("tab", { timeout: 100 }));
+
+		baseExpect(error.message).toContain("Expected element to not have role:");
+		baseExpect(error).toHaveProperty("matcherResult.failureType", "mismatch");
+	});
+
+	test("should classify a throwing check as a locator error with and without .not", async ({ page }) => {
+		await page.setContent('<button role="tab">Tab</button>');
+		const button = page.locator("button");
+
+		for (const assertion of [
+			expect(button).toHaveNumericRole({ timeout: 100 }),
+			expect(button).not.toHaveNumericRole({ timeout: 100 }),
+		]) {
+			const error = await getRejectedError(assertion);
+			baseExpect(error.message).toContain("Failure type: locator-error");
+			baseExpect(error.message).toContain('Locator error: role "tab" is not numeric');
+			baseExpect(error.message).not.toContain("Expected element to have a numeric role");
+			baseExpect(error).toHaveProperty("matcherResult.failureType", "locator-error");
+		}
+	});
+
+	test("should classify a strict mode violation with and without .not", async ({ page }) => {
+		await page.setContent('<button role="tab">A</button><button role="tab">B</button>');
+		const buttons = page.locator("button");
+
+		for (const assertion of [
+			expect(buttons).toHaveRole("tab", { timeout: 100 }),
+			expect(buttons).not.toHaveRole("tab", { timeout: 100 }),
+		]) {
+			const error = await getRejectedError(assertion);
+			baseExpect(error.message).toContain("Failure type: strict-mode-violation");
+			baseExpect(error).toHaveProperty("matcherResult.failureType", "strict-mode-violation");
+		}
+	});
+
+	test("should report a timeout when the locator cannot be read", async ({ page }) => {
+		await page.setContent("<main></main>");
+		const error = await getRejectedError(expect(page.locator("button")).toHaveRole("tab", { timeout: 100 }));
+
+		baseExpect(error.message).toContain("Failure type: timeout");
+		baseExpect(error.message).toContain("before the locator value could be read");
+		baseExpect(error).toHaveProperty("matcherResult.failureType", "timeout");
+	});
+});
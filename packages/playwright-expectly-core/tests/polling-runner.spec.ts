@@ -0,0 +1,47 @@
+import { expect as baseExpect, test } from "@playwright/test";
+import type { MatcherReturnType } from "@playwright/test";
+
+import { withMatcherState } from "../src/matchers/matcher-state-utils";
+import { runPolledMatcher, runPolledMatcherWithHistory } from "../src/matchers/polling-runner";
+
+type Counter = { value: number };
+
+const testMatchers = withMatcherState({
+	async toReachWithPoll(counter: Counter, target: number): Promise<MatcherReturnType> {
+		const pass = await runPolledMatcher(this, { timeout: 500 }, () => Promise.resolve(++counter.value >= target));
+		return { message: () => `counter is ${counter.value}`, pass };
+	},
+	async toReachWithHistory(counter: Counter, target: number): Promise<MatcherReturnType> {
+		const result = await runPolledMatcherWithHistory(
+			this,
+			{ timeout: 500 },
+			() => Promise.resolve(++counter.value),
+			(value) => value >= target,
+		);
+		return {
+			message: () => `attempts: ${result.attempts}, last value: ${String(result.lastValue)}`,
+			pass: result.pass,
+		};
+	},
+});
+
+const expect = baseExpect.extend(testMatchers);
+
+test.describe("runPolledMatcher", () => {
+	test("should resolve to whether a boolean poll reached the desired condition", async () => {
+		await expect({ value: 0 }).toReachWithPoll(3);
+		await expect({ value: 0 }).not.toReachWithPoll(1000);
+	});
+});
+
+test.describe("runPolledMatcherWithHistory", () => {
+	test("should report the attempts and the last value read", async () => {
+		const counter = { value: 0 };
+
+		await expect(counter).toReachWithHistory(3);
+		baseExpect(counter.value).toBe(3);
+		await baseExpect(expect({ value: 0 }).not.toReachWithHistory(1)).rejects.toThrow(
+			/attempts: (\d+), last value: \1$/,
+		);
+	});
+});
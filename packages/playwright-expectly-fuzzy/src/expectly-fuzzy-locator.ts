@@ -1,74 +1,35 @@
-import { runPolledMatcher, withMatcherState } from "@cerios/playwright-expectly-core";
-import { PollOptions } from "@cerios/playwright-expectly-core";
+import { defineLocatorMatcher, withMatcherState } from "@cerios/playwright-expectly-core";
+import type { LocatorMatcher, LocatorMatcherReturnType, PollOptions } from "@cerios/playwright-expectly-core";
 import { expect as baseExpect, Locator } from "@playwright/test";
 import * as fuzz from "fuzzball";
 
+const fuzzyLocatorMatcher: LocatorMatcher<[expected: string, threshold: number]> = defineLocatorMatcher({
+	name: "toMatchFuzzy",
+	arity: 2,
+	read: async (locator) => locator.innerText(),
+	check: (actual: string, expected: string, threshold: number) => fuzz.token_sort_ratio(actual, expected) >= threshold,
+	expected: ([expected]) => expected,
+	describe: ({ actual = "", args: [expected, threshold], isNot, utils }) =>
+		`Expected locator text to ${isNot ? "not " : ""}fuzzy match: ${utils.printExpected(expected)}\n` +
+		`Received: ${utils.printReceived(actual)}\n` +
+		`Similarity score: ${fuzz.token_sort_ratio(actual, expected)} (threshold: ${threshold})`,
+});
+
 /**
  * Expectly Custom matcher for fuzzy locator text validation.
  */
 export const expectlyFuzzyLocatorMatchers = withMatcherState({
-	async toMatchFuzzy(locator: Locator, expected: string, threshold = 80, options?: PollOptions) {
-		const assertionName = "toMatchFuzzy";
-		let pass: boolean = false;
-		let actual: string = "";
-		let score: number = 0;
-		let locatorError: Error | undefined;
-
+	async toMatchFuzzy(
+		locator: Locator,
+		expected: string,
+		threshold = 80,
+		options?: PollOptions,
+	): Promise<LocatorMatcherReturnType> {
 		if (typeof threshold !== "number" || !Number.isFinite(threshold) || threshold < 0 || threshold > 100) {
-			throw new Error(
-				`${assertionName}: threshold must be a finite number between 0 and 100, got: ${String(threshold)}`,
-			);
-		}
-
-		pass = await runPolledMatcher(this, options, async () => {
-			try {
-				actual = await locator.innerText();
-				score = fuzz.token_sort_ratio(actual, expected);
-				return score >= threshold;
-			} catch (e: unknown) {
-				locatorError = e instanceof Error ? e : new Error(String(e));
-				throw e;
-			}
-		});
-		if (locatorError) {
-			throw locatorError;
+			throw new Error(`toMatchFuzzy: threshold must be a finite number between 0 and 100, got: ${String(threshold)}`);
 		}
 
-		const message = (): string => {
-			const hint = this.utils.matcherHint(assertionName, undefined, undefined, {
-				isNot: this.isNot,
-			});
-
-			if (pass && this.isNot) {
-				return (
-					hint +
-					"\n\n" +
-					`Expected locator text to not fuzzy match: ${this.utils.printExpected(expected)}\n` +
-					`Received: ${this.utils.printReceived(actual)}\n` +
-					`Similarity score: ${score} (threshold: ${threshold})`
-				);
-			}
-
-			if (!pass && !this.isNot) {
-				return (
-					hint +
-					"\n\n" +
-					`Expected locator text to fuzzy match: ${this.utils.printExpected(expected)}\n` +
-					`Received: ${this.utils.printReceived(actual)}\n` +
-					`Similarity score: ${score} (threshold: ${threshold})`
-				);
-			}
-
-			return hint;
-		};
-
-		return {
-			message,
-			pass,
-			name: assertionName,
-			expected,
-			actual,
-		};
+		return fuzzyLocatorMatcher.call(this, locator, expected, threshold, options);
 	},
 });
 
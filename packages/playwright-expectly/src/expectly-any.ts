@@ -1,13 +1,27 @@
-import type { ExpectMatcherState, MatcherReturnType } from "@playwright/test";
-import { expect as baseExpect } from "@playwright/test";
-
-import type { PartialMatchOptions } from "./types/matcher-types";
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { dirname, resolve } from "node:path";
+
+import type { ExpectMatcherState, FullConfig, MatcherReturnType } from "@playwright/test";
+import { expect as baseExpect, test } from "@playwright/test";
+
+import { formatJsonPointer, validateJsonSchema } from "./matchers/json-schema";
+import type { JsonSchemaViolation } from "./matchers/json-schema";
+import { compilePathPattern } from "./matchers/property-path";
+import type {
+	JsonSchema,
+	PartialMatchArrayMode,
+	PartialMatchComparator,
+	PartialMatchOptions,
+} from "./types/matcher-types";
 
 const MAX_RECEIVED_ARRAY_LINES = 100;
 const MAX_RECEIVED_ARRAY_ITEMS = 25;
 const MAX_RECEIVED_OBJECT_KEYS = 25;
 const MAX_RECEIVED_PREVIEW_DEPTH = 3;
 const MAX_RECEIVED_STRING_LENGTH = 500;
+const MAX_LISTED_SCHEMA_VIOLATIONS = 50;
+const FIXTURE_UPDATE_HINT = "Run with --update-snapshots to write the received subset to the fixture file.";
+const ISO_DATE_STRING = /^\d{4}-\d{2}-\d{2}(?:[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?$/;
 
 /**
  * Expectly Custom matchers for any type validations.
@@ -313,63 +327,123 @@ export const expectlyAnyMatchers = {
 		options?: PartialMatchOptions,
 	): MatcherReturnType {
 		const assertionName = "toEqualPartially";
-		const { validatedOptions, optionsValidationError } = getValidatedPartialMatchOptions(options);
-		const extractionState: ExtractionState = {
-			allArrayItemsMatchedOneToOne: true,
-			allExplicitUndefinedKeysExist: true,
-			requireExplicitUndefinedKeyPresence: validatedOptions.requireExplicitUndefinedKeyPresence ?? false,
-			arrayMode: validatedOptions.arrayMode ?? "subset",
-			arrayMismatchDetails: [],
-			arrayReports: [],
+		const partialMatch = evaluatePartialMatch(this, actual, expected, options);
+
+		const message = (): string => {
+			const hint = this.utils.matcherHint(assertionName, undefined, undefined, {
+				isNot: this.isNot,
+			});
+
+			return partialMatch.message(hint);
+		};
+
+		return {
+			message,
+			pass: partialMatch.pass,
+			name: assertionName,
+			expected,
+			actual: partialMatch.actualSubset,
 		};
+	},
+	toEqualPartiallyFile(
+		this: ExpectMatcherState,
+		actual: unknown,
+		fixturePath: string,
+		options?: PartialMatchOptions,
+	): MatcherReturnType {
+		const assertionName = "toEqualPartiallyFile";
+		if (typeof fixturePath !== "string" || fixturePath === "") {
+			throw new Error(`${assertionName}: expected a fixture file path, received ${String(fixturePath)}`);
+		}
+
+		const { baseDir, updateSnapshots } = getFixtureContext();
+		const absolutePath = resolve(baseDir, fixturePath);
+		const hint = (): string =>
+			this.utils.matcherHint(assertionName, undefined, "fixturePath", {
+				isNot: this.isNot,
+			});
+
+		if (!existsSync(absolutePath)) {
+			// Like a new Playwright snapshot, a missing fixture is written and fails once, unless all fixtures are updated
+			if (!this.isNot && updateSnapshots !== "none") {
+				writeFixtureFile(absolutePath, actual, "\t");
+				const pass = updateSnapshots !== "missing";
+
+				return {
+					message: () =>
+						`${hint()}\n\nFixture file ${absolutePath} does not exist, writing the received value.` +
+						(pass ? "" : "\n\nRun the test again to compare against the new fixture."),
+					pass,
+					name: assertionName,
+					actual,
+				};
+			}
 
-		if (optionsValidationError) {
 			return {
-				message: () => {
-					const hint = this.utils.matcherHint(assertionName, undefined, undefined, {
-						isNot: this.isNot,
-					});
-					return `${hint}\n\n${optionsValidationError}`;
-				},
+				message: () => `${hint()}\n\nFixture file ${absolutePath} does not exist.\n\n${FIXTURE_UPDATE_HINT}`,
 				pass: this.isNot,
 				name: assertionName,
-				expected,
 				actual,
 			};
 		}
 
-		// Extract only the expected fields from actual for comparison
-		const actualSubset = extractMatchingStructure(actual, expected, extractionState, "$");
-		const comparison = compareExtractedSubset(actualSubset, expected);
-		const finalComparison = applyExtractionStateConstraints(comparison, extractionState);
+		const fixture = readFixtureFile(absolutePath);
+		if (!fixture.parsed) {
+			return {
+				message: () => `${hint()}\n\nFixture file ${absolutePath} is not valid JSON: ${fixture.error}`,
+				pass: this.isNot,
+				name: assertionName,
+				actual,
+			};
+		}
+
+		const partialMatch = evaluatePartialMatch(this, actual, fixture.value, options);
+		if (!this.isNot && shouldUpdateFixture(updateSnapshots, partialMatch.pass)) {
+			writeFixtureFile(absolutePath, partialMatch.actualSubset, fixture.indent, fixture.content);
+
+			return {
+				message: () => `${hint()}\n\nUpdated fixture file ${absolutePath}`,
+				pass: true,
+				name: assertionName,
+				expected: fixture.value,
+				actual: partialMatch.actualSubset,
+			};
+		}
+
+		const message = (): string => {
+			const body = partialMatch.message(hint());
+			return this.isNot ? body : `${body}\n\nFixture: ${absolutePath}\n${FIXTURE_UPDATE_HINT}`;
+		};
+
+		return {
+			message,
+			pass: partialMatch.pass,
+			name: assertionName,
+			expected: fixture.value,
+			actual: partialMatch.actualSubset,
+		};
+	},
+	toMatchJsonSchema(this: ExpectMatcherState, actual: unknown, schema: JsonSchema): MatcherReturnType {
+		const assertionName = "toMatchJsonSchema";
+		const violations = validateJsonSchema(actual, schema);
+		const pass = violations.length === 0;
 
 		const message = (): string => {
 			const hint = this.utils.matcherHint(assertionName, undefined, undefined, {
 				isNot: this.isNot,
 			});
 
-			if (finalComparison.pass && this.isNot) {
+			if (pass && this.isNot) {
 				return (
 					hint +
 					"\n\n" +
-					"Expected value to not partially match:\n" +
-					this.utils.printExpected(expected) +
-					"\n\n" +
-					"Received:\n" +
-					this.utils.printReceived(actual)
+					"Expected value to not match the JSON Schema\n\n" +
+					formatArraySectionItem("Received", buildReceivedPreview(this, actual))
 				);
 			}
 
-			if (!finalComparison.pass && !this.isNot) {
-				if (extractionState.arrayReports.length > 0) {
-					return buildArrayFailureMessage(this, hint, expected, actualSubset, extractionState);
-				}
-
-				// Parse the error to extract just the diff portion
-				const diffMatch = finalComparison.comparisonError.match(/(?:- Expected.*\n[\s\S]*)/);
-				const diffOnly = diffMatch ? diffMatch[0] : finalComparison.comparisonError;
-
-				return `${hint} // partial match (${extractionState.arrayMode})\n\n${diffOnly}`;
+			if (!pass && !this.isNot) {
+				return buildJsonSchemaFailureMessage(this, hint, actual, violations);
 			}
 
 			return hint;
@@ -377,16 +451,166 @@ export const expectlyAnyMatchers = {
 
 		return {
 			message,
-			pass: finalComparison.pass,
+			pass,
 			name: assertionName,
-			expected,
-			actual: actualSubset,
+			expected: schema,
+			actual,
 		};
 	},
 };
 
 export const expectlyAny = baseExpect.extend(expectlyAnyMatchers);
 
+type UpdateSnapshotsMode = FullConfig["updateSnapshots"];
+
+type FixtureFile = { parsed: true; value: unknown; content: string; indent: string } | { parsed: false; error: string };
+
+/**
+ * Fixture paths resolve relative to the running test file; outside a test, relative to the working directory
+ */
+function getFixtureContext(): { baseDir: string; updateSnapshots: UpdateSnapshotsMode } {
+	try {
+		const testInfo = test.info();
+		return { baseDir: dirname(testInfo.file), updateSnapshots: testInfo.config.updateSnapshots };
+	} catch {
+		return { baseDir: process.cwd(), updateSnapshots: "none" };
+	}
+}
+
+/**
+ * Mirrors Playwright snapshots: "all" rewrites every fixture, "changed" only the ones that no longer match
+ */
+function shouldUpdateFixture(updateSnapshots: UpdateSnapshotsMode, pass: boolean): boolean {
+	return updateSnapshots === "all" || (updateSnapshots === "changed" && !pass);
+}
+
+function readFixtureFile(filePath: string): FixtureFile {
+	const content = readFileSync(filePath, "utf8");
+	try {
+		return { parsed: true, value: JSON.parse(content) as unknown, content, indent: detectJsonIndent(content) };
+	} catch (error: unknown) {
+		return { parsed: false, error: error instanceof Error ? error.message : String(error) };
+	}
+}
+
+function detectJsonIndent(content: string): string {
+	return /^[ \t]+/m.exec(content)?.[0] ?? "\t";
+}
+
+function writeFixtureFile(filePath: string, value: unknown, indent: string, previousContent?: string): void {
+	const content = `${JSON.stringify(value, null, indent) ?? "null"}\n`;
+	if (content === previousContent) {
+		return;
+	}
+
+	mkdirSync(dirname(filePath), { recursive: true });
+	writeFileSync(filePath, content, "utf8");
+}
+
+export type PartialMatchResult = {
+	pass: boolean;
+	/** The fields of actual that were compared against expected */
+	actualSubset: unknown;
+	/** Builds the failure message below the given matcher hint */
+	message: (hint: string) => string;
+};
+
+/**
+ * Runs the `toEqualPartially()` extraction and comparison, so other matchers can partially match values
+ * (e.g. response bodies) with the same semantics and failure messages.
+ */
+export function evaluatePartialMatch(
+	matcherState: ExpectMatcherState,
+	actual: unknown,
+	expected: unknown,
+	options?: PartialMatchOptions,
+): PartialMatchResult {
+	const { validatedOptions, optionsValidationError } = getValidatedPartialMatchOptions(options);
+	const extractionState: ExtractionState = {
+		allArrayItemsMatchedOneToOne: true,
+		allExplicitUndefinedKeysExist: true,
+		allActualKeysExpected: true,
+		requireExplicitUndefinedKeyPresence: validatedOptions.requireExplicitUndefinedKeyPresence ?? false,
+		arrayModes: buildArrayModeSelection(validatedOptions),
+		valueComparison: buildValueComparison(validatedOptions),
+		keyScope: buildKeyScope(validatedOptions),
+		arrayMismatchDetails: [],
+		arrayReports: [],
+	};
+
+	if (optionsValidationError) {
+		return {
+			pass: matcherState.isNot,
+			actualSubset: actual,
+			message: (hint) => `${hint}\n\n${optionsValidationError}`,
+		};
+	}
+
+	// Extract only the expected fields from actual for comparison
+	const actualSubset = extractMatchingStructure(actual, expected, extractionState, "$");
+	const comparison = compareExtractedSubset(actualSubset, expected);
+	const finalComparison = applyExtractionStateConstraints(comparison, extractionState);
+
+	const message = (hint: string): string => {
+		if (finalComparison.pass && matcherState.isNot) {
+			return (
+				hint +
+				"\n\n" +
+				"Expected value to not partially match:\n" +
+				matcherState.utils.printExpected(expected) +
+				"\n\n" +
+				"Received:\n" +
+				matcherState.utils.printReceived(actual)
+			);
+		}
+
+		if (!finalComparison.pass && !matcherState.isNot) {
+			if (extractionState.arrayReports.length > 0) {
+				return buildArrayFailureMessage(matcherState, hint, expected, actualSubset, extractionState);
+			}
+
+			// Parse the error to extract just the diff portion
+			const diffMatch = finalComparison.comparisonError.match(/(?:- Expected.*\n[\s\S]*)/);
+			const diffOnly = diffMatch ? diffMatch[0] : finalComparison.comparisonError;
+
+			const keyScopeText = formatKeyScope(extractionState.keyScope);
+			return [`${hint} // partial match (${extractionState.arrayModes.label})`, keyScopeText, diffOnly]
+				.filter((section) => section !== undefined)
+				.join("\n\n");
+		}
+
+		return hint;
+	};
+
+	return { pass: finalComparison.pass, actualSubset, message };
+}
+
+function buildReceivedPreview(matcherState: ExpectMatcherState, value: unknown): string {
+	return prettyPrintReceivedValue(matcherState, buildReceivedPreviewValue(value));
+}
+
+function buildJsonSchemaFailureMessage(
+	matcherState: ExpectMatcherState,
+	hint: string,
+	actual: unknown,
+	violations: JsonSchemaViolation[],
+): string {
+	const listed = violations
+		.slice(0, MAX_LISTED_SCHEMA_VIOLATIONS)
+		.map((violation) => `- ${formatJsonPointer(violation.pointer)}: ${violation.message}`);
+	if (violations.length > MAX_LISTED_SCHEMA_VIOLATIONS) {
+		listed.push(`... ${violations.length - MAX_LISTED_SCHEMA_VIOLATIONS} more`);
+	}
+
+	return [
+		`${hint} // JSON Schema`,
+		`Expected value to match the JSON Schema, but found ${violations.length} violation(s)`,
+		`First failing path: ${formatJsonPointer(violations[0].pointer)}`,
+		`Violations:\n${indentBlock(listed.join("\n"))}`,
+		formatArraySectionItem("Received", buildReceivedPreview(matcherState, actual)),
+	].join("\n\n");
+}
+
 /**
  * Extracts a subset of the actual value that matches the structure of expected.
  * This allows us to compare only the relevant fields and get a clean diff.
@@ -412,13 +636,49 @@ function isStructuredValue(value: unknown): boolean {
 type ExtractionState = {
 	allArrayItemsMatchedOneToOne: boolean;
 	allExplicitUndefinedKeysExist: boolean;
+	allActualKeysExpected: boolean;
 	requireExplicitUndefinedKeyPresence: boolean;
-	arrayMode: ArrayMatchMode;
+	arrayModes: ArrayModeSelection;
+	valueComparison: ValueComparison;
+	keyScope: KeyScope;
 	arrayMismatchDetails: string[];
 	arrayReports: ArrayMatchReport[];
 };
 
-type ArrayMatchMode = "subset" | "exactLength" | "exactOrder";
+type ArrayMatchMode = PartialMatchArrayMode;
+
+const ARRAY_MATCH_MODES: ArrayMatchMode[] = ["subset", "exactLength", "exactOrder", "orderedSubset"];
+
+/**
+ * The array mode for every array path: the first matching override, otherwise the default mode
+ */
+type ArrayModeSelection = {
+	defaultMode: ArrayMatchMode;
+	overrides: Array<{ pattern: RegExp; mode: ArrayMatchMode }>;
+	/** Shown in the matcher hint, e.g. "subset" or "events: orderedSubset, tags: subset" */
+	label: string;
+};
+
+/**
+ * How values are compared besides deep equality; equivalent actual values are replaced by the expected value
+ */
+type ValueComparison = {
+	comparators: Array<{ pattern: RegExp; compare: PartialMatchComparator }>;
+	numericTolerance: number | undefined;
+	ignoreCase: boolean;
+	dateEquivalence: boolean;
+};
+
+/**
+ * Paths that are skipped entirely, and object paths that may not have keys missing from expected
+ */
+type KeyScope = {
+	ignoredPaths: RegExp[];
+	strictKeyPaths: RegExp[];
+	/** Original patterns, shown in failure messages */
+	ignorePatterns: string[];
+	strictKeyPatterns: string[];
+};
 
 type ArrayMatchReport = {
 	path: string;
@@ -452,13 +712,20 @@ function validatePartialMatchOptions(options: PartialMatchOptions | undefined):
 	}
 
 	const candidate = options as Record<string, unknown>;
-	const allowedKeys = new Set(["requireExplicitUndefinedKeyPresence", "arrayMode"]);
+	const allowedKeys = [
+		"requireExplicitUndefinedKeyPresence",
+		"arrayMode",
+		"comparators",
+		"numericTolerance",
+		"ignoreCase",
+		"dateEquivalence",
+		"ignorePaths",
+		"strictKeys",
+	];
 
 	for (const key of Object.keys(candidate)) {
-		if (!allowedKeys.has(key)) {
-			throw new Error(
-				`toEqualPartially: unknown option "${key}". Allowed options: requireExplicitUndefinedKeyPresence, arrayMode.`,
-			);
+		if (!allowedKeys.includes(key)) {
+			throw new Error(`toEqualPartially: unknown option "${key}". Allowed options: ${allowedKeys.join(", ")}.`);
 		}
 	}
 
@@ -469,16 +736,143 @@ function validatePartialMatchOptions(options: PartialMatchOptions | undefined):
 		throw new Error('toEqualPartially: option "requireExplicitUndefinedKeyPresence" must be a boolean when provided.');
 	}
 
+	validateArrayModeOption(candidate.arrayMode);
+
+	validateValueComparisonOptions(candidate);
+	validateKeyScopeOptions(candidate);
+
+	return options;
+}
+
+function isArrayMatchMode(value: unknown): value is ArrayMatchMode {
+	return ARRAY_MATCH_MODES.some((mode) => mode === value);
+}
+
+function validateArrayModeOption(arrayMode: unknown): void {
+	if (arrayMode === undefined || isArrayMatchMode(arrayMode)) {
+		return;
+	}
+
+	const modeList = ARRAY_MATCH_MODES.join(", ");
+	if (!isPlainObject(arrayMode)) {
+		throw new Error(
+			`toEqualPartially: option "arrayMode" must be one of: ${modeList}, or an object of path patterns to modes.`,
+		);
+	}
+
+	for (const [path, mode] of Object.entries(arrayMode)) {
+		if (!isArrayMatchMode(mode)) {
+			throw new Error(`toEqualPartially: arrayMode for "${path}" must be one of: ${modeList}.`);
+		}
+	}
+	validatePathPatterns("arrayMode", Object.keys(arrayMode));
+}
+
+function buildArrayModeSelection(options: PartialMatchOptions): ArrayModeSelection {
+	const { arrayMode = "subset" } = options;
+	if (typeof arrayMode === "string") {
+		return { defaultMode: arrayMode, overrides: [], label: arrayMode };
+	}
+
+	const entries = Object.entries(arrayMode);
+	return {
+		defaultMode: "subset",
+		overrides: entries.map(([path, mode]) => ({ pattern: compilePathPattern(path), mode })),
+		label: entries.map(([path, mode]) => `${path}: ${mode}`).join(", ") || "subset",
+	};
+}
+
+function resolveArrayMode(state: ExtractionState, path: string): ArrayMatchMode {
+	const override = state.arrayModes.overrides.find(({ pattern }) => pattern.test(path));
+	return override?.mode ?? state.arrayModes.defaultMode;
+}
+
+function validateValueComparisonOptions(candidate: Record<string, unknown>): void {
+	const { comparators, numericTolerance } = candidate;
+
+	if (comparators !== undefined) {
+		if (!isPlainObject(comparators)) {
+			throw new Error('toEqualPartially: option "comparators" must be an object of path patterns to functions.');
+		}
+		for (const [path, compare] of Object.entries(comparators)) {
+			if (typeof compare !== "function") {
+				throw new Error(`toEqualPartially: comparator for "${path}" must be a function.`);
+			}
+		}
+		validatePathPatterns("comparators", Object.keys(comparators));
+	}
+
 	if (
-		candidate.arrayMode !== undefined &&
-		candidate.arrayMode !== "subset" &&
-		candidate.arrayMode !== "exactLength" &&
-		candidate.arrayMode !== "exactOrder"
+		numericTolerance !== undefined &&
+		(typeof numericTolerance !== "number" || !Number.isFinite(numericTolerance) || numericTolerance < 0)
 	) {
-		throw new Error('toEqualPartially: option "arrayMode" must be one of: subset, exactLength, exactOrder.');
+		throw new Error('toEqualPartially: option "numericTolerance" must be a non-negative number when provided.');
 	}
 
-	return options;
+	for (const key of ["ignoreCase", "dateEquivalence"]) {
+		if (candidate[key] !== undefined && typeof candidate[key] !== "boolean") {
+			throw new Error(`toEqualPartially: option "${key}" must be a boolean when provided.`);
+		}
+	}
+}
+
+function validateKeyScopeOptions(candidate: Record<string, unknown>): void {
+	const { ignorePaths, strictKeys } = candidate;
+
+	if (ignorePaths !== undefined) {
+		if (!Array.isArray(ignorePaths) || ignorePaths.some((path) => typeof path !== "string")) {
+			throw new Error('toEqualPartially: option "ignorePaths" must be an array of path patterns.');
+		}
+		validatePathPatterns("ignorePaths", ignorePaths);
+	}
+
+	if (strictKeys !== undefined && typeof strictKeys !== "boolean") {
+		if (!Array.isArray(strictKeys) || strictKeys.some((path) => typeof path !== "string")) {
+			throw new Error('toEqualPartially: option "strictKeys" must be a boolean or an array of path patterns.');
+		}
+		validatePathPatterns("strictKeys", strictKeys);
+	}
+}
+
+function validatePathPatterns(optionName: string, patterns: string[]): void {
+	for (const pattern of patterns) {
+		try {
+			compilePathPattern(pattern);
+		} catch (error: unknown) {
+			throw new Error(
+				`toEqualPartially: ${error instanceof Error ? error.message : String(error)} in "${optionName}".`,
+			);
+		}
+	}
+}
+
+function buildKeyScope(options: PartialMatchOptions): KeyScope {
+	const ignorePatterns = options.ignorePaths ?? [];
+	// `true` checks every object, "**" matches every path
+	const strictKeyPatterns = Array.isArray(options.strictKeys) ? options.strictKeys : options.strictKeys ? ["**"] : [];
+
+	return {
+		ignoredPaths: ignorePatterns.map((pattern) => compilePathPattern(pattern)),
+		strictKeyPaths: strictKeyPatterns.map((pattern) => compilePathPattern(pattern)),
+		ignorePatterns,
+		strictKeyPatterns,
+	};
+}
+
+function isIgnoredPath(state: ExtractionState, path: string): boolean {
+	return state.keyScope.ignoredPaths.some((pattern) => pattern.test(path));
+}
+
+function buildValueComparison(options: PartialMatchOptions): ValueComparison {
+	return {
+		comparators: Object.entries(options.comparators ?? {}).map(([path, compare]) => ({
+			pattern: compilePathPattern(path),
+			compare,
+		})),
+		numericTolerance: options.numericTolerance,
+		ignoreCase: options.ignoreCase ?? false,
+		dateEquivalence: options.dateEquivalence ?? false,
+	};
 }
 
 function formatExpectedValue(value: unknown): string {
@@ -552,6 +946,11 @@ function applyExtractionStateConstraints(
 			"Expected key explicitly set to undefined is missing in actual value. In toEqualPartially, explicit undefined requires key presence.";
 	}
 
+	if (pass && !state.allActualKeysExpected) {
+		pass = false;
+		comparisonError = `Actual value has keys that are not in expected (strictKeys).\n${state.arrayMismatchDetails.join("\n")}`;
+	}
+
 	return { pass, comparisonError };
 }
 
@@ -559,8 +958,11 @@ function createIsolatedExtractionState(state: ExtractionState): ExtractionState
 	return {
 		allArrayItemsMatchedOneToOne: true,
 		allExplicitUndefinedKeysExist: true,
+		allActualKeysExpected: true,
 		requireExplicitUndefinedKeyPresence: state.requireExplicitUndefinedKeyPresence,
-		arrayMode: state.arrayMode,
+		arrayModes: state.arrayModes,
+		valueComparison: state.valueComparison,
+		keyScope: state.keyScope,
 		arrayMismatchDetails: [],
 		arrayReports: [],
 	};
@@ -592,6 +994,10 @@ function registerUnmatchedExpectedIndex(
 	);
 }
 
+function isExtractionStateSatisfied(state: ExtractionState): boolean {
+	return state.allArrayItemsMatchedOneToOne && state.allExplicitUndefinedKeysExist && state.allActualKeysExpected;
+}
+
 function mergeExtractionState(targetState: ExtractionState, sourceState: ExtractionState): void {
 	for (const detail of sourceState.arrayMismatchDetails) {
 		pushArrayMismatchDetail(targetState, detail);
@@ -820,7 +1226,9 @@ function findFirstMismatchPath(actual: unknown, expected: unknown, path: string)
 			}
 		}
 
-		return undefined;
+		// Keys only in actual were added by strictKeys
+		const unexpectedKey = Object.keys(actual).find((key) => !(key in expected));
+		return unexpectedKey === undefined ? undefined : `${path}.${unexpectedKey}`;
 	}
 
 	return scoreExactMatch(actual, expected) === 1 ? undefined : path;
@@ -1047,6 +1455,20 @@ function formatFailureRoute(route: Array<ArrayMatchReport>): string | undefined
 	return lines.length > 0 ? lines.join("\n") : undefined;
 }
 
+function formatKeyScope(keyScope: KeyScope): string | undefined {
+	const lines: string[] = [];
+
+	if (keyScope.ignorePatterns.length > 0) {
+		lines.push(`Ignored paths: ${keyScope.ignorePatterns.join(", ")}`);
+	}
+
+	if (keyScope.strictKeyPatterns.length > 0) {
+		lines.push(`Strict keys: ${keyScope.strictKeyPatterns.join(", ")}`);
+	}
+
+	return lines.length > 0 ? lines.join("\n") : undefined;
+}
+
 function splitLines(text: string): string[] {
 	return text.split(/\r?\n/);
 }
@@ -1128,6 +1550,11 @@ function formatPrimaryArrayFailure(
 		`Failing array: ${report.path} (ArrayMatchMode: ${report.mode})`,
 	];
 
+	const keyScopeText = formatKeyScope(state.keyScope);
+	if (keyScopeText) {
+		sections.push(keyScopeText);
+	}
+
 	const routeText = formatFailureRoute(route);
 	if (routeText) {
 		sections.push(`Match route:\n${indentBlock(routeText)}`);
@@ -1165,7 +1592,7 @@ function buildArrayFailureMessage(
 	actualSubset: unknown,
 	state: ExtractionState,
 ): string {
-	const sections = [`${hint} // partial match (${state.arrayMode})`];
+	const sections = [`${hint} // partial match (${state.arrayModes.label})`];
 	const primaryFailure = findPrimaryFailure(state, actualSubset, expected);
 
 	if (primaryFailure) {
@@ -1190,6 +1617,10 @@ function buildArrayFailureMessage(
 			sections.push(`Call log:\n${indentBlock(callLogEntries.map((detail) => `- ${detail}`).join("\n"))}`);
 		}
 	} else {
+		const keyScopeText = formatKeyScope(state.keyScope);
+		if (keyScopeText) {
+			sections.push(keyScopeText);
+		}
 		sections.push(formatArraySectionItem("Expected", matcherState.utils.printExpected(expected)));
 		sections.push(formatArraySectionItem("Received partial", matcherState.utils.printReceived(actualSubset)));
 
@@ -1206,11 +1637,9 @@ function checkArrayLengthForMode(
 	expectedArray: unknown[],
 	state: ExtractionState,
 	path: string,
+	mode: ArrayMatchMode,
 ): void {
-	if (
-		(state.arrayMode === "exactLength" || state.arrayMode === "exactOrder") &&
-		actualArray.length !== expectedArray.length
-	) {
+	if ((mode === "exactLength" || mode === "exactOrder") && actualArray.length !== expectedArray.length) {
 		state.allArrayItemsMatchedOneToOne = false;
 		pushArrayMismatchDetail(
 			state,
@@ -1219,49 +1648,162 @@ function checkArrayLengthForMode(
 	}
 }
 
+type PairMatch = {
+	/** "nested" when the item matched but a nested array or key constraint failed */
+	status: "matched" | "nested" | "mismatch";
+	extractedItem: unknown;
+	pairState: ExtractionState;
+};
+
+function matchArrayPair(
+	actualItem: unknown,
+	expectedItem: unknown,
+	state: ExtractionState,
+	indexedPath: string,
+): PairMatch {
+	const pairState = createIsolatedExtractionState(state);
+	const extractedItem = extractMatchingStructure(actualItem, expectedItem, pairState, indexedPath);
+
+	try {
+		baseExpect(extractedItem).toEqual(expectedItem);
+	} catch {
+		return { status: "mismatch", extractedItem, pairState };
+	}
+
+	return { status: isExtractionStateSatisfied(pairState) ? "matched" : "nested", extractedItem, pairState };
+}
+
+/**
+ * Finds the first actual item at or after `fromIndex` that fully matches the expected item
+ */
+function findNextOrderedMatch(
+	actualArray: unknown[],
+	expectedItem: unknown,
+	state: ExtractionState,
+	indexedPath: string,
+	fromIndex: number,
+): { actualIndex: number; pairMatch: PairMatch } | undefined {
+	for (let actualIndex = fromIndex; actualIndex < actualArray.length; actualIndex++) {
+		const pairMatch = matchArrayPair(actualArray[actualIndex], expectedItem, state, indexedPath);
+		if (pairMatch.status === "matched") {
+			return { actualIndex, pairMatch };
+		}
+	}
+
+	return undefined;
+}
+
+function registerOrderedSubsetMiss(
+	actualArray: unknown[],
+	expectedItem: unknown,
+	state: ExtractionState,
+	report: ArrayMatchReport,
+	path: string,
+	index: number,
+	nextActualIndex: number,
+): unknown {
+	const indexedPath = `${path}[${index}]`;
+	const earlierMatch = findNextOrderedMatch(actualArray.slice(0, nextActualIndex), expectedItem, state, indexedPath, 0);
+	if (earlierMatch) {
+		pushArrayMismatchDetail(
+			state,
+			`Order mismatch at ${indexedPath}: expected item matches actual[${earlierMatch.actualIndex}], before the previous expected item's match at actual[${nextActualIndex - 1}].`,
+		);
+		registerUnmatchedExpectedIndex(
+			state,
+			report,
+			path,
+			index,
+			expectedItem,
+			earlierMatch.actualIndex,
+			earlierMatch.pairMatch.extractedItem,
+			100,
+		);
+		// Leave a gap so the failing path points at this item
+		return undefined;
+	}
+
+	const usedActualIndexes = new Set(report.matchedPairs.map((pair) => pair.actualIndex));
+	const diagnosticIndex = findBestDiagnosticActualIndex(actualArray, expectedItem, usedActualIndexes);
+	if (diagnosticIndex === undefined) {
+		registerUnmatchedExpectedIndex(state, report, path, index, expectedItem);
+		return undefined;
+	}
+
+	const diagnosticState = createIsolatedExtractionState(state);
+	const diagnosticItem = extractMatchingStructure(
+		actualArray[diagnosticIndex],
+		expectedItem,
+		diagnosticState,
+		indexedPath,
+	);
+	mergeExtractionState(state, diagnosticState);
+	registerUnmatchedExpectedIndex(
+		state,
+		report,
+		path,
+		index,
+		expectedItem,
+		diagnosticIndex,
+		diagnosticItem,
+		undefined,
+		getDeepestNestedMismatchPath(diagnosticState),
+	);
+	return diagnosticItem;
+}
+
+/**
+ * Matches expected items in order: at the same index for "exactOrder", or at increasing
+ * actual indexes with gaps allowed for "orderedSubset"
+ */
 function buildExactOrderArraySubset(
 	actualArray: unknown[],
 	expectedArray: unknown[],
 	state: ExtractionState,
 	path: string,
+	mode: "exactOrder" | "orderedSubset",
 ): unknown[] {
 	const result: unknown[] = [];
-	const report = createArrayMatchReport(path, state.arrayMode, expectedArray, actualArray);
+	const report = createArrayMatchReport(path, mode, expectedArray, actualArray);
 	state.arrayReports.push(report);
+	let nextActualIndex = 0;
 
 	for (let index = 0; index < expectedArray.length; index++) {
 		const expectedItem = expectedArray[index];
-		const actualItem = actualArray[index];
 		const indexedPath = `${path}[${index}]`;
 
+		if (mode === "orderedSubset") {
+			const orderedMatch = findNextOrderedMatch(actualArray, expectedItem, state, indexedPath, nextActualIndex);
+			if (!orderedMatch) {
+				result.push(registerOrderedSubsetMiss(actualArray, expectedItem, state, report, path, index, nextActualIndex));
+				continue;
+			}
+
+			nextActualIndex = orderedMatch.actualIndex + 1;
+			mergeExtractionState(state, orderedMatch.pairMatch.pairState);
+			report.matchedPairs.push({
+				expectedIndex: index,
+				actualIndex: orderedMatch.actualIndex,
+				expectedItem,
+				actualItem: actualArray[orderedMatch.actualIndex],
+				extractedActual: orderedMatch.pairMatch.extractedItem,
+			});
+			result.push(orderedMatch.pairMatch.extractedItem);
+			continue;
+		}
+
 		if (index >= actualArray.length) {
 			registerUnmatchedExpectedIndex(state, report, path, index, expectedItem);
 			result.push(undefined);
 			continue;
 		}
 
-		try {
-			const pairState = createIsolatedExtractionState(state);
-			const extractedItem = extractMatchingStructure(actualItem, expectedItem, pairState, indexedPath);
-			baseExpect(extractedItem).toEqual(expectedItem);
-			if (!pairState.allArrayItemsMatchedOneToOne || !pairState.allExplicitUndefinedKeysExist) {
-				mergeExtractionState(state, pairState);
-				registerUnmatchedExpectedIndex(
-					state,
-					report,
-					path,
-					index,
-					expectedItem,
-					undefined,
-					undefined,
-					undefined,
-					getDeepestNestedMismatchPath(pairState),
-				);
-				result.push(extractedItem);
-				continue;
-			}
+		const actualItem = actualArray[index];
+		const { status, extractedItem, pairState } = matchArrayPair(actualItem, expectedItem, state, indexedPath);
+		mergeExtractionState(state, pairState);
+		result.push(extractedItem);
 
-			mergeExtractionState(state, pairState);
+		if (status === "matched") {
 			report.matchedPairs.push({
 				expectedIndex: index,
 				actualIndex: index,
@@ -1269,11 +1811,19 @@ function buildExactOrderArraySubset(
 				actualItem,
 				extractedActual: extractedItem,
 			});
-			result.push(extractedItem);
-		} catch {
-			const diagnosticState = createIsolatedExtractionState(state);
-			const diagnosticItem = extractMatchingStructure(actualItem, expectedItem, diagnosticState, indexedPath);
-			mergeExtractionState(state, diagnosticState);
+		} else if (status === "nested") {
+			registerUnmatchedExpectedIndex(
+				state,
+				report,
+				path,
+				index,
+				expectedItem,
+				undefined,
+				undefined,
+				undefined,
+				getDeepestNestedMismatchPath(pairState),
+			);
+		} else {
 			registerUnmatchedExpectedIndex(
 				state,
 				report,
@@ -1281,11 +1831,10 @@ function buildExactOrderArraySubset(
 				index,
 				expectedItem,
 				index,
-				diagnosticItem,
+				extractedItem,
 				undefined,
-				getDeepestNestedMismatchPath(diagnosticState),
+				getDeepestNestedMismatchPath(pairState),
 			);
-			result.push(diagnosticItem);
 		}
 	}
 
@@ -1322,7 +1871,7 @@ function buildPairCandidates(
 					`${path}[${expectedIndex}]`,
 				);
 				baseExpect(extractedItem).toEqual(expectedItem);
-				if (!pairState.allArrayItemsMatchedOneToOne || !pairState.allExplicitUndefinedKeysExist) {
+				if (!isExtractionStateSatisfied(pairState)) {
 					continue;
 				}
 				candidateActualIndexesByExpected[expectedIndex].push(actualIndex);
@@ -1375,8 +1924,9 @@ function buildSubsetModeArraySubset(
 	expectedArray: unknown[],
 	state: ExtractionState,
 	path: string,
+	mode: "subset" | "exactLength",
 ): unknown[] {
-	const report = createArrayMatchReport(path, state.arrayMode, expectedArray, actualArray);
+	const report = createArrayMatchReport(path, mode, expectedArray, actualArray);
 	state.arrayReports.push(report);
 	const { candidateActualIndexesByExpected, extractedByPair, pairStateByExpectedAndActual, scoreByExpectedAndActual } =
 		buildPairCandidates(actualArray, expectedArray, state, path);
@@ -1445,16 +1995,121 @@ function buildBestArraySubsetForExpected(
 	state: ExtractionState,
 	path: string,
 ): unknown[] {
-	checkArrayLengthForMode(actualArray, expectedArray, state, path);
+	const mode = resolveArrayMode(state, path);
+	checkArrayLengthForMode(actualArray, expectedArray, state, path, mode);
 
-	if (state.arrayMode === "exactOrder") {
-		return buildExactOrderArraySubset(actualArray, expectedArray, state, path);
+	if (mode === "exactOrder" || mode === "orderedSubset") {
+		return buildExactOrderArraySubset(actualArray, expectedArray, state, path, mode);
 	}
 
-	return buildSubsetModeArraySubset(actualArray, expectedArray, state, path);
+	return buildSubsetModeArraySubset(actualArray, expectedArray, state, path, mode);
+}
+
+function toComparableTime(value: unknown): number | undefined {
+	if (value instanceof Date) {
+		return value.getTime();
+	}
+
+	if (typeof value === "string" && ISO_DATE_STRING.test(value)) {
+		return new Date(value).getTime();
+	}
+
+	return undefined;
+}
+
+function isEquivalentDate(actual: unknown, expected: unknown): boolean {
+	const actualTime = toComparableTime(actual);
+	return actualTime !== undefined && !Number.isNaN(actualTime) && actualTime === toComparableTime(expected);
+}
+
+/**
+ * Applies the numeric tolerance, case-insensitive and date equivalence options to a leaf value
+ */
+function isEquivalentLeaf(actual: unknown, expected: unknown, comparison: ValueComparison): boolean {
+	if (comparison.numericTolerance !== undefined && typeof actual === "number" && typeof expected === "number") {
+		return Math.abs(actual - expected) <= comparison.numericTolerance;
+	}
+
+	// Falls through to the date comparison, so that strings match when either enabled comparison matches
+	if (
+		comparison.ignoreCase &&
+		typeof actual === "string" &&
+		typeof expected === "string" &&
+		actual.toLowerCase() === expected.toLowerCase()
+	) {
+		return true;
+	}
+
+	return comparison.dateEquivalence && isEquivalentDate(actual, expected);
+}
+
+function extractObjectSubset(
+	actual: Record<string, unknown>,
+	expected: Record<string, unknown>,
+	state: ExtractionState,
+	path: string,
+): Record<string, unknown> {
+	const result: Record<string, unknown> = {};
+	for (const key of Object.keys(expected)) {
+		const keyPath = `${path}.${key}`;
+		if (key in actual) {
+			result[key] = extractMatchingStructure(actual[key], expected[key], state, keyPath);
+		} else if (isIgnoredPath(state, keyPath)) {
+			result[key] = expected[key];
+		} else {
+			if (state.requireExplicitUndefinedKeyPresence && expected[key] === undefined) {
+				state.allExplicitUndefinedKeysExist = false;
+			}
+			result[key] = undefined;
+		}
+	}
+
+	if (state.keyScope.strictKeyPaths.some((pattern) => pattern.test(path))) {
+		addUnexpectedKeys(actual, expected, result, state, path);
+	}
+
+	return result;
+}
+
+/**
+ * Copies actual keys that are not in expected into the extracted subset, so they show up in the diff
+ */
+function addUnexpectedKeys(
+	actual: Record<string, unknown>,
+	expected: Record<string, unknown>,
+	result: Record<string, unknown>,
+	state: ExtractionState,
+	path: string,
+): void {
+	const unexpectedKeys = Object.keys(actual).filter(
+		(key) => !(key in expected) && !isIgnoredPath(state, `${path}.${key}`),
+	);
+	if (unexpectedKeys.length === 0) {
+		return;
+	}
+
+	state.allActualKeysExpected = false;
+	pushArrayMismatchDetail(
+		state,
+		`Unexpected keys at ${path}: ${unexpectedKeys.map((key) => JSON.stringify(key)).join(", ")} (strictKeys).`,
+	);
+	for (const key of unexpectedKeys) {
+		result[key] = actual[key];
+	}
 }
 
 function extractMatchingStructure(actual: unknown, expected: unknown, state: ExtractionState, path: string): unknown {
+	// Ignored paths always match
+	if (isIgnoredPath(state, path)) {
+		return expected;
+	}
+
+	// A comparator replaces every other comparison at its path; a match is reported as the expected value
+	const comparator = state.valueComparison.comparators.find(({ pattern }) => pattern.test(path));
+	if (comparator) {
+		return comparator.compare(actual, expected) ? expected : actual;
+	}
+
 	// Handle null/undefined
 	if (actual === null || actual === undefined) {
 		return actual;
@@ -1482,21 +2137,9 @@ function extractMatchingStructure(actual: unknown, expected: unknown, state: Ext
 			return actual; // Type mismatch will be caught by comparison
 		}
 
-		const result: Record<string, unknown> = {};
-		for (const key of Object.keys(expected)) {
-			const keyPath = path === "$" ? `${path}.${key}` : `${path}.${key}`;
-			if (key in actual) {
-				result[key] = extractMatchingStructure(actual[key], expected[key], state, keyPath);
-			} else {
-				if (state.requireExplicitUndefinedKeyPresence && expected[key] === undefined) {
-					state.allExplicitUndefinedKeysExist = false;
-				}
-				result[key] = undefined;
-			}
-		}
-		return result;
+		return extractObjectSubset(actual, expected, state, path);
 	}
 
-	// For primitives and special objects, return as-is
-	return actual;
+	// For primitives and special objects, return as-is unless equivalent under the comparison options
+	return isEquivalentLeaf(actual, expected, state.valueComparison) ? expected : actual;
 }
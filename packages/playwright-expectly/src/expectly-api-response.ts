@@ -0,0 +1,441 @@
+import { withMatcherState } from "@cerios/playwright-expectly-core";
+import type {
+	APIRequestContext,
+	APIResponse,
+	ExpectMatcherState,
+	MatcherReturnType,
+	Request,
+	Response,
+} from "@playwright/test";
+import { expect as baseExpect } from "@playwright/test";
+
+import { evaluatePartialMatch } from "./expectly-any";
+import { getDurationMilliseconds, parseDuration } from "./matchers/duration";
+import type { DurationInput, HttpStatusClass, PartialMatchOptions } from "./types/matcher-types";
+
+const MAX_BODY_PREVIEW_LENGTH = 500;
+
+const STATUS_CLASS_RANGES: Record<HttpStatusClass, [number, number]> = {
+	"1xx": [100, 199],
+	"2xx": [200, 299],
+	"3xx": [300, 399],
+	"4xx": [400, 499],
+	"5xx": [500, 599],
+};
+
+const TRACKED_REQUEST_METHODS = ["fetch", "get", "post", "put", "patch", "delete", "head"] as const;
+
+type ResponseLike = APIResponse | Response;
+
+type TrackedRequest = { method: string; duration: number };
+
+/** Method and duration of the requests made through `trackApiRequests()` */
+const trackedRequests = new WeakMap<APIResponse, TrackedRequest>();
+
+/**
+ * Expectly Custom matchers for Playwright `APIResponse` (and page `Response`) validations.
+ */
+export const expectlyApiResponseMatchers = withMatcherState({
+	async toHaveStatusInRange(
+		response: ResponseLike,
+		minOrStatusClass: number | HttpStatusClass,
+		max?: number,
+	): Promise<MatcherReturnType> {
+		const assertionName = "toHaveStatusInRange";
+		assertResponse(assertionName, response);
+		const [min, upper] = resolveStatusRange(minOrStatusClass, max);
+		const status = response.status();
+		const pass = status >= min && status <= upper;
+		const context = pass === this.isNot ? await describeResponse(response) : "";
+
+		const message = (): string => {
+			const hint = this.utils.matcherHint(assertionName, undefined, formatStatusRangeHint(minOrStatusClass, max), {
+				isNot: this.isNot,
+			});
+
+			return (
+				hint +
+				"\n\n" +
+				`Expected status to ${this.isNot ? "not " : ""}be in range: ${this.utils.printExpected(`${min}-${upper}`)}\n` +
+				`Received status: ${this.utils.printReceived(status)}\n\n` +
+				context
+			);
+		};
+
+		return {
+			message,
+			pass,
+			name: assertionName,
+			expected: [min, upper],
+			actual: status,
+		};
+	},
+	async toBeSuccessful(response: ResponseLike): Promise<MatcherReturnType> {
+		const assertionName = "toBeSuccessful";
+		assertResponse(assertionName, response);
+		const [min, max] = STATUS_CLASS_RANGES["2xx"];
+		const status = response.status();
+		const pass = status >= min && status <= max;
+		const context = pass === this.isNot ? await describeResponse(response) : "";
+
+		const message = (): string => {
+			const hint = this.utils.matcherHint(assertionName, undefined, "", {
+				isNot: this.isNot,
+			});
+
+			return (
+				hint +
+				"\n\n" +
+				`Expected response to ${this.isNot ? "not " : ""}be successful (2xx)\n` +
+				`Received status: ${this.utils.printReceived(status)}\n\n` +
+				context
+			);
+		};
+
+		return {
+			message,
+			pass,
+			name: assertionName,
+			expected: "2xx",
+			actual: status,
+		};
+	},
+	async toHaveHeader(response: ResponseLike, name: string, expected?: string | RegExp): Promise<MatcherReturnType> {
+		const assertionName = "toHaveHeader";
+		assertResponse(assertionName, response);
+		// Playwright lower-cases header names, so lookups are case-insensitive
+		const actual = response.headers()[name.toLowerCase()];
+		const pass = actual !== undefined && (expected === undefined || matchesText(actual, expected));
+		const context = pass === this.isNot ? await describeResponse(response) : "";
+
+		const message = (): string => {
+			const hint = this.utils.matcherHint(
+				assertionName,
+				undefined,
+				expected === undefined ? "name" : "name, expected",
+				{
+					isNot: this.isNot,
+				},
+			);
+			const expectation =
+				expected === undefined
+					? `Expected header ${this.utils.printExpected(name)} to ${this.isNot ? "not " : ""}be present`
+					: `Expected header ${this.utils.printExpected(name)} to ${this.isNot ? "not " : ""}${describeTextExpectation(this, expected)}`;
+			const received =
+				actual === undefined
+					? `Received headers: ${Object.keys(response.headers()).sort().join(", ") || "(none)"}`
+					: `Received: ${this.utils.printReceived(actual)}`;
+
+			return hint + "\n\n" + expectation + "\n" + received + "\n\n" + context;
+		};
+
+		return {
+			message,
+			pass,
+			name: assertionName,
+			expected,
+			actual,
+		};
+	},
+	async toHaveContentType(response: ResponseLike, expected: string | RegExp): Promise<MatcherReturnType> {
+		const assertionName = "toHaveContentType";
+		assertResponse(assertionName, response);
+		const actual = response.headers()["content-type"];
+		const pass = actual !== undefined && matchesContentType(actual, expected);
+		const context = pass === this.isNot ? await describeResponse(response) : "";
+
+		const message = (): string => {
+			const hint = this.utils.matcherHint(assertionName, undefined, undefined, {
+				isNot: this.isNot,
+			});
+
+			return (
+				hint +
+				"\n\n" +
+				`Expected content type to ${this.isNot ? "not " : ""}${describeTextExpectation(this, expected)}\n` +
+				`Received: ${actual === undefined ? "no content-type header" : this.utils.printReceived(actual)}\n\n` +
+				context
+			);
+		};
+
+		return {
+			message,
+			pass,
+			name: assertionName,
+			expected,
+			actual,
+		};
+	},
+	async toHaveJsonBody(
+		response: ResponseLike,
+		expected: unknown,
+		options?: PartialMatchOptions,
+	): Promise<MatcherReturnType> {
+		const assertionName = "toHaveJsonBody";
+		assertResponse(assertionName, response);
+		const body = await readJsonBody(response);
+
+		if (!body.parsed) {
+			const context = await describeResponse(response);
+			return {
+				message: () => {
+					const hint = this.utils.matcherHint(assertionName, undefined, undefined, {
+						isNot: this.isNot,
+					});
+					return `${hint}\n\nExpected response body to be JSON, but it could not be parsed: ${body.error}\n\n${context}`;
+				},
+				pass: this.isNot,
+				name: assertionName,
+				expected,
+			};
+		}
+
+		const partialMatch = evaluatePartialMatch(this, body.value, expected, options);
+		const context = partialMatch.pass === this.isNot ? await describeResponse(response) : "";
+
+		const message = (): string => {
+			const hint = this.utils.matcherHint(assertionName, undefined, undefined, {
+				isNot: this.isNot,
+			});
+
+			return `${partialMatch.message(hint)}\n\n${context}`;
+		};
+
+		return {
+			message,
+			pass: partialMatch.pass,
+			name: assertionName,
+			expected,
+			actual: partialMatch.actualSubset,
+		};
+	},
+	async toRespondWithin(response: ResponseLike, maxDuration: number | DurationInput): Promise<MatcherReturnType> {
+		const assertionName = "toRespondWithin";
+		assertResponse(assertionName, response);
+		const maxMs =
+			typeof maxDuration === "number"
+				? resolveMaxMilliseconds(assertionName, maxDuration)
+				: getDurationMilliseconds(parseDuration(maxDuration, "maximum duration"));
+		const duration = await getResponseDuration(assertionName, response);
+		const pass = duration <= maxMs;
+		const context = pass === this.isNot ? await describeResponse(response) : "";
+
+		const message = (): string => {
+			const hint = this.utils.matcherHint(assertionName, undefined, "maxDuration", {
+				isNot: this.isNot,
+			});
+
+			return (
+				hint +
+				"\n\n" +
+				`Expected response time to ${this.isNot ? "not " : ""}be at most: ${this.utils.printExpected(formatMilliseconds(maxMs))}\n` +
+				`Received response time: ${this.utils.printReceived(formatMilliseconds(duration))}\n\n` +
+				context
+			);
+		};
+
+		return {
+			message,
+			pass,
+			name: assertionName,
+			expected: maxMs,
+			actual: duration,
+		};
+	},
+});
+
+export const expectlyApiResponse = baseExpect.extend(expectlyApiResponseMatchers);
+
+/**
+ * Wraps an `APIRequestContext` so that the method and duration of its requests are known to the
+ * API response matchers. `APIResponse` exposes neither: without tracking, failure messages leave out
+ * the method and `toRespondWithin()` throws.
+ * @param request - Request context to wrap, e.g. the `request` fixture
+ * @returns A request context that records the requests made through `fetch()`, `get()`, `post()`, ...
+ *
+ * @example
+ * const api = trackApiRequests(request);
+ * await expectly(await api.post('/api/users', { data: user })).toRespondWithin(500);
+ */
+export function trackApiRequests(request: APIRequestContext): APIRequestContext {
+	return new Proxy(request, {
+		get(target, property, receiver): unknown {
+			const value: unknown = Reflect.get(target, property, receiver);
+			if (typeof value !== "function") {
+				return value;
+			}
+			if (!(TRACKED_REQUEST_METHODS as readonly (string | symbol)[]).includes(property)) {
+				return value.bind(target);
+			}
+
+			return async (urlOrRequest: string | Request, options?: { method?: string }): Promise<APIResponse> => {
+				const start = performance.now();
+				const response = (await value.call(target, urlOrRequest, options)) as APIResponse;
+				trackedRequests.set(response, {
+					method: getTrackedMethod(property as (typeof TRACKED_REQUEST_METHODS)[number], urlOrRequest, options),
+					duration: performance.now() - start,
+				});
+				return response;
+			};
+		},
+	});
+}
+
+function assertResponse(assertionName: string, response: unknown): asserts response is ResponseLike {
+	const candidate = response as Partial<Record<"status" | "headers" | "url" | "text", unknown>> | null;
+	if (
+		typeof candidate !== "object" ||
+		candidate === null ||
+		typeof candidate.status !== "function" ||
+		typeof candidate.headers !== "function" ||
+		typeof candidate.url !== "function" ||
+		typeof candidate.text !== "function"
+	) {
+		throw new Error(`${assertionName}: expected an APIResponse or Response, received ${String(response)}`);
+	}
+}
+
+function resolveStatusRange(minOrStatusClass: number | HttpStatusClass, max: number | undefined): [number, number] {
+	if (typeof minOrStatusClass === "string") {
+		const range = STATUS_CLASS_RANGES[minOrStatusClass];
+		if (range === undefined) {
+			throw new Error(
+				`toHaveStatusInRange: unknown status class "${minOrStatusClass}". Use one of: ${Object.keys(STATUS_CLASS_RANGES).join(", ")}`,
+			);
+		}
+		return range;
+	}
+
+	if (max === undefined || !Number.isInteger(minOrStatusClass) || !Number.isInteger(max) || minOrStatusClass > max) {
+		throw new Error(
+			'toHaveStatusInRange: expected a status class such as "2xx" or integer min and max with min <= max',
+		);
+	}
+
+	return [minOrStatusClass, max];
+}
+
+function formatStatusRangeHint(minOrStatusClass: number | HttpStatusClass, max: number | undefined): string {
+	return typeof minOrStatusClass === "string" ? "statusClass" : `${minOrStatusClass}, ${String(max)}`;
+}
+
+function matchesText(actual: string, expected: string | RegExp): boolean {
+	return typeof expected === "string" ? actual === expected : expected.test(actual);
+}
+
+/**
+ * A string is compared with the media type only (ignoring parameters such as charset), a RegExp with the full header
+ */
+function matchesContentType(actual: string, expected: string | RegExp): boolean {
+	if (typeof expected !== "string") {
+		return expected.test(actual);
+	}
+
+	return getMediaType(actual) === getMediaType(expected);
+}
+
+function getMediaType(contentType: string): string {
+	return contentType.split(";")[0].trim().toLowerCase();
+}
+
+function describeTextExpectation(matcherState: ExpectMatcherState, expected: string | RegExp): string {
+	return typeof expected === "string"
+		? `equal: ${matcherState.utils.printExpected(expected)}`
+		: `match: ${matcherState.utils.printExpected(expected)}`;
+}
+
+async function readJsonBody(
+	response: ResponseLike,
+): Promise<{ parsed: true; value: unknown } | { parsed: false; error: string }> {
+	try {
+		return { parsed: true, value: await response.json() };
+	} catch (error: unknown) {
+		return { parsed: false, error: error instanceof Error ? error.message : String(error) };
+	}
+}
+
+/**
+ * Page responses know their request method; for an `APIResponse` it is only known when tracked
+ */
+function getRequestMethod(response: ResponseLike): string | undefined {
+	return "request" in response ? response.request().method() : trackedRequests.get(response)?.method;
+}
+
+function getTrackedMethod(
+	property: (typeof TRACKED_REQUEST_METHODS)[number],
+	urlOrRequest: string | Request,
+	options: { method?: string } | undefined,
+): string {
+	if (property !== "fetch") {
+		return property.toUpperCase();
+	}
+	if (options?.method !== undefined) {
+		return options.method.toUpperCase();
+	}
+	return typeof urlOrRequest === "string" ? "GET" : urlOrRequest.method();
+}
+
+function resolveMaxMilliseconds(assertionName: string, maxMs: number): number {
+	if (!Number.isFinite(maxMs) || maxMs < 0) {
+		throw new Error(
+			`${assertionName}: maximum duration must be a non-negative number of milliseconds, received ${maxMs}`,
+		);
+	}
+	return maxMs;
+}
+
+/**
+ * Page responses take the time from the browser's resource timing, an `APIResponse` from `trackApiRequests()`
+ */
+async function getResponseDuration(assertionName: string, response: ResponseLike): Promise<number> {
+	if (!("request" in response)) {
+		const tracked = trackedRequests.get(response);
+		if (tracked === undefined) {
+			throw new Error(
+				`${assertionName}: the response time of an APIResponse is only known for requests made through trackApiRequests(request)`,
+			);
+		}
+		return tracked.duration;
+	}
+
+	await response.finished();
+	const { responseEnd } = response.request().timing();
+	if (responseEnd < 0) {
+		throw new Error(`${assertionName}: the browser reported no response time for ${response.url()}`);
+	}
+	return responseEnd;
+}
+
+function formatMilliseconds(milliseconds: number): string {
+	return `${Math.round(milliseconds)}ms`;
+}
+
+async function readBodyPreview(response: ResponseLike): Promise<string> {
+	let text: string;
+	try {
+		text = await response.text();
+	} catch (error: unknown) {
+		return `<unavailable: ${error instanceof Error ? error.message : String(error)}>`;
+	}
+
+	if (text === "") {
+		return "<empty>";
+	}
+
+	if (text.length <= MAX_BODY_PREVIEW_LENGTH) {
+		return text;
+	}
+
+	return `${text.slice(0, MAX_BODY_PREVIEW_LENGTH)}... (truncated, ${text.length} characters total)`;
+}
+
+async function describeResponse(response: ResponseLike): Promise<string> {
+	const method = getRequestMethod(response);
+	const statusText = response.statusText();
+
+	return (
+		`Request: ${method === undefined ? "" : `${method} `}${response.url()}\n` +
+		`Response: ${response.status()}${statusText === "" ? "" : ` ${statusText}`}\n` +
+		`Body: ${await readBodyPreview(response)}`
+	);
+}
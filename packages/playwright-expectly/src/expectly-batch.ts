@@ -0,0 +1,172 @@
+import type { Expect } from "@playwright/test";
+
+export type ExpectlyBatchFailure = {
+	/**
+	 * 1-based position of the failing assertion among all assertions made in the batch.
+	 */
+	index: number;
+	error: Error;
+};
+
+export type ExpectlyBatch<TExpect extends Expect<{}> = Expect<{}>> = {
+	/**
+	 * Same as the wrapped `expect` (including `.poll()` and `.configure()`),
+	 * but failing matchers are recorded instead of thrown.
+	 */
+	expect: TExpect;
+	/**
+	 * Waits for all pending (polled) assertions and returns every failure recorded so far.
+	 */
+	settle: () => Promise<ExpectlyBatchFailure[]>;
+	/**
+	 * Records an error raised outside of a matcher as the next failure of the batch.
+	 */
+	record: (error: unknown) => void;
+	/**
+	 * Waits for all pending assertions and throws a single error listing every failure.
+	 */
+	assertAll: () => Promise<void>;
+};
+
+const CHAINED_MODIFIERS = new Set<PropertyKey>(["not", "resolves", "rejects", "each"]);
+
+function toError(error: unknown): Error {
+	return error instanceof Error ? error : new Error(String(error));
+}
+
+function isPromiseLike(value: unknown): value is PromiseLike<unknown> {
+	return typeof value === "object" && value !== null && typeof (value as PromiseLike<unknown>).then === "function";
+}
+
+function indent(text: string, prefix: string): string {
+	return text
+		.split("\n")
+		.map((line) => (line.length > 0 ? prefix + line : line))
+		.join("\n");
+}
+
+/**
+ * Builds the single report thrown by a batch: a summary line followed by every failure,
+ * numbered by its position in the batch.
+ */
+function formatBatchFailures(failures: ExpectlyBatchFailure[], total: number): string {
+	const sections = failures.map(({ index, error }) => {
+		const label = `${index}) `;
+		return label + indent(error.message, " ".repeat(label.length)).trimStart();
+	});
+
+	return `${failures.length} of ${total} expectly assertion${total === 1 ? "" : "s"} failed:\n\n${sections.join("\n\n")}`;
+}
+
+/**
+ * Creates a soft-assertion batch around an `expect` function. Each matcher called through
+ * `batch.expect` — synchronous ones like `toHaveSum` as well as polled locator matchers —
+ * is recorded in call order; `assertAll()` then throws once with a numbered report of every failure.
+ *
+ * @example
+ * const batch = createExpectlyBatch(expectly);
+ * batch.expect(totals).toHaveSum(100);
+ * batch.expect(page.locator("a.docs")).toHaveHref("/docs");
+ * await batch.assertAll();
+ */
+export function createExpectlyBatch<TExpect extends Expect<{}>>(expect: TExpect): ExpectlyBatch<TExpect> {
+	const failures: ExpectlyBatchFailure[] = [];
+	const pending: Promise<void>[] = [];
+	let total = 0;
+
+	const record = (index: number, error: unknown): void => {
+		failures.push({ index, error: toError(error) });
+	};
+
+	const wrapMatchers = (matchers: object): object =>
+		new Proxy(matchers, {
+			get(target, property, receiver): unknown {
+				const value: unknown = Reflect.get(target, property, receiver);
+
+				if (CHAINED_MODIFIERS.has(property) && typeof value === "object" && value !== null) {
+					return wrapMatchers(value);
+				}
+				if (typeof value !== "function") {
+					return value;
+				}
+
+				return (...args: unknown[]): unknown => {
+					const index = ++total;
+					try {
+						const result: unknown = Reflect.apply(value, target, args);
+						if (isPromiseLike(result)) {
+							const settled = Promise.resolve(result).then(
+								() => undefined,
+								(error: unknown) => record(index, error),
+							);
+							pending.push(settled);
+							return settled;
+						}
+						return result;
+					} catch (error: unknown) {
+						record(index, error);
+						return undefined;
+					}
+				};
+			},
+		});
+
+	const wrapExpect = <TExpect extends object>(expectFn: TExpect): TExpect =>
+		new Proxy(expectFn, {
+			apply(target, thisArg, args: unknown[]): object {
+				return wrapMatchers(Reflect.apply(target as (...args: unknown[]) => object, thisArg, args));
+			},
+			get(target, property, receiver): unknown {
+				const value: unknown = Reflect.get(target, property, receiver);
+				if (property === "poll" && typeof value === "function") {
+					return (...args: unknown[]): object => wrapMatchers(Reflect.apply(value, target, args) as object);
+				}
+				if (property === "configure" && typeof value === "function") {
+					return (...args: unknown[]): object => wrapExpect(Reflect.apply(value, target, args) as object);
+				}
+				return value;
+			},
+		});
+
+	const settle = async (): Promise<ExpectlyBatchFailure[]> => {
+		// Assertions may be started while earlier ones are still polling
+		while (pending.length > 0) {
+			await Promise.all(pending.splice(0));
+		}
+		return [...failures].sort((a, b) => a.index - b.index);
+	};
+
+	return {
+		expect: wrapExpect(expect),
+		settle,
+		record(error) {
+			record(++total, error);
+		},
+		async assertAll() {
+			const sorted = await settle();
+			if (sorted.length > 0) {
+				throw new Error(formatBatchFailures(sorted, total));
+			}
+		},
+	};
+}
+
+/**
+ * Runs `callback` with a batch `expect` and throws once with every failure it recorded.
+ * An error thrown by the callback itself is reported as the last entry of the batch.
+ */
+export async function runExpectlyBatch<TExpect extends Expect<{}>>(
+	expect: TExpect,
+	callback: (expect: TExpect) => void | Promise<void>,
+): Promise<void> {
+	const batch = createExpectlyBatch(expect);
+
+	try {
+		await callback(batch.expect);
+	} catch (error: unknown) {
+		await batch.settle();
+		batch.record(error);
+	}
+
+	await batch.assertAll();
+}
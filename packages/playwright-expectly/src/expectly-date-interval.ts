@@ -0,0 +1,295 @@
+import { withMatcherState } from "@cerios/playwright-expectly-core";
+import { expect as baseExpect } from "@playwright/test";
+
+import { createDateParser } from "./matchers/date-input";
+import type { DateParser } from "./matchers/date-input";
+import type { DateInput, DateInterval, DateParseOptions } from "./types/matcher-types";
+
+/**
+ * A date interval with parsed dates; the start is inclusive and the end exclusive
+ */
+type ParsedInterval = { start: Date; end: Date };
+
+/**
+ * Two intervals of an array that overlap, by their indexes in the array
+ */
+type OverlappingPair = { left: number; right: number; overlap: ParsedInterval };
+
+/**
+ * Expectly Custom matchers for date intervals such as bookings, given as `{ start, end }` objects.
+ * Intervals are half-open: an interval that ends when another starts does not overlap it.
+ */
+export const expectlyDateIntervalMatchers = withMatcherState({
+	toOverlap(actual: DateInterval, interval: DateInterval, options?: DateParseOptions) {
+		const assertionName = "toOverlap";
+		const parseDate = createDateParser(options);
+		const parsedActual = parseInterval(assertionName, parseDate, actual, "interval");
+		const parsedExpected = parseInterval(assertionName, parseDate, interval, "expected interval");
+
+		const overlap = getOverlap(parsedActual, parsedExpected);
+		const pass = overlap !== undefined;
+
+		const message = (): string => {
+			const hint = this.utils.matcherHint(assertionName, undefined, undefined, {
+				isNot: this.isNot,
+			});
+			const intervalLines =
+				`Expected: ${this.utils.printExpected(formatInterval(parsedExpected))}\n` +
+				`Received: ${this.utils.printReceived(formatInterval(parsedActual))}`;
+
+			if (pass && this.isNot) {
+				return (
+					hint +
+					"\n\n" +
+					`Expected intervals to not overlap\n\n` +
+					intervalLines +
+					`\nOverlap: ${formatInterval(overlap)}`
+				);
+			}
+
+			if (!pass && !this.isNot) {
+				const [first, second] = [parsedActual, parsedExpected].sort((a, b) => a.start.getTime() - b.start.getTime());
+				return (
+					hint +
+					"\n\n" +
+					`Expected intervals to overlap\n\n` +
+					intervalLines +
+					`\nGap: ${formatInterval({ start: first.end, end: second.start })}`
+				);
+			}
+
+			return hint;
+		};
+
+		return {
+			message,
+			pass,
+			name: assertionName,
+			expected: formatInterval(parsedExpected),
+			actual: formatInterval(parsedActual),
+		};
+	},
+	toContainInterval(actual: DateInterval, interval: DateInterval, options?: DateParseOptions) {
+		const assertionName = "toContainInterval";
+		const parseDate = createDateParser(options);
+		const parsedActual = parseInterval(assertionName, parseDate, actual, "interval");
+		const parsedExpected = parseInterval(assertionName, parseDate, interval, "expected interval");
+
+		const startsBefore = parsedExpected.start < parsedActual.start;
+		const endsAfter = parsedExpected.end > parsedActual.end;
+		const pass = !startsBefore && !endsAfter;
+
+		const message = (): string => {
+			const hint = this.utils.matcherHint(assertionName, undefined, undefined, {
+				isNot: this.isNot,
+			});
+			const intervalLines =
+				`Expected: ${this.utils.printExpected(formatInterval(parsedExpected))}\n` +
+				`Received: ${this.utils.printReceived(formatInterval(parsedActual))}`;
+
+			if (pass && this.isNot) {
+				return hint + "\n\n" + `Expected interval to not contain the expected interval\n\n` + intervalLines;
+			}
+
+			if (!pass && !this.isNot) {
+				const outside = [
+					startsBefore ? `starts before ${parsedActual.start.toISOString()}` : "",
+					endsAfter ? `ends after ${parsedActual.end.toISOString()}` : "",
+				].filter((part) => part !== "");
+				return (
+					hint +
+					"\n\n" +
+					`Expected interval to contain the expected interval\n\n` +
+					intervalLines +
+					`\nThe expected interval ${outside.join(" and ")}`
+				);
+			}
+
+			return hint;
+		};
+
+		return {
+			message,
+			pass,
+			name: assertionName,
+			expected: formatInterval(parsedExpected),
+			actual: formatInterval(parsedActual),
+		};
+	},
+	toHaveNoOverlappingIntervals(actual: DateInterval[], options?: DateParseOptions) {
+		const assertionName = "toHaveNoOverlappingIntervals";
+		const parseDate = createDateParser(options);
+		const intervals = parseIntervals(assertionName, parseDate, actual);
+
+		const overlappingPairs = findOverlappingPairs(intervals);
+		const pass = overlappingPairs.length === 0;
+
+		const message = (): string => {
+			const hint = this.utils.matcherHint(assertionName, undefined, undefined, {
+				isNot: this.isNot,
+			});
+
+			if (pass && this.isNot) {
+				return (
+					hint +
+					"\n\n" +
+					`Expected intervals to overlap, but none of the ${intervals.length} intervals do\n\n` +
+					`Received: ${this.utils.printReceived(intervals.map(formatInterval))}`
+				);
+			}
+
+			if (!pass && !this.isNot) {
+				return (
+					hint +
+					"\n\n" +
+					`Expected intervals to not overlap, but found ${overlappingPairs.length} overlapping pair(s):\n` +
+					overlappingPairs
+						.map(
+							({ left, right, overlap }) =>
+								`  [${left}] ${formatInterval(intervals[left])} and [${right}] ${formatInterval(intervals[right])}` +
+								` (overlap: ${formatInterval(overlap)})`,
+						)
+						.join("\n")
+				);
+			}
+
+			return hint;
+		};
+
+		return {
+			message,
+			pass,
+			name: assertionName,
+			actual: overlappingPairs.map(({ left, right }) => [left, right]),
+		};
+	},
+	toCoverContinuously(actual: DateInterval[], startDate: DateInput, endDate: DateInput, options?: DateParseOptions) {
+		const assertionName = "toCoverContinuously";
+		const parseDate = createDateParser(options);
+		const intervals = parseIntervals(assertionName, parseDate, actual);
+		const range = parseInterval(assertionName, parseDate, { start: startDate, end: endDate }, "range");
+
+		const gaps = findGaps(intervals, range);
+		const pass = gaps.length === 0;
+
+		const message = (): string => {
+			const hint = this.utils.matcherHint(assertionName, undefined, undefined, {
+				isNot: this.isNot,
+			});
+			const rangeLine = `Range: ${this.utils.printExpected(formatInterval(range))}\n`;
+
+			if (pass && this.isNot) {
+				return (
+					hint +
+					"\n\n" +
+					`Expected intervals to not cover the range continuously\n\n` +
+					rangeLine +
+					`Received: ${this.utils.printReceived(intervals.map(formatInterval))}`
+				);
+			}
+
+			if (!pass && !this.isNot) {
+				return (
+					hint +
+					"\n\n" +
+					`Expected intervals to cover the range continuously\n\n` +
+					rangeLine +
+					`Found ${gaps.length} gap(s):\n` +
+					gaps.map((gap) => `  ${formatInterval(gap)}`).join("\n")
+				);
+			}
+
+			return hint;
+		};
+
+		return {
+			message,
+			pass,
+			name: assertionName,
+			expected: formatInterval(range),
+			actual: gaps.map(formatInterval),
+		};
+	},
+});
+
+export const expectlyDateInterval = baseExpect.extend(expectlyDateIntervalMatchers);
+
+/**
+ * Parses a `{ start, end }` interval
+ * @throws Error if the value is not an interval, a date is invalid, or the start is after the end
+ */
+function parseInterval(assertionName: string, parseDate: DateParser, value: unknown, name: string): ParsedInterval {
+	if (typeof value !== "object" || value === null || !("start" in value) || !("end" in value)) {
+		throw new Error(`${assertionName}: ${name} must be an object with start and end, received ${String(value)}`);
+	}
+
+	const start = parseDate(value.start, `start of ${name}`);
+	const end = parseDate(value.end, `end of ${name}`);
+	if (start > end) {
+		throw new Error(`${assertionName}: ${name} starts after it ends: ${formatInterval({ start, end })}`);
+	}
+	return { start, end };
+}
+
+function parseIntervals(assertionName: string, parseDate: DateParser, actual: DateInterval[]): ParsedInterval[] {
+	if (!Array.isArray(actual)) {
+		throw new Error(`${assertionName}: expected an array of intervals, received ${typeof actual}`);
+	}
+	return actual.map((interval, index) => parseInterval(assertionName, parseDate, interval, `interval ${index}`));
+}
+
+function formatInterval(interval: ParsedInterval): string {
+	return `${interval.start.toISOString()} - ${interval.end.toISOString()}`;
+}
+
+/**
+ * Gets the part two intervals share, or undefined when they only touch or are apart
+ */
+function getOverlap(left: ParsedInterval, right: ParsedInterval): ParsedInterval | undefined {
+	const start = left.start > right.start ? left.start : right.start;
+	const end = left.end < right.end ? left.end : right.end;
+	return start < end ? { start, end } : undefined;
+}
+
+/**
+ * Finds every overlapping pair, comparing each interval with the intervals sorted after it until one starts after it ends
+ */
+function findOverlappingPairs(intervals: ParsedInterval[]): OverlappingPair[] {
+	const order = intervals
+		.map((_, index) => index)
+		.sort((a, b) => intervals[a].start.getTime() - intervals[b].start.getTime());
+	const pairs: OverlappingPair[] = [];
+
+	for (let i = 0; i < order.length; i++) {
+		for (let j = i + 1; j < order.length && intervals[order[j]].start < intervals[order[i]].end; j++) {
+			const overlap = getOverlap(intervals[order[i]], intervals[order[j]]);
+			if (overlap !== undefined) {
+				const [left, right] = [order[i], order[j]].sort((a, b) => a - b);
+				pairs.push({ left, right, overlap });
+			}
+		}
+	}
+	return pairs.sort((a, b) => a.left - b.left || a.right - b.right);
+}
+
+/**
+ * Finds the parts of a range that no interval covers; touching intervals leave no gap
+ */
+function findGaps(intervals: ParsedInterval[], range: ParsedInterval): ParsedInterval[] {
+	const sorted = [...intervals].sort((a, b) => a.start.getTime() - b.start.getTime());
+	const gaps: ParsedInterval[] = [];
+	let coveredUntil = range.start;
+
+	for (const interval of sorted) {
+		if (interval.start > coveredUntil && coveredUntil < range.end) {
+			gaps.push({ start: coveredUntil, end: interval.start < range.end ? interval.start : range.end });
+		}
+		if (interval.end > coveredUntil) {
+			coveredUntil = interval.end;
+		}
+	}
+	if (coveredUntil < range.end) {
+		gaps.push({ start: coveredUntil, end: range.end });
+	}
+	return gaps;
+}
@@ -1,7 +1,46 @@
 import { withMatcherState } from "@cerios/playwright-expectly-core";
 import { expect as baseExpect } from "@playwright/test";
 
-import { formatDatesForDisplay, isValidDate, sortedDates, validateDate } from "./matchers/common-utils";
+import {
+	addBusinessDays,
+	countBusinessDays,
+	getNonBusinessDayReason,
+	resolveBusinessCalendar,
+} from "./matchers/business-days";
+import type { BusinessCalendar } from "./matchers/business-days";
+import { formatDatesForDisplay, isValidDate, sortedDates } from "./matchers/common-utils";
+import { addCalendarDuration, formatCalendarDuration, getCalendarDuration } from "./matchers/date-arithmetic";
+import { resolveNow, resolveTimeZone } from "./matchers/date-config";
+import { createDateParser } from "./matchers/date-input";
+import {
+	formatCalendarDate,
+	getCalendarDate,
+	getDaysInMonth,
+	isSameCalendarDay,
+	shiftCalendarDate,
+} from "./matchers/date-time-zone";
+import type { CalendarDate } from "./matchers/date-time-zone";
+import {
+	formatDurationMilliseconds,
+	getDurationMilliseconds,
+	isValidISODuration,
+	parseDuration,
+} from "./matchers/duration";
+import { generateOccurrences, parseRecurrenceRule } from "./matchers/recurrence";
+import type {
+	BusinessDayGap,
+	BusinessDayOptions,
+	DateDeviationOptions,
+	DateGapOptions,
+	DateInput,
+	DateRangeOptions,
+	DateParseOptions,
+	DateReferenceOptions,
+	DateTimeZoneOptions,
+	DurationInput,
+	RecurrenceOptions,
+	RelativeDateOptions,
+} from "./types/matcher-types";
 
 const MONTH_NAMES = {
 	January: 0,
@@ -28,34 +67,33 @@ const DAY_NAMES = {
 	Saturday: 6,
 } as const;
 
+const WEEKDAY_NAMES = Object.keys(DAY_NAMES) as (keyof typeof DAY_NAMES)[];
+
 /**
  * Expectly Custom matchers for date validations.
  */
 export const expectlyDateMatchers = withMatcherState({
 	toBeCloseTo(
-		actualDate: Date,
-		expectedDate: Date,
-		deviation: { seconds?: number; minutes?: number; hours?: number; days?: number },
+		actualDate: DateInput,
+		expectedDate: DateInput,
+		deviation: DateDeviationOptions,
+		options?: DateTimeZoneOptions,
 	) {
 		const assertionName = "toBeCloseTo";
+		const parseDate = createDateParser(options);
 
-		// Validate dates
-		validateDate(actualDate, "actual date");
-		validateDate(expectedDate, "expected date");
-
-		// Calculate deviation in milliseconds
-		const deviationMs =
-			(deviation.days ?? 0) * 24 * 60 * 60 * 1000 +
-			(deviation.hours ?? 0) * 60 * 60 * 1000 +
-			(deviation.minutes ?? 0) * 60 * 1000 +
-			(deviation.seconds ?? 0) * 1000;
+		// Parse and validate dates
+		const parsedActual = parseDate(actualDate, "actual date");
+		const parsedExpected = parseDate(expectedDate, "expected date");
 
-		const expectedMin = expectedDate.getTime() - deviationMs;
-		const expectedMax = expectedDate.getTime() + deviationMs;
-		const actualTime = actualDate.getTime();
+		// Days are calendar days in the time zone, so a day across a DST change is 23 or 25 hours
+		const timeZone = resolveTimeZone(assertionName, options);
+		const expectedMin = addCalendarDuration(parsedExpected, deviation, timeZone, -1).getTime();
+		const expectedMax = addCalendarDuration(parsedExpected, deviation, timeZone).getTime();
+		const actualTime = parsedActual.getTime();
 
 		const pass = actualTime >= expectedMin && actualTime <= expectedMax;
-		const timeDiff = actualTime - expectedDate.getTime();
+		const timeDiff = actualTime - parsedExpected.getTime();
 		const timeDiffSeconds = Math.abs(timeDiff / 1000);
 
 		const message = (): string => {
@@ -68,10 +106,12 @@ export const expectlyDateMatchers = withMatcherState({
 					hint +
 					"\n\n" +
 					`Expected date to not be close to the expected date\n\n` +
-					`Expected: ${this.utils.printExpected(expectedDate.toISOString())}\n` +
-					`Received: ${this.utils.printReceived(actualDate.toISOString())}\n` +
+					`Expected: ${this.utils.printExpected(parsedExpected.toISOString())}\n` +
+					`Received: ${this.utils.printReceived(parsedActual.toISOString())}\n` +
 					`Difference: ${timeDiffSeconds.toFixed(3)} seconds\n` +
-					`Allowed deviation: ±${(deviationMs / 1000).toFixed(3)} seconds`
+					`Allowed deviation: ±${formatDeviation(deviation)}\n` +
+					`Allowed range: ${new Date(expectedMin).toISOString()} - ${new Date(expectedMax).toISOString()}` +
+					formatTimeZoneLine(timeZone)
 				);
 			}
 
@@ -80,10 +120,12 @@ export const expectlyDateMatchers = withMatcherState({
 					hint +
 					"\n\n" +
 					`Expected date to be close to the expected date within the allowed deviation\n\n` +
-					`Expected: ${this.utils.printExpected(expectedDate.toISOString())}\n` +
-					`Received: ${this.utils.printReceived(actualDate.toISOString())}\n` +
+					`Expected: ${this.utils.printExpected(parsedExpected.toISOString())}\n` +
+					`Received: ${this.utils.printReceived(parsedActual.toISOString())}\n` +
 					`Difference: ${timeDiffSeconds.toFixed(3)} seconds (${timeDiff > 0 ? "later" : "earlier"})\n` +
-					`Allowed deviation: ±${(deviationMs / 1000).toFixed(3)} seconds`
+					`Allowed deviation: ±${formatDeviation(deviation)}\n` +
+					`Allowed range: ${new Date(expectedMin).toISOString()} - ${new Date(expectedMax).toISOString()}` +
+					formatTimeZoneLine(timeZone)
 				);
 			}
 
@@ -94,17 +136,19 @@ export const expectlyDateMatchers = withMatcherState({
 			message,
 			pass,
 			name: assertionName,
-			expected: expectedDate,
-			actual: actualDate,
+			expected: parsedExpected,
+			actual: parsedActual,
 		};
 	},
-	toHaveDatesAscendingOrder(actual: Date[]) {
+	toHaveDatesAscendingOrder(actual: DateInput[], options?: DateParseOptions) {
 		const assertionName = "toHaveDatesAscendingOrder";
+		const parseDate = createDateParser(options);
+		const dates = actual.map((date) => parseDate(date, "date in array"));
 		let pass: boolean;
 
-		const expected: Date[] = sortedDates(actual, "ascending");
+		const expected: Date[] = sortedDates(dates, "ascending");
 		try {
-			baseExpect(actual).toEqual(expected);
+			baseExpect(dates).toEqual(expected);
 			pass = true;
 		} catch {
 			pass = false;
@@ -117,23 +161,25 @@ export const expectlyDateMatchers = withMatcherState({
 			"\n\n" +
 			`Expected date array to ${this.isNot ? "not " : ""}be in ascending order\n\n` +
 			`Expected: ${this.utils.printExpected(formatDatesForDisplay(expected))}\n` +
-			`Received: ${this.utils.printReceived(formatDatesForDisplay(actual))}`;
+			`Received: ${this.utils.printReceived(formatDatesForDisplay(dates))}`;
 
 		return {
 			message,
 			pass,
 			name: assertionName,
 			expected,
-			actual,
+			actual: dates,
 		};
 	},
-	toHaveDatesDescendingOrder(actual: Date[]) {
+	toHaveDatesDescendingOrder(actual: DateInput[], options?: DateParseOptions) {
 		const assertionName = "toHaveDatesDescendingOrder";
+		const parseDate = createDateParser(options);
+		const dates = actual.map((date) => parseDate(date, "date in array"));
 		let pass: boolean;
 
-		const expected: Date[] = sortedDates(actual, "descending");
+		const expected: Date[] = sortedDates(dates, "descending");
 		try {
-			baseExpect(actual).toEqual(expected);
+			baseExpect(dates).toEqual(expected);
 			pass = true;
 		} catch {
 			pass = false;
@@ -146,23 +192,24 @@ export const expectlyDateMatchers = withMatcherState({
 			"\n\n" +
 			`Expected date array to ${this.isNot ? "not " : ""}be in descending order\n\n` +
 			`Expected: ${this.utils.printExpected(formatDatesForDisplay(expected))}\n` +
-			`Received: ${this.utils.printReceived(formatDatesForDisplay(actual))}`;
+			`Received: ${this.utils.printReceived(formatDatesForDisplay(dates))}`;
 
 		return {
 			message,
 			pass,
 			name: assertionName,
 			expected,
-			actual,
+			actual: dates,
 		};
 	},
-	toBeBefore(actualDate: Date, expectedDate: Date) {
+	toBeBefore(actualDate: DateInput, expectedDate: DateInput, options?: DateParseOptions) {
 		const assertionName = "toBeBefore";
+		const parseDate = createDateParser(options);
 
-		validateDate(actualDate, "actual date");
-		validateDate(expectedDate, "expected date");
+		const parsedActual = parseDate(actualDate, "actual date");
+		const parsedExpected = parseDate(expectedDate, "expected date");
 
-		const pass = actualDate.getTime() < expectedDate.getTime();
+		const pass = parsedActual.getTime() < parsedExpected.getTime();
 
 		const message = (): string => {
 			const hint = this.utils.matcherHint(assertionName, undefined, undefined, {
@@ -174,8 +221,8 @@ export const expectlyDateMatchers = withMatcherState({
 					hint +
 					"\n\n" +
 					`Expected date to not be before\n\n` +
-					`Expected: ${this.utils.printExpected(expectedDate.toISOString())}\n` +
-					`Received: ${this.utils.printReceived(actualDate.toISOString())}`
+					`Expected: ${this.utils.printExpected(parsedExpected.toISOString())}\n` +
+					`Received: ${this.utils.printReceived(parsedActual.toISOString())}`
 				);
 			}
 
@@ -184,8 +231,8 @@ export const expectlyDateMatchers = withMatcherState({
 					hint +
 					"\n\n" +
 					`Expected date to be before\n\n` +
-					`Expected: ${this.utils.printExpected(expectedDate.toISOString())}\n` +
-					`Received: ${this.utils.printReceived(actualDate.toISOString())}`
+					`Expected: ${this.utils.printExpected(parsedExpected.toISOString())}\n` +
+					`Received: ${this.utils.printReceived(parsedActual.toISOString())}`
 				);
 			}
 
@@ -196,17 +243,15 @@ export const expectlyDateMatchers = withMatcherState({
 			message,
 			pass,
 			name: assertionName,
-			expected: expectedDate,
-			actual: actualDate,
+			expected: parsedExpected,
+			actual: parsedActual,
 		};
 	},
-	toBeAfter(actualDate: Date, expectedDate: Date) {
+	toBeAfter(actualDate: DateInput, expectedDate: DateInput, options?: DateParseOptions) {
 		const assertionName = "toBeAfter";
-		const parsedActual = actualDate;
-		const parsedExpected = expectedDate;
-
-		validateDate(parsedActual, "actual date");
-		validateDate(parsedExpected, "expected date");
+		const parseDate = createDateParser(options);
+		const parsedActual = parseDate(actualDate, "actual date");
+		const parsedExpected = parseDate(expectedDate, "expected date");
 
 		const pass = parsedActual.getTime() > parsedExpected.getTime();
 
@@ -246,15 +291,12 @@ export const expectlyDateMatchers = withMatcherState({
 			actual: parsedActual,
 		};
 	},
-	toBeBetween(actualDate: Date, startDate: Date, endDate: Date) {
+	toBeBetween(actualDate: DateInput, startDate: DateInput, endDate: DateInput, options?: DateParseOptions) {
 		const assertionName = "toBeBetween";
-		const parsedActual = actualDate;
-		const parsedStart = startDate;
-		const parsedEnd = endDate;
-
-		validateDate(parsedActual, "actual date");
-		validateDate(parsedStart, "start date");
-		validateDate(parsedEnd, "end date");
+		const parseDate = createDateParser(options);
+		const parsedActual = parseDate(actualDate, "actual date");
+		const parsedStart = parseDate(startDate, "start date");
+		const parsedEnd = parseDate(endDate, "end date");
 
 		const actualTime = parsedActual.getTime();
 		const pass = actualTime >= parsedStart.getTime() && actualTime <= parsedEnd.getTime();
@@ -297,18 +339,15 @@ export const expectlyDateMatchers = withMatcherState({
 			actual: parsedActual,
 		};
 	},
-	toBeSameDay(actualDate: Date, expectedDate: Date) {
+	toBeSameDay(actualDate: DateInput, expectedDate: DateInput, options?: DateTimeZoneOptions) {
 		const assertionName = "toBeSameDay";
-		const parsedActual = actualDate;
-		const parsedExpected = expectedDate;
+		const parseDate = createDateParser(options);
+		const parsedActual = parseDate(actualDate, "actual date");
+		const parsedExpected = parseDate(expectedDate, "expected date");
 
-		validateDate(parsedActual, "actual date");
-		validateDate(parsedExpected, "expected date");
+		const timeZone = resolveTimeZone(assertionName, options);
 
-		const pass =
-			parsedActual.getFullYear() === parsedExpected.getFullYear() &&
-			parsedActual.getMonth() === parsedExpected.getMonth() &&
-			parsedActual.getDate() === parsedExpected.getDate();
+		const pass = isSameCalendarDay(getCalendarDate(parsedActual, timeZone), getCalendarDate(parsedExpected, timeZone));
 
 		const message = (): string => {
 			const hint = this.utils.matcherHint(assertionName, undefined, undefined, {
@@ -321,7 +360,8 @@ export const expectlyDateMatchers = withMatcherState({
 					"\n\n" +
 					`Expected dates to not be the same day\n\n` +
 					`Expected: ${this.utils.printExpected(parsedExpected.toISOString())}\n` +
-					`Received: ${this.utils.printReceived(parsedActual.toISOString())}`
+					`Received: ${this.utils.printReceived(parsedActual.toISOString())}` +
+					formatTimeZoneLine(timeZone)
 				);
 			}
 
@@ -331,7 +371,8 @@ export const expectlyDateMatchers = withMatcherState({
 					"\n\n" +
 					`Expected dates to be the same day\n\n` +
 					`Expected: ${this.utils.printExpected(parsedExpected.toISOString())}\n` +
-					`Received: ${this.utils.printReceived(parsedActual.toISOString())}`
+					`Received: ${this.utils.printReceived(parsedActual.toISOString())}` +
+					formatTimeZoneLine(timeZone)
 				);
 			}
 
@@ -346,17 +387,18 @@ export const expectlyDateMatchers = withMatcherState({
 			actual: parsedActual,
 		};
 	},
-	toBeSameMonth(actualDate: Date, expectedDate: Date) {
+	toBeSameMonth(actualDate: DateInput, expectedDate: DateInput, options?: DateTimeZoneOptions) {
 		const assertionName = "toBeSameMonth";
-		const parsedActual = actualDate;
-		const parsedExpected = expectedDate;
+		const parseDate = createDateParser(options);
+		const parsedActual = parseDate(actualDate, "actual date");
+		const parsedExpected = parseDate(expectedDate, "expected date");
 
-		validateDate(parsedActual, "actual date");
-		validateDate(parsedExpected, "expected date");
+		const timeZone = resolveTimeZone(assertionName, options);
+		const actualCalendarDate = getCalendarDate(parsedActual, timeZone);
+		const expectedCalendarDate = getCalendarDate(parsedExpected, timeZone);
 
 		const pass =
-			parsedActual.getFullYear() === parsedExpected.getFullYear() &&
-			parsedActual.getMonth() === parsedExpected.getMonth();
+			actualCalendarDate.year === expectedCalendarDate.year && actualCalendarDate.month === expectedCalendarDate.month;
 
 		const message = (): string => {
 			const hint = this.utils.matcherHint(assertionName, undefined, undefined, {
@@ -369,7 +411,8 @@ export const expectlyDateMatchers = withMatcherState({
 					"\n\n" +
 					`Expected dates to not be in the same month\n\n` +
 					`Expected: ${this.utils.printExpected(parsedExpected.toISOString())}\n` +
-					`Received: ${this.utils.printReceived(parsedActual.toISOString())}`
+					`Received: ${this.utils.printReceived(parsedActual.toISOString())}` +
+					formatTimeZoneLine(timeZone)
 				);
 			}
 
@@ -379,7 +422,8 @@ export const expectlyDateMatchers = withMatcherState({
 					"\n\n" +
 					`Expected dates to be in the same month\n\n` +
 					`Expected: ${this.utils.printExpected(parsedExpected.toISOString())}\n` +
-					`Received: ${this.utils.printReceived(parsedActual.toISOString())}`
+					`Received: ${this.utils.printReceived(parsedActual.toISOString())}` +
+					formatTimeZoneLine(timeZone)
 				);
 			}
 
@@ -394,15 +438,15 @@ export const expectlyDateMatchers = withMatcherState({
 			actual: parsedActual,
 		};
 	},
-	toBeSameYear(actualDate: Date, expectedDate: Date) {
+	toBeSameYear(actualDate: DateInput, expectedDate: DateInput, options?: DateTimeZoneOptions) {
 		const assertionName = "toBeSameYear";
-		const parsedActual = actualDate;
-		const parsedExpected = expectedDate;
+		const parseDate = createDateParser(options);
+		const parsedActual = parseDate(actualDate, "actual date");
+		const parsedExpected = parseDate(expectedDate, "expected date");
 
-		validateDate(parsedActual, "actual date");
-		validateDate(parsedExpected, "expected date");
+		const timeZone = resolveTimeZone(assertionName, options);
 
-		const pass = parsedActual.getFullYear() === parsedExpected.getFullYear();
+		const pass = getCalendarDate(parsedActual, timeZone).year === getCalendarDate(parsedExpected, timeZone).year;
 
 		const message = (): string => {
 			const hint = this.utils.matcherHint(assertionName, undefined, undefined, {
@@ -415,7 +459,8 @@ export const expectlyDateMatchers = withMatcherState({
 					"\n\n" +
 					`Expected dates to not be in the same year\n\n` +
 					`Expected: ${this.utils.printExpected(parsedExpected.toISOString())}\n` +
-					`Received: ${this.utils.printReceived(parsedActual.toISOString())}`
+					`Received: ${this.utils.printReceived(parsedActual.toISOString())}` +
+					formatTimeZoneLine(timeZone)
 				);
 			}
 
@@ -425,7 +470,8 @@ export const expectlyDateMatchers = withMatcherState({
 					"\n\n" +
 					`Expected dates to be in the same year\n\n` +
 					`Expected: ${this.utils.printExpected(parsedExpected.toISOString())}\n` +
-					`Received: ${this.utils.printReceived(parsedActual.toISOString())}`
+					`Received: ${this.utils.printReceived(parsedActual.toISOString())}` +
+					formatTimeZoneLine(timeZone)
 				);
 			}
 
@@ -440,17 +486,15 @@ export const expectlyDateMatchers = withMatcherState({
 			actual: parsedActual,
 		};
 	},
-	toBeToday(actualDate: Date) {
+	toBeToday(actualDate: DateInput, options?: RelativeDateOptions) {
 		const assertionName = "toBeToday";
-		const parsedActual = actualDate;
+		const parseDate = createDateParser(options);
+		const parsedActual = parseDate(actualDate, "actual date");
 
-		validateDate(parsedActual, "actual date");
+		const timeZone = resolveTimeZone(assertionName, options);
 
-		const today = new Date();
-		const pass =
-			parsedActual.getFullYear() === today.getFullYear() &&
-			parsedActual.getMonth() === today.getMonth() &&
-			parsedActual.getDate() === today.getDate();
+		const today = resolveNow(assertionName, options);
+		const pass = isSameCalendarDay(getCalendarDate(parsedActual, timeZone), getCalendarDate(today, timeZone));
 
 		const message = (): string => {
 			const hint = this.utils.matcherHint(assertionName, undefined, undefined, {
@@ -462,7 +506,9 @@ export const expectlyDateMatchers = withMatcherState({
 					hint +
 					"\n\n" +
 					`Expected date to not be today\n\n` +
-					`Received: ${this.utils.printReceived(parsedActual.toISOString())}`
+					`Today: ${this.utils.printExpected(today.toISOString())}\n` +
+					`Received: ${this.utils.printReceived(parsedActual.toISOString())}` +
+					formatTimeZoneLine(timeZone)
 				);
 			}
 
@@ -472,7 +518,8 @@ export const expectlyDateMatchers = withMatcherState({
 					"\n\n" +
 					`Expected date to be today\n\n` +
 					`Today: ${this.utils.printExpected(today.toISOString())}\n` +
-					`Received: ${this.utils.printReceived(parsedActual.toISOString())}`
+					`Received: ${this.utils.printReceived(parsedActual.toISOString())}` +
+					formatTimeZoneLine(timeZone)
 				);
 			}
 
@@ -486,18 +533,18 @@ export const expectlyDateMatchers = withMatcherState({
 			actual: parsedActual,
 		};
 	},
-	toBeYesterday(actualDate: Date) {
+	toBeYesterday(actualDate: DateInput, options?: RelativeDateOptions) {
 		const assertionName = "toBeYesterday";
-		const parsedActual = actualDate;
+		const parseDate = createDateParser(options);
+		const parsedActual = parseDate(actualDate, "actual date");
 
-		validateDate(parsedActual, "actual date");
+		const timeZone = resolveTimeZone(assertionName, options);
 
-		const yesterday = new Date();
+		const now = resolveNow(assertionName, options);
+		const yesterday = new Date(now);
 		yesterday.setDate(yesterday.getDate() - 1);
-		const pass =
-			parsedActual.getFullYear() === yesterday.getFullYear() &&
-			parsedActual.getMonth() === yesterday.getMonth() &&
-			parsedActual.getDate() === yesterday.getDate();
+		const expectedDay = shiftCalendarDate(getCalendarDate(now, timeZone), { days: -1 });
+		const pass = isSameCalendarDay(getCalendarDate(parsedActual, timeZone), expectedDay);
 
 		const message = (): string => {
 			const hint = this.utils.matcherHint(assertionName, undefined, undefined, {
@@ -509,7 +556,9 @@ export const expectlyDateMatchers = withMatcherState({
 					hint +
 					"\n\n" +
 					`Expected date to not be yesterday\n\n` +
-					`Received: ${this.utils.printReceived(parsedActual.toISOString())}`
+					`Now: ${this.utils.printExpected(now.toISOString())}\n` +
+					`Received: ${this.utils.printReceived(parsedActual.toISOString())}` +
+					formatTimeZoneLine(timeZone)
 				);
 			}
 
@@ -518,8 +567,10 @@ export const expectlyDateMatchers = withMatcherState({
 					hint +
 					"\n\n" +
 					`Expected date to be yesterday\n\n` +
+					`Now: ${this.utils.printExpected(now.toISOString())}\n` +
 					`Yesterday: ${this.utils.printExpected(yesterday.toISOString())}\n` +
-					`Received: ${this.utils.printReceived(parsedActual.toISOString())}`
+					`Received: ${this.utils.printReceived(parsedActual.toISOString())}` +
+					formatTimeZoneLine(timeZone)
 				);
 			}
 
@@ -533,18 +584,18 @@ export const expectlyDateMatchers = withMatcherState({
 			actual: parsedActual,
 		};
 	},
-	toBeTomorrow(actualDate: Date) {
+	toBeTomorrow(actualDate: DateInput, options?: RelativeDateOptions) {
 		const assertionName = "toBeTomorrow";
-		const parsedActual = actualDate;
+		const parseDate = createDateParser(options);
+		const parsedActual = parseDate(actualDate, "actual date");
 
-		validateDate(parsedActual, "actual date");
+		const timeZone = resolveTimeZone(assertionName, options);
 
-		const tomorrow = new Date();
+		const now = resolveNow(assertionName, options);
+		const tomorrow = new Date(now);
 		tomorrow.setDate(tomorrow.getDate() + 1);
-		const pass =
-			parsedActual.getFullYear() === tomorrow.getFullYear() &&
-			parsedActual.getMonth() === tomorrow.getMonth() &&
-			parsedActual.getDate() === tomorrow.getDate();
+		const expectedDay = shiftCalendarDate(getCalendarDate(now, timeZone), { days: 1 });
+		const pass = isSameCalendarDay(getCalendarDate(parsedActual, timeZone), expectedDay);
 
 		const message = (): string => {
 			const hint = this.utils.matcherHint(assertionName, undefined, undefined, {
@@ -556,7 +607,9 @@ export const expectlyDateMatchers = withMatcherState({
 					hint +
 					"\n\n" +
 					`Expected date to not be tomorrow\n\n` +
-					`Received: ${this.utils.printReceived(parsedActual.toISOString())}`
+					`Now: ${this.utils.printExpected(now.toISOString())}\n` +
+					`Received: ${this.utils.printReceived(parsedActual.toISOString())}` +
+					formatTimeZoneLine(timeZone)
 				);
 			}
 
@@ -565,8 +618,10 @@ export const expectlyDateMatchers = withMatcherState({
 					hint +
 					"\n\n" +
 					`Expected date to be tomorrow\n\n` +
+					`Now: ${this.utils.printExpected(now.toISOString())}\n` +
 					`Tomorrow: ${this.utils.printExpected(tomorrow.toISOString())}\n` +
-					`Received: ${this.utils.printReceived(parsedActual.toISOString())}`
+					`Received: ${this.utils.printReceived(parsedActual.toISOString())}` +
+					formatTimeZoneLine(timeZone)
 				);
 			}
 
@@ -580,13 +635,14 @@ export const expectlyDateMatchers = withMatcherState({
 			actual: parsedActual,
 		};
 	},
-	toBeWeekday(actualDate: Date) {
+	toBeWeekday(actualDate: DateInput, options?: DateTimeZoneOptions) {
 		const assertionName = "toBeWeekday";
-		const parsedActual = actualDate;
+		const parseDate = createDateParser(options);
+		const parsedActual = parseDate(actualDate, "actual date");
 
-		validateDate(parsedActual, "actual date");
+		const timeZone = resolveTimeZone(assertionName, options);
 
-		const dayOfWeek = parsedActual.getDay();
+		const dayOfWeek = getCalendarDate(parsedActual, timeZone).weekday;
 		const pass = dayOfWeek >= 1 && dayOfWeek <= 5;
 
 		const message = (): string => {
@@ -601,7 +657,8 @@ export const expectlyDateMatchers = withMatcherState({
 					hint +
 					"\n\n" +
 					`Expected date to not be a weekday\n\n` +
-					`Received: ${this.utils.printReceived(parsedActual.toISOString())} (${dayNames[dayOfWeek]})`
+					`Received: ${this.utils.printReceived(parsedActual.toISOString())} (${dayNames[dayOfWeek]})` +
+					formatTimeZoneLine(timeZone)
 				);
 			}
 
@@ -610,7 +667,8 @@ export const expectlyDateMatchers = withMatcherState({
 					hint +
 					"\n\n" +
 					`Expected date to be a weekday (Monday-Friday)\n\n` +
-					`Received: ${this.utils.printReceived(parsedActual.toISOString())} (${dayNames[dayOfWeek]})`
+					`Received: ${this.utils.printReceived(parsedActual.toISOString())} (${dayNames[dayOfWeek]})` +
+					formatTimeZoneLine(timeZone)
 				);
 			}
 
@@ -624,13 +682,14 @@ export const expectlyDateMatchers = withMatcherState({
 			actual: parsedActual,
 		};
 	},
-	toBeWeekend(actualDate: Date) {
+	toBeWeekend(actualDate: DateInput, options?: DateTimeZoneOptions) {
 		const assertionName = "toBeWeekend";
-		const parsedActual = actualDate;
+		const parseDate = createDateParser(options);
+		const parsedActual = parseDate(actualDate, "actual date");
 
-		validateDate(parsedActual, "actual date");
+		const timeZone = resolveTimeZone(assertionName, options);
 
-		const dayOfWeek = parsedActual.getDay();
+		const dayOfWeek = getCalendarDate(parsedActual, timeZone).weekday;
 		const pass = dayOfWeek === 0 || dayOfWeek === 6;
 
 		const message = (): string => {
@@ -645,7 +704,8 @@ export const expectlyDateMatchers = withMatcherState({
 					hint +
 					"\n\n" +
 					`Expected date to not be a weekend\n\n` +
-					`Received: ${this.utils.printReceived(parsedActual.toISOString())} (${dayNames[dayOfWeek]})`
+					`Received: ${this.utils.printReceived(parsedActual.toISOString())} (${dayNames[dayOfWeek]})` +
+					formatTimeZoneLine(timeZone)
 				);
 			}
 
@@ -654,7 +714,8 @@ export const expectlyDateMatchers = withMatcherState({
 					hint +
 					"\n\n" +
 					`Expected date to be a weekend (Saturday-Sunday)\n\n` +
-					`Received: ${this.utils.printReceived(parsedActual.toISOString())} (${dayNames[dayOfWeek]})`
+					`Received: ${this.utils.printReceived(parsedActual.toISOString())} (${dayNames[dayOfWeek]})` +
+					formatTimeZoneLine(timeZone)
 				);
 			}
 
@@ -668,13 +729,117 @@ export const expectlyDateMatchers = withMatcherState({
 			actual: parsedActual,
 		};
 	},
-	toBeInThePast(actualDate: Date) {
-		const assertionName = "toBeInThePast";
-		const parsedActual = actualDate;
+	toBeBusinessDay(actualDate: DateInput, options?: BusinessDayOptions) {
+		const assertionName = "toBeBusinessDay";
+		const parseDate = createDateParser(options);
+		const parsedActual = parseDate(actualDate, "actual date");
+
+		const timeZone = resolveTimeZone(assertionName, options);
+		const calendar = resolveBusinessCalendar(assertionName, options, parseDate, timeZone);
+
+		const actualDay = getCalendarDate(parsedActual, timeZone);
+		const pass = getNonBusinessDayReason(actualDay, calendar) === undefined;
+
+		const message = (): string => {
+			const hint = this.utils.matcherHint(assertionName, undefined, undefined, {
+				isNot: this.isNot,
+			});
+
+			if (pass && this.isNot) {
+				return (
+					hint +
+					"\n\n" +
+					`Expected date to not be a business day\n\n` +
+					`Received: ${this.utils.printReceived(parsedActual.toISOString())} (${describeBusinessDay(actualDay, calendar)})\n` +
+					formatWeekendLine(calendar) +
+					formatTimeZoneLine(timeZone)
+				);
+			}
+
+			if (!pass && !this.isNot) {
+				return (
+					hint +
+					"\n\n" +
+					`Expected date to be a business day\n\n` +
+					`Received: ${this.utils.printReceived(parsedActual.toISOString())} (${describeBusinessDay(actualDay, calendar)})\n` +
+					formatWeekendLine(calendar) +
+					formatTimeZoneLine(timeZone)
+				);
+			}
+
+			return hint;
+		};
+
+		return {
+			message,
+			pass,
+			name: assertionName,
+			actual: parsedActual,
+		};
+	},
+	toBeNBusinessDaysAfter(
+		actualDate: DateInput,
+		startDate: DateInput,
+		businessDays: number,
+		options?: BusinessDayOptions,
+	) {
+		const assertionName = "toBeNBusinessDaysAfter";
+		if (!Number.isInteger(businessDays)) {
+			throw new Error(`${assertionName}: business days must be an integer, received ${String(businessDays)}`);
+		}
+
+		const parseDate = createDateParser(options);
+		const parsedActual = parseDate(actualDate, "actual date");
+		const parsedStart = parseDate(startDate, "start date");
+
+		const timeZone = resolveTimeZone(assertionName, options);
+		const calendar = resolveBusinessCalendar(assertionName, options, parseDate, timeZone);
+
+		const actualDay = getCalendarDate(parsedActual, timeZone);
+		const startDay = getCalendarDate(parsedStart, timeZone);
+		const expectedDay = addBusinessDays(startDay, businessDays, calendar);
+		const pass = isSameCalendarDay(actualDay, expectedDay);
+
+		const message = (): string => {
+			const hint = this.utils.matcherHint(assertionName, undefined, String(businessDays), {
+				isNot: this.isNot,
+			});
+
+			const details =
+				`Start: ${this.utils.printExpected(parsedStart.toISOString())} (${describeBusinessDay(startDay, calendar)})\n` +
+				`Expected day: ${this.utils.printExpected(formatCalendarDate(expectedDay))}\n` +
+				`Received: ${this.utils.printReceived(parsedActual.toISOString())} (${describeBusinessDay(actualDay, calendar)}), ` +
+				`${countBusinessDays(startDay, actualDay, calendar)} business day(s) after the start\n` +
+				formatWeekendLine(calendar) +
+				formatTimeZoneLine(timeZone);
+
+			if (pass && this.isNot) {
+				return (
+					hint + "\n\n" + `Expected date to not be ${businessDays} business day(s) after the start date\n\n` + details
+				);
+			}
+
+			if (!pass && !this.isNot) {
+				return hint + "\n\n" + `Expected date to be ${businessDays} business day(s) after the start date\n\n` + details;
+			}
 
-		validateDate(parsedActual, "actual date");
+			return hint;
+		};
 
-		const now = new Date();
+		return {
+			message,
+			pass,
+			name: assertionName,
+			expected: formatCalendarDate(expectedDay),
+			actual: parsedActual,
+		};
+	},
+	toBeInThePast(actualDate: DateInput, options?: DateReferenceOptions) {
+		const assertionName = "toBeInThePast";
+		const parseDate = createDateParser(options);
+		const parsedActual = parseDate(actualDate, "actual date");
+
+		const now = resolveNow(assertionName, options);
 		const pass = parsedActual.getTime() < now.getTime();
 
 		const message = (): string => {
@@ -712,13 +877,12 @@ export const expectlyDateMatchers = withMatcherState({
 			actual: parsedActual,
 		};
 	},
-	toBeInTheFuture(actualDate: Date) {
+	toBeInTheFuture(actualDate: DateInput, options?: DateReferenceOptions) {
 		const assertionName = "toBeInTheFuture";
-		const parsedActual = actualDate;
-
-		validateDate(parsedActual, "actual date");
+		const parseDate = createDateParser(options);
+		const parsedActual = parseDate(actualDate, "actual date");
 
-		const now = new Date();
+		const now = resolveNow(assertionName, options);
 		const pass = parsedActual.getTime() > now.getTime();
 
 		const message = (): string => {
@@ -756,13 +920,14 @@ export const expectlyDateMatchers = withMatcherState({
 			actual: parsedActual,
 		};
 	},
-	toBeLeapYear(actualDate: Date) {
+	toBeLeapYear(actualDate: DateInput, options?: DateTimeZoneOptions) {
 		const assertionName = "toBeLeapYear";
-		const parsedActual = actualDate;
+		const parseDate = createDateParser(options);
+		const parsedActual = parseDate(actualDate, "actual date");
 
-		validateDate(parsedActual, "actual date");
+		const timeZone = resolveTimeZone(assertionName, options);
 
-		const year = parsedActual.getFullYear();
+		const year = getCalendarDate(parsedActual, timeZone).year;
 		const pass = (year % 4 === 0 && year % 100 !== 0) || year % 400 === 0;
 
 		const message = (): string => {
@@ -771,11 +936,11 @@ export const expectlyDateMatchers = withMatcherState({
 			});
 
 			if (pass && this.isNot) {
-				return `${hint}\n\nExpected year to not be a leap year\n\nYear: ${this.utils.printReceived(year)}`;
+				return `${hint}\n\nExpected year to not be a leap year\n\nYear: ${this.utils.printReceived(year)}${formatTimeZoneLine(timeZone)}`;
 			}
 
 			if (!pass && !this.isNot) {
-				return `${hint}\n\nExpected year to be a leap year\n\nYear: ${this.utils.printReceived(year)}`;
+				return `${hint}\n\nExpected year to be a leap year\n\nYear: ${this.utils.printReceived(year)}${formatTimeZoneLine(timeZone)}`;
 			}
 
 			return hint;
@@ -788,32 +953,24 @@ export const expectlyDateMatchers = withMatcherState({
 			actual: parsedActual,
 		};
 	},
-	toHaveDateRange(actual: Date[], expectedRange: { days?: number; months?: number; years?: number }) {
+	toHaveDateRange(actual: DateInput[], expectedRange: DateRangeOptions, options?: DateTimeZoneOptions) {
 		const assertionName = "toHaveDateRange";
+		const parseDate = createDateParser(options);
+		const dates = actual.map((date) => parseDate(date, "date in array"));
 
-		if (actual.length === 0) {
+		if (dates.length === 0) {
 			throw new Error("Array must contain at least one date");
 		}
 
-		for (const date of actual) {
-			if (!isValidDate(date)) {
-				throw new Error(`Invalid date in array: ${String(date)}`);
-			}
-		}
-
-		const sortedDates = [...actual].sort((a, b) => a.getTime() - b.getTime());
+		const timeZone = resolveTimeZone(assertionName, options);
+		const sortedDates = [...dates].sort((a, b) => a.getTime() - b.getTime());
 		const firstDate = sortedDates[0];
 		const lastDate = sortedDates[sortedDates.length - 1];
 
-		const diffMs = lastDate.getTime() - firstDate.getTime();
-		const diffDays = diffMs / (1000 * 60 * 60 * 24);
-
-		let expectedDays = 0;
-		if (expectedRange.days) expectedDays += expectedRange.days;
-		if (expectedRange.months) expectedDays += expectedRange.months * 30.44; // Average month length
-		if (expectedRange.years) expectedDays += expectedRange.years * 365.25; // Average year length
-
-		const pass = Math.abs(diffDays - expectedDays) < 1; // Allow 1 day tolerance
+		// The range is compared in calendar days, so the times of day do not matter
+		const expectedLastDay = getCalendarDate(addCalendarDuration(firstDate, expectedRange, timeZone), timeZone);
+		const pass = isSameCalendarDay(getCalendarDate(lastDate, timeZone), expectedLastDay);
+		const actualRange = getCalendarDuration(firstDate, lastDate, timeZone);
 
 		const message = (): string => {
 			const hint = this.utils.matcherHint(assertionName, undefined, undefined, {
@@ -826,9 +983,10 @@ export const expectlyDateMatchers = withMatcherState({
 					"\n\n" +
 					`Expected date range to not match\n\n` +
 					`Expected range: ${this.utils.printExpected(expectedRange)}\n` +
-					`Actual range: ${this.utils.printReceived(diffDays.toFixed(1))} days\n` +
+					`Actual range: ${this.utils.printReceived(formatCalendarDuration(actualRange))}\n` +
 					`First date: ${firstDate.toISOString()}\n` +
-					`Last date: ${lastDate.toISOString()}`
+					`Last date: ${lastDate.toISOString()}` +
+					formatTimeZoneLine(timeZone)
 				);
 			}
 
@@ -837,10 +995,11 @@ export const expectlyDateMatchers = withMatcherState({
 					hint +
 					"\n\n" +
 					`Expected date range to match\n\n` +
-					`Expected range: ${this.utils.printExpected(expectedRange)} (~${expectedDays.toFixed(1)} days)\n` +
-					`Actual range: ${this.utils.printReceived(diffDays.toFixed(1))} days\n` +
+					`Expected range: ${this.utils.printExpected(expectedRange)} (last day ${formatCalendarDate(expectedLastDay)})\n` +
+					`Actual range: ${this.utils.printReceived(formatCalendarDuration(actualRange))}\n` +
 					`First date: ${firstDate.toISOString()}\n` +
-					`Last date: ${lastDate.toISOString()}`
+					`Last date: ${lastDate.toISOString()}` +
+					formatTimeZoneLine(timeZone)
 				);
 			}
 
@@ -852,56 +1011,36 @@ export const expectlyDateMatchers = withMatcherState({
 			pass,
 			name: assertionName,
 			expected: expectedRange,
-			actual: { days: diffDays, firstDate, lastDate },
+			actual: { ...actualRange, firstDate, lastDate },
 		};
 	},
-	toHaveConsecutiveDates(actual: Date[], unit: "day" | "month" | "year") {
+	toHaveConsecutiveDates(actual: DateInput[], unit: "day" | "month" | "year", options?: DateTimeZoneOptions) {
 		const assertionName = "toHaveConsecutiveDates";
+		const parseDate = createDateParser(options);
+		const dates = actual.map((date) => parseDate(date, "date in array"));
 
-		if (actual.length < 2) {
+		if (dates.length < 2) {
 			throw new Error("Array must contain at least two dates");
 		}
 
-		for (const date of actual) {
-			if (!isValidDate(date)) {
-				throw new Error(`Invalid date in array: ${String(date)}`);
-			}
-		}
-
-		const sortedDates = [...actual].sort((a, b) => a.getTime() - b.getTime());
+		const timeZone = resolveTimeZone(assertionName, options);
+		const sortedDates = [...dates].sort((a, b) => a.getTime() - b.getTime());
 		let pass = true;
 		let failIndex = -1;
 
+		const step = { day: { days: 1 }, month: { months: 1 }, year: { years: 1 } }[unit];
 		for (let i = 1; i < sortedDates.length; i++) {
-			const prev = sortedDates[i - 1];
-			const curr = sortedDates[i];
-
-			if (unit === "day") {
-				const expected = new Date(prev);
-				expected.setDate(expected.getDate() + 1);
-				if (
-					curr.getFullYear() !== expected.getFullYear() ||
-					curr.getMonth() !== expected.getMonth() ||
-					curr.getDate() !== expected.getDate()
-				) {
-					pass = false;
-					failIndex = i;
-					break;
-				}
-			} else if (unit === "month") {
-				const expected = new Date(prev);
-				expected.setMonth(expected.getMonth() + 1);
-				if (curr.getFullYear() !== expected.getFullYear() || curr.getMonth() !== expected.getMonth()) {
-					pass = false;
-					failIndex = i;
-					break;
-				}
-			} else if (unit === "year") {
-				if (curr.getFullYear() !== prev.getFullYear() + 1) {
-					pass = false;
-					failIndex = i;
-					break;
-				}
+			const curr = getCalendarDate(sortedDates[i], timeZone);
+			const expected = getCalendarDate(addCalendarDuration(sortedDates[i - 1], step, timeZone), timeZone);
+
+			const isConsecutive =
+				curr.year === expected.year &&
+				(unit === "year" || curr.month === expected.month) &&
+				(unit !== "day" || curr.day === expected.day);
+			if (!isConsecutive) {
+				pass = false;
+				failIndex = i;
+				break;
 			}
 		}
 
@@ -915,7 +1054,8 @@ export const expectlyDateMatchers = withMatcherState({
 					hint +
 					"\n\n" +
 					`Expected dates to not be consecutive by ${unit}\n\n` +
-					`Received: ${this.utils.printReceived(formatDatesForDisplay(sortedDates))}`
+					`Received: ${this.utils.printReceived(formatDatesForDisplay(sortedDates))}` +
+					formatTimeZoneLine(timeZone)
 				);
 			}
 
@@ -927,7 +1067,8 @@ export const expectlyDateMatchers = withMatcherState({
 					`Gap found at index ${failIndex}:\n` +
 					`Previous: ${sortedDates[failIndex - 1].toISOString()}\n` +
 					`Current: ${sortedDates[failIndex].toISOString()}\n\n` +
-					`Full array: ${this.utils.printReceived(formatDatesForDisplay(sortedDates))}`
+					`Full array: ${this.utils.printReceived(formatDatesForDisplay(sortedDates))}` +
+					formatTimeZoneLine(timeZone)
 				);
 			}
 
@@ -942,23 +1083,87 @@ export const expectlyDateMatchers = withMatcherState({
 			actual: sortedDates,
 		};
 	},
-	toHaveDatesWithinRange(actual: Date[], startDate: Date, endDate: Date) {
+	toFollowRecurrence(actual: DateInput[], rule: string, options?: RecurrenceOptions) {
+		const assertionName = "toFollowRecurrence";
+		const parsedRule = parseRecurrenceRule(assertionName, rule);
+		const parseDate = createDateParser(options);
+		const dates = actual.map((date) => parseDate(date, "date in array"));
+		const sortedDates = [...dates].sort((a, b) => a.getTime() - b.getTime());
+
+		const start = options?.start === undefined ? sortedDates[0] : parseDate(options.start, "start");
+		if (start === undefined) {
+			throw new Error("Array must contain at least one date");
+		}
+
+		// Rules without COUNT or UNTIL are checked up to the last date
+		const timeZone = resolveTimeZone(assertionName, options);
+		const end =
+			sortedDates.length > 0 && sortedDates[sortedDates.length - 1] > start
+				? sortedDates[sortedDates.length - 1]
+				: start;
+		const occurrences = generateOccurrences(parsedRule, start, timeZone, end);
+		const { missing, unexpected } = diffDates(occurrences, sortedDates);
+		const pass = missing.length === 0 && unexpected.length === 0;
+
+		const message = (): string => {
+			const hint = this.utils.matcherHint(assertionName, undefined, undefined, {
+				isNot: this.isNot,
+			});
+			const ruleLines = `Rule: ${this.utils.printExpected(rule)}\n` + `Start: ${start.toISOString()}\n`;
+
+			if (pass && this.isNot) {
+				return (
+					hint +
+					"\n\n" +
+					`Expected dates to not follow the recurrence rule\n\n` +
+					ruleLines +
+					`Occurrences: ${occurrences.length}` +
+					formatTimeZoneLine(timeZone)
+				);
+			}
+
+			if (!pass && !this.isNot) {
+				const formatOccurrences = (label: string, list: Date[]): string =>
+					list.length === 0 ? "" : `\n${label} (${list.length}):\n` + formatRecurrenceDates(list, timeZone);
+				return (
+					hint +
+					"\n\n" +
+					`Expected dates to follow the recurrence rule\n\n` +
+					ruleLines +
+					`Occurrences: ${occurrences.length}, received dates: ${sortedDates.length}\n` +
+					formatOccurrences("Missing occurrences", missing) +
+					formatOccurrences("Unexpected dates", unexpected) +
+					formatTimeZoneLine(timeZone)
+				);
+			}
+
+			return hint;
+		};
+
+		return {
+			message,
+			pass,
+			name: assertionName,
+			expected: formatDatesForDisplay(occurrences),
+			actual: formatDatesForDisplay(sortedDates),
+		};
+	},
+	toHaveDatesWithinRange(actual: DateInput[], startDate: DateInput, endDate: DateInput, options?: DateParseOptions) {
 		const assertionName = "toHaveDatesWithinRange";
+		const parseDate = createDateParser(options);
+		const dates = actual.map((date) => parseDate(date, "date in array"));
 
-		if (actual.length === 0) {
+		if (dates.length === 0) {
 			throw new Error("Array must contain at least one date");
 		}
 
-		for (const date of actual) {
-			validateDate(date, "date in array");
-		}
-		validateDate(startDate, "start date");
-		validateDate(endDate, "end date");
+		const parsedStart = parseDate(startDate, "start date");
+		const parsedEnd = parseDate(endDate, "end date");
 
-		const startTime = startDate.getTime();
-		const endTime = endDate.getTime();
+		const startTime = parsedStart.getTime();
+		const endTime = parsedEnd.getTime();
 
-		const outOfRangeDates = actual.filter((date) => {
+		const outOfRangeDates = dates.filter((date) => {
 			const time = date.getTime();
 			return time < startTime || time > endTime;
 		});
@@ -975,9 +1180,9 @@ export const expectlyDateMatchers = withMatcherState({
 					hint +
 					"\n\n" +
 					`Expected dates to not all be within range\n\n` +
-					`Start: ${this.utils.printExpected(startDate.toISOString())}\n` +
-					`End: ${this.utils.printExpected(endDate.toISOString())}\n` +
-					`All ${actual.length} dates were within range`
+					`Start: ${this.utils.printExpected(parsedStart.toISOString())}\n` +
+					`End: ${this.utils.printExpected(parsedEnd.toISOString())}\n` +
+					`All ${dates.length} dates were within range`
 				);
 			}
 
@@ -986,8 +1191,8 @@ export const expectlyDateMatchers = withMatcherState({
 					hint +
 					"\n\n" +
 					`Expected all dates to be within range\n\n` +
-					`Start: ${this.utils.printExpected(startDate.toISOString())}\n` +
-					`End: ${this.utils.printExpected(endDate.toISOString())}\n` +
+					`Start: ${this.utils.printExpected(parsedStart.toISOString())}\n` +
+					`End: ${this.utils.printExpected(parsedEnd.toISOString())}\n` +
 					`Out of range dates (${outOfRangeDates.length}):\n${this.utils.printReceived(formatDatesForDisplay(outOfRangeDates))}`
 				);
 			}
@@ -999,30 +1204,27 @@ export const expectlyDateMatchers = withMatcherState({
 			message,
 			pass,
 			name: assertionName,
-			expected: { start: startDate, end: endDate },
+			expected: { start: parsedStart, end: parsedEnd },
 			actual: outOfRangeDates,
 		};
 	},
-	toHaveUniqueDates(actual: Date[], ignoreTime = false) {
+	toHaveUniqueDates(actual: DateInput[], ignoreTime = false, options?: DateTimeZoneOptions) {
 		const assertionName = "toHaveUniqueDates";
+		const parseDate = createDateParser(options);
+		const dates = actual.map((date) => parseDate(date, "date in array"));
 
-		if (actual.length === 0) {
+		if (dates.length === 0) {
 			throw new Error("Array must contain at least one date");
 		}
 
-		for (const date of actual) {
-			if (!isValidDate(date)) {
-				throw new Error(`Invalid date in array: ${String(date)}`);
-			}
-		}
-
+		const timeZone = ignoreTime ? resolveTimeZone(assertionName, options) : undefined;
 		const seen = new Set<string>();
 		const duplicates: Date[] = [];
 
-		for (const date of actual) {
+		for (const date of dates) {
 			let key: string;
 			if (ignoreTime) {
-				key = `${date.getFullYear()}-${date.getMonth()}-${date.getDate()}`;
+				key = formatCalendarDate(getCalendarDate(date, timeZone));
 			} else {
 				key = date.getTime().toString();
 			}
@@ -1046,7 +1248,7 @@ export const expectlyDateMatchers = withMatcherState({
 					hint +
 					"\n\n" +
 					`Expected dates to not all be unique${ignoreTime ? " (ignoring time)" : ""}\n\n` +
-					`All ${actual.length} dates were unique`
+					`All ${dates.length} dates were unique`
 				);
 			}
 
@@ -1055,7 +1257,8 @@ export const expectlyDateMatchers = withMatcherState({
 					hint +
 					"\n\n" +
 					`Expected all dates to be unique${ignoreTime ? " (ignoring time)" : ""}\n\n` +
-					`Found ${duplicates.length} duplicate(s):\n${this.utils.printReceived(formatDatesForDisplay(duplicates))}`
+					`Found ${duplicates.length} duplicate(s):\n${this.utils.printReceived(formatDatesForDisplay(duplicates))}` +
+					formatTimeZoneLine(timeZone)
 				);
 			}
 
@@ -1117,10 +1320,93 @@ export const expectlyDateMatchers = withMatcherState({
 			actual,
 		};
 	},
-	toMatchTimeZone(actualDate: Date, expectedOffset: number | string) {
+	toBeValidISODuration(actual: string) {
+		const assertionName = "toBeValidISODuration";
+		const pass = typeof actual === "string" && isValidISODuration(actual);
+
+		const message = (): string => {
+			const hint = this.utils.matcherHint(assertionName, undefined, undefined, {
+				isNot: this.isNot,
+			});
+
+			if (pass && this.isNot) {
+				return (
+					hint +
+					"\n\n" +
+					`Expected string to not be a valid ISO 8601 duration\n\n` +
+					`Received: ${this.utils.printReceived(actual)}`
+				);
+			}
+
+			if (!pass && !this.isNot) {
+				return (
+					hint +
+					"\n\n" +
+					`Expected string to be a valid ISO 8601 duration\n\n` +
+					`Received: ${this.utils.printReceived(actual)}\n` +
+					`Expected format: PnYnMnWnDTnHnMnS, e.g. PT1H30M or P2DT4H`
+				);
+			}
+
+			return hint;
+		};
+
+		return {
+			message,
+			pass,
+			name: assertionName,
+			actual,
+		};
+	},
+	toHaveDurationCloseTo(actual: DurationInput, expected: DurationInput, tolerance: DateDeviationOptions) {
+		const assertionName = "toHaveDurationCloseTo";
+		const actualMs = getDurationMilliseconds(parseDuration(actual, "duration"));
+		const expectedMs = getDurationMilliseconds(parseDuration(expected, "expected duration"));
+		const toleranceMs = getDurationMilliseconds(parseDuration(tolerance, "tolerance"));
+
+		const differenceMs = actualMs - expectedMs;
+		const pass = Math.abs(differenceMs) <= toleranceMs;
+
+		const message = (): string => {
+			const hint = this.utils.matcherHint(assertionName, undefined, undefined, {
+				isNot: this.isNot,
+			});
+			const durationLines =
+				`Expected: ${this.utils.printExpected(formatDurationMilliseconds(expectedMs))}\n` +
+				`Received: ${this.utils.printReceived(formatDurationMilliseconds(actualMs))}\n` +
+				`Difference: ${formatDurationMilliseconds(Math.abs(differenceMs))}` +
+				(differenceMs === 0 ? "" : differenceMs > 0 ? " (longer)" : " (shorter)") +
+				`\nAllowed tolerance: ±${formatDurationMilliseconds(toleranceMs)}`;
+
+			if (pass && this.isNot) {
+				return hint + "\n\n" + `Expected duration to not be close to the expected duration\n\n` + durationLines;
+			}
+
+			if (!pass && !this.isNot) {
+				return (
+					hint +
+					"\n\n" +
+					`Expected duration to be close to the expected duration within the allowed tolerance\n\n` +
+					durationLines
+				);
+			}
+
+			return hint;
+		};
+
+		return {
+			message,
+			pass,
+			name: assertionName,
+			expected: formatDurationMilliseconds(expectedMs),
+			actual: formatDurationMilliseconds(actualMs),
+		};
+	},
+	toMatchTimeZone(actualDate: DateInput, expectedOffset: number | string, options?: DateParseOptions) {
 		const assertionName = "toMatchTimeZone";
+		const parseDate = createDateParser(options);
 
-		validateDate(actualDate, "actual date");
+		const parsedActual = parseDate(actualDate, "actual date");
 
 		// Parse expectedOffset to minutes
 		let expectedOffsetMinutes: number;
@@ -1144,7 +1430,7 @@ export const expectlyDateMatchers = withMatcherState({
 			expectedOffsetMinutes = expectedOffset;
 		}
 
-		const actualOffset = -actualDate.getTimezoneOffset();
+		const actualOffset = -parsedActual.getTimezoneOffset();
 		const pass = actualOffset === expectedOffsetMinutes;
 
 		const formatOffset = (offset: number): string => {
@@ -1168,7 +1454,7 @@ export const expectlyDateMatchers = withMatcherState({
 					`Expected date to not match timezone offset\n\n` +
 					`Expected offset: ${this.utils.printExpected(formatOffset(expectedOffsetMinutes))}\n` +
 					`Received offset: ${this.utils.printReceived(formatOffset(actualOffset))}\n` +
-					`Date: ${actualDate.toISOString()}`
+					`Date: ${parsedActual.toISOString()}`
 				);
 			}
 
@@ -1179,7 +1465,7 @@ export const expectlyDateMatchers = withMatcherState({
 					`Expected date to match timezone offset\n\n` +
 					`Expected offset: ${this.utils.printExpected(formatOffset(expectedOffsetMinutes))}\n` +
 					`Received offset: ${this.utils.printReceived(formatOffset(actualOffset))}\n` +
-					`Date: ${actualDate.toISOString()}`
+					`Date: ${parsedActual.toISOString()}`
 				);
 			}
 
@@ -1194,12 +1480,15 @@ export const expectlyDateMatchers = withMatcherState({
 			actual: actualOffset,
 		};
 	},
-	toBeStartOfMonth(actualDate: Date) {
+	toBeStartOfMonth(actualDate: DateInput, options?: DateTimeZoneOptions) {
 		const assertionName = "toBeStartOfMonth";
+		const parseDate = createDateParser(options);
 
-		validateDate(actualDate, "actual date");
+		const parsedActual = parseDate(actualDate, "actual date");
+		const timeZone = resolveTimeZone(assertionName, options);
 
-		const pass = actualDate.getDate() === 1;
+		const dayOfMonth = getCalendarDate(parsedActual, timeZone).day;
+		const pass = dayOfMonth === 1;
 
 		const message = (): string => {
 			const hint = this.utils.matcherHint(assertionName, undefined, undefined, {
@@ -1211,7 +1500,8 @@ export const expectlyDateMatchers = withMatcherState({
 					hint +
 					"\n\n" +
 					`Expected date to not be the start of the month\n\n` +
-					`Received: ${this.utils.printReceived(actualDate.toISOString())} (day ${actualDate.getDate()})`
+					`Received: ${this.utils.printReceived(parsedActual.toISOString())} (day ${dayOfMonth})` +
+					formatTimeZoneLine(timeZone)
 				);
 			}
 
@@ -1220,7 +1510,8 @@ export const expectlyDateMatchers = withMatcherState({
 					hint +
 					"\n\n" +
 					`Expected date to be the start of the month (day 1)\n\n` +
-					`Received: ${this.utils.printReceived(actualDate.toISOString())} (day ${actualDate.getDate()})`
+					`Received: ${this.utils.printReceived(parsedActual.toISOString())} (day ${dayOfMonth})` +
+					formatTimeZoneLine(timeZone)
 				);
 			}
 
@@ -1231,16 +1522,20 @@ export const expectlyDateMatchers = withMatcherState({
 			message,
 			pass,
 			name: assertionName,
-			actual: actualDate,
+			actual: parsedActual,
 		};
 	},
-	toBeEndOfMonth(actualDate: Date) {
+	toBeEndOfMonth(actualDate: DateInput, options?: DateTimeZoneOptions) {
 		const assertionName = "toBeEndOfMonth";
+		const parseDate = createDateParser(options);
 
-		validateDate(actualDate, "actual date");
+		const parsedActual = parseDate(actualDate, "actual date");
+		const timeZone = resolveTimeZone(assertionName, options);
 
-		const lastDayOfMonth = new Date(actualDate.getFullYear(), actualDate.getMonth() + 1, 0).getDate();
-		const pass = actualDate.getDate() === lastDayOfMonth;
+		const calendarDate = getCalendarDate(parsedActual, timeZone);
+		const dayOfMonth = calendarDate.day;
+		const lastDayOfMonth = getDaysInMonth(calendarDate.year, calendarDate.month);
+		const pass = dayOfMonth === lastDayOfMonth;
 
 		const message = (): string => {
 			const hint = this.utils.matcherHint(assertionName, undefined, undefined, {
@@ -1252,7 +1547,8 @@ export const expectlyDateMatchers = withMatcherState({
 					hint +
 					"\n\n" +
 					`Expected date to not be the end of the month\n\n` +
-					`Received: ${this.utils.printReceived(actualDate.toISOString())} (day ${actualDate.getDate()}/${lastDayOfMonth})`
+					`Received: ${this.utils.printReceived(parsedActual.toISOString())} (day ${dayOfMonth}/${lastDayOfMonth})` +
+					formatTimeZoneLine(timeZone)
 				);
 			}
 
@@ -1261,7 +1557,8 @@ export const expectlyDateMatchers = withMatcherState({
 					hint +
 					"\n\n" +
 					`Expected date to be the end of the month (day ${lastDayOfMonth})\n\n` +
-					`Received: ${this.utils.printReceived(actualDate.toISOString())} (day ${actualDate.getDate()})`
+					`Received: ${this.utils.printReceived(parsedActual.toISOString())} (day ${dayOfMonth})` +
+					formatTimeZoneLine(timeZone)
 				);
 			}
 
@@ -1272,84 +1569,153 @@ export const expectlyDateMatchers = withMatcherState({
 			message,
 			pass,
 			name: assertionName,
-			actual: actualDate,
+			actual: parsedActual,
 		};
 	},
-	toHaveDateGapsLargerThan(
-		actual: Date[],
-		minGap: { seconds?: number; minutes?: number; hours?: number; days?: number; months?: number; years?: number },
-	) {
+	toHaveDateGapsLargerThan(actual: DateInput[], minGap: DateGapOptions, options?: DateTimeZoneOptions) {
 		const assertionName = "toHaveDateGapsLargerThan";
+		const parseDate = createDateParser(options);
+		const dates = actual.map((date) => parseDate(date, "date in array"));
 
-		if (actual.length < 2) {
+		if (dates.length < 2) {
 			throw new Error("Array must contain at least two dates");
 		}
 
-		for (const date of actual) {
-			if (!isValidDate(date)) {
-				throw new Error(`Invalid date in array: ${String(date)}`);
+		// A gap is larger when the later date is after the earlier date plus the calendar duration
+		const timeZone = resolveTimeZone(assertionName, options);
+		const largeGaps = findDateGaps(dates, (from, to) => to > addCalendarDuration(from, minGap, timeZone));
+		const pass = largeGaps.length > 0;
+
+		const message = (): string => {
+			const hint = this.utils.matcherHint(assertionName, undefined, undefined, {
+				isNot: this.isNot,
+			});
+
+			if (pass && this.isNot) {
+				return (
+					hint +
+					"\n\n" +
+					`Expected dates to not have gaps larger than ${formatCalendarDuration(minGap)}\n\n` +
+					`Found ${largeGaps.length} gap(s):\n` +
+					formatDateGaps(largeGaps, timeZone) +
+					formatTimeZoneLine(timeZone)
+				);
+			}
+
+			if (!pass && !this.isNot) {
+				return (
+					hint +
+					"\n\n" +
+					`Expected dates to have gaps larger than ${formatCalendarDuration(minGap)}\n\n` +
+					`No gaps larger than ${formatCalendarDuration(minGap)} were found` +
+					formatTimeZoneLine(timeZone)
+				);
 			}
+
+			return hint;
+		};
+
+		return {
+			message,
+			pass,
+			name: assertionName,
+			expected: minGap,
+			actual: largeGaps,
+		};
+	},
+	toHaveDateGapsSmallerThan(actual: DateInput[], maxGap: DateGapOptions, options?: DateTimeZoneOptions) {
+		const assertionName = "toHaveDateGapsSmallerThan";
+		const parseDate = createDateParser(options);
+		const dates = actual.map((date) => parseDate(date, "date in array"));
+
+		if (dates.length < 2) {
+			throw new Error("Array must contain at least two dates");
 		}
 
-		const minGapMs =
-			(minGap.years ?? 0) * 365.25 * 24 * 60 * 60 * 1000 +
-			(minGap.months ?? 0) * 30.44 * 24 * 60 * 60 * 1000 +
-			(minGap.days ?? 0) * 24 * 60 * 60 * 1000 +
-			(minGap.hours ?? 0) * 60 * 60 * 1000 +
-			(minGap.minutes ?? 0) * 60 * 1000 +
-			(minGap.seconds ?? 0) * 1000;
+		// A gap is smaller when the later date is before the earlier date plus the calendar duration
+		const timeZone = resolveTimeZone(assertionName, options);
+		const smallGaps = findDateGaps(dates, (from, to) => to < addCalendarDuration(from, maxGap, timeZone));
+		const pass = smallGaps.length > 0;
 
-		const sortedDates = [...actual].sort((a, b) => a.getTime() - b.getTime());
-		const largeGaps: Array<{ from: Date; to: Date; gapMs: number }> = [];
+		const message = (): string => {
+			const hint = this.utils.matcherHint(assertionName, undefined, undefined, {
+				isNot: this.isNot,
+			});
+
+			if (pass && this.isNot) {
+				return (
+					hint +
+					"\n\n" +
+					`Expected dates to not have gaps smaller than ${formatCalendarDuration(maxGap)}\n\n` +
+					`Found ${smallGaps.length} gap(s):\n` +
+					formatDateGaps(smallGaps, timeZone) +
+					formatTimeZoneLine(timeZone)
+				);
+			}
+
+			if (!pass && !this.isNot) {
+				return (
+					hint +
+					"\n\n" +
+					`Expected dates to have gaps smaller than ${formatCalendarDuration(maxGap)}\n\n` +
+					`No gaps smaller than ${formatCalendarDuration(maxGap)} were found` +
+					formatTimeZoneLine(timeZone)
+				);
+			}
+
+			return hint;
+		};
+
+		return {
+			message,
+			pass,
+			name: assertionName,
+			expected: maxGap,
+			actual: smallGaps,
+		};
+	},
+	toHaveBusinessDayGap(actual: DateInput[], gap: BusinessDayGap, options?: BusinessDayOptions) {
+		const assertionName = "toHaveBusinessDayGap";
+		const { min, max } = resolveBusinessDayGap(assertionName, gap);
+		const parseDate = createDateParser(options);
+		const dates = actual.map((date) => parseDate(date, "date in array"));
+
+		if (dates.length < 2) {
+			throw new Error("Array must contain at least two dates");
+		}
+
+		const timeZone = resolveTimeZone(assertionName, options);
+		const calendar = resolveBusinessCalendar(assertionName, options, parseDate, timeZone);
+		const sortedDates = [...dates].sort((a, b) => a.getTime() - b.getTime());
+		const invalidGaps: Array<{ from: Date; to: Date; businessDays: number }> = [];
 
 		for (let i = 1; i < sortedDates.length; i++) {
-			const gapMs = sortedDates[i].getTime() - sortedDates[i - 1].getTime();
-			if (gapMs > minGapMs) {
-				largeGaps.push({
-					from: sortedDates[i - 1],
-					to: sortedDates[i],
-					gapMs,
-				});
+			const businessDays = countBusinessDays(
+				getCalendarDate(sortedDates[i - 1], timeZone),
+				getCalendarDate(sortedDates[i], timeZone),
+				calendar,
+			);
+			if (businessDays < min || businessDays > max) {
+				invalidGaps.push({ from: sortedDates[i - 1], to: sortedDates[i], businessDays });
 			}
 		}
 
-		const pass = largeGaps.length > 0;
+		const pass = invalidGaps.length === 0;
+		const expectedGap = describeBusinessDayGap(min, max);
 
 		const message = (): string => {
 			const hint = this.utils.matcherHint(assertionName, undefined, undefined, {
 				isNot: this.isNot,
 			});
 
-			const formatGap = (gapMs: number): string => {
-				const years = Math.floor(gapMs / (365.25 * 24 * 60 * 60 * 1000));
-				const remainingAfterYears = gapMs % (365.25 * 24 * 60 * 60 * 1000);
-				const months = Math.floor(remainingAfterYears / (30.44 * 24 * 60 * 60 * 1000));
-				const remainingAfterMonths = remainingAfterYears % (30.44 * 24 * 60 * 60 * 1000);
-				const days = Math.floor(remainingAfterMonths / (24 * 60 * 60 * 1000));
-				const hours = Math.floor((remainingAfterMonths % (24 * 60 * 60 * 1000)) / (60 * 60 * 1000));
-				const minutes = Math.floor((remainingAfterMonths % (60 * 60 * 1000)) / (60 * 1000));
-				const seconds = Math.floor((remainingAfterMonths % (60 * 1000)) / 1000);
-
-				const parts: string[] = [];
-				if (years > 0) parts.push(`${years}y`);
-				if (months > 0) parts.push(`${months}mo`);
-				if (days > 0) parts.push(`${days}d`);
-				if (hours > 0) parts.push(`${hours}h`);
-				if (minutes > 0) parts.push(`${minutes}m`);
-				if (seconds > 0) parts.push(`${seconds}s`);
-
-				return parts.join(" ") || "0s";
-			};
-
 			if (pass && this.isNot) {
 				return (
 					hint +
 					"\n\n" +
-					`Expected dates to not have gaps larger than ${formatGap(minGapMs)}\n\n` +
-					`Found ${largeGaps.length} gap(s):\n` +
-					largeGaps
-						.map((gap) => `  ${gap.from.toISOString()} -> ${gap.to.toISOString()} (${formatGap(gap.gapMs)})`)
-						.join("\n")
+					`Expected dates to not be ${expectedGap} apart\n\n` +
+					`Received: ${this.utils.printReceived(formatDatesForDisplay(sortedDates))}\n` +
+					formatWeekendLine(calendar) +
+					formatTimeZoneLine(timeZone)
 				);
 			}
 
@@ -1357,8 +1723,18 @@ export const expectlyDateMatchers = withMatcherState({
 				return (
 					hint +
 					"\n\n" +
-					`Expected dates to have gaps larger than ${formatGap(minGapMs)}\n\n` +
-					`No gaps larger than ${formatGap(minGapMs)} were found`
+					`Expected dates to be ${expectedGap} apart\n\n` +
+					`Found ${invalidGaps.length} gap(s) outside the range:\n` +
+					invalidGaps
+						.map(
+							(invalidGap) =>
+								`  ${invalidGap.from.toISOString()} -> ${invalidGap.to.toISOString()} (${invalidGap.businessDays} business day(s))`,
+						)
+						.join("\n") +
+					"\n\n" +
+					`Full array: ${this.utils.printReceived(formatDatesForDisplay(sortedDates))}\n` +
+					formatWeekendLine(calendar) +
+					formatTimeZoneLine(timeZone)
 				);
 			}
 
@@ -1369,16 +1745,18 @@ export const expectlyDateMatchers = withMatcherState({
 			message,
 			pass,
 			name: assertionName,
-			expected: minGap,
-			actual: largeGaps,
+			expected: gap,
+			actual: sortedDates,
 		};
 	},
-	toBeInQuarter(actualDate: Date, expectedQuarter: 1 | 2 | 3 | 4) {
+	toBeInQuarter(actualDate: DateInput, expectedQuarter: 1 | 2 | 3 | 4, options?: DateTimeZoneOptions) {
 		const assertionName = "toBeInQuarter";
+		const parseDate = createDateParser(options);
 
-		validateDate(actualDate, "actual date");
+		const parsedActual = parseDate(actualDate, "actual date");
+		const timeZone = resolveTimeZone(assertionName, options);
 
-		const month = actualDate.getMonth(); // 0-11
+		const month = getCalendarDate(parsedActual, timeZone).month; // 0-11
 		const getQuarterFromMonth = (value: number): 1 | 2 | 3 | 4 => {
 			if (value < 3) return 1;
 			if (value < 6) return 2;
@@ -1408,7 +1786,8 @@ export const expectlyDateMatchers = withMatcherState({
 					hint +
 					"\n\n" +
 					`Expected date to not be in Q${expectedQuarter}\n\n` +
-					`Received: ${this.utils.printReceived(actualDate.toISOString())} (Q${actualQuarter}: ${getQuarterMonths(actualQuarter)})`
+					`Received: ${this.utils.printReceived(parsedActual.toISOString())} (Q${actualQuarter}: ${getQuarterMonths(actualQuarter)})` +
+					formatTimeZoneLine(timeZone)
 				);
 			}
 
@@ -1417,7 +1796,8 @@ export const expectlyDateMatchers = withMatcherState({
 					hint +
 					"\n\n" +
 					`Expected date to be in Q${expectedQuarter} (${getQuarterMonths(expectedQuarter)})\n\n` +
-					`Received: ${this.utils.printReceived(actualDate.toISOString())} (Q${actualQuarter}: ${getQuarterMonths(actualQuarter)})`
+					`Received: ${this.utils.printReceived(parsedActual.toISOString())} (Q${actualQuarter}: ${getQuarterMonths(actualQuarter)})` +
+					formatTimeZoneLine(timeZone)
 				);
 			}
 
@@ -1432,10 +1812,15 @@ export const expectlyDateMatchers = withMatcherState({
 			actual: actualQuarter,
 		};
 	},
-	toBeSpecificDayOfWeek(actualDate: Date, expectedDay: keyof typeof DAY_NAMES | number) {
+	toBeSpecificDayOfWeek(
+		actualDate: DateInput,
+		expectedDay: keyof typeof DAY_NAMES | number,
+		options?: DateTimeZoneOptions,
+	) {
 		const assertionName = "toBeSpecificDayOfWeek";
+		const parseDate = createDateParser(options);
 
-		validateDate(actualDate, "actual date");
+		const parsedActual = parseDate(actualDate, "actual date");
 
 		let expectedDayNumber: number;
 
@@ -1450,7 +1835,8 @@ export const expectlyDateMatchers = withMatcherState({
 			throw new Error("expectedDay must be a string (day name) or number (0-6)");
 		}
 
-		const actualDayNumber = actualDate.getDay();
+		const timeZone = resolveTimeZone(assertionName, options);
+		const actualDayNumber = getCalendarDate(parsedActual, timeZone).weekday;
 		const pass = actualDayNumber === expectedDayNumber;
 
 		const dayNamesArray = Object.keys(DAY_NAMES);
@@ -1465,7 +1851,8 @@ export const expectlyDateMatchers = withMatcherState({
 					hint +
 					"\n\n" +
 					`Expected date to not be a ${dayNamesArray[expectedDayNumber]}\n\n` +
-					`Received: ${this.utils.printReceived(actualDate.toISOString())} (${dayNamesArray[actualDayNumber]})`
+					`Received: ${this.utils.printReceived(parsedActual.toISOString())} (${dayNamesArray[actualDayNumber]})` +
+					formatTimeZoneLine(timeZone)
 				);
 			}
 
@@ -1474,7 +1861,8 @@ export const expectlyDateMatchers = withMatcherState({
 					hint +
 					"\n\n" +
 					`Expected date to be a ${dayNamesArray[expectedDayNumber]}\n\n` +
-					`Received: ${this.utils.printReceived(actualDate.toISOString())} (${dayNamesArray[actualDayNumber]})`
+					`Received: ${this.utils.printReceived(parsedActual.toISOString())} (${dayNamesArray[actualDayNumber]})` +
+					formatTimeZoneLine(timeZone)
 				);
 			}
 
@@ -1489,10 +1877,11 @@ export const expectlyDateMatchers = withMatcherState({
 			actual: actualDayNumber,
 		};
 	},
-	toBeInMonth(actualDate: Date, expectedMonth: keyof typeof MONTH_NAMES | number) {
+	toBeInMonth(actualDate: DateInput, expectedMonth: keyof typeof MONTH_NAMES | number, options?: DateTimeZoneOptions) {
 		const assertionName = "toBeInMonth";
+		const parseDate = createDateParser(options);
 
-		validateDate(actualDate, "actual date");
+		const parsedActual = parseDate(actualDate, "actual date");
 
 		let expectedMonthNumber: number;
 
@@ -1507,7 +1896,8 @@ export const expectlyDateMatchers = withMatcherState({
 			throw new Error("expectedMonth must be a string (month name) or number (1-12)");
 		}
 
-		const actualMonthNumber = actualDate.getMonth();
+		const timeZone = resolveTimeZone(assertionName, options);
+		const actualMonthNumber = getCalendarDate(parsedActual, timeZone).month;
 		const pass = actualMonthNumber === expectedMonthNumber;
 
 		const monthNamesArray = Object.keys(MONTH_NAMES);
@@ -1522,7 +1912,8 @@ export const expectlyDateMatchers = withMatcherState({
 					hint +
 					"\n\n" +
 					`Expected date to not be in ${monthNamesArray[expectedMonthNumber]}\n\n` +
-					`Received: ${this.utils.printReceived(actualDate.toISOString())} (${monthNamesArray[actualMonthNumber]})`
+					`Received: ${this.utils.printReceived(parsedActual.toISOString())} (${monthNamesArray[actualMonthNumber]})` +
+					formatTimeZoneLine(timeZone)
 				);
 			}
 
@@ -1531,7 +1922,8 @@ export const expectlyDateMatchers = withMatcherState({
 					hint +
 					"\n\n" +
 					`Expected date to be in ${monthNamesArray[expectedMonthNumber]}\n\n` +
-					`Received: ${this.utils.printReceived(actualDate.toISOString())} (${monthNamesArray[actualMonthNumber]})`
+					`Received: ${this.utils.printReceived(parsedActual.toISOString())} (${monthNamesArray[actualMonthNumber]})` +
+					formatTimeZoneLine(timeZone)
 				);
 			}
 
@@ -1549,3 +1941,110 @@ export const expectlyDateMatchers = withMatcherState({
 });
 
 export const expectlyDate = baseExpect.extend(expectlyDateMatchers);
+
+/**
+ * Names the time zone of calendar-based matchers in failure messages; empty for the process's local time
+ */
+function formatTimeZoneLine(timeZone: string | undefined): string {
+	return timeZone === undefined ? "" : `\nTime zone: ${timeZone}`;
+}
+
+/**
+ * Formats the deviation of toBeCloseTo: in seconds, unless it has calendar days whose length varies
+ */
+function formatDeviation(deviation: DateDeviationOptions): string {
+	if (deviation.days === undefined || deviation.days === 0) {
+		return `${(addCalendarDuration(new Date(0), deviation, "UTC").getTime() / 1000).toFixed(3)} seconds`;
+	}
+	return formatCalendarDuration(deviation);
+}
+
+/**
+ * Names the weekday of a calendar date and whether it is a weekend day or holiday, e.g. "Saturday, weekend"
+ */
+function describeBusinessDay(date: CalendarDate, calendar: BusinessCalendar): string {
+	const reason = getNonBusinessDayReason(date, calendar);
+	return reason === undefined ? WEEKDAY_NAMES[date.weekday] : `${WEEKDAY_NAMES[date.weekday]}, ${reason}`;
+}
+
+/**
+ * Names the weekend days of business-day matchers in failure messages
+ */
+function formatWeekendLine(calendar: BusinessCalendar): string {
+	const weekend = [...calendar.weekend].sort((left, right) => left - right).map((day) => WEEKDAY_NAMES[day]);
+	return `Weekend: ${weekend.length > 0 ? weekend.join(", ") : "none"}`;
+}
+
+/**
+ * Converts a business-day gap to an inclusive range
+ * @throws Error if the gap is not a non-negative integer or a range of them
+ */
+function resolveBusinessDayGap(assertionName: string, gap: BusinessDayGap): { min: number; max: number } {
+	const range = typeof gap === "number" ? { min: gap, max: gap } : { min: gap?.min ?? 0, max: gap?.max ?? Infinity };
+	const isValidBound = (bound: number): boolean => bound === Infinity || (Number.isInteger(bound) && bound >= 0);
+	if (!isValidBound(range.min) || !isValidBound(range.max) || range.min > range.max) {
+		throw new Error(
+			`${assertionName}: gap must be a non-negative integer or { min, max } with min <= max, received ${JSON.stringify(gap)}`,
+		);
+	}
+	return range;
+}
+
+function describeBusinessDayGap(min: number, max: number): string {
+	if (min === max) {
+		return `exactly ${min} business day(s)`;
+	}
+	if (max === Infinity) {
+		return `at least ${min} business day(s)`;
+	}
+	return `${min} to ${max} business days`;
+}
+
+type DateGap = { from: Date; to: Date };
+
+/**
+ * Finds the gaps between consecutive sorted dates that match a predicate
+ */
+function findDateGaps(dates: Date[], isMatch: (from: Date, to: Date) => boolean): DateGap[] {
+	const sorted = [...dates].sort((a, b) => a.getTime() - b.getTime());
+	const gaps: DateGap[] = [];
+	for (let i = 1; i < sorted.length; i++) {
+		if (isMatch(sorted[i - 1], sorted[i])) {
+			gaps.push({ from: sorted[i - 1], to: sorted[i] });
+		}
+	}
+	return gaps;
+}
+
+function formatDateGaps(gaps: DateGap[], timeZone: string | undefined): string {
+	return gaps
+		.map(
+			(gap) =>
+				`  ${gap.from.toISOString()} -> ${gap.to.toISOString()} ` +
+				`(${formatCalendarDuration(getCalendarDuration(gap.from, gap.to, timeZone))})`,
+		)
+		.join("\n");
+}
+
+/**
+ * Compares expected occurrences with received dates by instant; received duplicates are unexpected
+ */
+function diffDates(expected: Date[], received: Date[]): { missing: Date[]; unexpected: Date[] } {
+	const unmatched = new Map<number, Date[]>();
+	for (const date of received) {
+		unmatched.set(date.getTime(), [...(unmatched.get(date.getTime()) ?? []), date]);
+	}
+
+	const missing = expected.filter((date) => {
+		const matches = unmatched.get(date.getTime());
+		return matches === undefined || matches.shift() === undefined;
+	});
+	const unexpected = [...unmatched.values()].flat().sort((a, b) => a.getTime() - b.getTime());
+	return { missing, unexpected };
+}
+
+function formatRecurrenceDates(dates: Date[], timeZone: string | undefined): string {
+	return dates
+		.map((date) => `  ${date.toISOString()} (${WEEKDAY_NAMES[getCalendarDate(date, timeZone).weekday]})`)
+		.join("\n");
+}
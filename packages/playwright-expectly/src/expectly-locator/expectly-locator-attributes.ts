@@ -1,508 +1,194 @@
-import { withMatcherState, runPolledMatcher } from "@cerios/playwright-expectly-core";
-import { PollOptions } from "@cerios/playwright-expectly-core";
+import { defineLocatorMatcher, withMatcherState } from "@cerios/playwright-expectly-core";
 import { expect as baseExpect, Locator } from "@playwright/test";
 
+function matchesAttribute(actual: string | null, expected: string | RegExp): boolean {
+	if (typeof expected === "string") {
+		return actual === expected;
+	}
+	return actual !== null && expected.test(actual);
+}
+
+function toDataAttributeName(name: string): string {
+	return name.startsWith("data-") ? name : `data-${name}`;
+}
+
+function readAttribute(attributeName: string): (locator: Locator) => Promise<string | null> {
+	return async (locator) => locator.getAttribute(attributeName);
+}
+
 /**
  * Element attribute matchers for Playwright locators.
  * These matchers validate HTML attributes on elements.
  */
 export const expectlyLocatorAttributesMatchers = withMatcherState({
-	async toHavePlaceholder(locator: Locator, expected: string | RegExp, options?: PollOptions) {
-		const assertionName = "toHavePlaceholder";
-		let pass: boolean = false;
-		let actual: string | null = null;
-		let locatorError: Error | undefined;
-
-		pass = await runPolledMatcher(this, options, async () => {
-			try {
-				actual = await locator.getAttribute("placeholder");
-				if (typeof expected === "string") {
-					return actual === expected;
-				}
-				return actual !== null && expected.test(actual);
-			} catch (e: unknown) {
-				locatorError = e instanceof Error ? e : new Error(String(e));
-				throw e;
-			}
-		});
-		if (locatorError) {
-			throw locatorError;
-		}
-
-		const message = (): string => {
-			const hint = this.utils.matcherHint(assertionName, undefined, undefined, {
-				isNot: this.isNot,
-			});
-
-			if (pass && this.isNot) {
-				return (
-					hint +
-					"\n\n" +
-					`Expected element to not have placeholder: ${this.utils.printExpected(expected)}\n` +
-					`Received: ${this.utils.printReceived(actual)}`
-				);
-			}
-
-			if (!pass && !this.isNot) {
-				return (
-					hint +
-					"\n\n" +
-					`Expected element to have placeholder: ${this.utils.printExpected(expected)}\n` +
-					`Received: ${this.utils.printReceived(actual ?? "(no placeholder attribute)")}`
-				);
-			}
-
-			return hint;
-		};
-
-		return {
-			message,
-			pass,
-			name: assertionName,
-			expected,
-			actual,
-		};
-	},
-	async toHaveHref(locator: Locator, expected: string | RegExp, options?: PollOptions) {
-		const assertionName = "toHaveHref";
-		let pass: boolean = false;
-		let actual: string | null = null;
-		let locatorError: Error | undefined;
-
-		pass = await runPolledMatcher(this, options, async () => {
-			try {
-				actual = await locator.getAttribute("href");
-				if (typeof expected === "string") {
-					return actual === expected;
-				}
-				return actual !== null && expected.test(actual);
-			} catch (e: unknown) {
-				locatorError = e instanceof Error ? e : new Error(String(e));
-				throw e;
-			}
-		});
-		if (locatorError) {
-			throw locatorError;
-		}
-
-		const message = (): string => {
-			const hint = this.utils.matcherHint(assertionName, undefined, undefined, {
-				isNot: this.isNot,
-			});
-
-			if (pass && this.isNot) {
-				return (
-					hint +
-					"\n\n" +
-					`Expected element to not have href: ${this.utils.printExpected(expected)}\n` +
-					`Received: ${this.utils.printReceived(actual)}`
-				);
-			}
-
-			if (!pass && !this.isNot) {
+	toHavePlaceholder: defineLocatorMatcher({
+		name: "toHavePlaceholder",
+		arity: 1,
+		read: readAttribute("placeholder"),
+		check: (actual, expected: string | RegExp) => matchesAttribute(actual, expected),
+		expected: ([expected]) => expected,
+		describe: ({ actual = null, args: [expected], isNot, utils }) => {
+			if (isNot) {
 				return (
-					hint +
-					"\n\n" +
-					`Expected element to have href: ${this.utils.printExpected(expected)}\n` +
-					`Received: ${this.utils.printReceived(actual ?? "(no href attribute)")}`
+					`Expected element to not have placeholder: ${utils.printExpected(expected)}\n` +
+					`Received: ${utils.printReceived(actual)}`
 				);
 			}
 
-			return hint;
-		};
-
-		return {
-			message,
-			pass,
-			name: assertionName,
-			expected,
-			actual,
-		};
-	},
-	async toHaveSrc(locator: Locator, expected: string | RegExp, options?: PollOptions) {
-		const assertionName = "toHaveSrc";
-		let pass: boolean = false;
-		let actual: string | null = null;
-		let locatorError: Error | undefined;
-
-		pass = await runPolledMatcher(this, options, async () => {
-			try {
-				actual = await locator.getAttribute("src");
-				if (typeof expected === "string") {
-					return actual === expected;
-				}
-				return actual !== null && expected.test(actual);
-			} catch (e: unknown) {
-				locatorError = e instanceof Error ? e : new Error(String(e));
-				throw e;
-			}
-		});
-		if (locatorError) {
-			throw locatorError;
-		}
-
-		const message = (): string => {
-			const hint = this.utils.matcherHint(assertionName, undefined, undefined, {
-				isNot: this.isNot,
-			});
-
-			if (pass && this.isNot) {
-				return (
-					hint +
-					"\n\n" +
-					`Expected element to not have src: ${this.utils.printExpected(expected)}\n` +
-					`Received: ${this.utils.printReceived(actual)}`
-				);
-			}
-
-			if (!pass && !this.isNot) {
-				return (
-					hint +
-					"\n\n" +
-					`Expected element to have src: ${this.utils.printExpected(expected)}\n` +
-					`Received: ${this.utils.printReceived(actual ?? "(no src attribute)")}`
-				);
-			}
-
-			return hint;
-		};
-
-		return {
-			message,
-			pass,
-			name: assertionName,
-			expected,
-			actual,
-		};
-	},
-	async toHaveAlt(locator: Locator, expected: string | RegExp, options?: PollOptions) {
-		const assertionName = "toHaveAlt";
-		let pass: boolean = false;
-		let actual: string | null = null;
-		let locatorError: Error | undefined;
-
-		pass = await runPolledMatcher(this, options, async () => {
-			try {
-				actual = await locator.getAttribute("alt");
-				if (typeof expected === "string") {
-					return actual === expected;
-				}
-				return actual !== null && expected.test(actual);
-			} catch (e: unknown) {
-				locatorError = e instanceof Error ? e : new Error(String(e));
-				throw e;
-			}
-		});
-		if (locatorError) {
-			throw locatorError;
-		}
-
-		const message = (): string => {
-			const hint = this.utils.matcherHint(assertionName, undefined, undefined, {
-				isNot: this.isNot,
-			});
-
-			if (pass && this.isNot) {
+			return (
+				`Expected element to have placeholder: ${utils.printExpected(expected)}\n` +
+				`Received: ${utils.printReceived(actual ?? "(no placeholder attribute)")}`
+			);
+		},
+	}),
+	toHaveHref: defineLocatorMatcher({
+		name: "toHaveHref",
+		arity: 1,
+		read: readAttribute("href"),
+		check: (actual, expected: string | RegExp) => matchesAttribute(actual, expected),
+		expected: ([expected]) => expected,
+		describe: ({ actual = null, args: [expected], isNot, utils }) => {
+			if (isNot) {
 				return (
-					hint +
-					"\n\n" +
-					`Expected element to not have alt: ${this.utils.printExpected(expected)}\n` +
-					`Received: ${this.utils.printReceived(actual)}`
+					`Expected element to not have href: ${utils.printExpected(expected)}\n` +
+					`Received: ${utils.printReceived(actual)}`
 				);
 			}
 
-			if (!pass && !this.isNot) {
+			return (
+				`Expected element to have href: ${utils.printExpected(expected)}\n` +
+				`Received: ${utils.printReceived(actual ?? "(no href attribute)")}`
+			);
+		},
+	}),
+	toHaveSrc: defineLocatorMatcher({
+		name: "toHaveSrc",
+		arity: 1,
+		read: readAttribute("src"),
+		check: (actual, expected: string | RegExp) => matchesAttribute(actual, expected),
+		expected: ([expected]) => expected,
+		describe: ({ actual = null, args: [expected], isNot, utils }) => {
+			if (isNot) {
 				return (
-					hint +
-					"\n\n" +
-					`Expected element to have alt: ${this.utils.printExpected(expected)}\n` +
-					`Received: ${this.utils.printReceived(actual ?? "(no alt attribute)")}`
+					`Expected element to not have src: ${utils.printExpected(expected)}\n` +
+					`Received: ${utils.printReceived(actual)}`
 				);
 			}
 
-			return hint;
-		};
-
-		return {
-			message,
-			pass,
-			name: assertionName,
-			expected,
-			actual,
-		};
-	},
-	async toHaveDataAttribute(locator: Locator, name: string, expected?: string | RegExp, options?: PollOptions) {
-		const assertionName = "toHaveDataAttribute";
-		let pass: boolean = false;
-		let actual: string | null = null;
-		let locatorError: Error | undefined;
-		const attrName = name.startsWith("data-") ? name : `data-${name}`;
-
-		pass = await runPolledMatcher(this, options, async () => {
-			try {
-				actual = await locator.getAttribute(attrName);
-				if (expected === undefined) {
-					return actual !== null;
-				}
-				if (typeof expected === "string") {
-					return actual === expected;
-				}
-				return actual !== null && expected.test(actual);
-			} catch (e: unknown) {
-				locatorError = e instanceof Error ? e : new Error(String(e));
-				throw e;
-			}
-		});
-		if (locatorError) {
-			throw locatorError;
-		}
-
-		const message = (): string => {
-			const hint = this.utils.matcherHint(
-				assertionName,
-				undefined,
-				expected === undefined ? `"${name}"` : `"${name}", ${JSON.stringify(expected)}`,
-				{
-					isNot: this.isNot,
-				},
+			return (
+				`Expected element to have src: ${utils.printExpected(expected)}\n` +
+				`Received: ${utils.printReceived(actual ?? "(no src attribute)")}`
 			);
-
-			if (pass && this.isNot) {
-				if (expected === undefined) {
-					return (
-						hint +
-						"\n\n" +
-						`Expected element to not have ${attrName} attribute\n` +
-						`Received: ${this.utils.printReceived(actual)}`
-					);
-				}
+		},
+	}),
+	toHaveAlt: defineLocatorMatcher({
+		name: "toHaveAlt",
+		arity: 1,
+		read: readAttribute("alt"),
+		check: (actual, expected: string | RegExp) => matchesAttribute(actual, expected),
+		expected: ([expected]) => expected,
+		describe: ({ actual = null, args: [expected], isNot, utils }) => {
+			if (isNot) {
 				return (
-					hint +
-					"\n\n" +
-					`Expected element to not have ${attrName}: ${this.utils.printExpected(expected)}\n` +
-					`Received: ${this.utils.printReceived(actual)}`
+					`Expected element to not have alt: ${utils.printExpected(expected)}\n` +
+					`Received: ${utils.printReceived(actual)}`
 				);
 			}
 
-			if (!pass && !this.isNot) {
+			return (
+				`Expected element to have alt: ${utils.printExpected(expected)}\n` +
+				`Received: ${utils.printReceived(actual ?? "(no alt attribute)")}`
+			);
+		},
+	}),
+	toHaveDataAttribute: defineLocatorMatcher({
+		name: "toHaveDataAttribute",
+		arity: 2,
+		read: async (locator, [name]) => locator.getAttribute(toDataAttributeName(name)),
+		check: (actual: string | null, _name: string, expected?: string | RegExp) =>
+			expected === undefined ? actual !== null : matchesAttribute(actual, expected),
+		hint: ([name, expected]) => (expected === undefined ? `"${name}"` : `"${name}", ${JSON.stringify(expected)}`),
+		expected: ([, expected]) => expected,
+		describe: ({ actual = null, args: [name, expected], isNot, utils }) => {
+			const attrName = toDataAttributeName(name);
+
+			if (isNot) {
 				if (expected === undefined) {
-					return `${hint}\n\nExpected element to have ${attrName} attribute\nReceived: null`;
+					return `Expected element to not have ${attrName} attribute\n` + `Received: ${utils.printReceived(actual)}`;
 				}
 				return (
-					hint +
-					"\n\n" +
-					`Expected element to have ${attrName}: ${this.utils.printExpected(expected)}\n` +
-					`Received: ${this.utils.printReceived(actual ?? "(attribute not found)")}`
+					`Expected element to not have ${attrName}: ${utils.printExpected(expected)}\n` +
+					`Received: ${utils.printReceived(actual)}`
 				);
 			}
 
-			return hint;
-		};
-
-		return {
-			message,
-			pass,
-			name: assertionName,
-			expected,
-			actual,
-		};
-	},
-	async toHaveAriaLabel(locator: Locator, expected: string | RegExp, options?: PollOptions) {
-		const assertionName = "toHaveAriaLabel";
-		let pass: boolean = false;
-		let actual: string | null = null;
-		let locatorError: Error | undefined;
-
-		pass = await runPolledMatcher(this, options, async () => {
-			try {
-				actual = await locator.getAttribute("aria-label");
-				if (typeof expected === "string") {
-					return actual === expected;
-				}
-				return actual !== null && expected.test(actual);
-			} catch (e: unknown) {
-				locatorError = e instanceof Error ? e : new Error(String(e));
-				throw e;
-			}
-		});
-		if (locatorError) {
-			throw locatorError;
-		}
-
-		const message = (): string => {
-			const hint = this.utils.matcherHint(assertionName, undefined, undefined, {
-				isNot: this.isNot,
-			});
-
-			if (pass && this.isNot) {
-				return (
-					hint +
-					"\n\n" +
-					`Expected element to not have aria-label: ${this.utils.printExpected(expected)}\n` +
-					`Received: ${this.utils.printReceived(actual)}`
-				);
-			}
-
-			if (!pass && !this.isNot) {
-				return (
-					hint +
-					"\n\n" +
-					`Expected element to have aria-label: ${this.utils.printExpected(expected)}\n` +
-					`Received: ${this.utils.printReceived(actual ?? "(no aria-label attribute)")}`
-				);
-			}
-
-			return hint;
-		};
-
-		return {
-			message,
-			pass,
-			name: assertionName,
-			expected,
-			actual,
-		};
-	},
-	async toHaveTarget(locator: Locator, expected: string | RegExp, options?: PollOptions) {
-		const assertionName = "toHaveTarget";
-		let pass: boolean = false;
-		let actual: string | null = null;
-		let locatorError: Error | undefined;
-
-		pass = await runPolledMatcher(this, options, async () => {
-			try {
-				actual = await locator.getAttribute("target");
-				if (typeof expected === "string") {
-					return actual === expected;
-				}
-				return actual !== null && expected.test(actual);
-			} catch (e: unknown) {
-				locatorError = e instanceof Error ? e : new Error(String(e));
-				throw e;
+			if (expected === undefined) {
+				return `Expected element to have ${attrName} attribute\nReceived: null`;
 			}
-		});
-		if (locatorError) {
-			throw locatorError;
-		}
-
-		const message = (): string => {
-			const hint = this.utils.matcherHint(assertionName, undefined, undefined, {
-				isNot: this.isNot,
-			});
-
-			if (pass && this.isNot) {
+			return (
+				`Expected element to have ${attrName}: ${utils.printExpected(expected)}\n` +
+				`Received: ${utils.printReceived(actual ?? "(attribute not found)")}`
+			);
+		},
+	}),
+	toHaveAriaLabel: defineLocatorMatcher({
+		name: "toHaveAriaLabel",
+		arity: 1,
+		read: readAttribute("aria-label"),
+		check: (actual, expected: string | RegExp) => matchesAttribute(actual, expected),
+		expected: ([expected]) => expected,
+		describe: ({ actual = null, args: [expected], isNot, utils }) => {
+			if (isNot) {
 				return (
-					hint +
-					"\n\n" +
-					`Expected element to not have target: ${this.utils.printExpected(expected)}\n` +
-					`Received: ${this.utils.printReceived(actual)}`
+					`Expected element to not have aria-label: ${utils.printExpected(expected)}\n` +
+					`Received: ${utils.printReceived(actual)}`
 				);
 			}
 
-			if (!pass && !this.isNot) {
+			return (
+				`Expected element to have aria-label: ${utils.printExpected(expected)}\n` +
+				`Received: ${utils.printReceived(actual ?? "(no aria-label attribute)")}`
+			);
+		},
+	}),
+	toHaveTarget: defineLocatorMatcher({
+		name: "toHaveTarget",
+		arity: 1,
+		read: readAttribute("target"),
+		check: (actual, expected: string | RegExp) => matchesAttribute(actual, expected),
+		expected: ([expected]) => expected,
+		describe: ({ actual = null, args: [expected], isNot, utils }) => {
+			if (isNot) {
 				return (
-					hint +
-					"\n\n" +
-					`Expected element to have target: ${this.utils.printExpected(expected)}\n` +
-					`Received: ${this.utils.printReceived(actual ?? "(no target attribute)")}`
+					`Expected element to not have target: ${utils.printExpected(expected)}\n` +
+					`Received: ${utils.printReceived(actual)}`
 				);
 			}
 
-			return hint;
-		};
-
-		return {
-			message,
-			pass,
-			name: assertionName,
-			expected,
-			actual,
-		};
-	},
-	async toBeRequired(locator: Locator, options?: PollOptions) {
-		const assertionName = "toBeRequired";
-		let pass: boolean = false;
-		let hasAttribute: boolean = false;
-		let locatorError: Error | undefined;
-
-		pass = await runPolledMatcher(this, options, async () => {
-			try {
-				const requiredAttr = await locator.getAttribute("required");
-				hasAttribute = requiredAttr !== null;
-				return hasAttribute;
-			} catch (e: unknown) {
-				locatorError = e instanceof Error ? e : new Error(String(e));
-				throw e;
-			}
-		});
-		if (locatorError) {
-			throw locatorError;
-		}
-
-		const message = (): string => {
-			const hint = this.utils.matcherHint(assertionName, undefined, undefined, {
-				isNot: this.isNot,
-			});
-
-			if (pass && this.isNot) {
-				return `${hint}\n\nExpected element to not be required\nBut it has the required attribute`;
-			}
-
-			if (!pass && !this.isNot) {
-				return `${hint}\n\nExpected element to be required\nBut it does not have the required attribute`;
-			}
-
-			return hint;
-		};
-
-		return {
-			message,
-			pass,
-			name: assertionName,
-		};
-	},
-	async toBeReadOnly(locator: Locator, options?: PollOptions) {
-		const assertionName = "toBeReadOnly";
-		let pass: boolean = false;
-		let hasAttribute: boolean = false;
-		let locatorError: Error | undefined;
-
-		pass = await runPolledMatcher(this, options, async () => {
-			try {
-				const readonlyAttr = await locator.getAttribute("readonly");
-				hasAttribute = readonlyAttr !== null;
-				return hasAttribute;
-			} catch (e: unknown) {
-				locatorError = e instanceof Error ? e : new Error(String(e));
-				throw e;
-			}
-		});
-		if (locatorError) {
-			throw locatorError;
-		}
-
-		const message = (): string => {
-			const hint = this.utils.matcherHint(assertionName, undefined, undefined, {
-				isNot: this.isNot,
-			});
-
-			if (pass && this.isNot) {
-				return `${hint}\n\nExpected element to not be readonly\nBut it has the readonly attribute`;
-			}
-
-			if (!pass && !this.isNot) {
-				return `${hint}\n\nExpected element to be readonly\nBut it does not have the readonly attribute`;
-			}
-
-			return hint;
-		};
-
-		return {
-			message,
-			pass,
-			name: assertionName,
-		};
-	},
+			return (
+				`Expected element to have target: ${utils.printExpected(expected)}\n` +
+				`Received: ${utils.printReceived(actual ?? "(no target attribute)")}`
+			);
+		},
+	}),
+	toBeRequired: defineLocatorMatcher({
+		name: "toBeRequired",
+		read: async (locator) => (await locator.getAttribute("required")) !== null,
+		check: (hasAttribute: boolean) => hasAttribute,
+		describe: ({ isNot }) =>
+			isNot
+				? `Expected element to not be required\nBut it has the required attribute`
+				: `Expected element to be required\nBut it does not have the required attribute`,
+	}),
+	toBeReadOnly: defineLocatorMatcher({
+		name: "toBeReadOnly",
+		read: async (locator) => (await locator.getAttribute("readonly")) !== null,
+		check: (hasAttribute: boolean) => hasAttribute,
+		describe: ({ isNot }) =>
+			isNot
+				? `Expected element to not be readonly\nBut it has the readonly attribute`
+				: `Expected element to be readonly\nBut it does not have the readonly attribute`,
+	}),
 });
 
 export const expectlyLocatorAttributes = baseExpect.extend(expectlyLocatorAttributesMatchers);
@@ -0,0 +1,209 @@
+import { defineLocatorMatcher, withMatcherState } from "@cerios/playwright-expectly-core";
+import type { LocatorMatcher, LocatorMatcherReturnType } from "@cerios/playwright-expectly-core";
+import type { ExpectMatcherState, MatcherReturnType } from "@playwright/test";
+import { expect as baseExpect, Locator } from "@playwright/test";
+
+import { expectlyDateMatchers } from "../expectly-date";
+import { expectlyNumberArrayMatchers } from "../expectly-number-array";
+import { expectlyStringArrayMatchers } from "../expectly-string-array";
+import { messageBody, pickStringCollationOptions } from "../matchers/common-utils";
+import { parseTexts, validateParser } from "../matchers/text-parsers";
+import type {
+	CollectionOrderOptions,
+	LocatorCollectionOptions,
+	LocatorTextParser,
+	StringCollationOptions,
+} from "../types/matcher-types";
+
+type ParsedValue = string | number | Date;
+
+type MessageState = Pick<ExpectMatcherState, "isNot" | "utils">;
+
+/**
+ * Runs an array matcher on the parsed element texts. `state` is only needed to build the message.
+ */
+type ArrayMatcherRunner<TArgs extends unknown[]> = (
+	values: ParsedValue[],
+	args: TArgs,
+	state?: MessageState,
+) => MatcherReturnType;
+
+const readAllInnerTexts = async (locator: Locator): Promise<string[]> => locator.allInnerTexts();
+
+function isDateArray(values: ParsedValue[]): values is Date[] {
+	return values.length > 0 && values.every((value) => value instanceof Date);
+}
+
+function isNumberArray(values: ParsedValue[]): values is number[] {
+	return values.every((value) => typeof value === "number");
+}
+
+/**
+ * Validates the parser before polling, so that a configuration error throws right away
+ * @throws Error if the parser is unknown, or cannot produce numbers for a numeric matcher
+ */
+function validateCollectionParser(assertionName: string, parser: LocatorTextParser | undefined, numeric = false): void {
+	try {
+		validateParser(parser);
+	} catch (e: unknown) {
+		throw new Error(`${assertionName}: ${e instanceof Error ? e.message : String(e)}`);
+	}
+	if (numeric && (parser === undefined || parser === "date")) {
+		throw new Error(
+			`${assertionName} needs numeric element texts. Use the "number" or "currency" parser, or a function that returns numbers`,
+		);
+	}
+}
+
+/**
+ * Parses the element texts. Texts that cannot be parsed, or are not numbers for a numeric matcher,
+ * give an error message instead of values, and count as a mismatch
+ */
+function parseCollectionTexts(
+	texts: string[],
+	parser: LocatorTextParser | undefined,
+	numeric: boolean,
+): { values: ParsedValue[] } | { error: string } {
+	let values: ParsedValue[];
+	try {
+		values = parseTexts(texts, parser);
+	} catch (e: unknown) {
+		return { error: e instanceof Error ? e.message : String(e) };
+	}
+
+	const nonNumericIndex = numeric ? values.findIndex((value) => typeof value !== "number") : -1;
+	if (nonNumericIndex !== -1) {
+		return { error: `Element text "${texts[nonNumericIndex]}" was not parsed as a number` };
+	}
+	return { values };
+}
+
+function defineCollectionMatcher<TArgs extends unknown[]>(
+	name: string,
+	arity: number,
+	runArrayMatcher: ArrayMatcherRunner<TArgs>,
+	hint?: (args: TArgs) => string,
+	numeric = false,
+): LocatorMatcher<[...TArgs, LocatorTextParser | undefined]> {
+	const splitArgs = (
+		args: [...TArgs, LocatorTextParser | undefined],
+	): { matcherArgs: TArgs; parser?: LocatorTextParser } => ({
+		matcherArgs: args.slice(0, arity) as TArgs,
+		parser: args[arity] as LocatorTextParser | undefined,
+	});
+
+	return defineLocatorMatcher<string[], [...TArgs, LocatorTextParser | undefined]>({
+		name,
+		arity: arity + 1,
+		read: readAllInnerTexts,
+		check: (texts, ...args) => {
+			const { matcherArgs, parser } = splitArgs(args);
+			const parsed = parseCollectionTexts(texts, parser, numeric);
+			return "values" in parsed && runArrayMatcher(parsed.values, matcherArgs).pass;
+		},
+		hint: hint ? (args) => hint(splitArgs(args).matcherArgs) : undefined,
+		describe: ({ actual: texts = [], args, isNot, utils }) => {
+			const { matcherArgs, parser } = splitArgs(args);
+			const parsed = parseCollectionTexts(texts, parser, numeric);
+			if ("error" in parsed) {
+				return `Could not parse the element texts: ${parsed.error}\n\nElement texts: ${utils.printReceived(texts)}`;
+			}
+			const body = messageBody(runArrayMatcher(parsed.values, matcherArgs, { isNot, utils }).message());
+			return parser === undefined ? body : `${body}\n\nElement texts: ${utils.printReceived(texts)}`;
+		},
+	});
+}
+
+const ascendingOrderRunner: ArrayMatcherRunner<[collation?: StringCollationOptions]> = (values, [collation], state) => {
+	if (isDateArray(values)) {
+		return expectlyDateMatchers.toHaveDatesAscendingOrder.call(state, values);
+	}
+	if (isNumberArray(values)) {
+		return expectlyNumberArrayMatchers.toHaveAscendingOrder.call(state, values);
+	}
+	return expectlyStringArrayMatchers.toHaveAscendingOrder.call(state, values.map(String), collation);
+};
+
+const descendingOrderRunner: ArrayMatcherRunner<[collation?: StringCollationOptions]> = (
+	values,
+	[collation],
+	state,
+) => {
+	if (isDateArray(values)) {
+		return expectlyDateMatchers.toHaveDatesDescendingOrder.call(state, values);
+	}
+	if (isNumberArray(values)) {
+		return expectlyNumberArrayMatchers.toHaveDescendingOrder.call(state, values);
+	}
+	return expectlyStringArrayMatchers.toHaveDescendingOrder.call(state, values.map(String), collation);
+};
+
+const ascendingOrderMatcher = defineCollectionMatcher("toHaveAscendingOrder", 1, ascendingOrderRunner);
+const descendingOrderMatcher = defineCollectionMatcher("toHaveDescendingOrder", 1, descendingOrderRunner);
+
+const uniqueValuesMatcher = defineCollectionMatcher<[]>("toHaveUniqueValues", 0, (values, _args, state) => {
+	if (isDateArray(values)) {
+		return expectlyDateMatchers.toHaveUniqueDates.call(state, values);
+	}
+	if (isNumberArray(values)) {
+		return expectlyNumberArrayMatchers.toHaveUniqueValues.call(state, values);
+	}
+	return expectlyStringArrayMatchers.toHaveUniqueValues.call(state, values.map(String));
+});
+
+const sumMatcher = defineCollectionMatcher<[expected: number]>(
+	"toHaveSum",
+	1,
+	(values, [expected], state) => expectlyNumberArrayMatchers.toHaveSum.call(state, values as number[], expected),
+	([expected]) => String(expected),
+	true,
+);
+
+const allBetweenMatcher = defineCollectionMatcher<[min: number, max: number]>(
+	"toBeAllBetween",
+	2,
+	(values, [min, max], state) => expectlyNumberArrayMatchers.toBeAllBetween.call(state, values as number[], min, max),
+	([min, max]) => `${min}, ${max}`,
+	true,
+);
+
+/**
+ * Array matchers for the texts of all elements matched by a locator.
+ * Each matcher polls `allInnerTexts()`, parses the texts with the optional `parser`
+ * and retries until the array matcher passes, e.g. while a data grid is being re-sorted.
+ */
+export const expectlyLocatorCollectionMatchers = withMatcherState({
+	async toHaveAscendingOrder(locator: Locator, options?: CollectionOrderOptions): Promise<LocatorMatcherReturnType> {
+		validateCollectionParser("toHaveAscendingOrder", options?.parser);
+		return ascendingOrderMatcher.call(this, locator, pickStringCollationOptions(options), options?.parser, options);
+	},
+	async toHaveDescendingOrder(locator: Locator, options?: CollectionOrderOptions): Promise<LocatorMatcherReturnType> {
+		validateCollectionParser("toHaveDescendingOrder", options?.parser);
+		return descendingOrderMatcher.call(this, locator, pickStringCollationOptions(options), options?.parser, options);
+	},
+	async toHaveUniqueValues(locator: Locator, options?: LocatorCollectionOptions): Promise<LocatorMatcherReturnType> {
+		validateCollectionParser("toHaveUniqueValues", options?.parser);
+		return uniqueValuesMatcher.call(this, locator, options?.parser, options);
+	},
+	async toHaveSum(
+		locator: Locator,
+		expected: number,
+		options?: LocatorCollectionOptions,
+	): Promise<LocatorMatcherReturnType> {
+		const parser = options?.parser ?? "number";
+		validateCollectionParser("toHaveSum", parser, true);
+		return sumMatcher.call(this, locator, expected, parser, options);
+	},
+	async toBeAllBetween(
+		locator: Locator,
+		min: number,
+		max: number,
+		options?: LocatorCollectionOptions,
+	): Promise<LocatorMatcherReturnType> {
+		const parser = options?.parser ?? "number";
+		validateCollectionParser("toBeAllBetween", parser, true);
+		return allBetweenMatcher.call(this, locator, min, max, parser, options);
+	},
+});
+
+export const expectlyLocatorCollection = baseExpect.extend(expectlyLocatorCollectionMatchers);
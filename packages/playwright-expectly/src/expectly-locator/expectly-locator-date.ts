@@ -0,0 +1,201 @@
+import { defineLocatorMatcher, withMatcherState } from "@cerios/playwright-expectly-core";
+import type { LocatorMatcher, LocatorMatcherReturnType, PollOptions } from "@cerios/playwright-expectly-core";
+import type { ExpectMatcherState, MatcherReturnType } from "@playwright/test";
+import { expect as baseExpect, Locator } from "@playwright/test";
+
+import { expectlyDateMatchers } from "../expectly-date";
+import { messageBody } from "../matchers/common-utils";
+import { resolveNow, resolveTimeZone } from "../matchers/date-config";
+import { createDateFormatParser } from "../matchers/date-format";
+import type { DateFormatParser } from "../matchers/date-format";
+import { createDateParser } from "../matchers/date-input";
+import { isValidISODuration, parseDuration } from "../matchers/duration";
+import type {
+	DateDeviationOptions,
+	DateInput,
+	DateReferenceOptions,
+	DurationInput,
+	LocatorDateTextOptions,
+} from "../types/matcher-types";
+
+type MessageState = Pick<ExpectMatcherState, "isNot" | "utils">;
+
+/**
+ * Runs a date matcher on the parsed element text. `state` is only needed to build the message.
+ */
+type DateMatcherRunner<TArgs extends unknown[]> = (date: Date, args: TArgs, state?: MessageState) => MatcherReturnType;
+
+const readInnerText = async (locator: Locator): Promise<string> => locator.innerText();
+
+/**
+ * Creates the parser of element texts: the date format when given, else the parsing of string date inputs
+ */
+function createDateTextParser(
+	assertionName: string,
+	options: (LocatorDateTextOptions & DateReferenceOptions) | undefined,
+): DateFormatParser {
+	if (options?.format === undefined) {
+		const parseDate = createDateParser(options);
+		return (text) => parseDate(text.trim(), "element text");
+	}
+
+	const timeZone = resolveTimeZone(assertionName, options);
+	const referenceDate = resolveNow(assertionName, options);
+	try {
+		return createDateFormatParser(options.format, { locale: options.locale, timeZone, referenceDate });
+	} catch (error) {
+		throw new Error(`${assertionName}: ${(error as Error).message}`);
+	}
+}
+
+function defineDateTextMatcher<TArgs extends unknown[]>(
+	name: string,
+	arity: number,
+	runDateMatcher: DateMatcherRunner<TArgs>,
+): LocatorMatcher<[...TArgs, DateFormatParser]> {
+	const splitArgs = (args: [...TArgs, DateFormatParser]): { matcherArgs: TArgs; parseText: DateFormatParser } => ({
+		matcherArgs: args.slice(0, arity) as TArgs,
+		parseText: args[arity] as DateFormatParser,
+	});
+
+	return defineLocatorMatcher<string, [...TArgs, DateFormatParser]>({
+		name,
+		arity: arity + 1,
+		read: readInnerText,
+		check: (text, ...args) => {
+			const { matcherArgs, parseText } = splitArgs(args);
+			return runDateMatcher(parseText(text), matcherArgs).pass;
+		},
+		describe: ({ actual: text = "", args, isNot, utils }) => {
+			const { matcherArgs, parseText } = splitArgs(args);
+			const body = messageBody(runDateMatcher(parseText(text), matcherArgs, { isNot, utils }).message());
+			return `${body}\n\nElement text: ${utils.printReceived(text)}`;
+		},
+	});
+}
+
+function tryParse(parseText: DateFormatParser, text: string): Date | Error {
+	try {
+		return parseText(text);
+	} catch (error) {
+		return error as Error;
+	}
+}
+
+const dateTextMatcher = defineLocatorMatcher({
+	name: "toHaveDateText",
+	arity: 2,
+	read: readInnerText,
+	check: (text: string, _format: string, parseText: DateFormatParser) => !(tryParse(parseText, text) instanceof Error),
+	expected: ([format]) => format,
+	hint: ([format]) => JSON.stringify(format),
+	describe: ({ actual: text = "", args: [format, parseText], isNot, utils }) => {
+		const parsed = tryParse(parseText, text);
+		if (isNot) {
+			return (
+				`Expected locator text to not be a date in format: ${utils.printExpected(format)}\n` +
+				`Received: ${utils.printReceived(text)}\n` +
+				`Parsed: ${parsed instanceof Error ? parsed.message : utils.printReceived(parsed.toISOString())}`
+			);
+		}
+
+		return (
+			`Expected locator text to be a date in format: ${utils.printExpected(format)}\n` +
+			`Received: ${utils.printReceived(text)}\n` +
+			(parsed instanceof Error ? parsed.message : `Parsed: ${utils.printReceived(parsed.toISOString())}`)
+		);
+	},
+});
+
+const todayMatcher = defineDateTextMatcher<[options?: LocatorDateTextOptions & DateReferenceOptions]>(
+	"toBeToday",
+	1,
+	(date, [options], state) => expectlyDateMatchers.toBeToday.call(state, date, options),
+);
+
+const betweenMatcher = defineDateTextMatcher<
+	[startDate: DateInput, endDate: DateInput, options?: LocatorDateTextOptions]
+>("toBeBetween", 3, (date, [startDate, endDate, options], state) =>
+	expectlyDateMatchers.toBeBetween.call(state, date, startDate, endDate, options),
+);
+
+const closeToMatcher = defineDateTextMatcher<
+	[expectedDate: DateInput, deviation: DateDeviationOptions, options?: LocatorDateTextOptions]
+>("toBeCloseTo", 3, (date, [expectedDate, deviation, options], state) =>
+	expectlyDateMatchers.toBeCloseTo.call(state, date, expectedDate, deviation, options),
+);
+
+const isoDurationMatcher = defineLocatorMatcher({
+	name: "toBeValidISODuration",
+	read: readInnerText,
+	check: (text: string) => isValidISODuration(text.trim()),
+	describe: ({ actual: text = "", isNot, utils }) =>
+		messageBody(expectlyDateMatchers.toBeValidISODuration.call({ isNot, utils }, text.trim()).message()),
+});
+
+const durationCloseToMatcher = defineLocatorMatcher({
+	name: "toHaveDurationCloseTo",
+	arity: 2,
+	read: readInnerText,
+	check: (text: string, expected: DurationInput, tolerance: DateDeviationOptions) =>
+		expectlyDateMatchers.toHaveDurationCloseTo.call(undefined, text.trim(), expected, tolerance).pass,
+	describe: ({ actual: text = "", args: [expected, tolerance], isNot, utils }) => {
+		const result = expectlyDateMatchers.toHaveDurationCloseTo.call({ isNot, utils }, text.trim(), expected, tolerance);
+		return `${messageBody(result.message())}\n\nElement text: ${utils.printReceived(text)}`;
+	},
+});
+
+/**
+ * Date matchers for the text of an element, e.g. "19-10-2026 14:30".
+ * Texts are parsed with the `format` option, or like string date inputs without it,
+ * and polled until the date matcher passes. Duration texts such as "PT1H30M" or "1h 30m" are parsed as durations.
+ */
+export const expectlyLocatorDateMatchers = withMatcherState({
+	async toHaveDateText(
+		locator: Locator,
+		options: LocatorDateTextOptions & { format: string },
+	): Promise<LocatorMatcherReturnType> {
+		const parseText = createDateTextParser("toHaveDateText", options);
+		return dateTextMatcher.call(this, locator, options.format, parseText, options);
+	},
+	async toBeToday(
+		locator: Locator,
+		options?: LocatorDateTextOptions & DateReferenceOptions,
+	): Promise<LocatorMatcherReturnType> {
+		return todayMatcher.call(this, locator, options, createDateTextParser("toBeToday", options), options);
+	},
+	async toBeBetween(
+		locator: Locator,
+		startDate: DateInput,
+		endDate: DateInput,
+		options?: LocatorDateTextOptions,
+	): Promise<LocatorMatcherReturnType> {
+		const parseText = createDateTextParser("toBeBetween", options);
+		return betweenMatcher.call(this, locator, startDate, endDate, options, parseText, options);
+	},
+	async toBeValidISODuration(locator: Locator, options?: PollOptions): Promise<LocatorMatcherReturnType> {
+		return isoDurationMatcher.call(this, locator, options);
+	},
+	async toHaveDurationCloseTo(
+		locator: Locator,
+		expected: DurationInput,
+		tolerance: DateDeviationOptions,
+		options?: PollOptions,
+	): Promise<LocatorMatcherReturnType> {
+		// Invalid arguments throw instead of failing the assertion as a locator error
+		parseDuration(expected, "expected duration");
+		parseDuration(tolerance, "tolerance");
+		return durationCloseToMatcher.call(this, locator, expected, tolerance, options);
+	},
+	async toBeCloseTo(
+		locator: Locator,
+		expectedDate: DateInput,
+		deviation: DateDeviationOptions,
+		options?: LocatorDateTextOptions,
+	): Promise<LocatorMatcherReturnType> {
+		const parseText = createDateTextParser("toBeCloseTo", options);
+		return closeToMatcher.call(this, locator, expectedDate, deviation, options, parseText, options);
+	},
+});
+
+export const expectlyLocatorDate = baseExpect.extend(expectlyLocatorDateMatchers);
@@ -0,0 +1,164 @@
+import { defineLocatorMatcher, withMatcherState } from "@cerios/playwright-expectly-core";
+import type { LocatorMatcher, LocatorMatcherReturnType, PollOptions } from "@cerios/playwright-expectly-core";
+import type { Expect } from "@playwright/test";
+import { expect as baseExpect, Locator } from "@playwright/test";
+
+import type { EachLocatorMatcherName } from "../types/matcher-types";
+
+import { expectlyLocatorAttributesMatchers } from "./expectly-locator-attributes";
+import { expectlyLocatorPositioningMatchers } from "./expectly-locator-positioning";
+import { expectlyLocatorTextMatchers } from "./expectly-locator-text";
+
+type EachableLocatorMatcher = Pick<LocatorMatcher<[]>, "arity" | "probe" | "describe">;
+
+const eachableLocatorMatchers: Record<EachLocatorMatcherName, EachableLocatorMatcher> = {
+	...expectlyLocatorTextMatchers,
+	...expectlyLocatorAttributesMatchers,
+	...expectlyLocatorPositioningMatchers,
+};
+
+type OffendingElement = {
+	index: number;
+	text: string;
+	actual: unknown;
+};
+
+type EachElementSummary = {
+	elementCount: number;
+	offending: OffendingElement[];
+};
+
+const MAX_LISTED_ELEMENTS = 10;
+
+function getEachableMatcher(matcherName: string): EachableLocatorMatcher {
+	if (!Object.keys(eachableLocatorMatchers).includes(matcherName)) {
+		throw new Error(
+			`toSatisfyAll: "${matcherName}" is not a locator matcher that can be applied to each element. ` +
+				`Supported matchers: ${Object.keys(eachableLocatorMatchers).join(", ")}`,
+		);
+	}
+	return eachableLocatorMatchers[matcherName as EachLocatorMatcherName];
+}
+
+function indentLines(text: string, prefix: string): string {
+	return text
+		.split("\n")
+		.map((line) => prefix + line)
+		.join("\n");
+}
+
+const eachLocatorMatcher = defineLocatorMatcher({
+	name: "toSatisfyAll",
+	read: async (locator, [matcherName, args]): Promise<EachElementSummary> => {
+		const matcher = getEachableMatcher(matcherName);
+		const elements = await locator.all();
+		const results = await Promise.all(
+			elements.map(async (element, index) => {
+				const [probe, text] = await Promise.all([matcher.probe(element, args), element.innerText()]);
+				return { index, text, ...probe };
+			}),
+		);
+
+		return {
+			elementCount: elements.length,
+			offending: results.filter((result) => !result.pass).map(({ index, text, actual }) => ({ index, text, actual })),
+		};
+	},
+	// Without elements, neither direction holds: `isNot` makes the check fail the negated assertion too
+	check: (summary: EachElementSummary, _matcherName: EachLocatorMatcherName, _args: unknown[], isNot: boolean) =>
+		summary.elementCount === 0 ? isNot : summary.offending.length === 0,
+	hint: ([matcherName]) => JSON.stringify(matcherName),
+	expected: ([matcherName, args]) => ({ matcherName, args }),
+	describe: ({ actual: summary, args: [matcherName, args], isNot, utils }) => {
+		const matcher = getEachableMatcher(matcherName);
+		const call = `${matcherName}(${args.map((arg) => utils.printExpected(arg)).join(", ")})`;
+		const elementCount = summary?.elementCount ?? 0;
+		const expectation = isNot
+			? `Expected at least one element to not satisfy: ${call}`
+			: `Expected every element to satisfy: ${call}`;
+
+		if (elementCount === 0) {
+			return `${expectation}\n` + `But the locator did not match any elements`;
+		}
+
+		if (isNot) {
+			return `${expectation}\n` + `But all ${elementCount} element${elementCount === 1 ? "" : "s"} did`;
+		}
+
+		const offending = summary?.offending ?? [];
+		const listed = offending.slice(0, MAX_LISTED_ELEMENTS).map(({ index, text, actual }) => {
+			const details = matcher.describe({ actual, args, isNot: false, utils });
+			return `  [${index}] ${utils.printReceived(text)}\n${indentLines(details, "      ")}`;
+		});
+		const omitted =
+			offending.length > MAX_LISTED_ELEMENTS ? [`  ... ${offending.length - MAX_LISTED_ELEMENTS} more`] : [];
+
+		return (
+			`${expectation}\n` +
+			`${offending.length} of ${elementCount} elements did not:\n` +
+			[...listed, ...omitted].join("\n")
+		);
+	},
+});
+
+/**
+ * Applies a locator matcher to every element matched by a locator.
+ */
+export const expectlyLocatorEachMatchers = withMatcherState({
+	async toSatisfyAll(
+		locator: Locator,
+		matcherName: EachLocatorMatcherName,
+		...argsAndOptions: unknown[]
+	): Promise<LocatorMatcherReturnType> {
+		const matcher = getEachableMatcher(matcherName);
+		const args = argsAndOptions.slice(0, matcher.arity);
+		const options = argsAndOptions[matcher.arity] as PollOptions | undefined;
+
+		return eachLocatorMatcher.call(this, locator, matcherName, args, this.isNot, options);
+	},
+});
+
+export const expectlyLocatorEach = baseExpect.extend(expectlyLocatorEachMatchers);
+
+/**
+ * The `.each` chain that `withEachChain()` adds to the matchers of a locator
+ */
+export type EachChain = { each: Pick<PlaywrightTest.Matchers<void, Locator>, EachLocatorMatcherName> };
+
+function createEachChain(matchers: object): object {
+	return new Proxy(
+		{},
+		{
+			get(_target, matcherName): unknown {
+				if (typeof matcherName !== "string") {
+					return undefined;
+				}
+				return (...args: unknown[]): unknown =>
+					Reflect.apply(Reflect.get(matchers, "toSatisfyAll") as (...args: unknown[]) => unknown, matchers, [
+						matcherName,
+						...args,
+					]);
+			},
+		},
+	);
+}
+
+/**
+ * Adds `expect(locator).each.<matcher>(...)` as a shorthand for `toSatisfyAll("<matcher>", ...)`
+ * to an `expect` that has the `toSatisfyAll` matcher.
+ */
+export function withEachChain<TExpect extends Expect<{}>>(expect: TExpect): TExpect {
+	return new Proxy(expect, {
+		apply(target, thisArg, args: unknown[]): object {
+			const matchers = Reflect.apply(target, thisArg, args) as object;
+			return new Proxy(matchers, {
+				get(matchersTarget, property, receiver): unknown {
+					if (property === "each") {
+						return createEachChain(matchersTarget);
+					}
+					return Reflect.get(matchersTarget, property, receiver);
+				},
+			});
+		},
+	});
+}
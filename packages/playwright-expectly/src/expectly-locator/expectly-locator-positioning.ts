@@ -1,260 +1,120 @@
-import { withMatcherState, runPolledMatcher } from "@cerios/playwright-expectly-core";
-import { PollOptions } from "@cerios/playwright-expectly-core";
+import { defineLocatorMatcher, withMatcherState } from "@cerios/playwright-expectly-core";
 import { expect as baseExpect, Locator } from "@playwright/test";
 
+type BoundingBox = NonNullable<Awaited<ReturnType<Locator["boundingBox"]>>>;
+
 /**
- * Element positioning matchers for Playwright locators.
- * These matchers validate spatial relationships between elements.
+ * The two edges compared by a positioning matcher, or `undefined` while either element has no bounding box.
  */
-export const expectlyLocatorPositioningMatchers = withMatcherState({
-	async toBeAbove(locator: Locator, otherLocator: Locator, options?: PollOptions) {
-		const assertionName = "toBeAbove";
-		let pass: boolean = false;
-		let actualBottom: number | undefined;
-		let otherTop: number | undefined;
-		let locatorError: Error | undefined;
+type EdgePair = { actual: number; other: number } | undefined;
 
-		pass = await runPolledMatcher(this, options, async () => {
-			try {
-				const [box, otherBox] = await Promise.all([locator.boundingBox(), otherLocator.boundingBox()]);
+function readEdges(
+	select: (box: BoundingBox, otherBox: BoundingBox) => { actual: number; other: number },
+): (locator: Locator, args: [otherLocator: Locator]) => Promise<EdgePair> {
+	return async (locator, [otherLocator]) => {
+		const [box, otherBox] = await Promise.all([locator.boundingBox(), otherLocator.boundingBox()]);
 
-				if (!box || !otherBox) {
-					return false;
-				}
-
-				actualBottom = box.y + box.height;
-				otherTop = otherBox.y;
-				return actualBottom <= otherTop;
-			} catch (e: unknown) {
-				locatorError = e instanceof Error ? e : new Error(String(e));
-				throw e;
-			}
-		});
-		if (locatorError) {
-			throw locatorError;
+		if (!box || !otherBox) {
+			return undefined;
 		}
 
-		const message = (): string => {
-			const hint = this.utils.matcherHint(assertionName, undefined, undefined, {
-				isNot: this.isNot,
-			});
+		return select(box, otherBox);
+	};
+}
 
-			if (pass && this.isNot) {
+/**
+ * Element positioning matchers for Playwright locators.
+ * These matchers validate spatial relationships between elements.
+ */
+export const expectlyLocatorPositioningMatchers = withMatcherState({
+	toBeAbove: defineLocatorMatcher({
+		name: "toBeAbove",
+		arity: 1,
+		read: readEdges((box, otherBox) => ({ actual: box.y + box.height, other: otherBox.y })),
+		check: (edges: EdgePair, _otherLocator: Locator) => edges !== undefined && edges.actual <= edges.other,
+		describe: ({ actual: edges, isNot }) => {
+			if (isNot) {
 				return (
-					hint +
-					"\n\n" +
 					`Expected first element to not be above second element\n` +
-					`First element bottom: ${actualBottom}px\n` +
-					`Second element top: ${otherTop}px`
-				);
-			}
-
-			if (!pass && !this.isNot) {
-				return (
-					hint +
-					"\n\n" +
-					`Expected first element to be above second element\n` +
-					`First element bottom: ${actualBottom}px\n` +
-					`Second element top: ${otherTop}px\n` +
-					`First element must end at or before second element starts`
+					`First element bottom: ${edges?.actual}px\n` +
+					`Second element top: ${edges?.other}px`
 				);
 			}
 
-			return hint;
-		};
-
-		return {
-			message,
-			pass,
-			name: assertionName,
-		};
-	},
-	async toBeBelow(locator: Locator, otherLocator: Locator, options?: PollOptions) {
-		const assertionName = "toBeBelow";
-		let pass: boolean = false;
-		let actualTop: number | undefined;
-		let otherBottom: number | undefined;
-		let locatorError: Error | undefined;
-
-		pass = await runPolledMatcher(this, options, async () => {
-			try {
-				const [box, otherBox] = await Promise.all([locator.boundingBox(), otherLocator.boundingBox()]);
-
-				if (!box || !otherBox) {
-					return false;
-				}
-
-				actualTop = box.y;
-				otherBottom = otherBox.y + otherBox.height;
-				return actualTop >= otherBottom;
-			} catch (e: unknown) {
-				locatorError = e instanceof Error ? e : new Error(String(e));
-				throw e;
-			}
-		});
-		if (locatorError) {
-			throw locatorError;
-		}
-
-		const message = (): string => {
-			const hint = this.utils.matcherHint(assertionName, undefined, undefined, {
-				isNot: this.isNot,
-			});
-
-			if (pass && this.isNot) {
+			return (
+				`Expected first element to be above second element\n` +
+				`First element bottom: ${edges?.actual}px\n` +
+				`Second element top: ${edges?.other}px\n` +
+				`First element must end at or before second element starts`
+			);
+		},
+	}),
+	toBeBelow: defineLocatorMatcher({
+		name: "toBeBelow",
+		arity: 1,
+		read: readEdges((box, otherBox) => ({ actual: box.y, other: otherBox.y + otherBox.height })),
+		check: (edges: EdgePair, _otherLocator: Locator) => edges !== undefined && edges.actual >= edges.other,
+		describe: ({ actual: edges, isNot }) => {
+			if (isNot) {
 				return (
-					hint +
-					"\n\n" +
 					`Expected first element to not be below second element\n` +
-					`First element top: ${actualTop}px\n` +
-					`Second element bottom: ${otherBottom}px`
-				);
-			}
-
-			if (!pass && !this.isNot) {
-				return (
-					hint +
-					"\n\n" +
-					`Expected first element to be below second element\n` +
-					`First element top: ${actualTop}px\n` +
-					`Second element bottom: ${otherBottom}px\n` +
-					`First element must start at or after second element ends`
+					`First element top: ${edges?.actual}px\n` +
+					`Second element bottom: ${edges?.other}px`
 				);
 			}
 
-			return hint;
-		};
-
-		return {
-			message,
-			pass,
-			name: assertionName,
-		};
-	},
-	async toBeLeftOf(locator: Locator, otherLocator: Locator, options?: PollOptions) {
-		const assertionName = "toBeLeftOf";
-		let pass: boolean = false;
-		let actualRight: number | undefined;
-		let otherLeft: number | undefined;
-		let locatorError: Error | undefined;
-
-		pass = await runPolledMatcher(this, options, async () => {
-			try {
-				const [box, otherBox] = await Promise.all([locator.boundingBox(), otherLocator.boundingBox()]);
-
-				if (!box || !otherBox) {
-					return false;
-				}
-
-				actualRight = box.x + box.width;
-				otherLeft = otherBox.x;
-				return actualRight <= otherLeft;
-			} catch (e: unknown) {
-				locatorError = e instanceof Error ? e : new Error(String(e));
-				throw e;
-			}
-		});
-		if (locatorError) {
-			throw locatorError;
-		}
-
-		const message = (): string => {
-			const hint = this.utils.matcherHint(assertionName, undefined, undefined, {
-				isNot: this.isNot,
-			});
-
-			if (pass && this.isNot) {
+			return (
+				`Expected first element to be below second element\n` +
+				`First element top: ${edges?.actual}px\n` +
+				`Second element bottom: ${edges?.other}px\n` +
+				`First element must start at or after second element ends`
+			);
+		},
+	}),
+	toBeLeftOf: defineLocatorMatcher({
+		name: "toBeLeftOf",
+		arity: 1,
+		read: readEdges((box, otherBox) => ({ actual: box.x + box.width, other: otherBox.x })),
+		check: (edges: EdgePair, _otherLocator: Locator) => edges !== undefined && edges.actual <= edges.other,
+		describe: ({ actual: edges, isNot }) => {
+			if (isNot) {
 				return (
-					hint +
-					"\n\n" +
 					`Expected first element to not be left of second element\n` +
-					`First element right edge: ${actualRight}px\n` +
-					`Second element left edge: ${otherLeft}px`
-				);
-			}
-
-			if (!pass && !this.isNot) {
-				return (
-					hint +
-					"\n\n" +
-					`Expected first element to be left of second element\n` +
-					`First element right edge: ${actualRight}px\n` +
-					`Second element left edge: ${otherLeft}px\n` +
-					`First element must end at or before second element starts`
+					`First element right edge: ${edges?.actual}px\n` +
+					`Second element left edge: ${edges?.other}px`
 				);
 			}
 
-			return hint;
-		};
-
-		return {
-			message,
-			pass,
-			name: assertionName,
-		};
-	},
-	async toBeRightOf(locator: Locator, otherLocator: Locator, options?: PollOptions) {
-		const assertionName = "toBeRightOf";
-		let pass: boolean = false;
-		let actualLeft: number | undefined;
-		let otherRight: number | undefined;
-		let locatorError: Error | undefined;
-
-		pass = await runPolledMatcher(this, options, async () => {
-			try {
-				const [box, otherBox] = await Promise.all([locator.boundingBox(), otherLocator.boundingBox()]);
-
-				if (!box || !otherBox) {
-					return false;
-				}
-
-				actualLeft = box.x;
-				otherRight = otherBox.x + otherBox.width;
-				return actualLeft >= otherRight;
-			} catch (e: unknown) {
-				locatorError = e instanceof Error ? e : new Error(String(e));
-				throw e;
-			}
-		});
-		if (locatorError) {
-			throw locatorError;
-		}
-
-		const message = (): string => {
-			const hint = this.utils.matcherHint(assertionName, undefined, undefined, {
-				isNot: this.isNot,
-			});
-
-			if (pass && this.isNot) {
+			return (
+				`Expected first element to be left of second element\n` +
+				`First element right edge: ${edges?.actual}px\n` +
+				`Second element left edge: ${edges?.other}px\n` +
+				`First element must end at or before second element starts`
+			);
+		},
+	}),
+	toBeRightOf: defineLocatorMatcher({
+		name: "toBeRightOf",
+		arity: 1,
+		read: readEdges((box, otherBox) => ({ actual: box.x, other: otherBox.x + otherBox.width })),
+		check: (edges: EdgePair, _otherLocator: Locator) => edges !== undefined && edges.actual >= edges.other,
+		describe: ({ actual: edges, isNot }) => {
+			if (isNot) {
 				return (
-					hint +
-					"\n\n" +
 					`Expected first element to not be right of second element\n` +
-					`First element left edge: ${actualLeft}px\n` +
-					`Second element right edge: ${otherRight}px`
-				);
-			}
-
-			if (!pass && !this.isNot) {
-				return (
-					hint +
-					"\n\n" +
-					`Expected first element to be right of second element\n` +
-					`First element left edge: ${actualLeft}px\n` +
-					`Second element right edge: ${otherRight}px\n` +
-					`First element must start at or after second element ends`
+					`First element left edge: ${edges?.actual}px\n` +
+					`Second element right edge: ${edges?.other}px`
 				);
 			}
 
-			return hint;
-		};
-
-		return {
-			message,
-			pass,
-			name: assertionName,
-		};
-	},
+			return (
+				`Expected first element to be right of second element\n` +
+				`First element left edge: ${edges?.actual}px\n` +
+				`Second element right edge: ${edges?.other}px\n` +
+				`First element must start at or after second element ends`
+			);
+		},
+	}),
 });
 
 export const expectlyLocatorPositioning = baseExpect.extend(expectlyLocatorPositioningMatchers);
@@ -1,5 +1,5 @@
-import { withMatcherState } from "@cerios/playwright-expectly-core";
-import { PollOptions } from "@cerios/playwright-expectly-core";
+import { classifyLocatorError, withMatcherState } from "@cerios/playwright-expectly-core";
+import { LocatorMatcherReturnType, MatcherFailureType, PollOptions } from "@cerios/playwright-expectly-core";
 import { expect as baseExpect, Locator } from "@playwright/test";
 
 type StabilityOptions = Pick<PollOptions, "timeout"> & {
@@ -42,6 +42,7 @@ function validateStabilityOptions(checkInterval: number, stabilityDuration: numb
 interface StabilityPollResult {
 	pass: boolean;
 	errorMessage?: string;
+	failureType?: MatcherFailureType;
 }
 
 async function pollForStability(
@@ -83,13 +84,15 @@ async function pollForStability(
 		await new Promise((resolve) => setTimeout(resolve, checkInterval));
 	}
 
-	if (successfulChecks === 0 && lastError) {
+	// Per-check timeouts mean the element never became available, which is reported below
+	if (successfulChecks === 0 && lastError && lastError.name !== "TimeoutError") {
 		throw lastError;
 	}
 
 	if (successfulChecks === 0) {
 		return {
 			pass: false,
+			failureType: "timeout",
 			errorMessage:
 				`Locator was not found or never became available within ${timeout}ms.\n` +
 				`Stability duration required: ${stabilityDuration}ms\n` +
@@ -99,6 +102,7 @@ async function pollForStability(
 
 	return {
 		pass: false,
+		failureType: "mismatch",
 		errorMessage:
 			`Locator content did not stabilize within ${timeout}ms.\n` +
 			`Content was checked ${successfulChecks} time(s) but kept changing.\n` +
@@ -112,7 +116,7 @@ async function pollForStability(
  * These matchers validate dynamic behavior and element states.
  */
 export const expectlyLocatorStateMatchers = withMatcherState({
-	async toBeStable(locator: Locator, options?: StabilityOptions) {
+	async toBeStable(locator: Locator, options?: StabilityOptions): Promise<LocatorMatcherReturnType> {
 		const assertionName = "toBeStable";
 		const stabilityDuration = options?.stabilityDuration ?? 500;
 		const checkInterval = options?.checkInterval ?? 100;
@@ -122,14 +126,28 @@ export const expectlyLocatorStateMatchers = withMatcherState({
 
 		let pass = false;
 		let errorMessage: string | undefined;
+		let failureType: MatcherFailureType | undefined;
 
 		try {
 			const result = await pollForStability(locator, checkInterval, stabilityDuration, timeout);
 			pass = result.pass;
 			errorMessage = result.errorMessage;
+			failureType = result.failureType;
 		} catch (e: unknown) {
+			const error = e instanceof Error ? e : new Error(String(e));
 			pass = false;
-			errorMessage = e instanceof Error ? e.message : String(e);
+			errorMessage = error.message;
+			failureType = classifyLocatorError(error);
+		}
+
+		// A missing or ambiguous locator fails the assertion with or without .not
+		const locatorFailed = errorMessage !== undefined && failureType !== "mismatch";
+		if (locatorFailed) {
+			pass = this.isNot;
+		} else if (pass && this.isNot) {
+			failureType = "mismatch";
+		} else if (pass === !this.isNot) {
+			failureType = undefined;
 		}
 
 		const message = (): string => {
@@ -137,14 +155,15 @@ export const expectlyLocatorStateMatchers = withMatcherState({
 				isNot: this.isNot,
 			});
 
-			if (errorMessage && !pass && !this.isNot) {
-				return `${hint}\n\n${errorMessage}`;
+			if (locatorFailed || (errorMessage && !pass && !this.isNot)) {
+				return `${hint}\n\nFailure type: ${failureType}\n${errorMessage}`;
 			}
 
 			if (pass && this.isNot) {
 				return (
 					hint +
 					"\n\n" +
+					`Failure type: ${failureType}\n` +
 					`Expected locator content to not be stable for ${stabilityDuration}ms\n` +
 					`But it remained unchanged`
 				);
@@ -154,6 +173,7 @@ export const expectlyLocatorStateMatchers = withMatcherState({
 				return (
 					hint +
 					"\n\n" +
+					`Failure type: ${failureType}\n` +
 					`Expected locator content to be stable for ${stabilityDuration}ms within ${timeout}ms\n` +
 					`But content kept changing`
 				);
@@ -166,6 +186,7 @@ export const expectlyLocatorStateMatchers = withMatcherState({
 			message,
 			pass,
 			name: assertionName,
+			failureType,
 		};
 	},
 });
@@ -1,66 +1,34 @@
-import { withMatcherState, runPolledMatcher } from "@cerios/playwright-expectly-core";
-import { PollOptions } from "@cerios/playwright-expectly-core";
-import { expect as baseExpect, Locator } from "@playwright/test";
+import { defineLocatorMatcher, withMatcherState } from "@cerios/playwright-expectly-core";
+import { expect as baseExpect } from "@playwright/test";
 
 /**
  * Visibility validation matchers for Playwright locators.
  */
 export const expectlyLocatorVisibilityMatchers = withMatcherState({
-	async toHaveCountVisible(locator: Locator, count: number, options?: PollOptions) {
-		const assertionName = "toHaveCountVisible";
-		let pass: boolean = false;
-		let visibleCount: number = 0;
-		let locatorError: Error | undefined;
-
-		pass = await runPolledMatcher(this, options, async () => {
-			try {
-				const handles = await locator.elementHandles();
-				const visArr = await Promise.all(handles.map(async (h) => h.isVisible()));
-				visibleCount = visArr.filter(Boolean).length;
-				return visibleCount === count;
-			} catch (e: unknown) {
-				locatorError = e instanceof Error ? e : new Error(String(e));
-				throw e;
-			}
-		});
-		if (locatorError) {
-			throw locatorError;
-		}
-
-		const message = (): string => {
-			const hint = this.utils.matcherHint(assertionName, undefined, undefined, {
-				isNot: this.isNot,
-			});
-
-			if (pass && this.isNot) {
+	toHaveCountVisible: defineLocatorMatcher({
+		name: "toHaveCountVisible",
+		arity: 1,
+		read: async (locator) => {
+			const handles = await locator.elementHandles();
+			const visArr = await Promise.all(handles.map(async (h) => h.isVisible()));
+			return visArr.filter(Boolean).length;
+		},
+		check: (visibleCount, count: number) => visibleCount === count,
+		expected: ([count]) => count,
+		describe: ({ actual: visibleCount = 0, args: [count], isNot, utils }) => {
+			if (isNot) {
 				return (
-					hint +
-					"\n\n" +
-					`Expected number of visible elements to not be: ${this.utils.printExpected(count)}\n` +
-					`Received: ${this.utils.printReceived(visibleCount)}`
+					`Expected number of visible elements to not be: ${utils.printExpected(count)}\n` +
+					`Received: ${utils.printReceived(visibleCount)}`
 				);
 			}
 
-			if (!pass && !this.isNot) {
-				return (
-					hint +
-					"\n\n" +
-					`Expected number of visible elements: ${this.utils.printExpected(count)}\n` +
-					`Received: ${this.utils.printReceived(visibleCount)}`
-				);
-			}
-
-			return hint;
-		};
-
-		return {
-			message,
-			pass,
-			name: assertionName,
-			expected: count,
-			actual: visibleCount,
-		};
-	},
+			return (
+				`Expected number of visible elements: ${utils.printExpected(count)}\n` +
+				`Received: ${utils.printReceived(visibleCount)}`
+			);
+		},
+	}),
 });
 
 export const expectlyLocatorVisibility = baseExpect.extend(expectlyLocatorVisibilityMatchers);
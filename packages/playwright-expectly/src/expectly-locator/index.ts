@@ -1,7 +1,11 @@
-import type { Expect } from "@playwright/test";
+import type { Expect, Locator } from "@playwright/test";
 import { expect as baseExpect } from "@playwright/test";
 
 import { expectlyLocatorAttributesMatchers } from "./expectly-locator-attributes";
+import { expectlyLocatorCollectionMatchers } from "./expectly-locator-collection";
+import { expectlyLocatorDateMatchers } from "./expectly-locator-date";
+import { expectlyLocatorEachMatchers, withEachChain } from "./expectly-locator-each";
+import type { EachChain } from "./expectly-locator-each";
 import { expectlyLocatorPositioningMatchers } from "./expectly-locator-positioning";
 import { expectlyLocatorStateMatchers } from "./expectly-locator-state";
 import { expectlyLocatorTextMatchers } from "./expectly-locator-text";
@@ -17,11 +21,28 @@ export const expectlyLocatorMatchers = {
 	...expectlyLocatorPositioningMatchers,
 	...expectlyLocatorStateMatchers,
 	...expectlyLocatorVisibilityMatchers,
+	...expectlyLocatorEachMatchers,
+	...expectlyLocatorCollectionMatchers,
+	...expectlyLocatorDateMatchers,
 } as typeof expectlyLocatorTextMatchers &
 	typeof expectlyLocatorAttributesMatchers &
 	typeof expectlyLocatorPositioningMatchers &
 	typeof expectlyLocatorStateMatchers &
-	typeof expectlyLocatorVisibilityMatchers;
+	typeof expectlyLocatorVisibilityMatchers &
+	typeof expectlyLocatorEachMatchers &
+	typeof expectlyLocatorCollectionMatchers &
+	typeof expectlyLocatorDateMatchers;
+
+/**
+ * `expect` with all locator matchers, where `.each` applies a locator matcher to every element
+ * matched by a locator (see `toSatisfyAll()`).
+ */
+export type ExpectlyLocatorExpect = {
+	<T = unknown>(
+		actual: T,
+		messageOrOptions?: string | { message?: string },
+	): ReturnType<typeof baseExpect<T>> & (T extends Locator ? EachChain : {});
+} & Expect<{}>;
 
 /**
  * Unified expectly locator matchers.
@@ -30,9 +51,14 @@ export const expectlyLocatorMatchers = {
  * This is the main export for locator matchers, providing all functionality
  * in one place while maintaining the modular structure internally.
  */
-export const expectlyLocator: Expect<{}> = baseExpect.extend<typeof expectlyLocatorMatchers>(expectlyLocatorMatchers);
+export const expectlyLocator: ExpectlyLocatorExpect = withEachChain(
+	baseExpect.extend<typeof expectlyLocatorMatchers>(expectlyLocatorMatchers),
+) as ExpectlyLocatorExpect;
 
 export { expectlyLocatorAttributes, expectlyLocatorAttributesMatchers } from "./expectly-locator-attributes";
+export { expectlyLocatorCollection, expectlyLocatorCollectionMatchers } from "./expectly-locator-collection";
+export { expectlyLocatorDate, expectlyLocatorDateMatchers } from "./expectly-locator-date";
+export { expectlyLocatorEach, expectlyLocatorEachMatchers } from "./expectly-locator-each";
 export { expectlyLocatorPositioning, expectlyLocatorPositioningMatchers } from "./expectly-locator-positioning";
 export { expectlyLocatorState, expectlyLocatorStateMatchers } from "./expectly-locator-state";
 export { expectlyLocatorText, expectlyLocatorTextMatchers } from "./expectly-locator-text";
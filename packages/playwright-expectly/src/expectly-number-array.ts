@@ -10,6 +10,16 @@ import {
 	getMinMax,
 	sortedExpected,
 } from "./matchers/common-utils";
+import {
+	formatNumberStatistics,
+	formatStatistic,
+	getNumberStatistics,
+	getPercentile,
+	getValueCounts,
+	getVariance,
+	validateStatisticsInput,
+} from "./matchers/statistics";
+import type { NumberSpreadOptions, PercentileBounds } from "./types/matcher-types";
 
 /**
  * Expectly Custom matchers for number array validations.
@@ -357,6 +367,190 @@ export const expectlyNumberArrayMatchers = withMatcherState({
 			actual: range,
 		};
 	},
+	toHaveStandardDeviation(actual: number[], expected: number, tolerance = 0, options?: NumberSpreadOptions) {
+		const assertionName = "toHaveStandardDeviation";
+		const sample = options?.sample ?? false;
+		validateStatisticsInput(assertionName, actual, sample ? 2 : 1);
+		validateTolerance(assertionName, tolerance);
+		const standardDeviation = Math.sqrt(getVariance(actual, sample));
+		const difference = standardDeviation - expected;
+		const pass = Math.abs(difference) <= tolerance;
+
+		const message = (): string => {
+			const hint = this.utils.matcherHint(assertionName, undefined, String(expected), {
+				isNot: this.isNot,
+			});
+			const statisticsLines =
+				`Received standard deviation: ${this.utils.printReceived(standardDeviation)}\n` +
+				`Difference: ${formatStatistic(Math.abs(difference))}\n\n` +
+				`${formatNumberStatistics(getNumberStatistics(actual))}\n` +
+				`Array (${actual.length} elements): ${this.utils.printReceived(actual)}`;
+
+			if (pass && this.isNot) {
+				return (
+					hint +
+					"\n\n" +
+					`Expected ${formatSpreadKind(sample)} standard deviation to not be ${formatTolerance(this.utils.printExpected(expected), tolerance)}\n\n` +
+					statisticsLines
+				);
+			}
+
+			if (!pass && !this.isNot) {
+				return (
+					hint +
+					"\n\n" +
+					`Expected ${formatSpreadKind(sample)} standard deviation: ${formatTolerance(this.utils.printExpected(expected), tolerance)}\n` +
+					statisticsLines
+				);
+			}
+
+			return hint;
+		};
+
+		return {
+			message,
+			pass,
+			name: assertionName,
+			expected,
+			actual: standardDeviation,
+		};
+	},
+	toHaveVariance(actual: number[], expected: number, tolerance = 0, options?: NumberSpreadOptions) {
+		const assertionName = "toHaveVariance";
+		const sample = options?.sample ?? false;
+		validateStatisticsInput(assertionName, actual, sample ? 2 : 1);
+		validateTolerance(assertionName, tolerance);
+		const variance = getVariance(actual, sample);
+		const difference = variance - expected;
+		const pass = Math.abs(difference) <= tolerance;
+
+		const message = (): string => {
+			const hint = this.utils.matcherHint(assertionName, undefined, String(expected), {
+				isNot: this.isNot,
+			});
+			const statisticsLines =
+				`Received variance: ${this.utils.printReceived(variance)}\n` +
+				`Difference: ${formatStatistic(Math.abs(difference))}\n\n` +
+				`${formatNumberStatistics(getNumberStatistics(actual))}\n` +
+				`Array (${actual.length} elements): ${this.utils.printReceived(actual)}`;
+
+			if (pass && this.isNot) {
+				return (
+					hint +
+					"\n\n" +
+					`Expected ${formatSpreadKind(sample)} variance to not be ${formatTolerance(this.utils.printExpected(expected), tolerance)}\n\n` +
+					statisticsLines
+				);
+			}
+
+			if (!pass && !this.isNot) {
+				return (
+					hint +
+					"\n\n" +
+					`Expected ${formatSpreadKind(sample)} variance: ${formatTolerance(this.utils.printExpected(expected), tolerance)}\n` +
+					statisticsLines
+				);
+			}
+
+			return hint;
+		};
+
+		return {
+			message,
+			pass,
+			name: assertionName,
+			expected,
+			actual: variance,
+		};
+	},
+	toHavePercentile(actual: number[], percentile: number, bounds: PercentileBounds) {
+		const assertionName = "toHavePercentile";
+		validateStatisticsInput(assertionName, actual);
+		if (typeof percentile !== "number" || !(percentile >= 0 && percentile <= 100)) {
+			throw new Error(`${assertionName}: percentile must be a number from 0 to 100, received ${String(percentile)}`);
+		}
+		const boundEntries = getPercentileBoundEntries(assertionName, bounds);
+
+		const sorted = [...actual].sort((a, b) => a - b);
+		const value = getPercentile(sorted, percentile);
+		const pass = boundEntries.every(([bound, limit]) => PERCENTILE_BOUNDS[bound].test(value, limit));
+		const label = `p${percentile}`;
+		const boundsDescription = boundEntries
+			.map(([bound, limit]) => `${PERCENTILE_BOUNDS[bound].label} ${this.utils.printExpected(limit)}`)
+			.join(" and ");
+
+		const message = (): string => {
+			const hint = this.utils.matcherHint(assertionName, undefined, String(percentile), {
+				isNot: this.isNot,
+			});
+			const statisticsLines =
+				`Received ${label}: ${this.utils.printReceived(value)}\n\n` +
+				`${formatNumberStatistics(getNumberStatistics(actual))}\n` +
+				`Array (${actual.length} elements): ${this.utils.printReceived(actual)}`;
+
+			if (pass && this.isNot) {
+				return hint + "\n\n" + `Expected ${label} to not be ${boundsDescription}\n\n` + statisticsLines;
+			}
+
+			if (!pass && !this.isNot) {
+				return hint + "\n\n" + `Expected ${label} to be ${boundsDescription}\n\n` + statisticsLines;
+			}
+
+			return hint;
+		};
+
+		return {
+			message,
+			pass,
+			name: assertionName,
+			expected: bounds,
+			actual: value,
+		};
+	},
+	toHaveMode(actual: number[], expected: number | number[]) {
+		const assertionName = "toHaveMode";
+		validateStatisticsInput(assertionName, actual, 0);
+		const expectedModes = (Array.isArray(expected) ? [...expected] : [expected]).sort((a, b) => a - b);
+		const valueCounts = getValueCounts(actual);
+		const frequency = valueCounts.length > 0 ? valueCounts[0][1] : 0;
+		const modes = valueCounts
+			.filter(([, count]) => count === frequency)
+			.map(([value]) => value)
+			.sort((a, b) => a - b);
+		const pass = modes.length === expectedModes.length && modes.every((mode, index) => mode === expectedModes[index]);
+
+		const message = (): string => {
+			const hint = this.utils.matcherHint(assertionName, undefined, String(expected), {
+				isNot: this.isNot,
+			});
+			const frequencyLines =
+				`Received mode: ${this.utils.printReceived(modes)}` +
+				(frequency > 0 ? ` (${frequency} occurrence${frequency === 1 ? "" : "s"} each)` : "") +
+				"\n\n" +
+				`Most frequent values: ${formatValueCounts(valueCounts)}\n` +
+				`Array (${actual.length} elements): ${this.utils.printReceived(actual)}`;
+
+			if (pass && this.isNot) {
+				return (
+					hint + "\n\n" + `Expected mode to not be ${this.utils.printExpected(expectedModes)}\n\n` + frequencyLines
+				);
+			}
+
+			if (!pass && !this.isNot) {
+				return hint + "\n\n" + `Expected mode: ${this.utils.printExpected(expectedModes)}\n` + frequencyLines;
+			}
+
+			return hint;
+		};
+
+		return {
+			message,
+			pass,
+			name: assertionName,
+			expected: expectedModes,
+			actual: modes,
+		};
+	},
 	toBeAllBetween(actual: number[], min: number, max: number) {
 		const assertionName = "toBeAllBetween";
 		const outOfRange = findNonMatching(actual, (val) => val >= min && val <= max);
@@ -830,3 +1024,62 @@ export const expectlyNumberArrayMatchers = withMatcherState({
 });
 
 export const expectlyNumberArray = baseExpect.extend(expectlyNumberArrayMatchers);
+
+/** Comparisons of `toHavePercentile()` bounds, by option name */
+const PERCENTILE_BOUNDS: Record<
+	keyof PercentileBounds,
+	{ label: string; test: (value: number, limit: number) => boolean }
+> = {
+	lessThan: { label: "less than", test: (value, limit) => value < limit },
+	lessThanOrEqual: { label: "less than or equal to", test: (value, limit) => value <= limit },
+	greaterThan: { label: "greater than", test: (value, limit) => value > limit },
+	greaterThanOrEqual: { label: "greater than or equal to", test: (value, limit) => value >= limit },
+};
+
+/**
+ * Validates the bounds of `toHavePercentile()`
+ * @throws Error if no bound is given, a bound is unknown or a limit is not a number
+ */
+function getPercentileBoundEntries(
+	assertionName: string,
+	bounds: PercentileBounds,
+): [keyof PercentileBounds, number][] {
+	const entries = Object.entries(bounds ?? {}).filter(([, limit]) => limit !== undefined);
+	if (entries.length === 0) {
+		throw new Error(
+			`${assertionName}: expected at least one bound: lessThan, lessThanOrEqual, greaterThan or greaterThanOrEqual`,
+		);
+	}
+	for (const [bound, limit] of entries) {
+		if (!(bound in PERCENTILE_BOUNDS)) {
+			throw new Error(`${assertionName}: unknown bound "${bound}"`);
+		}
+		if (typeof limit !== "number" || Number.isNaN(limit)) {
+			throw new Error(`${assertionName}: ${bound} must be a number, received ${String(limit)}`);
+		}
+	}
+	return entries as [keyof PercentileBounds, number][];
+}
+
+function validateTolerance(assertionName: string, tolerance: number): void {
+	if (typeof tolerance !== "number" || !(tolerance >= 0)) {
+		throw new Error(`${assertionName}: tolerance must be a non-negative number, received ${String(tolerance)}`);
+	}
+}
+
+function formatSpreadKind(sample: boolean): string {
+	return sample ? "sample" : "population";
+}
+
+function formatTolerance(expected: string, tolerance: number): string {
+	return tolerance === 0 ? expected : `${expected} ± ${formatStatistic(tolerance)}`;
+}
+
+/**
+ * Formats the five most frequent values, e.g. "4 (3×), 5 (2×), 1 (1×)"
+ */
+function formatValueCounts(valueCounts: [value: number, count: number][]): string {
+	const shown = valueCounts.slice(0, 5).map(([value, count]) => `${value} (${count}×)`);
+	const hidden = valueCounts.length - shown.length;
+	return shown.length === 0 ? "none" : shown.join(", ") + (hidden > 0 ? `, ... ${hidden} more` : "");
+}
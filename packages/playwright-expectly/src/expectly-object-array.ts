@@ -1,6 +1,11 @@
 import { withMatcherState } from "@cerios/playwright-expectly-core";
+import type { ExpectMatcherState } from "@playwright/test";
 import { expect as baseExpect } from "@playwright/test";
 
+import { getValueAtPath, parsePropertyPath } from "./matchers/property-path";
+import type { PropertyPathLookup } from "./matchers/property-path";
+import type { ObjectKeySelector, ObjectSortBy, ObjectSortKey, ObjectUniqueBy } from "./types/matcher-types";
+
 /**
  * Expectly Custom matchers for object array validations.
  */
@@ -33,21 +38,74 @@ export const expectlyObjectArrayMatchers = withMatcherState({
 			name: assertionName,
 		};
 	},
-	toHaveObjectsInAscendingOrderBy(actual: object[], propertyName: string) {
+	toHaveUniqueObjectsBy(actual: object[], uniqueBy: ObjectUniqueBy) {
+		const assertionName = "toHaveUniqueObjectsBy";
+		const uniqueKeys = toUniqueKeys(uniqueBy);
+		const search = findDuplicateKeyValues(actual, uniqueKeys);
+		const duplicates = search.errorMessage === undefined ? search.duplicates : [];
+		const pass = search.errorMessage === undefined && duplicates.length === 0;
+
+		const message = (): string => {
+			const hint = this.utils.matcherHint(assertionName, undefined, uniqueKeys.map((key) => key.label).join(", "), {
+				isNot: this.isNot,
+			});
+			const keyDescription = describeUniqueBy(uniqueBy, uniqueKeys, this.utils);
+
+			if (pass && this.isNot) {
+				return (
+					hint +
+					"\n\n" +
+					`Expected array to contain objects with duplicate ${keyDescription}, but all ${actual.length} were unique\n\n` +
+					`Received array (${actual.length} items):\n${this.utils.printReceived(actual)}`
+				);
+			}
+
+			if (!pass && !this.isNot) {
+				const details =
+					search.errorMessage ??
+					duplicates
+						.map(({ value, indices }) => `  ${this.utils.printReceived(value)} at indices ${indices.join(", ")}`)
+						.join("\n");
+				return (
+					hint +
+					"\n\n" +
+					`Expected array to contain only objects with unique ${keyDescription}` +
+					(search.errorMessage === undefined
+						? `, but found ${this.utils.printExpected(duplicates.length)} duplicated value(s):\n\n`
+						: "\n\n") +
+					`${details}\n\n` +
+					`Full array (${actual.length} items):\n${this.utils.printReceived(actual)}`
+				);
+			}
+
+			return hint;
+		};
+
+		return {
+			message,
+			pass,
+			name: assertionName,
+			expected: uniqueBy,
+			actual: duplicates,
+		};
+	},
+	toHaveObjectsInAscendingOrderBy(actual: object[], sortBy: ObjectSortBy) {
 		const assertionName = "toHaveObjectsInAscendingOrderBy";
-		const validation = validateSortOrder(actual, propertyName, "ascending");
+		const sortKeys = toSortKeys(sortBy, "ascending");
+		const validation = validateSortOrder(actual, sortKeys);
 		const pass = validation.isValid;
 
 		const message = (): string => {
-			const hint = this.utils.matcherHint(assertionName, undefined, String(propertyName), {
+			const hint = this.utils.matcherHint(assertionName, undefined, formatSortByHint(sortKeys), {
 				isNot: this.isNot,
 			});
+			const sortedBy = describeSortBy(sortBy, sortKeys, this.utils);
 
 			if (pass && this.isNot) {
 				return (
 					hint +
 					"\n\n" +
-					`Expected array to not be sorted in ascending order by property ${this.utils.printExpected(propertyName)}\n\n` +
+					`Expected array to not be sorted in ascending order by ${sortedBy}\n\n` +
 					`Received array (${actual.length} items):\n${this.utils.printReceived(actual)}`
 				);
 			}
@@ -56,7 +114,7 @@ export const expectlyObjectArrayMatchers = withMatcherState({
 				return (
 					hint +
 					"\n\n" +
-					`Expected array to be sorted in ascending order by property ${this.utils.printExpected(propertyName)}\n\n` +
+					`Expected array to be sorted in ascending order by ${sortedBy}\n\n` +
 					`${validation.errorMessage}\n\n` +
 					`Received array (${actual.length} items):\n${this.utils.printReceived(actual)}`
 				);
@@ -69,24 +127,26 @@ export const expectlyObjectArrayMatchers = withMatcherState({
 			message,
 			pass,
 			name: assertionName,
-			expected: propertyName,
+			expected: sortBy,
 		};
 	},
-	toHaveObjectsInDescendingOrderBy(actual: object[], propertyName: string) {
+	toHaveObjectsInDescendingOrderBy(actual: object[], sortBy: ObjectSortBy) {
 		const assertionName = "toHaveObjectsInDescendingOrderBy";
-		const validation = validateSortOrder(actual, propertyName, "descending");
+		const sortKeys = toSortKeys(sortBy, "descending");
+		const validation = validateSortOrder(actual, sortKeys);
 		const pass = validation.isValid;
 
 		const message = (): string => {
-			const hint = this.utils.matcherHint(assertionName, undefined, String(propertyName), {
+			const hint = this.utils.matcherHint(assertionName, undefined, formatSortByHint(sortKeys), {
 				isNot: this.isNot,
 			});
+			const sortedBy = describeSortBy(sortBy, sortKeys, this.utils);
 
 			if (pass && this.isNot) {
 				return (
 					hint +
 					"\n\n" +
-					`Expected array to not be sorted in descending order by property ${this.utils.printExpected(propertyName)}\n\n` +
+					`Expected array to not be sorted in descending order by ${sortedBy}\n\n` +
 					`Received array (${actual.length} items):\n${this.utils.printReceived(actual)}`
 				);
 			}
@@ -95,7 +155,7 @@ export const expectlyObjectArrayMatchers = withMatcherState({
 				return (
 					hint +
 					"\n\n" +
-					`Expected array to be sorted in descending order by property ${this.utils.printExpected(propertyName)}\n\n` +
+					`Expected array to be sorted in descending order by ${sortedBy}\n\n` +
 					`${validation.errorMessage}\n\n` +
 					`Received array (${actual.length} items):\n${this.utils.printReceived(actual)}`
 				);
@@ -108,7 +168,7 @@ export const expectlyObjectArrayMatchers = withMatcherState({
 			message,
 			pass,
 			name: assertionName,
-			expected: propertyName,
+			expected: sortBy,
 		};
 	},
 });
@@ -162,6 +222,20 @@ function safeStringify(obj: unknown): string {
 				return value.map((item) => normalize(item));
 			}
 
+			// Dates, maps and sets have no own enumerable keys and would all serialize to "{}"
+			if (value instanceof Date) {
+				return `Date(${Number.isNaN(value.getTime()) ? "Invalid Date" : value.toISOString()})`;
+			}
+			if (value instanceof RegExp) {
+				return `RegExp(${String(value)})`;
+			}
+			if (value instanceof Map) {
+				return { Map: Array.from(value.entries(), ([key, item]) => [normalize(key), normalize(item)]) };
+			}
+			if (value instanceof Set) {
+				return { Set: Array.from(value.values(), (item) => normalize(item)) };
+			}
+
 			if (isRecord(value)) {
 				const sortedKeys = Object.keys(value).sort();
 				const normalized: Record<string, unknown> = {};
@@ -225,82 +299,223 @@ interface SortOrderValidation {
 	errorMessage: string;
 }
 
-function validateSortOrder(
-	arr: object[],
-	propertyName: string,
-	order: "ascending" | "descending",
-): SortOrderValidation {
-	// Empty or single element arrays are always sorted
-	if (arr.length <= 1) {
-		return { isValid: true, errorMessage: "" };
+interface ObjectKey {
+	label: string;
+	subject: string;
+	read: (item: object) => PropertyPathLookup;
+}
+
+interface SortKey extends ObjectKey {
+	order: "ascending" | "descending";
+}
+
+function toObjectKey(path: string | ObjectKeySelector): ObjectKey {
+	if (typeof path === "function") {
+		return {
+			label: "key selector",
+			subject: "Key selector value",
+			read: (item): PropertyPathLookup => ({ found: true, value: path(item) }),
+		};
 	}
 
-	for (let i = 0; i < arr.length - 1; i++) {
-		const currentObj = arr[i];
-		const nextObj = arr[i + 1];
-
-		// Check if property exists on both objects
-		if (!Object.prototype.hasOwnProperty.call(currentObj, propertyName)) {
-			return {
-				isValid: false,
-				errorMessage: `Property "${propertyName}" not found on object at index ${i}`,
-			};
-		}
+	const keys = parsePropertyPath(path);
+	return {
+		label: path,
+		subject: `Property "${path}"`,
+		read: (item): PropertyPathLookup => getValueAtPath(item, keys),
+	};
+}
 
-		if (!Object.prototype.hasOwnProperty.call(nextObj, propertyName)) {
-			return {
-				isValid: false,
-				errorMessage: `Property "${propertyName}" not found on object at index ${i + 1}`,
-			};
+function toSortKeys(sortBy: ObjectSortBy, defaultOrder: "ascending" | "descending"): SortKey[] {
+	const entries: ObjectSortKey[] = Array.isArray(sortBy) ? sortBy : [{ path: sortBy }];
+	if (entries.length === 0) {
+		throw new Error("At least one sort key is required");
+	}
+
+	return entries.map(({ path, order }) => {
+		if (order !== undefined && order !== "asc" && order !== "desc") {
+			throw new Error(`Invalid sort order: ${String(order)}. Use "asc" or "desc"`);
 		}
 
-		const currentValue: unknown = Reflect.get(currentObj, propertyName);
-		const nextValue: unknown = Reflect.get(nextObj, propertyName);
+		return {
+			...toObjectKey(path),
+			order: order === undefined ? defaultOrder : order === "asc" ? "ascending" : "descending",
+		};
+	});
+}
 
-		// Check if values are comparable
-		const currentType = typeof currentValue;
-		const nextType = typeof nextValue;
+function describeSortBy(sortBy: ObjectSortBy, sortKeys: SortKey[], utils: ExpectMatcherState["utils"]): string {
+	if (typeof sortBy === "string") {
+		return `property ${utils.printExpected(sortBy)}`;
+	}
+	if (typeof sortBy === "function") {
+		return "key selector";
+	}
+	return `keys ${sortKeys.map((key) => `${utils.printExpected(key.label)} (${formatOrder(key.order)})`).join(", ")}`;
+}
 
-		if (currentType !== nextType) {
-			return {
-				isValid: false,
-				errorMessage: `Type mismatch at indices ${i} and ${i + 1}: ${currentType} vs ${nextType}`,
-			};
-		}
+function formatSortByHint(sortKeys: SortKey[]): string {
+	return sortKeys.map((key) => key.label).join(", ");
+}
 
-		// Handle null/undefined
-		if (currentValue === null || currentValue === undefined) {
-			return {
-				isValid: false,
-				errorMessage: `Property "${propertyName}" is ${currentValue === null ? "null" : "undefined"} at index ${i}`,
-			};
-		}
+function formatOrder(order: "ascending" | "descending"): string {
+	return order === "ascending" ? "asc" : "desc";
+}
 
-		if (nextValue === null || nextValue === undefined) {
-			return {
-				isValid: false,
-				errorMessage: `Property "${propertyName}" is ${nextValue === null ? "null" : "undefined"} at index ${i + 1}`,
-			};
-		}
+function compareSortValues(left: {}, right: {}): number {
+	const leftValue = left instanceof Date ? left.getTime() : left;
+	const rightValue = right instanceof Date ? right.getTime() : right;
+	if (leftValue < rightValue) {
+		return -1;
+	}
+	return leftValue > rightValue ? 1 : 0;
+}
 
-		// Perform comparison based on order
-		if (order === "ascending") {
-			if (currentValue > nextValue) {
-				return {
-					isValid: false,
-					errorMessage: `Found out of order at indices ${i} and ${i + 1}: ${JSON.stringify(currentValue)} > ${JSON.stringify(nextValue)}`,
-				};
+type SortKeyComparison =
+	| { errorMessage: string }
+	| { errorMessage?: undefined; comparison: number; currentValue: unknown; nextValue: unknown };
+
+function formatMissingProperty(objectKey: ObjectKey, missingKey: string, index: number): string {
+	const missing = missingKey === objectKey.label ? "" : ` (missing "${missingKey}")`;
+	return `${objectKey.subject} not found on object at index ${index}${missing}`;
+}
+
+/**
+ * Compares two neighbouring objects by one sort key
+ */
+function compareBySortKey(sortKey: SortKey, currentObj: object, nextObj: object, index: number): SortKeyComparison {
+	const current = sortKey.read(currentObj);
+	const next = sortKey.read(nextObj);
+
+	// Check if property exists on both objects
+	if (!current.found) {
+		return { errorMessage: formatMissingProperty(sortKey, current.missingKey, index) };
+	}
+
+	if (!next.found) {
+		return { errorMessage: formatMissingProperty(sortKey, next.missingKey, index + 1) };
+	}
+
+	const currentValue = current.value;
+	const nextValue = next.value;
+
+	// Check if values are comparable
+	const currentType = typeof currentValue;
+	const nextType = typeof nextValue;
+
+	if (currentType !== nextType) {
+		return { errorMessage: `Type mismatch at indices ${index} and ${index + 1}: ${currentType} vs ${nextType}` };
+	}
+
+	// Handle null/undefined
+	if (currentValue === null || currentValue === undefined) {
+		return {
+			errorMessage: `${sortKey.subject} is ${currentValue === null ? "null" : "undefined"} at index ${index}`,
+		};
+	}
+
+	if (nextValue === null || nextValue === undefined) {
+		return {
+			errorMessage: `${sortKey.subject} is ${nextValue === null ? "null" : "undefined"} at index ${index + 1}`,
+		};
+	}
+
+	return { comparison: compareSortValues(currentValue, nextValue), currentValue, nextValue };
+}
+
+function formatSortValue(value: unknown): string {
+	return value instanceof Date ? value.toISOString() : JSON.stringify(value);
+}
+
+function validateSortOrder(arr: object[], sortKeys: SortKey[]): SortOrderValidation {
+	// Empty or single element arrays are always sorted
+	if (arr.length <= 1) {
+		return { isValid: true, errorMessage: "" };
+	}
+
+	for (let i = 0; i < arr.length - 1; i++) {
+		for (const sortKey of sortKeys) {
+			const result = compareBySortKey(sortKey, arr[i], arr[i + 1], i);
+			if (result.errorMessage !== undefined) {
+				return { isValid: false, errorMessage: result.errorMessage };
 			}
-		} else {
-			// descending
-			if (currentValue < nextValue) {
+
+			// Equal values are decided by the next sort key
+			if (result.comparison === 0) {
+				continue;
+			}
+
+			const isOutOfOrder = sortKey.order === "ascending" ? result.comparison > 0 : result.comparison < 0;
+			if (isOutOfOrder) {
+				const byKey = sortKeys.length > 1 ? ` by "${sortKey.label}" (${formatOrder(sortKey.order)})` : "";
+				const operator = sortKey.order === "ascending" ? ">" : "<";
 				return {
 					isValid: false,
-					errorMessage: `Found out of order at indices ${i} and ${i + 1}: ${JSON.stringify(currentValue)} < ${JSON.stringify(nextValue)}`,
+					errorMessage: `Found out of order at indices ${i} and ${i + 1}${byKey}: ${formatSortValue(result.currentValue)} ${operator} ${formatSortValue(result.nextValue)}`,
 				};
 			}
+			break;
 		}
 	}
 
 	return { isValid: true, errorMessage: "" };
 }
+
+interface DuplicateKeyValue {
+	value: unknown;
+	indices: number[];
+}
+
+type DuplicateKeySearch = { errorMessage: string } | { errorMessage?: undefined; duplicates: DuplicateKeyValue[] };
+
+function toUniqueKeys(uniqueBy: ObjectUniqueBy): ObjectKey[] {
+	const paths = Array.isArray(uniqueBy) ? uniqueBy : [uniqueBy];
+	if (paths.length === 0) {
+		throw new Error("At least one key is required");
+	}
+	return paths.map((path) => toObjectKey(path));
+}
+
+function describeUniqueBy(
+	uniqueBy: ObjectUniqueBy,
+	uniqueKeys: ObjectKey[],
+	utils: ExpectMatcherState["utils"],
+): string {
+	if (typeof uniqueBy === "function") {
+		return "key selector values";
+	}
+	if (typeof uniqueBy === "string") {
+		return utils.printExpected(uniqueBy);
+	}
+	return `(${uniqueKeys.map((key) => utils.printExpected(key.label)).join(", ")})`;
+}
+
+/**
+ * Groups the objects by their key value (or combination of key values) and returns every value
+ * that occurs more than once, in order of first occurrence
+ */
+function findDuplicateKeyValues(arr: object[], uniqueKeys: ObjectKey[]): DuplicateKeySearch {
+	const groups = new Map<string, DuplicateKeyValue>();
+
+	for (let i = 0; i < arr.length; i++) {
+		const values: Record<string, unknown> = {};
+		for (const uniqueKey of uniqueKeys) {
+			const lookup = uniqueKey.read(arr[i]);
+			if (!lookup.found) {
+				return { errorMessage: formatMissingProperty(uniqueKey, lookup.missingKey, i) };
+			}
+			values[uniqueKey.label] = lookup.value;
+		}
+
+		const value = uniqueKeys.length === 1 ? values[uniqueKeys[0].label] : values;
+		const serialized = safeStringify(value);
+		const group = groups.get(serialized);
+		if (group) {
+			group.indices.push(i);
+		} else {
+			groups.set(serialized, { value, indices: [i] });
+		}
+	}
+
+	return { duplicates: Array.from(groups.values()).filter((group) => group.indices.length > 1) };
+}
@@ -1,24 +1,33 @@
 import { withMatcherState } from "@cerios/playwright-expectly-core";
+import type { ExpectMatcherState } from "@playwright/test";
 import { expect as baseExpect } from "@playwright/test";
 
 import {
 	checkMonotonic,
+	createStringComparator,
 	findDuplicates,
 	findStrictAscendingViolation,
 	findStrictDescendingViolation,
+	pickStringCollationOptions,
 	sortedExpected,
 } from "./matchers/common-utils";
+import type { StringCollationOptions } from "./types/matcher-types";
+
+function formatCollation(collation: StringCollationOptions | undefined, utils: ExpectMatcherState["utils"]): string {
+	return collation === undefined ? "" : `Collation: ${utils.printExpected(collation)}\n`;
+}
 
 /**
  * Expectly Custom matchers for string array validations.
  */
 export const expectlyStringArrayMatchers = withMatcherState({
-	toHaveAscendingOrder(actual: string[]) {
+	toHaveAscendingOrder(actual: string[], options?: StringCollationOptions) {
 		const assertionName = "toHaveAscendingOrder";
+		const collation = pickStringCollationOptions(options);
 		let pass: boolean;
 		let matcherResult: { actual?: unknown } | undefined;
 
-		const expected: string[] = sortedExpected(actual, "ascending");
+		const expected: string[] = sortedExpected(actual, "ascending", collation);
 		try {
 			baseExpect(actual).toEqual(expected);
 			matcherResult = { actual };
@@ -46,6 +55,7 @@ export const expectlyStringArrayMatchers = withMatcherState({
 			}) +
 			"\n\n" +
 			`Expected array to ${this.isNot ? "not " : ""}be in ascending order\n\n` +
+			formatCollation(collation, this.utils) +
 			`Expected: ${this.utils.printExpected(expected)}\n` +
 			`Received: ${this.utils.printReceived(matcherResult?.actual ?? actual)}`;
 
@@ -57,12 +67,13 @@ export const expectlyStringArrayMatchers = withMatcherState({
 			actual: matcherResult?.actual,
 		};
 	},
-	toHaveDescendingOrder(actual: string[]) {
+	toHaveDescendingOrder(actual: string[], options?: StringCollationOptions) {
 		const assertionName = "toHaveDescendingOrder";
+		const collation = pickStringCollationOptions(options);
 		let pass: boolean;
 		let matcherResult: { actual?: unknown } | undefined;
 
-		const expected: string[] = sortedExpected(actual, "descending");
+		const expected: string[] = sortedExpected(actual, "descending", collation);
 		try {
 			baseExpect(actual).toEqual(expected);
 			matcherResult = { actual };
@@ -90,6 +101,7 @@ export const expectlyStringArrayMatchers = withMatcherState({
 			}) +
 			"\n\n" +
 			`Expected array to ${this.isNot ? "not " : ""}be in descending order\n\n` +
+			formatCollation(collation, this.utils) +
 			`Expected: ${this.utils.printExpected(expected)}\n` +
 			`Received: ${this.utils.printReceived(matcherResult?.actual ?? actual)}`;
 
@@ -101,9 +113,13 @@ export const expectlyStringArrayMatchers = withMatcherState({
 			actual: matcherResult?.actual,
 		};
 	},
-	toHaveStrictlyAscendingOrder(actual: string[]) {
+	toHaveStrictlyAscendingOrder(actual: string[], options?: StringCollationOptions) {
 		const assertionName = "toHaveStrictlyAscendingOrder";
-		const firstViolationIndex = findStrictAscendingViolation(actual);
+		const collation = pickStringCollationOptions(options);
+		const firstViolationIndex = findStrictAscendingViolation(
+			actual,
+			collation === undefined ? undefined : createStringComparator(collation),
+		);
 		const pass = firstViolationIndex === -1;
 
 		const message = (): string => {
@@ -125,6 +141,7 @@ export const expectlyStringArrayMatchers = withMatcherState({
 					hint +
 					"\n\n" +
 					`Expected array to be in strictly ascending order (each element > previous)\n\n` +
+					formatCollation(collation, this.utils) +
 					`Found violation at index ${firstViolationIndex}: "${actual[firstViolationIndex]}" >= "${actual[firstViolationIndex + 1]}"\n\n` +
 					`Array (${actual.length} elements): ${this.utils.printReceived(actual)}`
 				);
@@ -139,9 +156,13 @@ export const expectlyStringArrayMatchers = withMatcherState({
 			name: assertionName,
 		};
 	},
-	toHaveStrictlyDescendingOrder(actual: string[]) {
+	toHaveStrictlyDescendingOrder(actual: string[], options?: StringCollationOptions) {
 		const assertionName = "toHaveStrictlyDescendingOrder";
-		const firstViolationIndex = findStrictDescendingViolation(actual);
+		const collation = pickStringCollationOptions(options);
+		const firstViolationIndex = findStrictDescendingViolation(
+			actual,
+			collation === undefined ? undefined : createStringComparator(collation),
+		);
 		const pass = firstViolationIndex === -1;
 
 		const message = (): string => {
@@ -163,6 +184,7 @@ export const expectlyStringArrayMatchers = withMatcherState({
 					hint +
 					"\n\n" +
 					`Expected array to be in strictly descending order (each element < previous)\n\n` +
+					formatCollation(collation, this.utils) +
 					`Found violation at index ${firstViolationIndex}: "${actual[firstViolationIndex]}" <= "${actual[firstViolationIndex + 1]}"\n\n` +
 					`Array (${actual.length} elements): ${this.utils.printReceived(actual)}`
 				);
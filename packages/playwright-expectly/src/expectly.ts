@@ -4,14 +4,34 @@ import type { ExpectMatcherState, Locator, MatcherReturnType } from "@playwright
 import { expect as baseExpect } from "@playwright/test";
 
 import { expectlyAnyMatchers } from "./expectly-any";
+import { expectlyApiResponseMatchers } from "./expectly-api-response";
+import { runExpectlyBatch } from "./expectly-batch";
 import { expectlyDateMatchers } from "./expectly-date";
-import { expectlyLocatorMatchers, expectlyLocatorTextMatchers } from "./expectly-locator";
+import { expectlyDateIntervalMatchers } from "./expectly-date-interval";
+import {
+	expectlyLocatorCollectionMatchers,
+	expectlyLocatorDateMatchers,
+	expectlyLocatorMatchers,
+	expectlyLocatorTextMatchers,
+} from "./expectly-locator";
+import { withEachChain } from "./expectly-locator/expectly-locator-each";
+import type { EachChain } from "./expectly-locator/expectly-locator-each";
 import { expectlyNumberArrayMatchers } from "./expectly-number-array";
 import { expectlyObjectArrayMatchers } from "./expectly-object-array";
 import { expectlyStringMatchers } from "./expectly-string";
 import { expectlyStringArrayMatchers } from "./expectly-string-array";
+import type {
+	CollectionOrderOptions,
+	DateDeviationOptions,
+	DateInput,
+	DurationInput,
+	LocatorCollectionOptions,
+	LocatorDateTextOptions,
+	RelativeDateOptions,
+	StringCollationOptions,
+} from "./types/matcher-types";
 
-function isLocatorMatcherTarget(received: string | Locator): received is Locator {
+function isLocatorMatcherTarget(received: unknown): received is Locator {
 	return typeof received === "object" && received !== null && "innerText" in received;
 }
 
@@ -106,6 +126,196 @@ const expectlyTextMatchers = {
 
 type OverlappingTextMatcherNames = keyof typeof expectlyTextMatchers;
 
+function isNumberArray(received: number[] | string[]): received is number[] {
+	return received.every((value) => typeof value === "number");
+}
+
+const expectlyCollectionMatchers = {
+	toHaveAscendingOrder(
+		this: ExpectMatcherState,
+		received: number[] | string[] | Locator,
+		options?: CollectionOrderOptions,
+	): SharedTextMatcherReturn {
+		if (isLocatorMatcherTarget(received)) {
+			return expectlyLocatorCollectionMatchers.toHaveAscendingOrder.call(this, received, options);
+		}
+
+		return isNumberArray(received)
+			? expectlyNumberArrayMatchers.toHaveAscendingOrder.call(this, received)
+			: expectlyStringArrayMatchers.toHaveAscendingOrder.call(this, received, options);
+	},
+	toHaveDescendingOrder(
+		this: ExpectMatcherState,
+		received: number[] | string[] | Locator,
+		options?: CollectionOrderOptions,
+	): SharedTextMatcherReturn {
+		if (isLocatorMatcherTarget(received)) {
+			return expectlyLocatorCollectionMatchers.toHaveDescendingOrder.call(this, received, options);
+		}
+
+		return isNumberArray(received)
+			? expectlyNumberArrayMatchers.toHaveDescendingOrder.call(this, received)
+			: expectlyStringArrayMatchers.toHaveDescendingOrder.call(this, received, options);
+	},
+	toHaveStrictlyAscendingOrder(
+		this: ExpectMatcherState,
+		received: number[] | string[],
+		options?: StringCollationOptions,
+	): MatcherReturnType {
+		return isNumberArray(received)
+			? expectlyNumberArrayMatchers.toHaveStrictlyAscendingOrder.call(this, received)
+			: expectlyStringArrayMatchers.toHaveStrictlyAscendingOrder.call(this, received, options);
+	},
+	toHaveStrictlyDescendingOrder(
+		this: ExpectMatcherState,
+		received: number[] | string[],
+		options?: StringCollationOptions,
+	): MatcherReturnType {
+		return isNumberArray(received)
+			? expectlyNumberArrayMatchers.toHaveStrictlyDescendingOrder.call(this, received)
+			: expectlyStringArrayMatchers.toHaveStrictlyDescendingOrder.call(this, received, options);
+	},
+	toHaveUniqueValues(
+		this: ExpectMatcherState,
+		received: number[] | string[] | Locator,
+		options?: LocatorCollectionOptions,
+	): SharedTextMatcherReturn {
+		if (isLocatorMatcherTarget(received)) {
+			return expectlyLocatorCollectionMatchers.toHaveUniqueValues.call(this, received, options);
+		}
+
+		return isNumberArray(received)
+			? expectlyNumberArrayMatchers.toHaveUniqueValues.call(this, received)
+			: expectlyStringArrayMatchers.toHaveUniqueValues.call(this, received);
+	},
+	toHaveSum(
+		this: ExpectMatcherState,
+		received: number[] | Locator,
+		expected: number,
+		options?: LocatorCollectionOptions,
+	): SharedTextMatcherReturn {
+		if (isLocatorMatcherTarget(received)) {
+			return expectlyLocatorCollectionMatchers.toHaveSum.call(this, received, expected, options);
+		}
+
+		return expectlyNumberArrayMatchers.toHaveSum.call(this, received, expected);
+	},
+	toBeAllBetween(
+		this: ExpectMatcherState,
+		received: number[] | Locator,
+		min: number,
+		max: number,
+		options?: LocatorCollectionOptions,
+	): SharedTextMatcherReturn {
+		if (isLocatorMatcherTarget(received)) {
+			return expectlyLocatorCollectionMatchers.toBeAllBetween.call(this, received, min, max, options);
+		}
+
+		return expectlyNumberArrayMatchers.toBeAllBetween.call(this, received, min, max);
+	},
+};
+
+type OverlappingCollectionMatcherNames = keyof typeof expectlyCollectionMatchers;
+
+const expectlySharedDateMatchers = {
+	toBeToday(
+		this: ExpectMatcherState,
+		received: DateInput | Locator,
+		options?: RelativeDateOptions & LocatorDateTextOptions,
+	): SharedTextMatcherReturn {
+		if (isLocatorMatcherTarget(received)) {
+			return expectlyLocatorDateMatchers.toBeToday.call(this, received, options);
+		}
+
+		return expectlyDateMatchers.toBeToday.call(this, received, options);
+	},
+	toBeBetween(
+		this: ExpectMatcherState,
+		received: DateInput | Locator,
+		startDate: DateInput,
+		endDate: DateInput,
+		options?: LocatorDateTextOptions,
+	): SharedTextMatcherReturn {
+		if (isLocatorMatcherTarget(received)) {
+			return expectlyLocatorDateMatchers.toBeBetween.call(this, received, startDate, endDate, options);
+		}
+
+		return expectlyDateMatchers.toBeBetween.call(this, received, startDate, endDate, options);
+	},
+	toBeCloseTo(
+		this: ExpectMatcherState,
+		received: DateInput | Locator,
+		expectedDate: DateInput,
+		deviation: DateDeviationOptions,
+		options?: LocatorDateTextOptions,
+	): SharedTextMatcherReturn {
+		if (isLocatorMatcherTarget(received)) {
+			return expectlyLocatorDateMatchers.toBeCloseTo.call(this, received, expectedDate, deviation, options);
+		}
+
+		return expectlyDateMatchers.toBeCloseTo.call(this, received, expectedDate, deviation, options);
+	},
+	toBeValidISODuration(
+		this: ExpectMatcherState,
+		received: string | Locator,
+		options?: PollOptions,
+	): SharedTextMatcherReturn {
+		if (isLocatorMatcherTarget(received)) {
+			return expectlyLocatorDateMatchers.toBeValidISODuration.call(this, received, options);
+		}
+
+		return expectlyDateMatchers.toBeValidISODuration.call(this, received);
+	},
+	toHaveDurationCloseTo(
+		this: ExpectMatcherState,
+		received: DurationInput | Locator,
+		expected: DurationInput,
+		tolerance: DateDeviationOptions,
+		options?: PollOptions,
+	): SharedTextMatcherReturn {
+		if (isLocatorMatcherTarget(received)) {
+			return expectlyLocatorDateMatchers.toHaveDurationCloseTo.call(this, received, expected, tolerance, options);
+		}
+
+		return expectlyDateMatchers.toHaveDurationCloseTo.call(this, received, expected, tolerance);
+	},
+};
+
+type OverlappingDateMatcherNames = keyof typeof expectlySharedDateMatchers;
+
+/**
+ * Matchers returned by `expectly(actual)`. For locators, `.each` applies a locator matcher
+ * to every element matched by the locator (see `toSatisfyAll()`).
+ */
+export type ExpectlyMatchers<T> = ReturnType<typeof baseExpect<T>> & (T extends Locator ? EachChain : {});
+
+export type ExpectlyExpect = {
+	<T = unknown>(actual: T, messageOrOptions?: string | { message?: string }): ExpectlyMatchers<T>;
+} & Expect<{}> & {
+		/**
+		 * Runs every assertion made through the provided `expect` — synchronous matchers and polled
+		 * locator matchers alike — and throws once with a numbered report of all failures.
+		 *
+		 * @param callback - Receives a soft `expect` that records failures instead of throwing
+		 *
+		 * @example
+		 * await expectly.all(async (e) => {
+		 *   e(prices).toHaveSum(100);
+		 *   await e(page.locator("#email")).toBeValidEmail();
+		 *   await e(page.locator("a.docs")).toHaveHref("/docs");
+		 * });
+		 */
+		all: (callback: (expect: ExpectlyExpect) => void | Promise<void>) => Promise<void>;
+	};
+
+function createExpectly(expect: Expect<{}>): ExpectlyExpect {
+	// The proxy returned by withEachChain adds `.each` to the matchers of every call
+	const expectly = withEachChain(expect) as Omit<ExpectlyExpect, "all"> as ExpectlyExpect;
+	return Object.assign(expectly, {
+		all: async (callback: (expect: ExpectlyExpect) => void | Promise<void>) => runExpectlyBatch(expectly, callback),
+	});
+}
+
 /**
  * Combined raw matchers object containing all expectly matchers.
  * Can be used with expect.extend() to add all matchers to the global expect.
@@ -118,21 +328,32 @@ type OverlappingTextMatcherNames = keyof typeof expectlyTextMatchers;
  */
 export const expectlyMatchers = {
 	...expectlyAnyMatchers,
+	...expectlyApiResponseMatchers,
 	...expectlyDateMatchers,
+	...expectlyDateIntervalMatchers,
 	...expectlyLocatorMatchers,
 	...expectlyNumberArrayMatchers,
 	...expectlyObjectArrayMatchers,
 	...expectlyStringMatchers,
 	...expectlyStringArrayMatchers,
 	...expectlyTextMatchers,
+	...expectlyCollectionMatchers,
+	...expectlySharedDateMatchers,
 } as typeof expectlyAnyMatchers &
-	typeof expectlyDateMatchers &
-	Omit<typeof expectlyLocatorMatchers, OverlappingTextMatcherNames> &
-	typeof expectlyNumberArrayMatchers &
+	typeof expectlyApiResponseMatchers &
+	Omit<typeof expectlyDateMatchers, OverlappingDateMatcherNames> &
+	typeof expectlyDateIntervalMatchers &
+	Omit<
+		typeof expectlyLocatorMatchers,
+		OverlappingTextMatcherNames | OverlappingCollectionMatcherNames | OverlappingDateMatcherNames
+	> &
+	Omit<typeof expectlyNumberArrayMatchers, OverlappingCollectionMatcherNames> &
 	typeof expectlyObjectArrayMatchers &
 	Omit<typeof expectlyStringMatchers, OverlappingTextMatcherNames> &
-	typeof expectlyStringArrayMatchers &
-	typeof expectlyTextMatchers;
+	Omit<typeof expectlyStringArrayMatchers, OverlappingCollectionMatcherNames> &
+	typeof expectlyTextMatchers &
+	typeof expectlyCollectionMatchers &
+	typeof expectlySharedDateMatchers;
 
 /**
  * Expectly - Enhanced Playwright Test Assertions
@@ -141,7 +362,9 @@ export const expectlyMatchers = {
  * functionality with powerful, expressive assertions for:
  *
  * - **Any Type Matchers**: Validate primitives, objects, arrays, and type checks
+ * - **API Response Matchers**: Status classes, headers, content types, and partial JSON bodies
  * - **Date Matchers**: Compare dates, check ranges, validate order, and temporal assertions
+ * - **Date Interval Matchers**: Overlap, containment and coverage of `{ start, end }` intervals
  * - **Locator Matchers**: Assert on web elements, attributes, text patterns, and validation
  * - **Number Matchers**: Statistical checks, ordering, ranges, and numeric validations
  * - **Object Array Matchers**: Sort validation and uniqueness checks for object collections
@@ -150,6 +373,8 @@ export const expectlyMatchers = {
  *
  * Simply import and use like Playwright's standard expect:
  *
+ * Use `expectly.all()` to run many assertions and fail once with a report of every failure.
+ *
  * Made with ❤️ by Ronald Veth from Cerios
  */
-export const expectly: Expect<{}> = baseExpect.extend<typeof expectlyMatchers>(expectlyMatchers);
+export const expectly: ExpectlyExpect = createExpectly(baseExpect.extend<typeof expectlyMatchers>(expectlyMatchers));
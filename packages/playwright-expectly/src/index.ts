@@ -3,6 +3,19 @@ import "./types/matcher-types";
 
 // Main export - the merged expect with all custom matchers
 export { expectly, expectlyMatchers } from "./expectly";
+export type { ExpectlyExpect, ExpectlyMatchers } from "./expectly";
+
+// Soft-assertion batches that fail once with every collected failure
+export { createExpectlyBatch, runExpectlyBatch } from "./expectly-batch";
+export type { ExpectlyBatch, ExpectlyBatchFailure } from "./expectly-batch";
+
+// Defaults for the date matchers, e.g. the time zone of calendar-based matchers and the reference time
+export {
+	configureExpectlyDates,
+	resetExpectlyDatesPageClock,
+	syncExpectlyDatesWithPageClock,
+} from "./matchers/date-config";
+export type { ExpectlyDateConfig } from "./matchers/date-config";
 
 // Setup helper for extending Playwright's native expect (also provides type augmentation)
 // oxlint-disable-next-line typescript/no-deprecated
@@ -10,12 +23,20 @@ export { setupExpectly } from "./playwright-setup";
 
 // Individual matcher exports for granular usage
 export { expectlyAny, expectlyAnyMatchers } from "./expectly-any";
+export { expectlyApiResponse, expectlyApiResponseMatchers, trackApiRequests } from "./expectly-api-response";
 export { expectlyDate, expectlyDateMatchers } from "./expectly-date";
+export { expectlyDateInterval, expectlyDateIntervalMatchers } from "./expectly-date-interval";
 export {
 	expectlyLocator,
 	expectlyLocatorMatchers,
 	expectlyLocatorAttributes,
 	expectlyLocatorAttributesMatchers,
+	expectlyLocatorCollection,
+	expectlyLocatorCollectionMatchers,
+	expectlyLocatorDate,
+	expectlyLocatorDateMatchers,
+	expectlyLocatorEach,
+	expectlyLocatorEachMatchers,
 	expectlyLocatorPositioning,
 	expectlyLocatorPositioningMatchers,
 	expectlyLocatorState,
@@ -25,6 +46,7 @@ export {
 	expectlyLocatorVisibility,
 	expectlyLocatorVisibilityMatchers,
 } from "./expectly-locator/index";
+export type { ExpectlyLocatorExpect } from "./expectly-locator/index";
 export { expectlyNumberArray, expectlyNumberArrayMatchers } from "./expectly-number-array";
 export { expectlyObjectArray, expectlyObjectArrayMatchers } from "./expectly-object-array";
 export { expectlyString, expectlyStringMatchers } from "./expectly-string";
@@ -0,0 +1,135 @@
+/**
+ * Business-day arithmetic on calendar dates, with configurable weekend days and holiday calendars
+ */
+
+import type { BusinessDayOptions, HolidayCalendar } from "../types/matcher-types";
+
+import { getExpectlyDateConfig, validateBusinessDayOptions } from "./date-config";
+import type { DateParser } from "./date-input";
+import { formatCalendarDate, getCalendarDate, shiftCalendarDate } from "./date-time-zone";
+import type { CalendarDate } from "./date-time-zone";
+
+/**
+ * Weekend days and holidays used to decide whether a calendar date is a business day
+ */
+export type BusinessCalendar = {
+	/** 0 (Sunday) - 6 (Saturday) */
+	weekend: number[];
+	isHoliday: (date: CalendarDate) => boolean;
+};
+
+const DEFAULT_WEEKEND = [0, 6];
+
+/** Stops a search for the next business day when a holiday predicate matches every day */
+const MAX_SKIPPED_DAYS = 366;
+
+const CALENDAR_DAY = /^\d{4}-\d{2}-\d{2}$/;
+
+function createHolidayCheck(
+	holidays: HolidayCalendar | undefined,
+	parseDate: DateParser,
+	timeZone: string | undefined,
+): (date: CalendarDate) => boolean {
+	if (holidays === undefined) {
+		return () => false;
+	}
+	if (typeof holidays === "function") {
+		return (date) => holidays(formatCalendarDate(date));
+	}
+
+	const days = new Set(
+		holidays.map((holiday) =>
+			typeof holiday === "string" && CALENDAR_DAY.test(holiday)
+				? holiday
+				: formatCalendarDate(getCalendarDate(parseDate(holiday, "holiday"), timeZone)),
+		),
+	);
+	return (date) => days.has(formatCalendarDate(date));
+}
+
+/**
+ * Resolves the business calendar of a matcher: its `weekend` and `holidays` options, else the configured defaults.
+ * Holidays given as "YYYY-MM-DD" strings are calendar days; other dates are read in the time zone.
+ * @param assertionName - Matcher name for error messages
+ * @param options - Matcher options
+ * @param parseDate - Parser for holiday dates
+ * @param timeZone - IANA time zone, or undefined for the process's local time
+ * @returns The business calendar
+ * @throws Error if the weekend or holidays are invalid
+ */
+export function resolveBusinessCalendar(
+	assertionName: string,
+	options: BusinessDayOptions | undefined,
+	parseDate: DateParser,
+	timeZone: string | undefined,
+): BusinessCalendar {
+	const config = getExpectlyDateConfig();
+	const resolved = {
+		weekend: options?.weekend ?? config.weekend ?? DEFAULT_WEEKEND,
+		holidays: options?.holidays ?? config.holidays,
+	};
+	validateBusinessDayOptions(assertionName, resolved);
+
+	return { weekend: resolved.weekend, isHoliday: createHolidayCheck(resolved.holidays, parseDate, timeZone) };
+}
+
+/**
+ * Tells why a calendar date is not a business day
+ * @param date - Calendar date to check
+ * @param calendar - Business calendar
+ * @returns "weekend", "holiday", or undefined for business days
+ */
+export function getNonBusinessDayReason(
+	date: CalendarDate,
+	calendar: BusinessCalendar,
+): "weekend" | "holiday" | undefined {
+	if (calendar.weekend.includes(date.weekday)) {
+		return "weekend";
+	}
+	return calendar.isHoliday(date) ? "holiday" : undefined;
+}
+
+/**
+ * Moves a calendar date by a number of business days. Zero keeps the date, even if it is not a business day.
+ * @param date - Calendar date to start from
+ * @param businessDays - Business days to add (negative values subtract)
+ * @param calendar - Business calendar
+ * @returns The calendar date `businessDays` business days away
+ * @throws Error if a year passes without a business day
+ */
+export function addBusinessDays(date: CalendarDate, businessDays: number, calendar: BusinessCalendar): CalendarDate {
+	const step = businessDays < 0 ? -1 : 1;
+	let current = date;
+	let skippedDays = 0;
+	for (let remaining = Math.abs(businessDays); remaining > 0;) {
+		current = shiftCalendarDate(current, { days: step });
+		if (getNonBusinessDayReason(current, calendar) === undefined) {
+			remaining--;
+			skippedDays = 0;
+		} else if (++skippedDays > MAX_SKIPPED_DAYS) {
+			throw new Error(`No business day within a year of ${formatCalendarDate(current)}; check the holidays`);
+		}
+	}
+	return current;
+}
+
+/**
+ * Counts the business days when moving from one calendar date to another, excluding `from` and including `to`,
+ * so that `addBusinessDays(from, count)` gives `to` when `to` is a business day
+ * @param from - Calendar date to count from
+ * @param to - Calendar date to count to
+ * @param calendar - Business calendar
+ * @returns The number of business days, negative if `to` is before `from`
+ */
+export function countBusinessDays(from: CalendarDate, to: CalendarDate, calendar: BusinessCalendar): number {
+	const target = formatCalendarDate(to);
+	const step = target < formatCalendarDate(from) ? -1 : 1;
+	let count = 0;
+	for (let current = from; formatCalendarDate(current) !== target;) {
+		current = shiftCalendarDate(current, { days: step });
+		if (getNonBusinessDayReason(current, calendar) === undefined) {
+			count += step;
+		}
+	}
+	return count;
+}
@@ -2,29 +2,67 @@
  * Common utility functions for matchers
  */
 
+import type { StringCollationOptions } from "../types/matcher-types";
+
+/**
+ * Creates a string comparator. Without collation options strings are compared by UTF-16 code units,
+ * otherwise with `Intl.Collator`
+ * @param collation - Locale and collator options
+ * @returns Comparator returning a negative number, zero or a positive number
+ */
+export function createStringComparator(collation?: StringCollationOptions): (left: string, right: string) => number {
+	if (collation === undefined) {
+		return (left, right) => {
+			if (left === right) {
+				return 0;
+			}
+			return left < right ? -1 : 1;
+		};
+	}
+
+	const { locale, ...collatorOptions } = collation;
+	const collator = new Intl.Collator(locale, collatorOptions);
+	return (left, right) => collator.compare(left, right);
+}
+
+/**
+ * Picks the collation options from matcher options that may also hold unrelated settings (e.g. polling)
+ * @param options - Matcher options
+ * @returns Collation options, or undefined when none are set
+ */
+export function pickStringCollationOptions(options?: StringCollationOptions): StringCollationOptions | undefined {
+	if (options === undefined) {
+		return undefined;
+	}
+
+	const { locale, sensitivity, numeric, ignorePunctuation } = options;
+	const entries = Object.entries({ locale, sensitivity, numeric, ignorePunctuation }).filter(
+		([, value]) => value !== undefined,
+	);
+	return entries.length === 0 ? undefined : Object.fromEntries(entries);
+}
+
 /**
  * Sorts an array in ascending or descending order
  * @param actual - Array to sort
  * @param order - Sort order: "ascending" or "descending"
+ * @param collation - Locale and collator options for comparing strings
  * @returns Sorted copy of the array
  */
-export function sortedExpected<T extends number | string>(actual: T[], order: "ascending" | "descending"): T[] {
+export function sortedExpected<T extends number | string>(
+	actual: T[],
+	order: "ascending" | "descending",
+	collation?: StringCollationOptions,
+): T[] {
+	const compareStrings = createStringComparator(collation);
 	return [...actual].sort((left, right) => {
 		if (typeof left === "number" && typeof right === "number") {
 			return order === "ascending" ? left - right : right - left;
 		}
 
-		const leftString = String(left);
-		const rightString = String(right);
-		if (leftString === rightString) {
-			return 0;
-		}
-
-		if (order === "ascending") {
-			return leftString < rightString ? -1 : 1;
-		}
-
-		return leftString > rightString ? -1 : 1;
+		return order === "ascending"
+			? compareStrings(String(left), String(right))
+			: compareStrings(String(right), String(left));
 	});
 }
 
@@ -49,6 +87,16 @@ export function validateDate(date: Date, paramName: string): void {
 	}
 }
 
+/**
+ * Strips the matcher hint from a matcher message, keeping the explanation below it
+ * @param message - Full matcher message
+ * @returns The message body, or an empty string if the message is only a hint
+ */
+export function messageBody(message: string): string {
+	const separatorIndex = message.indexOf("\n\n");
+	return separatorIndex === -1 ? "" : message.slice(separatorIndex + 2);
+}
+
 /**
  * Formats an array of dates for display
  * @param dates - Array of dates to format
@@ -80,11 +128,12 @@ export function sortedDates(actual: Date[], order: "ascending" | "descending"):
 /**
  * Checks if an array is in strictly ascending order (each element > previous)
  * @param actual - Array to check
+ * @param compare - Comparator to use instead of the `>=` operator
  * @returns Index of first violation, or -1 if all valid
  */
-export function findStrictAscendingViolation<T>(actual: T[]): number {
+export function findStrictAscendingViolation<T>(actual: T[], compare?: (left: T, right: T) => number): number {
 	for (let i = 0; i < actual.length - 1; i++) {
-		if (actual[i] >= actual[i + 1]) {
+		if (compare ? compare(actual[i], actual[i + 1]) >= 0 : actual[i] >= actual[i + 1]) {
 			return i;
 		}
 	}
@@ -94,11 +143,12 @@ export function findStrictAscendingViolation<T>(actual: T[]): number {
 /**
  * Checks if an array is in strictly descending order (each element < previous)
  * @param actual - Array to check
+ * @param compare - Comparator to use instead of the `<=` operator
  * @returns Index of first violation, or -1 if all valid
  */
-export function findStrictDescendingViolation<T>(actual: T[]): number {
+export function findStrictDescendingViolation<T>(actual: T[], compare?: (left: T, right: T) => number): number {
 	for (let i = 0; i < actual.length - 1; i++) {
-		if (actual[i] <= actual[i + 1]) {
+		if (compare ? compare(actual[i], actual[i + 1]) <= 0 : actual[i] <= actual[i + 1]) {
 			return i;
 		}
 	}
@@ -0,0 +1,126 @@
+/**
+ * Calendar-aware date arithmetic: years, months and days move the wall-clock date in a time zone,
+ * while hours, minutes and seconds are exact durations
+ */
+
+import type { DateGapOptions } from "../types/matcher-types";
+
+import { fromWallClockTime, getDaysInMonth, getWallClockTime, shiftCalendarDate } from "./date-time-zone";
+
+/**
+ * A duration in calendar units (years, months, days) and exact units (hours, minutes, seconds)
+ */
+export type CalendarDuration = DateGapOptions;
+
+const MS_PER_SECOND = 1000;
+const MS_PER_MINUTE = 60 * MS_PER_SECOND;
+const MS_PER_HOUR = 60 * MS_PER_MINUTE;
+const MS_PER_DAY = 24 * MS_PER_HOUR;
+
+function addCalendarUnits(date: Date, years: number, months: number, days: number, timeZone: string | undefined): Date {
+	if (years === 0 && months === 0 && days === 0) {
+		return date;
+	}
+
+	const time = getWallClockTime(date, timeZone);
+	const totalMonths = time.month + months + years * 12;
+	const year = time.year + Math.floor(totalMonths / 12);
+	const month = ((totalMonths % 12) + 12) % 12;
+	// The day is clamped to the target month, so January 31 plus one month is the last day of February
+	const day = Math.min(time.day, getDaysInMonth(year, month));
+	const target = shiftCalendarDate({ year, month, day, weekday: 0 }, { days });
+
+	return fromWallClockTime({ ...time, year: target.year, month: target.month, day: target.day }, timeZone);
+}
+
+/**
+ * Adds a duration to a date. Years and months are added first, then days and then the exact units,
+ * so one day across a DST change keeps the time of day and one month from January 31 ends on the last
+ * day of February. A fraction of a day is added as an exact duration, e.g. half a day is 12 hours.
+ * @param date - Date to add to
+ * @param duration - Duration to add
+ * @param timeZone - IANA time zone, or undefined for the process's local time
+ * @param direction - -1 to subtract the duration instead
+ * @returns The resulting date
+ * @throws Error if years or months are not whole numbers
+ */
+export function addCalendarDuration(
+	date: Date,
+	duration: CalendarDuration,
+	timeZone: string | undefined,
+	direction: 1 | -1 = 1,
+): Date {
+	const years = duration.years ?? 0;
+	const months = duration.months ?? 0;
+	if (!Number.isInteger(years) || !Number.isInteger(months)) {
+		throw new Error(
+			`Invalid duration: years and months have no fixed length and must be whole numbers, received ${formatCalendarDuration(duration)}`,
+		);
+	}
+
+	const days = duration.days ?? 0;
+	const wholeDays = Math.trunc(days);
+	const shifted = addCalendarUnits(date, years * direction, months * direction, wholeDays * direction, timeZone);
+	const exactMs =
+		(days - wholeDays) * MS_PER_DAY +
+		(duration.hours ?? 0) * MS_PER_HOUR +
+		(duration.minutes ?? 0) * MS_PER_MINUTE +
+		(duration.seconds ?? 0) * MS_PER_SECOND;
+	return new Date(shifted.getTime() + exactMs * direction);
+}
+
+/**
+ * Gets the calendar duration between two dates: whole months (as years and months), then whole days,
+ * then the remaining hours, minutes and seconds
+ * @param from - Earlier date
+ * @param to - Later date
+ * @param timeZone - IANA time zone, or undefined for the process's local time
+ * @returns The duration, such that adding it to `from` gives `to` up to the second
+ */
+export function getCalendarDuration(from: Date, to: Date, timeZone: string | undefined): Required<CalendarDuration> {
+	const fromTime = getWallClockTime(from, timeZone);
+	const toTime = getWallClockTime(to, timeZone);
+
+	let months = (toTime.year - fromTime.year) * 12 + (toTime.month - fromTime.month);
+	while (months > 0 && addCalendarDuration(from, { months }, timeZone) > to) {
+		months--;
+	}
+	const monthAnchor = addCalendarDuration(from, { months }, timeZone);
+
+	const anchorTime = getWallClockTime(monthAnchor, timeZone);
+	let days = Math.round(
+		(Date.UTC(toTime.year, toTime.month, toTime.day) - Date.UTC(anchorTime.year, anchorTime.month, anchorTime.day)) /
+			MS_PER_DAY,
+	);
+	while (days > 0 && addCalendarDuration(monthAnchor, { days }, timeZone) > to) {
+		days--;
+	}
+
+	const remainingMs = to.getTime() - addCalendarDuration(monthAnchor, { days }, timeZone).getTime();
+	return {
+		years: Math.floor(months / 12),
+		months: months % 12,
+		days,
+		hours: Math.floor(remainingMs / MS_PER_HOUR),
+		minutes: Math.floor((remainingMs % MS_PER_HOUR) / MS_PER_MINUTE),
+		seconds: Math.floor((remainingMs % MS_PER_MINUTE) / MS_PER_SECOND),
+	};
+}
+
+/**
+ * Formats a duration compactly, e.g. "1y 2mo 3d 4h"
+ * @param duration - Duration to format
+ * @returns The non-zero units, or "0s"
+ */
+export function formatCalendarDuration(duration: CalendarDuration): string {
+	const units: [number | undefined, string][] = [
+		[duration.years, "y"],
+		[duration.months, "mo"],
+		[duration.days, "d"],
+		[duration.hours, "h"],
+		[duration.minutes, "m"],
+		[duration.seconds, "s"],
+	];
+	const parts = units.filter(([value]) => value !== undefined && value !== 0).map(([value, unit]) => `${value}${unit}`);
+	return parts.join(" ") || "0s";
+}
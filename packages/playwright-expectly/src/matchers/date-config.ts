@@ -0,0 +1,208 @@
+/**
+ * Process-wide defaults for the date matchers
+ */
+
+import { test } from "@playwright/test";
+import type { Page } from "@playwright/test";
+
+import type {
+	BusinessDayOptions,
+	DateNowProvider,
+	DateReferenceOptions,
+	DateTimeZoneOptions,
+	HolidayCalendar,
+} from "../types/matcher-types";
+
+import { isValidTimeZone } from "./date-time-zone";
+
+export type ExpectlyDateConfig = {
+	/**
+	 * IANA time zone for calendar-based date matchers called without a `timeZone` option, e.g. "UTC".
+	 * Undefined uses the process's local time.
+	 */
+	timeZone?: string;
+	/**
+	 * Reference time of relative date matchers (`toBeToday()`, `toBeInThePast()`, ...) called without a `now`
+	 * option: a fixed Date or epoch milliseconds, or a function returning one. Undefined uses the system clock.
+	 */
+	now?: DateNowProvider;
+	/**
+	 * Reject date strings that are not ISO 8601 (e.g. "03/01/2026") in date matchers called without a
+	 * `strictParsing` option. Defaults to false.
+	 */
+	strictParsing?: boolean;
+	/**
+	 * Holidays of business-day matchers called without a `holidays` option, e.g. a company holiday calendar
+	 */
+	holidays?: HolidayCalendar;
+	/**
+	 * Weekend days (0 = Sunday - 6 = Saturday) of business-day matchers called without a `weekend` option.
+	 * Undefined uses Saturday and Sunday.
+	 */
+	weekend?: number[];
+};
+
+let dateConfig: ExpectlyDateConfig = {};
+
+/**
+ * Reference time synced from a page clock, with the id of the test that synced it
+ */
+let pageClockNow: { now: Date; testId: string | undefined } | undefined;
+
+/**
+ * Sets defaults for the date matchers. Settings that are left out keep their current value; pass `undefined`
+ * to reset one. Playwright runs tests in worker processes, so call this from a module that every test file
+ * imports (e.g. your `tests/support/expect.ts`), not from `playwright.config.ts`.
+ * @param config - Defaults to apply
+ *
+ * @example
+ * configureExpectlyDates({ timeZone: "Europe/Amsterdam" });
+ */
+export function configureExpectlyDates(config: ExpectlyDateConfig): void {
+	if (config.timeZone !== undefined) {
+		validateTimeZone("configureExpectlyDates", config.timeZone);
+	}
+	if (config.now !== undefined && !isNowProvider(config.now)) {
+		throw new Error(`configureExpectlyDates: ${NOW_PROVIDER_ERROR}`);
+	}
+	if (config.strictParsing !== undefined && typeof config.strictParsing !== "boolean") {
+		throw new Error('configureExpectlyDates: "strictParsing" must be a boolean');
+	}
+	validateBusinessDayOptions("configureExpectlyDates", config);
+
+	dateConfig = { ...dateConfig, ...config };
+}
+
+/**
+ * Sets the reference time of relative date matchers to the current time of a page, e.g. the fake time of
+ * `page.clock`. The time is read once, so sync again after `page.clock.runFor()`, `fastForward()` or
+ * `setFixedTime()`. It only applies to the running test: later tests in the same worker use the `now` of
+ * `configureExpectlyDates()` or the system clock again.
+ * @param page - Page to read `Date.now()` from
+ * @returns The reference time now in use
+ *
+ * @example
+ * await page.clock.setFixedTime(new Date("2024-02-02T10:00:00Z"));
+ * await syncExpectlyDatesWithPageClock(page);
+ * expect(new Date("2024-02-02T08:00:00Z")).toBeToday();
+ */
+export async function syncExpectlyDatesWithPageClock(page: Page): Promise<Date> {
+	const now = new Date(await page.evaluate(() => Date.now()));
+	pageClockNow = { now, testId: getCurrentTestId() };
+	return now;
+}
+
+/**
+ * Stops using the time synced by `syncExpectlyDatesWithPageClock()` before the test ends
+ */
+export function resetExpectlyDatesPageClock(): void {
+	pageClockNow = undefined;
+}
+
+/**
+ * Gets the current date matcher defaults
+ * @returns The configured defaults
+ */
+export function getExpectlyDateConfig(): Readonly<ExpectlyDateConfig> {
+	return dateConfig;
+}
+
+/**
+ * Resolves the time zone of a calendar-based date matcher: its `timeZone` option, else the configured default
+ * @param assertionName - Matcher name for error messages
+ * @param options - Matcher options
+ * @returns IANA time zone, or undefined for the process's local time
+ * @throws Error if the time zone is unknown
+ */
+export function resolveTimeZone(assertionName: string, options: DateTimeZoneOptions | undefined): string | undefined {
+	if (options !== undefined && (typeof options !== "object" || options === null)) {
+		throw new Error(`${assertionName}: options must be an object, e.g. { timeZone: "Europe/Amsterdam" }`);
+	}
+
+	const timeZone = options?.timeZone ?? dateConfig.timeZone;
+	if (timeZone !== undefined) {
+		validateTimeZone(assertionName, timeZone);
+	}
+	return timeZone;
+}
+
+/**
+ * Resolves the reference time of a relative date matcher: its `now` option, else the configured default,
+ * else the system clock
+ * @param assertionName - Matcher name for error messages
+ * @param options - Matcher options
+ * @returns The reference time
+ * @throws Error if the provider does not give a valid date
+ */
+export function resolveNow(assertionName: string, options: DateReferenceOptions | undefined): Date {
+	if (options !== undefined && (typeof options !== "object" || options === null)) {
+		throw new Error(`${assertionName}: options must be an object, e.g. { now: new Date() }`);
+	}
+
+	const provider = options?.now ?? getPageClockNow() ?? dateConfig.now;
+	if (provider === undefined) {
+		return new Date();
+	}
+
+	const value = typeof provider === "function" ? provider() : provider;
+	const now = new Date(value instanceof Date ? value.getTime() : value);
+	if (!isNowProvider(value) || Number.isNaN(now.getTime())) {
+		throw new Error(`${assertionName}: ${NOW_PROVIDER_ERROR}, received ${String(value)}`);
+	}
+	return now;
+}
+
+/**
+ * Checks the `weekend` and `holidays` settings of business-day matchers or `configureExpectlyDates()`
+ * @param assertionName - Name for error messages
+ * @param options - Settings to check
+ * @throws Error if the weekend has no valid days or covers the whole week, or the holidays are no array or function
+ */
+export function validateBusinessDayOptions(assertionName: string, options: BusinessDayOptions): void {
+	const { weekend, holidays } = options;
+	if (
+		weekend !== undefined &&
+		(!Array.isArray(weekend) ||
+			!weekend.every((day) => Number.isInteger(day) && day >= 0 && day <= 6) ||
+			new Set(weekend).size === 7)
+	) {
+		throw new Error(
+			`${assertionName}: "weekend" must be an array of weekdays from 0 (Sunday) to 6 (Saturday) that leaves at least one business day`,
+		);
+	}
+	if (holidays !== undefined && !Array.isArray(holidays) && typeof holidays !== "function") {
+		throw new Error(`${assertionName}: "holidays" must be an array of dates or a function`);
+	}
+}
+
+const NOW_PROVIDER_ERROR = '"now" must be a valid Date, epoch milliseconds or a function returning one';
+
+function getCurrentTestId(): string | undefined {
+	try {
+		return test.info().testId;
+	} catch {
+		return undefined;
+	}
+}
+
+/**
+ * Gets the synced page clock time if the running test synced it, and forgets a time synced by an earlier test
+ */
+function getPageClockNow(): Date | undefined {
+	if (pageClockNow !== undefined && pageClockNow.testId !== getCurrentTestId()) {
+		pageClockNow = undefined;
+	}
+	return pageClockNow?.now;
+}
+
+function isNowProvider(value: unknown): value is DateNowProvider {
+	return value instanceof Date || typeof value === "number" || typeof value === "function";
+}
+
+function validateTimeZone(assertionName: string, timeZone: unknown): void {
+	if (typeof timeZone !== "string" || !isValidTimeZone(timeZone)) {
+		throw new Error(
+			`${assertionName}: unknown time zone ${JSON.stringify(timeZone)}. Use an IANA time zone such as "Europe/Amsterdam" or "UTC"`,
+		);
+	}
+}
@@ -0,0 +1,293 @@
+/**
+ * Token-based parsing of formatted date texts such as "19-10-2026 14:30", so no date library is required
+ */
+
+import { fromWallClockTime, getCalendarDate, getDaysInMonth } from "./date-time-zone";
+
+/**
+ * Parses a formatted date text into a Date
+ */
+export type DateFormatParser = (text: string) => Date;
+
+type DateField =
+	| "year"
+	| "month"
+	| "day"
+	| "weekday"
+	| "hour"
+	| "hour12"
+	| "minute"
+	| "second"
+	| "millisecond"
+	| "dayPeriod";
+
+type DateFields = Partial<Record<DateField, number>>;
+
+type FormatToken = {
+	field: DateField;
+	pattern: string;
+	/** Converts the matched text to the field value; numbers are parsed when omitted */
+	toValue?: (match: string) => number;
+};
+
+type LocaleNames = {
+	months: string[];
+	shortMonths: string[];
+	weekdays: string[];
+	shortWeekdays: string[];
+	dayPeriods: string[];
+};
+
+const SUPPORTED_TOKENS = [
+	"yyyy",
+	"yy",
+	"MMMM",
+	"MMM",
+	"MM",
+	"M",
+	"dd",
+	"d",
+	"EEEE",
+	"EEE",
+	"HH",
+	"H",
+	"hh",
+	"h",
+	"mm",
+	"m",
+	"ss",
+	"s",
+	"SSS",
+	"a",
+] as const;
+
+type SupportedToken = (typeof SUPPORTED_TOKENS)[number];
+
+const toMonthIndex = (match: string): number => Number(match) - 1;
+
+const NUMERIC_TOKENS: Record<Exclude<SupportedToken, "MMMM" | "MMM" | "EEEE" | "EEE" | "a">, FormatToken> = {
+	yyyy: { field: "year", pattern: "\\d{4}" },
+	yy: { field: "year", pattern: "\\d{2}", toValue: (match) => 2000 + Number(match) },
+	MM: { field: "month", pattern: "\\d{2}", toValue: toMonthIndex },
+	M: { field: "month", pattern: "\\d{1,2}", toValue: toMonthIndex },
+	dd: { field: "day", pattern: "\\d{2}" },
+	d: { field: "day", pattern: "\\d{1,2}" },
+	HH: { field: "hour", pattern: "\\d{2}" },
+	H: { field: "hour", pattern: "\\d{1,2}" },
+	hh: { field: "hour12", pattern: "\\d{2}" },
+	h: { field: "hour12", pattern: "\\d{1,2}" },
+	mm: { field: "minute", pattern: "\\d{2}" },
+	m: { field: "minute", pattern: "\\d{1,2}" },
+	ss: { field: "second", pattern: "\\d{2}" },
+	s: { field: "second", pattern: "\\d{1,2}" },
+	SSS: { field: "millisecond", pattern: "\\d{3}" },
+};
+
+const localeNamesCache = new Map<string, LocaleNames>();
+
+function getPartOfDate(
+	locale: string,
+	options: Intl.DateTimeFormatOptions,
+	date: number,
+	part: Intl.DateTimeFormatPartTypes,
+): string {
+	const formatter = new Intl.DateTimeFormat(locale, { ...options, timeZone: "UTC" });
+	return formatter.formatToParts(date).find((formatted) => formatted.type === part)?.value ?? "";
+}
+
+/**
+ * Gets month names, weekday names and AM/PM markers of a locale. Month names are taken from full dates,
+ * so locales with a separate standalone form (e.g. Russian "января" instead of "январь") match dates.
+ */
+function getLocaleNames(locale: string): LocaleNames {
+	let names = localeNamesCache.get(locale);
+	if (names === undefined) {
+		const monthIndexes = Array.from({ length: 12 }, (_, month) => Date.UTC(2024, month, 15));
+		// 2024-01-07 is a Sunday, so the weekday names are in `Date#getDay()` order
+		const weekdayIndexes = Array.from({ length: 7 }, (_, weekday) => Date.UTC(2024, 0, 7 + weekday));
+		names = {
+			months: monthIndexes.map((date) => getPartOfDate(locale, { day: "numeric", month: "long" }, date, "month")),
+			shortMonths: monthIndexes.map((date) => getPartOfDate(locale, { day: "numeric", month: "short" }, date, "month")),
+			weekdays: weekdayIndexes.map((date) => getPartOfDate(locale, { weekday: "long" }, date, "weekday")),
+			shortWeekdays: weekdayIndexes.map((date) => getPartOfDate(locale, { weekday: "short" }, date, "weekday")),
+			dayPeriods: [0, 12].map((hour) =>
+				getPartOfDate(locale, { hour: "numeric", hour12: true }, Date.UTC(2024, 0, 1, hour), "dayPeriod"),
+			),
+		};
+		localeNamesCache.set(locale, names);
+	}
+	return names;
+}
+
+function escapeRegExp(text: string): string {
+	return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function normalizeName(name: string): string {
+	return name.toLocaleLowerCase().replace(/\.$/, "");
+}
+
+function nameToken(field: DateField, names: string[]): FormatToken {
+	const alternatives = [...new Set(names.filter(Boolean))]
+		.sort((left, right) => right.length - left.length)
+		.map((name) => `${escapeRegExp(name.replace(/\.$/, ""))}\\.?`);
+	const normalizedNames = names.map(normalizeName);
+	return {
+		field,
+		pattern: alternatives.join("|"),
+		toValue: (match) => normalizedNames.indexOf(normalizeName(match)),
+	};
+}
+
+function createToken(token: SupportedToken, names: LocaleNames): FormatToken {
+	switch (token) {
+		case "MMMM":
+			return nameToken("month", names.months);
+		case "MMM":
+			return nameToken("month", names.shortMonths);
+		case "EEEE":
+			return nameToken("weekday", names.weekdays);
+		case "EEE":
+			return nameToken("weekday", names.shortWeekdays);
+		case "a":
+			return nameToken("dayPeriod", names.dayPeriods);
+		default:
+			return NUMERIC_TOKENS[token];
+	}
+}
+
+/**
+ * Splits a format into tokens and literals. Text in single quotes is literal and `''` is a single quote.
+ */
+function tokenizeFormat(format: string): (SupportedToken | { literal: string })[] {
+	const parts: (SupportedToken | { literal: string })[] = [];
+	let index = 0;
+
+	while (index < format.length) {
+		const char = format[index];
+
+		if (char === "'") {
+			const end = format.indexOf("'", index + 1);
+			if (end === -1) {
+				throw new Error(`Unterminated quoted text in date format "${format}"`);
+			}
+			parts.push({ literal: end === index + 1 ? "'" : format.slice(index + 1, end) });
+			index = end + 1;
+		} else if (/[a-zA-Z]/.test(char)) {
+			const token = SUPPORTED_TOKENS.find((candidate) => format.startsWith(candidate, index));
+			if (token === undefined) {
+				const run = /^([a-zA-Z])\1*/.exec(format.slice(index))?.[0] ?? char;
+				throw new Error(
+					`Unsupported token "${run}" in date format "${format}". ` +
+						`Supported tokens: ${SUPPORTED_TOKENS.join(", ")}; quote literal text like 'T'`,
+				);
+			}
+			parts.push(token);
+			index += token.length;
+		} else {
+			parts.push({ literal: char });
+			index++;
+		}
+	}
+
+	return parts;
+}
+
+function resolveHour(fields: DateFields): number | undefined {
+	if (fields.hour12 === undefined) {
+		return fields.hour;
+	}
+	if (fields.hour12 < 1 || fields.hour12 > 12) {
+		throw new Error(`hour ${fields.hour12} is out of range`);
+	}
+	return fields.dayPeriod === undefined ? fields.hour12 : (fields.hour12 % 12) + (fields.dayPeriod === 1 ? 12 : 0);
+}
+
+function validateFields(
+	fields: Required<Pick<DateFields, "year" | "month" | "day" | "hour" | "minute" | "second">>,
+): void {
+	if (fields.month < 0 || fields.month > 11) {
+		throw new Error(`month ${fields.month + 1} is out of range`);
+	}
+	if (fields.day < 1 || fields.day > getDaysInMonth(fields.year, fields.month)) {
+		throw new Error(`day ${fields.day} is out of range`);
+	}
+	if (fields.hour > 23 || fields.minute > 59 || fields.second > 59) {
+		throw new Error("time is out of range");
+	}
+}
+
+/**
+ * Creates a parser for texts in a date format such as "dd-MM-yyyy HH:mm" or "MMMM d, yyyy h:mm a".
+ *
+ * Supported tokens: `yyyy`, `yy` (2000-2099), `MMMM`, `MMM`, `MM`, `M`, `dd`, `d`, `EEEE`, `EEE`, `HH`, `H`,
+ * `hh`, `h`, `mm`, `m`, `ss`, `s`, `SSS` and `a` (AM/PM). Names are matched case-insensitively in the locale.
+ * Any whitespace matches any run of whitespace; other characters and text in single quotes are literal.
+ * Missing date fields are taken from the reference date and missing time fields are 0.
+ *
+ * @param format - Date format
+ * @param options - Locale of names (default "en-US"), IANA time zone of the text (default local time)
+ * and the reference date for missing date fields (default now)
+ * @returns Parser that throws if a text does not match the format or is not a valid date
+ * @throws Error if the format contains unsupported tokens
+ */
+export function createDateFormatParser(
+	format: string,
+	options: { locale?: string; timeZone?: string; referenceDate?: Date } = {},
+): DateFormatParser {
+	const names = getLocaleNames(options.locale ?? "en-US");
+	const tokens: FormatToken[] = [];
+	let pattern = "";
+
+	for (const part of tokenizeFormat(format)) {
+		if (typeof part === "string") {
+			const token = createToken(part, names);
+			tokens.push(token);
+			pattern += `(${token.pattern})`;
+		} else {
+			pattern += /^\s+$/.test(part.literal) ? "\\s+" : escapeRegExp(part.literal);
+		}
+	}
+
+	const regExp = new RegExp(`^\\s*${pattern}\\s*$`, "i");
+
+	return (text) => {
+		const fail = (reason: string): never => {
+			throw new Error(`Cannot parse "${text}" as a date with format "${format}": ${reason}`);
+		};
+
+		const match = regExp.exec(text);
+		if (match === null) {
+			return fail("the text does not match the format");
+		}
+
+		const fields: DateFields = {};
+		tokens.forEach((token, index) => {
+			fields[token.field] = token.toValue ? token.toValue(match[index + 1]) : Number(match[index + 1]);
+		});
+
+		const reference = getCalendarDate(options.referenceDate ?? new Date(), options.timeZone);
+		const resolved = {
+			year: fields.year ?? reference.year,
+			month: fields.month ?? reference.month,
+			day: fields.day ?? reference.day,
+			hour: 0,
+			minute: fields.minute ?? 0,
+			second: fields.second ?? 0,
+			millisecond: fields.millisecond ?? 0,
+		};
+
+		try {
+			resolved.hour = resolveHour(fields) ?? 0;
+			validateFields(resolved);
+		} catch (error) {
+			return fail((error as Error).message);
+		}
+
+		const date = fromWallClockTime(resolved, options.timeZone);
+		if (fields.weekday !== undefined && getCalendarDate(date, options.timeZone).weekday !== fields.weekday) {
+			return fail("the weekday does not match the date");
+		}
+		return date;
+	};
+}
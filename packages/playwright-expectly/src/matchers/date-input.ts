@@ -0,0 +1,95 @@
+/**
+ * Conversion of the values accepted by the date matchers (Dates, ISO 8601 strings, epoch milliseconds and
+ * Temporal-like objects) to Dates
+ */
+
+import type { DateParseOptions } from "../types/matcher-types";
+
+import { getExpectlyDateConfig } from "./date-config";
+import { getDaysInMonth } from "./date-time-zone";
+
+const ISO_8601_DATE_TIME =
+	/^(\d{4})-(\d{2})-(\d{2})(?:T(\d{2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?(?:Z|[+-](\d{2}):?(\d{2}))?)?$/;
+
+/**
+ * Converts a date matcher input to a Date, throwing for values that do not represent a valid date
+ */
+export type DateParser = (value: unknown, paramName: string) => Date;
+
+/**
+ * Creates a parser for the inputs of a date matcher
+ * @param options - Matcher options; `strictParsing` defaults to the value from `configureExpectlyDates()`
+ * @returns Parser that throws `Invalid <paramName>: <value>` for values that are not valid dates
+ */
+export function createDateParser(options?: DateParseOptions): DateParser {
+	const strictParsing = options?.strictParsing ?? getExpectlyDateConfig().strictParsing ?? false;
+
+	return (value, paramName) => {
+		const date = toDate(value, strictParsing);
+		if (date === undefined || Number.isNaN(date.getTime())) {
+			const hint =
+				strictParsing && typeof value === "string"
+					? ' (strictParsing only accepts ISO 8601 strings such as "2026-03-01T10:00:00Z")'
+					: "";
+			throw new Error(
+				`Invalid ${paramName}: ${typeof value === "string" ? JSON.stringify(value) : String(value)}${hint}`,
+			);
+		}
+		return date;
+	};
+}
+
+/**
+ * Checks if a value has the shape of a Temporal `Instant` or `ZonedDateTime`
+ * @param value - Value to check
+ * @returns True if the value has numeric `epochMilliseconds`
+ */
+export function isEpochMillisecondsObject(value: unknown): value is { epochMilliseconds: number } {
+	return (
+		typeof value === "object" &&
+		value !== null &&
+		typeof (value as { epochMilliseconds?: unknown }).epochMilliseconds === "number"
+	);
+}
+
+function toDate(value: unknown, strictParsing: boolean): Date | undefined {
+	if (value instanceof Date) {
+		return value;
+	}
+	if (typeof value === "number") {
+		return Number.isFinite(value) ? new Date(value) : undefined;
+	}
+	if (typeof value === "string") {
+		return strictParsing && !isStrictIsoDateString(value) ? undefined : new Date(value);
+	}
+	if (isEpochMillisecondsObject(value)) {
+		return toDate(value.epochMilliseconds, strictParsing);
+	}
+	return undefined;
+}
+
+/**
+ * `Date` rolls invalid days over (2023-02-30 becomes March 2) and accepts many non-ISO formats such as
+ * "03/01/2026", whose meaning depends on the engine. Strict parsing only accepts ISO 8601 with valid fields.
+ */
+function isStrictIsoDateString(value: string): boolean {
+	const match = ISO_8601_DATE_TIME.exec(value);
+	if (match === null) {
+		return false;
+	}
+
+	const [, year, month, day, hours = "0", minutes = "0", seconds = "0", offsetHours = "0", offsetMinutes = "0"] = match;
+	const monthNumber = Number(month);
+
+	return (
+		monthNumber >= 1 &&
+		monthNumber <= 12 &&
+		Number(day) >= 1 &&
+		Number(day) <= getDaysInMonth(Number(year), monthNumber - 1) &&
+		Number(hours) <= 23 &&
+		Number(minutes) <= 59 &&
+		Number(seconds) <= 59 &&
+		Number(offsetHours) <= 23 &&
+		Number(offsetMinutes) <= 59
+	);
+}
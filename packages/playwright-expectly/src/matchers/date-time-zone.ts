@@ -0,0 +1,235 @@
+/**
+ * Calendar fields of dates in the process's local time or in an IANA time zone, computed with `Intl.DateTimeFormat`
+ */
+
+/**
+ * Calendar fields of an instant in a time zone
+ */
+export type CalendarDate = {
+	year: number;
+	/** 0 (January) - 11 (December), like `Date#getMonth()` */
+	month: number;
+	day: number;
+	/** 0 (Sunday) - 6 (Saturday), like `Date#getDay()` */
+	weekday: number;
+};
+
+/**
+ * Wall-clock date and time of an instant in a time zone
+ */
+export type WallClockTime = {
+	year: number;
+	/** 0 (January) - 11 (December) */
+	month: number;
+	day: number;
+	hour: number;
+	minute: number;
+	second: number;
+	millisecond: number;
+};
+
+const WEEKDAY_INDEXES: Record<string, number> = { Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6 };
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+	let formatter = formatters.get(timeZone);
+	if (formatter === undefined) {
+		formatter = new Intl.DateTimeFormat("en-US", {
+			timeZone,
+			year: "numeric",
+			month: "numeric",
+			day: "numeric",
+			weekday: "short",
+		});
+		formatters.set(timeZone, formatter);
+	}
+	return formatter;
+}
+
+/**
+ * Checks if a time zone is known to `Intl.DateTimeFormat`, e.g. "Europe/Amsterdam" or "UTC"
+ * @param timeZone - IANA time zone name
+ * @returns True if the time zone can be used
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+	try {
+		getFormatter(timeZone);
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Gets the calendar fields of a date
+ * @param date - Date to read
+ * @param timeZone - IANA time zone, or undefined for the process's local time
+ * @returns Year, month, day and weekday
+ */
+export function getCalendarDate(date: Date, timeZone: string | undefined): CalendarDate {
+	if (timeZone === undefined) {
+		return { year: date.getFullYear(), month: date.getMonth(), day: date.getDate(), weekday: date.getDay() };
+	}
+
+	const fields: Partial<Record<Intl.DateTimeFormatPartTypes, string>> = {};
+	for (const part of getFormatter(timeZone).formatToParts(date)) {
+		fields[part.type] = part.value;
+	}
+
+	return {
+		year: Number(fields.year),
+		month: Number(fields.month) - 1,
+		day: Number(fields.day),
+		weekday: WEEKDAY_INDEXES[fields.weekday ?? ""],
+	};
+}
+
+/**
+ * Moves a calendar date by whole days, months or years. Overflowing days roll over like `Date` does,
+ * e.g. January 31 plus one month is March 2 or 3.
+ * @param date - Calendar date to move
+ * @param shift - Days, months and years to add (negative values subtract)
+ * @returns The shifted calendar date
+ */
+export function shiftCalendarDate(
+	date: CalendarDate,
+	shift: { days?: number; months?: number; years?: number },
+): CalendarDate {
+	const shifted = new Date(0);
+	shifted.setUTCFullYear(
+		date.year + (shift.years ?? 0),
+		date.month + (shift.months ?? 0),
+		date.day + (shift.days ?? 0),
+	);
+
+	return {
+		year: shifted.getUTCFullYear(),
+		month: shifted.getUTCMonth(),
+		day: shifted.getUTCDate(),
+		weekday: shifted.getUTCDay(),
+	};
+}
+
+/**
+ * Checks if two calendar dates are the same day
+ * @param left - First calendar date
+ * @param right - Second calendar date
+ * @returns True if year, month and day are equal
+ */
+export function isSameCalendarDay(left: CalendarDate, right: CalendarDate): boolean {
+	return left.year === right.year && left.month === right.month && left.day === right.day;
+}
+
+/**
+ * Gets the number of days in a month
+ * @param year - Full year
+ * @param month - 0 (January) - 11 (December)
+ * @returns 28 - 31
+ */
+export function getDaysInMonth(year: number, month: number): number {
+	return shiftCalendarDate({ year, month: month + 1, day: 0, weekday: 0 }, {}).day;
+}
+
+/**
+ * Formats a calendar date as YYYY-MM-DD
+ * @param date - Calendar date to format
+ * @returns ISO 8601 calendar date
+ */
+export function formatCalendarDate(date: CalendarDate): string {
+	return `${String(date.year).padStart(4, "0")}-${String(date.month + 1).padStart(2, "0")}-${String(date.day).padStart(2, "0")}`;
+}
+
+const offsetFormatters = new Map<string, Intl.DateTimeFormat>();
+
+function getOffsetFormatter(timeZone: string): Intl.DateTimeFormat {
+	let formatter = offsetFormatters.get(timeZone);
+	if (formatter === undefined) {
+		formatter = new Intl.DateTimeFormat("en-US", {
+			timeZone,
+			hourCycle: "h23",
+			year: "numeric",
+			month: "numeric",
+			day: "numeric",
+			hour: "numeric",
+			minute: "numeric",
+			second: "numeric",
+		});
+		offsetFormatters.set(timeZone, formatter);
+	}
+	return formatter;
+}
+
+/**
+ * Gets the offset of a time zone from UTC at an instant
+ * @param date - Instant to read the offset at
+ * @param timeZone - IANA time zone
+ * @returns Offset in milliseconds, e.g. 3600000 for UTC+1
+ */
+export function getTimeZoneOffset(date: Date, timeZone: string): number {
+	const fields: Partial<Record<Intl.DateTimeFormatPartTypes, string>> = {};
+	for (const part of getOffsetFormatter(timeZone).formatToParts(date)) {
+		fields[part.type] = part.value;
+	}
+
+	const wallClock = new Date(0);
+	wallClock.setUTCFullYear(Number(fields.year), Number(fields.month) - 1, Number(fields.day));
+	wallClock.setUTCHours(Number(fields.hour), Number(fields.minute), Number(fields.second));
+	return wallClock.getTime() - (date.getTime() - date.getUTCMilliseconds());
+}
+
+/**
+ * Gets the wall-clock date and time of an instant
+ * @param date - Instant to read
+ * @param timeZone - IANA time zone, or undefined for the process's local time
+ * @returns Wall-clock fields
+ */
+export function getWallClockTime(date: Date, timeZone: string | undefined): WallClockTime {
+	if (timeZone === undefined) {
+		return {
+			year: date.getFullYear(),
+			month: date.getMonth(),
+			day: date.getDate(),
+			hour: date.getHours(),
+			minute: date.getMinutes(),
+			second: date.getSeconds(),
+			millisecond: date.getMilliseconds(),
+		};
+	}
+
+	const wallClock = new Date(date.getTime() + getTimeZoneOffset(date, timeZone));
+	return {
+		year: wallClock.getUTCFullYear(),
+		month: wallClock.getUTCMonth(),
+		day: wallClock.getUTCDate(),
+		hour: wallClock.getUTCHours(),
+		minute: wallClock.getUTCMinutes(),
+		second: wallClock.getUTCSeconds(),
+		millisecond: wallClock.getUTCMilliseconds(),
+	};
+}
+
+/**
+ * Converts a wall-clock date and time to an instant. Times skipped by a DST change are moved forward.
+ * @param time - Wall-clock fields
+ * @param timeZone - IANA time zone, or undefined for the process's local time
+ * @returns The instant
+ */
+export function fromWallClockTime(time: WallClockTime, timeZone: string | undefined): Date {
+	const date = new Date(0);
+
+	if (timeZone === undefined) {
+		date.setFullYear(time.year, time.month, time.day);
+		date.setHours(time.hour, time.minute, time.second, time.millisecond);
+		return date;
+	}
+
+	date.setUTCFullYear(time.year, time.month, time.day);
+	date.setUTCHours(time.hour, time.minute, time.second, time.millisecond);
+	const wallClockTime = date.getTime();
+
+	// The offset at the wall-clock time as UTC can differ from the offset at the instant near DST changes
+	const offset = getTimeZoneOffset(date, timeZone);
+	const correctedOffset = getTimeZoneOffset(new Date(wallClockTime - offset), timeZone);
+	return new Date(wallClockTime - correctedOffset);
+}
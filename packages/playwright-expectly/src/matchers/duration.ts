@@ -0,0 +1,164 @@
+/**
+ * Durations as ISO 8601 strings ("PT1H30M"), human strings ("1h 30m") or `DateDeviationOptions` objects.
+ * Durations are exact: a day is 24 hours.
+ */
+
+import type { DateDeviationOptions } from "../types/matcher-types";
+
+import { formatCalendarDuration } from "./date-arithmetic";
+
+const MS_PER_SECOND = 1000;
+const MS_PER_MINUTE = 60 * MS_PER_SECOND;
+const MS_PER_HOUR = 60 * MS_PER_MINUTE;
+const MS_PER_DAY = 24 * MS_PER_HOUR;
+
+const NUMBER = String.raw`\d+(?:[.,]\d+)?`;
+const ISO_DURATION = new RegExp(
+	`^P(?!$)(?:(${NUMBER})Y)?(?:(${NUMBER})M)?(?:(${NUMBER})W)?(?:(${NUMBER})D)?` +
+		`(?:T(?=\\d)(?:(${NUMBER})H)?(?:(${NUMBER})M)?(?:(${NUMBER})S)?)?$`,
+);
+
+const HUMAN_DURATION_PART = /(\d+(?:\.\d+)?)\s*([a-z]+)/y;
+const HUMAN_DURATION_SEPARATOR = /(?:\s*,\s*|\s+and\s+|\s*)/y;
+
+/** Milliseconds of the units of human durations */
+const HUMAN_UNITS: Record<string, number> = {
+	w: 7 * MS_PER_DAY,
+	wk: 7 * MS_PER_DAY,
+	week: 7 * MS_PER_DAY,
+	weeks: 7 * MS_PER_DAY,
+	d: MS_PER_DAY,
+	day: MS_PER_DAY,
+	days: MS_PER_DAY,
+	h: MS_PER_HOUR,
+	hr: MS_PER_HOUR,
+	hrs: MS_PER_HOUR,
+	hour: MS_PER_HOUR,
+	hours: MS_PER_HOUR,
+	m: MS_PER_MINUTE,
+	min: MS_PER_MINUTE,
+	mins: MS_PER_MINUTE,
+	minute: MS_PER_MINUTE,
+	minutes: MS_PER_MINUTE,
+	s: MS_PER_SECOND,
+	sec: MS_PER_SECOND,
+	secs: MS_PER_SECOND,
+	second: MS_PER_SECOND,
+	seconds: MS_PER_SECOND,
+	ms: 1,
+};
+
+/**
+ * Checks if a string is an ISO 8601 duration such as "PT1H30M", "P3D", "P1W" or "P1Y2M10DT2H30M".
+ * Only the smallest unit may have a fraction.
+ * @param value - String to check
+ * @returns True for ISO 8601 durations
+ */
+export function isValidISODuration(value: string): boolean {
+	const match = ISO_DURATION.exec(value);
+	if (match === null) {
+		return false;
+	}
+	const values = match.slice(1).filter((part) => part !== undefined);
+	return values.slice(0, -1).every((part) => !/[.,]/.test(part));
+}
+
+function parseISODuration(value: string): DateDeviationOptions | string {
+	const match = ISO_DURATION.exec(value);
+	if (match === null || !isValidISODuration(value)) {
+		return "not an ISO 8601 or human duration";
+	}
+
+	const [years, months, weeks, days, hours, minutes, seconds] = match
+		.slice(1)
+		.map((part) => (part === undefined ? 0 : Number(part.replace(",", "."))));
+	if (years !== 0 || months !== 0) {
+		return "years and months have no fixed length";
+	}
+	return { days: weeks * 7 + days, hours, minutes, seconds };
+}
+
+function parseHumanDuration(value: string): DateDeviationOptions | string {
+	const text = value.trim().toLowerCase();
+	let milliseconds = 0;
+	let index = 0;
+
+	while (index < text.length) {
+		HUMAN_DURATION_SEPARATOR.lastIndex = index;
+		HUMAN_DURATION_SEPARATOR.exec(text);
+		HUMAN_DURATION_PART.lastIndex = HUMAN_DURATION_SEPARATOR.lastIndex;
+		const match = HUMAN_DURATION_PART.exec(text);
+		const unit = match === null ? undefined : HUMAN_UNITS[match[2]];
+		if (match === null || unit === undefined) {
+			return "not an ISO 8601 or human duration";
+		}
+		milliseconds += Number(match[1]) * unit;
+		index = HUMAN_DURATION_PART.lastIndex;
+	}
+	return index === 0 ? "not an ISO 8601 or human duration" : { seconds: milliseconds / MS_PER_SECOND };
+}
+
+function validateDurationObject(value: object): string | undefined {
+	const units = ["days", "hours", "minutes", "seconds"];
+	for (const [unit, amount] of Object.entries(value)) {
+		if (!units.includes(unit)) {
+			return `unknown unit "${unit}", expected days, hours, minutes or seconds`;
+		}
+		if (amount !== undefined && (typeof amount !== "number" || !Number.isFinite(amount) || amount < 0)) {
+			return `${unit} must be a non-negative number`;
+		}
+	}
+	return undefined;
+}
+
+/**
+ * Parses a duration: an ISO 8601 string without years and months, a human string such as "1h 30m",
+ * "90 minutes" or "2 days, 4 hours", or a `{ days, hours, minutes, seconds }` object
+ * @param value - Duration to parse
+ * @param paramName - Name of the value for error messages
+ * @returns The duration
+ * @throws Error if the value is not a duration
+ */
+export function parseDuration(value: unknown, paramName: string): DateDeviationOptions {
+	let result: DateDeviationOptions | string;
+	if (typeof value === "string") {
+		result = value.trim().startsWith("P") ? parseISODuration(value.trim()) : parseHumanDuration(value);
+	} else if (typeof value === "object" && value !== null && !Array.isArray(value)) {
+		result = validateDurationObject(value) ?? value;
+	} else {
+		result = "expected a string or a { days, hours, minutes, seconds } object";
+	}
+
+	if (typeof result === "string") {
+		throw new Error(`Invalid ${paramName}: ${JSON.stringify(value)}, ${result}`);
+	}
+	return result;
+}
+
+/**
+ * Converts a duration to milliseconds, with days of 24 hours
+ * @param duration - Duration to convert
+ * @returns The duration in milliseconds
+ */
+export function getDurationMilliseconds(duration: DateDeviationOptions): number {
+	return (
+		(duration.days ?? 0) * MS_PER_DAY +
+		(duration.hours ?? 0) * MS_PER_HOUR +
+		(duration.minutes ?? 0) * MS_PER_MINUTE +
+		(duration.seconds ?? 0) * MS_PER_SECOND
+	);
+}
+
+/**
+ * Formats milliseconds as a duration, e.g. "1d 2h 30m 1.5s"
+ * @param milliseconds - Non-negative milliseconds
+ * @returns The formatted duration
+ */
+export function formatDurationMilliseconds(milliseconds: number): string {
+	return formatCalendarDuration({
+		days: Math.floor(milliseconds / MS_PER_DAY),
+		hours: Math.floor((milliseconds % MS_PER_DAY) / MS_PER_HOUR),
+		minutes: Math.floor((milliseconds % MS_PER_HOUR) / MS_PER_MINUTE),
+		seconds: Math.round(milliseconds % MS_PER_MINUTE) / MS_PER_SECOND,
+	});
+}
@@ -0,0 +1,468 @@
+/**
+ * JSON Schema (draft 2020-12) validation for toMatchJsonSchema
+ */
+
+import type { JsonSchema, JsonSchemaObject, JsonSchemaType } from "../types/matcher-types";
+
+import { isValidEmail, isValidUrl, isValidUUID } from "./text-validation-utils";
+
+export interface JsonSchemaViolation {
+	/** JSON pointer to the failing value, "" for the root */
+	pointer: string;
+	keyword: string;
+	message: string;
+}
+
+interface ValidationContext {
+	root: JsonSchema;
+}
+
+type KeywordValidator = (
+	value: unknown,
+	schema: JsonSchemaObject,
+	pointer: string,
+	context: ValidationContext,
+) => JsonSchemaViolation[];
+
+const FORMAT_VALIDATORS: Record<string, (text: string) => boolean> = {
+	"date-time": (text) =>
+		/^\d{4}-\d{2}-\d{2}[Tt ]\d{2}:\d{2}:\d{2}(\.\d+)?([Zz]|[+-]\d{2}:\d{2})$/.test(text) &&
+		!Number.isNaN(Date.parse(text)),
+	date: isValidFullDate,
+	time: (text) => /^([01]\d|2[0-3]):[0-5]\d:([0-5]\d|60)(\.\d+)?([Zz]|[+-]\d{2}:\d{2})$/.test(text),
+	email: isValidEmail,
+	uri: (text) => /^[a-z][a-z\d+.-]*:/i.test(text) && isValidUrl(text),
+	uuid: (text) => isValidUUID(text),
+	ipv4: (text) => /^((25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)\.){3}(25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)$/.test(text),
+	ipv6: (text) => text.includes(":") && isValidUrl(`http://[${text}]`),
+	hostname: (text) => text.length <= 253 && /^(?!-)[a-z\d-]{1,63}(?<!-)(\.(?!-)[a-z\d-]{1,63}(?<!-))*$/i.test(text),
+};
+
+/**
+ * Checks a "YYYY-MM-DD" date; rolled-over dates such as "2023-02-29" and out-of-range ones such as "2024-13-01" are invalid
+ */
+function isValidFullDate(text: string): boolean {
+	if (!/^\d{4}-\d{2}-\d{2}$/.test(text)) {
+		return false;
+	}
+	const date = new Date(`${text}T00:00:00Z`);
+	return !Number.isNaN(date.getTime()) && date.toISOString().startsWith(text);
+}
+
+function isJsonObject(value: unknown): value is Record<string, unknown> {
+	return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+function describeJsonType(value: unknown): string {
+	if (value === null) {
+		return "null";
+	}
+	if (Array.isArray(value)) {
+		return "array";
+	}
+	if (typeof value === "number" && Number.isInteger(value)) {
+		return "integer";
+	}
+	return typeof value;
+}
+
+function matchesType(value: unknown, type: JsonSchemaType): boolean {
+	switch (type) {
+		case "null":
+			return value === null;
+		case "array":
+			return Array.isArray(value);
+		case "object":
+			return isJsonObject(value);
+		case "integer":
+			return typeof value === "number" && Number.isInteger(value);
+		case "number":
+			return typeof value === "number" && Number.isFinite(value);
+		default:
+			return typeof value === type;
+	}
+}
+
+function isJsonEqual(left: unknown, right: unknown): boolean {
+	if (Array.isArray(left) && Array.isArray(right)) {
+		return left.length === right.length && left.every((item, index) => isJsonEqual(item, right[index]));
+	}
+	if (isJsonObject(left) && isJsonObject(right)) {
+		const leftKeys = Object.keys(left);
+		return (
+			leftKeys.length === Object.keys(right).length &&
+			leftKeys.every((key) => key in right && isJsonEqual(left[key], right[key]))
+		);
+	}
+	return left === right;
+}
+
+function formatJsonValue(value: unknown): string {
+	return value === undefined ? "undefined" : JSON.stringify(value);
+}
+
+function escapePointerSegment(segment: string | number): string {
+	return String(segment).replace(/~/g, "~0").replace(/\//g, "~1");
+}
+
+function childPointer(pointer: string, segment: string | number): string {
+	return `${pointer}/${escapePointerSegment(segment)}`;
+}
+
+/**
+ * Formats a JSON pointer for failure messages, showing the root as "/"
+ */
+export function formatJsonPointer(pointer: string): string {
+	return pointer === "" ? "/" : pointer;
+}
+
+function resolveRef(ref: string, root: JsonSchema): JsonSchema {
+	if (!ref.startsWith("#")) {
+		throw new Error(`toMatchJsonSchema: only local $ref values are supported, received "${ref}"`);
+	}
+
+	const segments = ref === "#" || ref === "#/" ? [] : ref.slice(2).split("/");
+	let current: unknown = root;
+	for (const segment of segments) {
+		const key = decodeURIComponent(segment).replace(/~1/g, "/").replace(/~0/g, "~");
+		if (current === null || typeof current !== "object" || !(key in current)) {
+			throw new Error(`toMatchJsonSchema: cannot resolve $ref "${ref}"`);
+		}
+		current = Reflect.get(current, key);
+	}
+
+	if (typeof current !== "boolean" && !isJsonObject(current)) {
+		throw new Error(`toMatchJsonSchema: $ref "${ref}" does not point to a schema`);
+	}
+	return current;
+}
+
+const validateRef: KeywordValidator = (value, schema, pointer, context) =>
+	schema.$ref === undefined ? [] : validateNode(value, resolveRef(schema.$ref, context.root), pointer, context);
+
+const validateTypeKeywords: KeywordValidator = (value, schema, pointer) => {
+	const violations: JsonSchemaViolation[] = [];
+
+	if (schema.type !== undefined) {
+		const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+		if (!types.some((type) => matchesType(value, type))) {
+			violations.push({
+				pointer,
+				keyword: "type",
+				message: `Expected type ${types.map((type) => `"${type}"`).join(" or ")}, received ${describeJsonType(value)}`,
+			});
+		}
+	}
+
+	if (schema.enum !== undefined && !schema.enum.some((option) => isJsonEqual(value, option))) {
+		violations.push({
+			pointer,
+			keyword: "enum",
+			message: `Expected one of ${schema.enum.map((option) => formatJsonValue(option)).join(", ")}, received ${formatJsonValue(value)}`,
+		});
+	}
+
+	if ("const" in schema && !isJsonEqual(value, schema.const)) {
+		violations.push({
+			pointer,
+			keyword: "const",
+			message: `Expected ${formatJsonValue(schema.const)}, received ${formatJsonValue(value)}`,
+		});
+	}
+
+	return violations;
+};
+
+const validateStringKeywords: KeywordValidator = (value, schema, pointer) => {
+	if (typeof value !== "string") {
+		return [];
+	}
+
+	const violations: JsonSchemaViolation[] = [];
+	const length = Array.from(value).length;
+
+	if (schema.minLength !== undefined && length < schema.minLength) {
+		violations.push({
+			pointer,
+			keyword: "minLength",
+			message: `Expected at least ${schema.minLength} characters, received ${length}`,
+		});
+	}
+	if (schema.maxLength !== undefined && length > schema.maxLength) {
+		violations.push({
+			pointer,
+			keyword: "maxLength",
+			message: `Expected at most ${schema.maxLength} characters, received ${length}`,
+		});
+	}
+	if (schema.pattern !== undefined && !new RegExp(schema.pattern, "u").test(value)) {
+		violations.push({
+			pointer,
+			keyword: "pattern",
+			message: `Expected string to match /${schema.pattern}/, received ${formatJsonValue(value)}`,
+		});
+	}
+
+	const isValidFormat = schema.format === undefined ? undefined : FORMAT_VALIDATORS[schema.format];
+	if (isValidFormat !== undefined && !isValidFormat(value)) {
+		violations.push({
+			pointer,
+			keyword: "format",
+			message: `Expected format "${schema.format}", received ${formatJsonValue(value)}`,
+		});
+	}
+
+	return violations;
+};
+
+const NUMBER_BOUNDS = [
+	{ keyword: "minimum", operator: ">=", isWithin: (value: number, limit: number): boolean => value >= limit },
+	{ keyword: "maximum", operator: "<=", isWithin: (value: number, limit: number): boolean => value <= limit },
+	{ keyword: "exclusiveMinimum", operator: ">", isWithin: (value: number, limit: number): boolean => value > limit },
+	{ keyword: "exclusiveMaximum", operator: "<", isWithin: (value: number, limit: number): boolean => value < limit },
+] as const;
+
+const validateNumberKeywords: KeywordValidator = (value, schema, pointer) => {
+	if (typeof value !== "number") {
+		return [];
+	}
+
+	const violations: JsonSchemaViolation[] = [];
+
+	for (const { keyword, operator, isWithin } of NUMBER_BOUNDS) {
+		const limit = schema[keyword];
+		if (limit !== undefined && !isWithin(value, limit)) {
+			violations.push({ pointer, keyword, message: `Expected number ${operator} ${limit}, received ${value}` });
+		}
+	}
+
+	if (schema.multipleOf !== undefined && !isMultipleOf(value, schema.multipleOf)) {
+		violations.push({
+			pointer,
+			keyword: "multipleOf",
+			message: `Expected a multiple of ${schema.multipleOf}, received ${value}`,
+		});
+	}
+
+	return violations;
+};
+
+/**
+ * Decimal steps are not exact in floating point, e.g. 19.99 / 0.01 is 1998.9999999999998,
+ * so the quotient may differ from a whole number by a few units in the last place
+ */
+function isMultipleOf(value: number, step: number): boolean {
+	const quotient = value / step;
+	return Math.abs(quotient - Math.round(quotient)) <= 4 * Number.EPSILON * Math.max(1, Math.abs(quotient));
+}
+
+function validatePropertyCounts(keys: string[], schema: JsonSchemaObject, pointer: string): JsonSchemaViolation[] {
+	const violations: JsonSchemaViolation[] = [];
+
+	for (const property of schema.required ?? []) {
+		if (!keys.includes(property)) {
+			violations.push({ pointer, keyword: "required", message: `Missing required property "${property}"` });
+		}
+	}
+
+	if (schema.minProperties !== undefined && keys.length < schema.minProperties) {
+		violations.push({
+			pointer,
+			keyword: "minProperties",
+			message: `Expected at least ${schema.minProperties} properties, received ${keys.length}`,
+		});
+	}
+	if (schema.maxProperties !== undefined && keys.length > schema.maxProperties) {
+		violations.push({
+			pointer,
+			keyword: "maxProperties",
+			message: `Expected at most ${schema.maxProperties} properties, received ${keys.length}`,
+		});
+	}
+
+	return violations;
+}
+
+/**
+ * Validates one property against `properties`, matching `patternProperties` and `additionalProperties`
+ */
+function validateProperty(
+	key: string,
+	propertyValue: unknown,
+	schema: JsonSchemaObject,
+	pointer: string,
+	context: ValidationContext,
+): JsonSchemaViolation[] {
+	const propertyPointer = childPointer(pointer, key);
+	const propertySchema = schema.properties?.[key];
+	const patternSchemas = Object.entries(schema.patternProperties ?? {})
+		.filter(([pattern]) => new RegExp(pattern, "u").test(key))
+		.map(([, patternSchema]) => patternSchema);
+
+	const appliedSchemas = propertySchema === undefined ? patternSchemas : [propertySchema, ...patternSchemas];
+	if (appliedSchemas.length === 0 && schema.additionalProperties !== undefined) {
+		if (schema.additionalProperties === false) {
+			return [{ pointer: propertyPointer, keyword: "additionalProperties", message: `Unexpected property "${key}"` }];
+		}
+		appliedSchemas.push(schema.additionalProperties);
+	}
+
+	return appliedSchemas.flatMap((appliedSchema) =>
+		validateNode(propertyValue, appliedSchema, propertyPointer, context),
+	);
+}
+
+const validateObjectKeywords: KeywordValidator = (value, schema, pointer, context) => {
+	if (!isJsonObject(value)) {
+		return [];
+	}
+
+	const keys = Object.keys(value);
+	return [
+		...validatePropertyCounts(keys, schema, pointer),
+		...keys.flatMap((key) => validateProperty(key, value[key], schema, pointer, context)),
+	];
+};
+
+const validateArrayKeywords: KeywordValidator = (value, schema, pointer, context) => {
+	if (!Array.isArray(value)) {
+		return [];
+	}
+
+	const violations: JsonSchemaViolation[] = [];
+
+	if (schema.minItems !== undefined && value.length < schema.minItems) {
+		violations.push({
+			pointer,
+			keyword: "minItems",
+			message: `Expected at least ${schema.minItems} items, received ${value.length}`,
+		});
+	}
+	if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+		violations.push({
+			pointer,
+			keyword: "maxItems",
+			message: `Expected at most ${schema.maxItems} items, received ${value.length}`,
+		});
+	}
+
+	if (schema.uniqueItems === true) {
+		const duplicateIndex = value.findIndex((item, index) =>
+			value.slice(0, index).some((previous) => isJsonEqual(previous, item)),
+		);
+		if (duplicateIndex !== -1) {
+			violations.push({
+				pointer: childPointer(pointer, duplicateIndex),
+				keyword: "uniqueItems",
+				message: `Expected unique items, but ${formatJsonValue(value[duplicateIndex])} occurs more than once`,
+			});
+		}
+	}
+
+	const prefixItems = schema.prefixItems ?? [];
+	value.forEach((item, index) => {
+		const itemSchema = index < prefixItems.length ? prefixItems[index] : schema.items;
+		if (itemSchema !== undefined) {
+			violations.push(...validateNode(item, itemSchema, childPointer(pointer, index), context));
+		}
+	});
+
+	return violations;
+};
+
+const validateCombinatorKeywords: KeywordValidator = (value, schema, pointer, context) => {
+	const violations: JsonSchemaViolation[] = [];
+
+	for (const subschema of schema.allOf ?? []) {
+		violations.push(...validateNode(value, subschema, pointer, context));
+	}
+
+	if (schema.anyOf !== undefined) {
+		const results = schema.anyOf.map((subschema) => validateNode(value, subschema, pointer, context));
+		if (!results.some((result) => result.length === 0)) {
+			violations.push({
+				pointer,
+				keyword: "anyOf",
+				message: `Expected value to match at least one schema in anyOf${describeClosestBranch("anyOf", results)}`,
+			});
+		}
+	}
+
+	if (schema.oneOf !== undefined) {
+		const results = schema.oneOf.map((subschema) => validateNode(value, subschema, pointer, context));
+		const matching = results.flatMap((result, index) => (result.length === 0 ? [`oneOf[${index}]`] : []));
+		if (matching.length !== 1) {
+			violations.push({
+				pointer,
+				keyword: "oneOf",
+				message:
+					matching.length === 0
+						? `Expected value to match exactly one schema in oneOf${describeClosestBranch("oneOf", results)}`
+						: `Expected value to match exactly one schema in oneOf, but it matched ${matching.join(", ")}`,
+			});
+		}
+	}
+
+	if (schema.not !== undefined && validateNode(value, schema.not, pointer, context).length === 0) {
+		violations.push({
+			pointer,
+			keyword: "not",
+			message: "Expected value to not match the schema in not",
+		});
+	}
+
+	return violations;
+};
+
+/**
+ * Describes the branch with the fewest violations so anyOf/oneOf failures point at the likely intended schema
+ */
+function describeClosestBranch(keyword: string, results: JsonSchemaViolation[][]): string {
+	if (results.length === 0) {
+		return "";
+	}
+
+	const closestIndex = results.reduce(
+		(bestIndex, result, index) => (result.length < results[bestIndex].length ? index : bestIndex),
+		0,
+	);
+	const [first] = results[closestIndex];
+	return ` (closest: ${keyword}[${closestIndex}] failed at ${formatJsonPointer(first.pointer)}: ${first.message})`;
+}
+
+const KEYWORD_VALIDATORS: KeywordValidator[] = [
+	validateRef,
+	validateTypeKeywords,
+	validateStringKeywords,
+	validateNumberKeywords,
+	validateObjectKeywords,
+	validateArrayKeywords,
+	validateCombinatorKeywords,
+];
+
+function validateNode(
+	value: unknown,
+	schema: JsonSchema,
+	pointer: string,
+	context: ValidationContext,
+): JsonSchemaViolation[] {
+	if (schema === true) {
+		return [];
+	}
+	if (schema === false) {
+		return [{ pointer, keyword: "false", message: "Expected no value (schema is false)" }];
+	}
+
+	return KEYWORD_VALIDATORS.flatMap((validate) => validate(value, schema, pointer, context));
+}
+
+/**
+ * Validates a value against a JSON Schema
+ * @param value - Value to validate
+ * @param schema - Draft 2020-12 schema; `$ref` must point into the schema itself
+ * @returns Every violation that was found
+ * @throws Error if a `$ref` cannot be resolved
+ */
+export function validateJsonSchema(value: unknown, schema: JsonSchema): JsonSchemaViolation[] {
+	return validateNode(value, schema, "", { root: schema });
+}
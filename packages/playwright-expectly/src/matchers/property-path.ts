@@ -0,0 +1,98 @@
+/**
+ * Property path helpers for matchers that read values from objects
+ */
+
+const PATH_SEGMENT = /^(?:\.?([^.[\]]+)|\[(\d+)\]|\[(["'])(.*?)\3\])/;
+const PATH_PATTERN_SEGMENT = /^(?:\.?([^.[\]]+)|\[(\d+|\*)\]|\[(["'])(.*?)\3\])/;
+
+export type PropertyPathLookup = { found: true; value: unknown } | { found: false; missingKey: string };
+
+/**
+ * Splits a dot/bracket property path into keys
+ * @param path - Path such as "user.address.city", "items[0].name" or 'headers["content-type"]'
+ * @returns Keys in order
+ * @throws Error if the path is empty or malformed
+ */
+export function parsePropertyPath(path: string): string[] {
+	const keys: string[] = [];
+	let rest = path;
+
+	while (rest !== "") {
+		const match = PATH_SEGMENT.exec(rest);
+		if (!match || (keys.length === 0 && rest.startsWith("."))) {
+			throw new Error(`Invalid property path: "${path}"`);
+		}
+		keys.push(match[1] ?? match[2] ?? match[4]);
+		rest = rest.slice(match[0].length);
+	}
+
+	if (keys.length === 0) {
+		throw new Error(`Invalid property path: "${path}"`);
+	}
+
+	return keys;
+}
+
+/**
+ * Reads the value at a property path, following own properties only
+ * @param target - Object to read from
+ * @param keys - Keys returned by parsePropertyPath
+ * @returns The value, or the first key that was not found
+ */
+export function getValueAtPath(target: unknown, keys: string[]): PropertyPathLookup {
+	let current = target;
+
+	for (const key of keys) {
+		if (current === null || typeof current !== "object" || !Object.prototype.hasOwnProperty.call(current, key)) {
+			return { found: false, missingKey: key };
+		}
+		current = Reflect.get(current, key);
+	}
+
+	return { found: true, value: current };
+}
+
+const ANY_KEY_SOURCE = "\\.[^.[\\]]+";
+const ANY_DEPTH_SOURCE = "(?:\\.[^.[\\]]+|\\[\\d+\\])*";
+
+function escapeRegExp(value: string): string {
+	return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Compiles a path pattern into a RegExp matching the `$.items[0].price` paths used by toEqualPartially
+ * @param pattern - Path such as "items[*].price", "**.requestId" or "$.user.email"; `[*]` matches any index,
+ * `*` any key and `**` any number of keys and indexes. `"$"` is the root
+ * @returns RegExp matching the full path
+ * @throws Error if the pattern is empty or malformed
+ */
+export function compilePathPattern(pattern: string): RegExp {
+	if (pattern === "$") {
+		return /^\$$/;
+	}
+
+	let rest = pattern.replace(/^\$(?=[.[]|$)\.?/, "");
+	let source = "";
+
+	while (rest !== "") {
+		const match = PATH_PATTERN_SEGMENT.exec(rest);
+		if (!match || (source === "" && rest.startsWith("."))) {
+			throw new Error(`Invalid path pattern: "${pattern}"`);
+		}
+
+		if (match[2] !== undefined) {
+			source += match[2] === "*" ? "\\[\\d+\\]" : `\\[${match[2]}\\]`;
+		} else if (match[1] === "*" || match[1] === "**") {
+			source += match[1] === "*" ? ANY_KEY_SOURCE : ANY_DEPTH_SOURCE;
+		} else {
+			source += `\\.${escapeRegExp(match[1] ?? match[4])}`;
+		}
+		rest = rest.slice(match[0].length);
+	}
+
+	if (source === "") {
+		throw new Error(`Invalid path pattern: "${pattern}"`);
+	}
+
+	return new RegExp(`^\\$${source}$`);
+}
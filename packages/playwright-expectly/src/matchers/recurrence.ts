@@ -0,0 +1,305 @@
+/**
+ * Occurrences of RFC 5545 recurrence rules, limited to FREQ (DAILY, WEEKLY, MONTHLY, YEARLY), INTERVAL, BYDAY,
+ * BYMONTHDAY, COUNT and UNTIL. Weeks start on Monday.
+ */
+
+import {
+	formatCalendarDate,
+	fromWallClockTime,
+	getCalendarDate,
+	getDaysInMonth,
+	getWallClockTime,
+	shiftCalendarDate,
+} from "./date-time-zone";
+import type { CalendarDate, WallClockTime } from "./date-time-zone";
+
+export type RecurrenceFrequency = "DAILY" | "WEEKLY" | "MONTHLY" | "YEARLY";
+
+/**
+ * A BYDAY entry: a weekday, optionally with its position in the month or year, e.g. -1FR for the last Friday
+ */
+type RecurrenceWeekday = { weekday: number; ordinal?: number };
+
+/**
+ * The UNTIL of a rule: a calendar day (inclusive), a UTC time, or a wall-clock time in the matcher's time zone
+ */
+type RecurrenceUntil = { time: WallClockTime; kind: "day" | "utc" | "local" };
+
+export type RecurrenceRule = {
+	frequency: RecurrenceFrequency;
+	interval: number;
+	byDay: RecurrenceWeekday[];
+	byMonthDay: number[];
+	count?: number;
+	until?: RecurrenceUntil;
+};
+
+const FREQUENCIES: RecurrenceFrequency[] = ["DAILY", "WEEKLY", "MONTHLY", "YEARLY"];
+
+const WEEKDAY_CODES: Record<string, number> = { SU: 0, MO: 1, TU: 2, WE: 3, TH: 4, FR: 5, SA: 6 };
+
+/** Stops the search for occurrences of rules whose parts never match, such as BYDAY=5MO;BYMONTHDAY=1 */
+const MAX_EMPTY_PERIODS = 1000;
+
+const POSITIVE_INTEGER = /^[1-9]\d*$/;
+const BY_DAY_ENTRY = /^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/;
+const MONTH_DAY = /^[+-]?\d{1,2}$/;
+const UNTIL_VALUE = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/;
+
+type RuleParts = Partial<Record<string, string>>;
+
+function parseFrequency(parts: RuleParts): RecurrenceFrequency {
+	const frequency = FREQUENCIES.find((value) => value === parts.FREQ);
+	if (frequency === undefined) {
+		throw new Error("FREQ must be DAILY, WEEKLY, MONTHLY or YEARLY");
+	}
+	return frequency;
+}
+
+function parsePositiveInteger(parts: RuleParts, name: "INTERVAL" | "COUNT"): number | undefined {
+	const value = parts[name];
+	if (value === undefined) {
+		return undefined;
+	}
+	if (!POSITIVE_INTEGER.test(value)) {
+		throw new Error(`${name} must be a positive integer`);
+	}
+	return Number(value);
+}
+
+function parseByDay(parts: RuleParts, frequency: RecurrenceFrequency): RecurrenceWeekday[] {
+	return (parts.BYDAY?.split(",") ?? []).map((entry) => {
+		const match = BY_DAY_ENTRY.exec(entry);
+		const ordinal = match?.[1] === undefined ? undefined : Number(match[1]);
+		if (match === null || ordinal === 0 || Math.abs(ordinal ?? 0) > (frequency === "YEARLY" ? 53 : 5)) {
+			throw new Error("BYDAY must be weekdays such as MO,WE or 1MO,-1FR");
+		}
+		if (ordinal !== undefined && frequency !== "MONTHLY" && frequency !== "YEARLY") {
+			throw new Error("BYDAY positions such as 1MO are only supported with FREQ=MONTHLY or FREQ=YEARLY");
+		}
+		return { weekday: WEEKDAY_CODES[match[2]], ordinal };
+	});
+}
+
+function parseByMonthDay(parts: RuleParts, frequency: RecurrenceFrequency): number[] {
+	if (parts.BYMONTHDAY !== undefined && frequency === "WEEKLY") {
+		throw new Error("BYMONTHDAY cannot be used with FREQ=WEEKLY");
+	}
+	return (parts.BYMONTHDAY?.split(",") ?? []).map((entry) => {
+		const day = Number(entry);
+		if (!MONTH_DAY.test(entry) || day === 0 || Math.abs(day) > 31) {
+			throw new Error("BYMONTHDAY must be days from 1 to 31 or -31 to -1");
+		}
+		return day;
+	});
+}
+
+function parseUntil(parts: RuleParts): RecurrenceUntil | undefined {
+	if (parts.UNTIL === undefined) {
+		return undefined;
+	}
+	const match = UNTIL_VALUE.exec(parts.UNTIL);
+	if (match === null) {
+		throw new Error("UNTIL must be a date such as 20261231 or a time such as 20261231T235959Z");
+	}
+
+	const [, year, month, day, hour = "0", minute = "0", second = "0", utc] = match;
+	const time = {
+		year: Number(year),
+		month: Number(month) - 1,
+		day: Number(day),
+		hour: Number(hour),
+		minute: Number(minute),
+		second: Number(second),
+		millisecond: 0,
+	};
+	if (match[4] === undefined) {
+		return { time, kind: "day" };
+	}
+	return { time, kind: utc === undefined ? "local" : "utc" };
+}
+
+function splitRuleParts(rule: string): RuleParts {
+	const parts: RuleParts = {};
+	for (const part of rule.replace(/^RRULE:/i, "").split(";")) {
+		const [name, value, ...rest] = part.split("=");
+		const key = name.trim().toUpperCase();
+		if (value === undefined || rest.length > 0 || value.trim() === "") {
+			throw new Error(`"${part}" is not a NAME=VALUE part`);
+		}
+		if (!["FREQ", "INTERVAL", "BYDAY", "BYMONTHDAY", "COUNT", "UNTIL"].includes(key)) {
+			throw new Error(`unsupported part "${key}", supported are FREQ, INTERVAL, BYDAY, BYMONTHDAY, COUNT and UNTIL`);
+		}
+		if (parts[key] !== undefined) {
+			throw new Error(`duplicate part "${key}"`);
+		}
+		parts[key] = value.trim().toUpperCase();
+	}
+	return parts;
+}
+
+/**
+ * Parses a recurrence rule such as "FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;COUNT=6", with or without "RRULE:"
+ * @param assertionName - Matcher name for error messages
+ * @param rule - Recurrence rule
+ * @returns The parsed rule
+ * @throws Error if the rule is invalid or uses unsupported parts
+ */
+export function parseRecurrenceRule(assertionName: string, rule: string): RecurrenceRule {
+	try {
+		const parts = splitRuleParts(rule);
+		const frequency = parseFrequency(parts);
+		const parsed = {
+			frequency,
+			interval: parsePositiveInteger(parts, "INTERVAL") ?? 1,
+			byDay: parseByDay(parts, frequency),
+			byMonthDay: parseByMonthDay(parts, frequency),
+			count: parsePositiveInteger(parts, "COUNT"),
+			until: parseUntil(parts),
+		};
+		if (parsed.count !== undefined && parsed.until !== undefined) {
+			throw new Error("COUNT and UNTIL cannot be combined");
+		}
+		return parsed;
+	} catch (error) {
+		throw new Error(`${assertionName}: Invalid recurrence rule "${rule}": ${(error as Error).message}`);
+	}
+}
+
+/**
+ * Gets the calendar days of the nth period after the start: its day, its Monday-based week, its month or its year
+ */
+function getPeriodDays(frequency: RecurrenceFrequency, start: CalendarDate, offset: number): CalendarDate[] {
+	if (frequency === "DAILY") {
+		return [shiftCalendarDate(start, { days: offset })];
+	}
+
+	const first = {
+		WEEKLY: shiftCalendarDate(start, { days: offset * 7 - ((start.weekday + 6) % 7) }),
+		MONTHLY: shiftCalendarDate({ ...start, day: 1 }, { months: offset }),
+		YEARLY: shiftCalendarDate({ ...start, month: 0, day: 1 }, { years: offset }),
+	}[frequency];
+	const end = {
+		WEEKLY: shiftCalendarDate(first, { days: 7 }),
+		MONTHLY: shiftCalendarDate(first, { months: 1 }),
+		YEARLY: shiftCalendarDate(first, { years: 1 }),
+	}[frequency];
+
+	const days: CalendarDate[] = [];
+	for (let day = first; formatCalendarDate(day) < formatCalendarDate(end); day = shiftCalendarDate(day, { days: 1 })) {
+		days.push(day);
+	}
+	return days;
+}
+
+function matchesMonthDay(date: CalendarDate, monthDay: number): boolean {
+	return monthDay > 0 ? date.day === monthDay : date.day === getDaysInMonth(date.year, date.month) + monthDay + 1;
+}
+
+/**
+ * Checks a BYDAY entry; positions count the same weekdays from the start or, if negative, the end of the period
+ */
+function matchesWeekday(periodDays: CalendarDate[], index: number, entry: RecurrenceWeekday): boolean {
+	if (periodDays[index].weekday !== entry.weekday) {
+		return false;
+	}
+	if (entry.ordinal === undefined) {
+		return true;
+	}
+	const position =
+		entry.ordinal > 0 ? Math.floor(index / 7) + 1 : -(Math.floor((periodDays.length - 1 - index) / 7) + 1);
+	return position === entry.ordinal;
+}
+
+/**
+ * Without BYDAY and BYMONTHDAY, a rule repeats the weekday, day of the month or date of the start
+ */
+function matchesStart(frequency: RecurrenceFrequency, date: CalendarDate, start: CalendarDate): boolean {
+	return {
+		DAILY: true,
+		WEEKLY: date.weekday === start.weekday,
+		MONTHLY: date.day === start.day,
+		YEARLY: date.month === start.month && date.day === start.day,
+	}[frequency];
+}
+
+function matchesRule(rule: RecurrenceRule, periodDays: CalendarDate[], index: number, start: CalendarDate): boolean {
+	const date = periodDays[index];
+	if (rule.byDay.length === 0 && rule.byMonthDay.length === 0) {
+		return matchesStart(rule.frequency, date, start);
+	}
+	return (
+		(rule.byDay.length === 0 || rule.byDay.some((entry) => matchesWeekday(periodDays, index, entry))) &&
+		(rule.byMonthDay.length === 0 || rule.byMonthDay.some((monthDay) => matchesMonthDay(date, monthDay)))
+	);
+}
+
+function isAfterUntil(occurrence: Date, until: RecurrenceUntil | undefined, timeZone: string | undefined): boolean {
+	if (until === undefined) {
+		return false;
+	}
+	const { year, month, day, hour, minute, second } = until.time;
+	if (until.kind === "day") {
+		return (
+			formatCalendarDate(getCalendarDate(occurrence, timeZone)) > formatCalendarDate({ year, month, day, weekday: 0 })
+		);
+	}
+	const untilTime =
+		until.kind === "utc"
+			? Date.UTC(year, month, day, hour, minute, second)
+			: fromWallClockTime(until.time, timeZone).getTime();
+	return occurrence.getTime() > untilTime;
+}
+
+/**
+ * Generates the occurrences of a rule from its first occurrence, at the wall-clock time of the start.
+ * Occurrences end at COUNT or UNTIL, and for rules without them at `end`.
+ * @param rule - Parsed recurrence rule
+ * @param start - First occurrence (DTSTART)
+ * @param timeZone - IANA time zone, or undefined for the process's local time
+ * @param end - Last instant to generate occurrences for when the rule has no COUNT or UNTIL
+ * @returns The occurrences in ascending order
+ * @throws Error if the rule has no occurrences within 1000 periods
+ */
+export function generateOccurrences(
+	rule: RecurrenceRule,
+	start: Date,
+	timeZone: string | undefined,
+	end: Date,
+): Date[] {
+	const startTime = getWallClockTime(start, timeZone);
+	const startDay = getCalendarDate(start, timeZone);
+	const occurrences: Date[] = [];
+	let emptyPeriods = 0;
+
+	for (let period = 0; ; period++) {
+		const periodDays = getPeriodDays(rule.frequency, startDay, period * rule.interval);
+		const occurrenceCount = occurrences.length;
+
+		for (let index = 0; index < periodDays.length; index++) {
+			const day = periodDays[index];
+			if (formatCalendarDate(day) < formatCalendarDate(startDay) || !matchesRule(rule, periodDays, index, startDay)) {
+				continue;
+			}
+
+			const occurrence = fromWallClockTime({ ...startTime, year: day.year, month: day.month, day: day.day }, timeZone);
+			if (
+				isAfterUntil(occurrence, rule.until, timeZone) ||
+				(rule.until === undefined && rule.count === undefined && occurrence > end)
+			) {
+				return occurrences;
+			}
+			occurrences.push(occurrence);
+			if (occurrences.length === rule.count) {
+				return occurrences;
+			}
+		}
+
+		emptyPeriods = occurrences.length === occurrenceCount ? emptyPeriods + 1 : 0;
+		if (emptyPeriods > MAX_EMPTY_PERIODS) {
+			throw new Error(
+				`No occurrence of the recurrence rule within ${MAX_EMPTY_PERIODS} periods of ${formatCalendarDate(periodDays[0])}`,
+			);
+		}
+	}
+}
@@ -0,0 +1,130 @@
+/**
+ * Descriptive statistics for the number array matchers
+ */
+
+/**
+ * Statistics of a number array, shown in failure messages
+ */
+export type NumberStatistics = {
+	count: number;
+	mean: number;
+	median: number;
+	min: number;
+	max: number;
+	standardDeviation: number;
+};
+
+/**
+ * Validates that an array has enough numbers for a statistic
+ * @param assertionName - Matcher name for error messages
+ * @param values - Array to validate
+ * @param minimum - Minimum number of values
+ * @throws Error if the value is not an array, has too few values, or contains non-finite numbers
+ */
+export function validateStatisticsInput(assertionName: string, values: number[], minimum = 1): void {
+	if (!Array.isArray(values)) {
+		throw new Error(`${assertionName}: expected an array of numbers, received ${typeof values}`);
+	}
+	if (values.length < minimum) {
+		throw new Error(
+			`${assertionName}: array must contain at least ${minimum} number${minimum === 1 ? "" : "s"}, received ${values.length}`,
+		);
+	}
+	const invalidIndex = values.findIndex((value) => typeof value !== "number" || !Number.isFinite(value));
+	if (invalidIndex !== -1) {
+		throw new Error(
+			`${assertionName}: element ${invalidIndex} is not a finite number: ${String(values[invalidIndex])}`,
+		);
+	}
+}
+
+/**
+ * Calculates the arithmetic mean
+ * @param values - Non-empty array of numbers
+ * @returns The mean
+ */
+export function getMean(values: number[]): number {
+	return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+/**
+ * Calculates the variance: the mean squared distance from the mean
+ * @param values - Array of numbers, with at least two for the sample variance
+ * @param sample - Divide by n - 1 (sample variance) instead of n (population variance)
+ * @returns The variance
+ */
+export function getVariance(values: number[], sample = false): number {
+	const mean = getMean(values);
+	const squaredDistances = values.reduce((sum, value) => sum + (value - mean) ** 2, 0);
+	return squaredDistances / (sample ? values.length - 1 : values.length);
+}
+
+/**
+ * Calculates a percentile with linear interpolation between the closest ranks,
+ * like `PERCENTILE.INC` in spreadsheets and the default of NumPy
+ * @param sorted - Non-empty array of numbers in ascending order
+ * @param percentile - Percentile from 0 to 100
+ * @returns The percentile
+ */
+export function getPercentile(sorted: number[], percentile: number): number {
+	// Weights stay on the 0-100 scale to avoid rounding errors, e.g. 954.9999999999999 for p95 of 100, 200, ..., 1000
+	const scaledRank = percentile * (sorted.length - 1);
+	const lower = Math.floor(scaledRank / 100);
+	const upper = Math.ceil(scaledRank / 100);
+	const weight = scaledRank - lower * 100;
+	return (sorted[lower] * (100 - weight) + sorted[upper] * weight) / 100;
+}
+
+/**
+ * Counts how often each value occurs
+ * @param values - Array of numbers
+ * @returns Values with their counts, most frequent first and then in ascending order
+ */
+export function getValueCounts(values: number[]): [value: number, count: number][] {
+	const counts = new Map<number, number>();
+	for (const value of values) {
+		counts.set(value, (counts.get(value) ?? 0) + 1);
+	}
+	return [...counts.entries()].sort(([leftValue, leftCount], [rightValue, rightCount]) =>
+		rightCount === leftCount ? leftValue - rightValue : rightCount - leftCount,
+	);
+}
+
+/**
+ * Calculates the statistics shown in failure messages
+ * @param values - Non-empty array of numbers
+ * @returns Count, mean, median, min, max and population standard deviation
+ */
+export function getNumberStatistics(values: number[]): NumberStatistics {
+	const sorted = [...values].sort((a, b) => a - b);
+	return {
+		count: values.length,
+		mean: getMean(values),
+		median: getPercentile(sorted, 50),
+		min: sorted[0],
+		max: sorted[sorted.length - 1],
+		standardDeviation: Math.sqrt(getVariance(values)),
+	};
+}
+
+/**
+ * Formats a statistic with at most 6 significant digits, e.g. 12.3457
+ * @param value - Number to format
+ * @returns The formatted number
+ */
+export function formatStatistic(value: number): string {
+	return String(Number(value.toPrecision(6)));
+}
+
+/**
+ * Formats statistics as a message line, e.g. "Statistics: count 5, mean 3, median 3, min 1, max 5, standard deviation 1.41421"
+ * @param statistics - Statistics to format
+ * @returns The formatted line
+ */
+export function formatNumberStatistics(statistics: NumberStatistics): string {
+	return (
+		`Statistics: count ${statistics.count}, mean ${formatStatistic(statistics.mean)}, ` +
+		`median ${formatStatistic(statistics.median)}, min ${formatStatistic(statistics.min)}, ` +
+		`max ${formatStatistic(statistics.max)}, standard deviation ${formatStatistic(statistics.standardDeviation)}`
+	);
+}
@@ -0,0 +1,103 @@
+/**
+ * Parsers that turn element texts into values for the array matchers
+ */
+
+import type { LocatorTextParser } from "../types/matcher-types";
+
+/**
+ * Parses a plain number, ignoring surrounding whitespace and thousands separators.
+ * A "," is only accepted as a thousands separator between groups of three digits,
+ * so that a decimal comma such as "1,5" is rejected instead of read as 15.
+ * @param text - Text such as "1,234.5" or " 42 "
+ * @returns Parsed number
+ * @throws Error if the text is not a number or uses "," in another way
+ */
+export function parseNumberText(text: string): number {
+	const compact = text.trim().replace(/[\s_]/g, "");
+	if (compact.includes(",") && !/^[+-]?\d{1,3}(,\d{3})+(\.\d+)?$/.test(compact)) {
+		throw new Error(
+			`Cannot parse "${text}" as a number: "," is only supported as a thousands separator. ` +
+				`Use the "currency" parser or a function for decimal commas`,
+		);
+	}
+	const normalized = compact.replace(/,/g, "");
+	const value = normalized === "" ? Number.NaN : Number(normalized);
+	if (Number.isNaN(value)) {
+		throw new Error(`Cannot parse "${text}" as a number`);
+	}
+	return value;
+}
+
+/**
+ * Parses a currency amount, ignoring currency symbols and codes.
+ * The last "." or "," followed by one or two digits is treated as the decimal separator,
+ * and amounts in parentheses are negative.
+ * @param text - Text such as "$1,234.50", "€ 1.234,50", "-12 USD" or "(12.00)"
+ * @returns Parsed amount
+ * @throws Error if the text contains no amount
+ */
+export function parseCurrencyText(text: string): number {
+	const trimmed = text.trim();
+	const isParenthesized = /^\(.*\)$/.test(trimmed);
+	const isNegative = isParenthesized || /^[^\d]*-/.test(trimmed);
+	const digits = trimmed.replace(/[^\d.,]/g, "");
+
+	const decimalMatch = /[.,](\d{1,2})$/.exec(digits);
+	const integerPart = (decimalMatch ? digits.slice(0, decimalMatch.index) : digits).replace(/[.,]/g, "");
+	const normalized = decimalMatch ? `${integerPart}.${decimalMatch[1]}` : integerPart;
+
+	if (normalized === "" || normalized === ".") {
+		throw new Error(`Cannot parse "${text}" as a currency amount`);
+	}
+
+	const value = Number(normalized);
+	return isNegative ? -value : value;
+}
+
+/**
+ * Parses a date using the Date constructor
+ * @param text - Text such as "2024-01-31" or "Jan 31, 2024"
+ * @returns Parsed date
+ * @throws Error if the text is not a valid date
+ */
+export function parseDateText(text: string): Date {
+	const date = new Date(text.trim());
+	if (Number.isNaN(date.getTime())) {
+		throw new Error(`Cannot parse "${text}" as a date`);
+	}
+	return date;
+}
+
+const BUILT_IN_PARSERS: Record<Extract<LocatorTextParser, string>, (text: string) => number | Date> = {
+	number: parseNumberText,
+	currency: parseCurrencyText,
+	date: parseDateText,
+};
+
+/**
+ * Validates a parser option
+ * @param parser - Built-in parser name or custom parse function
+ * @throws Error if the parser is not a built-in parser name or a function
+ */
+export function validateParser(parser: LocatorTextParser | undefined): void {
+	if (parser !== undefined && typeof parser !== "function" && BUILT_IN_PARSERS[parser] === undefined) {
+		throw new Error(`Unknown parser: ${String(parser)}. Use "number", "currency", "date" or a function`);
+	}
+}
+
+/**
+ * Parses every text with a built-in or custom parser
+ * @param texts - Texts to parse
+ * @param parser - Built-in parser name or custom parse function; texts are kept as-is when omitted
+ * @returns Parsed values
+ * @throws Error if the parser is unknown or a text cannot be parsed
+ */
+export function parseTexts(texts: string[], parser?: LocatorTextParser): (string | number | Date)[] {
+	validateParser(parser);
+	if (parser === undefined) {
+		return texts;
+	}
+
+	const parse = typeof parser === "function" ? parser : BUILT_IN_PARSERS[parser];
+	return texts.map((text) => parse(text));
+}
@@ -16,11 +16,291 @@ export type DateGapOptions = {
 	years?: number;
 };
 export type DateRangeOptions = { days?: number; months?: number; years?: number };
+/**
+ * A date for the date matchers: a Date, an ISO 8601 string, epoch milliseconds, or an object with
+ * `epochMilliseconds` such as a Temporal `Instant`
+ */
+export type DateInput = Date | string | number | { epochMilliseconds: number };
+/**
+ * How date matchers parse string inputs. Without `strictParsing`, the default from `configureExpectlyDates()`
+ * is used, else false.
+ */
+export type DateParseOptions = {
+	/** Reject strings that are not ISO 8601, e.g. "03/01/2026" */
+	strictParsing?: boolean;
+};
+/**
+ * Time zone of calendar-based date matchers. Without `timeZone`, the default from `configureExpectlyDates()`
+ * is used, else the process's local time.
+ */
+export type DateTimeZoneOptions = DateParseOptions & {
+	/** IANA time zone such as "Europe/Amsterdam" or "UTC" */
+	timeZone?: string;
+};
+/**
+ * Reference time of relative date matchers: a fixed Date or epoch milliseconds, or a function returning one
+ */
+export type DateNowProvider = Date | number | (() => Date | number);
+/**
+ * Reference time of relative date matchers. Without `now`, the default from `configureExpectlyDates()`
+ * is used, else the system clock.
+ */
+export type DateReferenceOptions = DateParseOptions & {
+	now?: DateNowProvider;
+};
+export type RelativeDateOptions = DateTimeZoneOptions & DateReferenceOptions;
+/**
+ * How locator date matchers parse element texts. Without `format`, texts are parsed like string date inputs.
+ * The time zone of the text is `timeZone`, else the default from `configureExpectlyDates()`, else local time.
+ */
+export type DateTextOptions = DateTimeZoneOptions & {
+	/** Date format such as "dd-MM-yyyy HH:mm" or "MMMM d, yyyy h:mm a" */
+	format?: string;
+	/** Locale of month names, weekday names and AM/PM markers, e.g. "nl-NL". Defaults to "en-US" */
+	locale?: string;
+};
+export type LocatorDateTextOptions = PollOptions & DateTextOptions;
+/**
+ * A duration: an ISO 8601 string such as "PT1H30M", a human string such as "1h 30m" or "90 minutes",
+ * or a `{ days, hours, minutes, seconds }` object. Days are 24 hours; years and months are not supported.
+ */
+export type DurationInput = string | DateDeviationOptions;
+/**
+ * A date interval such as a booking. The start is inclusive and the end exclusive,
+ * so an interval that ends when another starts does not overlap it.
+ */
+export type DateInterval = { start: DateInput; end: DateInput };
+/**
+ * Time zone and first occurrence (DTSTART) of `toFollowRecurrence()`. Without `start`, the earliest date is the start.
+ */
+export type RecurrenceOptions = DateTimeZoneOptions & {
+	start?: DateInput;
+};
+/**
+ * Holidays of business-day matchers: dates, where "YYYY-MM-DD" strings are calendar days,
+ * or a predicate that receives every calendar day as "YYYY-MM-DD"
+ */
+export type HolidayCalendar = DateInput[] | ((day: string) => boolean);
+/**
+ * Weekend days and holidays of business-day matchers. Without them, the defaults from `configureExpectlyDates()`
+ * are used, else Saturday and Sunday without holidays.
+ */
+export type BusinessDayOptions = DateTimeZoneOptions & {
+	holidays?: HolidayCalendar;
+	/** Weekend days from 0 (Sunday) to 6 (Saturday), e.g. [5, 6] for Friday and Saturday */
+	weekend?: number[];
+};
+/**
+ * Business days between consecutive dates: an exact number or an inclusive range
+ */
+export type BusinessDayGap = number | { min?: number; max?: number };
+/**
+ * Custom equality for `toEqualPartially()` at a path; receives the actual and expected values at that path.
+ */
+// oxlint-disable-next-line typescript/no-explicit-any -- Comparators receive whatever value is at their path
+export type PartialMatchComparator = (actual: any, expected: any) => boolean;
+
+/**
+ * How `toEqualPartially()` matches expected array items:
+ * - `"subset"`: one-to-one subset of actual, order ignored
+ * - `"exactLength"`: like subset, with equal lengths
+ * - `"exactOrder"`: equal lengths, matched by position
+ * - `"orderedSubset"`: expected items appear in actual in the same order, with gaps allowed
+ */
+export type PartialMatchArrayMode = "subset" | "exactLength" | "exactOrder" | "orderedSubset";
+
 export type PartialMatchOptions = {
 	requireExplicitUndefinedKeyPresence?: boolean;
-	arrayMode?: "subset" | "exactLength" | "exactOrder";
+	/**
+	 * Array mode for every array, or by array path, e.g. `{ events: "orderedSubset", "**.tags": "subset" }`.
+	 * Arrays without a matching path use `"subset"`; the first matching path wins.
+	 */
+	arrayMode?: PartialMatchArrayMode | Record<string, PartialMatchArrayMode>;
+	/**
+	 * Comparators by path, e.g. `{ "items[*].price": (a, e) => Math.abs(a - e) < 0.01 }`.
+	 * `[*]` matches any array index and `*` any property name. A comparator replaces all other comparisons at its path.
+	 */
+	comparators?: Record<string, PartialMatchComparator>;
+	/** Numbers match when they differ by at most this amount */
+	numericTolerance?: number;
+	/** Compare strings case-insensitively */
+	ignoreCase?: boolean;
+	/** Dates and ISO 8601 strings match when they represent the same instant */
+	dateEquivalence?: boolean;
+	/**
+	 * Paths that are not compared, e.g. `["**.requestId", "items[*].id"]`.
+	 * `**` matches any number of keys and indexes.
+	 */
+	ignorePaths?: string[];
+	/**
+	 * Fail when actual objects have keys that are not in expected: `true` for every object,
+	 * or path patterns of the objects to check, e.g. `["$", "items[*]"]`
+	 */
+	strictKeys?: boolean | string[];
 };
 
+/**
+ * HTTP status class for `toHaveStatusInRange()`, e.g. `"4xx"` for 400-499
+ */
+export type HttpStatusClass = "1xx" | "2xx" | "3xx" | "4xx" | "5xx";
+
+export type JsonSchemaType = "string" | "number" | "integer" | "boolean" | "object" | "array" | "null";
+
+/**
+ * A JSON Schema (draft 2020-12) for `toMatchJsonSchema()`. `true` accepts any value, `false` none.
+ */
+export type JsonSchema = boolean | JsonSchemaObject;
+
+/**
+ * The JSON Schema keywords validated by `toMatchJsonSchema()`. Other keywords (`title`, `description`, ...) are ignored.
+ */
+export type JsonSchemaObject = {
+	/** Local reference such as `"#/$defs/address"` */
+	$ref?: string;
+	$defs?: Record<string, JsonSchema>;
+	definitions?: Record<string, JsonSchema>;
+	type?: JsonSchemaType | JsonSchemaType[];
+	enum?: unknown[];
+	const?: unknown;
+	/** `date-time`, `date`, `time`, `email`, `uri`, `uuid`, `ipv4`, `ipv6` or `hostname`; other formats are ignored */
+	format?: string;
+	minLength?: number;
+	maxLength?: number;
+	pattern?: string;
+	minimum?: number;
+	maximum?: number;
+	exclusiveMinimum?: number;
+	exclusiveMaximum?: number;
+	multipleOf?: number;
+	properties?: Record<string, JsonSchema>;
+	patternProperties?: Record<string, JsonSchema>;
+	additionalProperties?: JsonSchema;
+	required?: string[];
+	minProperties?: number;
+	maxProperties?: number;
+	prefixItems?: JsonSchema[];
+	items?: JsonSchema;
+	minItems?: number;
+	maxItems?: number;
+	uniqueItems?: boolean;
+	allOf?: JsonSchema[];
+	anyOf?: JsonSchema[];
+	oneOf?: JsonSchema[];
+	not?: JsonSchema;
+	[keyword: string]: unknown;
+};
+
+/**
+ * Reads the sort value of an object for the object-array order matchers
+ */
+export type ObjectKeySelector<TItem = object> = (item: TItem) => unknown;
+
+/**
+ * One key of a multi-key sort. `order` defaults to the direction of the matcher.
+ */
+export type ObjectSortKey<TItem = object> = {
+	/** Dot/bracket property path (`"user.address.city"`, `"items[0].name"`) or key selector */
+	path: string | ObjectKeySelector<TItem>;
+	order?: "asc" | "desc";
+};
+
+/**
+ * A property path, a key selector, or sort keys that are compared in turn when earlier keys are equal
+ */
+export type ObjectSortBy<TItem = object> = string | ObjectKeySelector<TItem> | ObjectSortKey<TItem>[];
+
+/**
+ * A property path, several property paths whose combination must be unique, or a key selector
+ */
+export type ObjectUniqueBy<TItem = object> = string | string[] | ObjectKeySelector<TItem>;
+
+type ObjectArrayItem<T> = T extends readonly (infer TItem)[] ? TItem : object;
+
+/**
+ * Compares strings with `Intl.Collator` instead of by UTF-16 code units, so that
+ * "Émile" sorts before "Zoe" and, with `numeric`, "item2" before "item10".
+ */
+export type StringCollationOptions = {
+	/** BCP 47 locale(s) passed to `Intl.Collator`, e.g. `"de"` or `["sv", "en"]`. Defaults to the runtime locale */
+	locale?: string | string[];
+	/** Which differences make strings unequal, e.g. `"base"` ignores case and accents */
+	sensitivity?: "base" | "accent" | "case" | "variant";
+	/** Compare digit sequences by their numeric value */
+	numeric?: boolean;
+	/** Ignore punctuation */
+	ignorePunctuation?: boolean;
+};
+
+/**
+ * Turns an element text into a value for the locator array matchers:
+ * - `"number"`: plain numbers, ignoring whitespace and thousands separators (`"1,234.5"`)
+ * - `"currency"`: amounts with currency symbols or codes (`"$1,234.50"`, `"€ 1.234,50"`, `"(12.00)"`)
+ * - `"date"`: anything the `Date` constructor accepts (`"2024-01-31"`)
+ * - a function for any other format
+ */
+export type LocatorTextParser = "number" | "currency" | "date" | ((text: string) => string | number | Date);
+
+export type LocatorCollectionOptions = PollOptions & {
+	/**
+	 * How to parse each element text. Texts are compared as strings when omitted,
+	 * except for `toHaveSum()` and `toBeAllBetween()` which default to `"number"`.
+	 */
+	parser?: LocatorTextParser;
+};
+
+/**
+ * Options for `toHaveStandardDeviation()` and `toHaveVariance()`
+ */
+export type NumberSpreadOptions = {
+	/** Divide by n - 1 for the sample variance of a sample of a larger population. Defaults to the population variance (divide by n) */
+	sample?: boolean;
+};
+
+/**
+ * Bounds that a percentile must meet in `toHavePercentile()`; at least one is required
+ */
+export type PercentileBounds = {
+	lessThan?: number;
+	lessThanOrEqual?: number;
+	greaterThan?: number;
+	greaterThanOrEqual?: number;
+};
+
+/**
+ * Options for the order matchers. Collation options apply to string values only.
+ */
+export type CollectionOrderOptions = LocatorCollectionOptions & StringCollationOptions;
+
+/**
+ * Locator matchers that `toSatisfyAll()` (and `.each` on `expectly` and `expectlyLocator`) can apply to every element.
+ */
+export type EachLocatorMatcherName =
+	| "toStartWith"
+	| "toEndWith"
+	| "toMatchPattern"
+	| "toBeValidEmail"
+	| "toBeValidUrl"
+	| "toBeAlphanumeric"
+	| "toBeNumericString"
+	| "toBeUpperCase"
+	| "toBeLowerCase"
+	| "toBeTitleCase"
+	| "toBeUUID"
+	| "toHaveDirectText"
+	| "toHavePlaceholder"
+	| "toHaveHref"
+	| "toHaveSrc"
+	| "toHaveAlt"
+	| "toHaveDataAttribute"
+	| "toHaveAriaLabel"
+	| "toHaveTarget"
+	| "toBeRequired"
+	| "toBeReadOnly"
+	| "toBeAbove"
+	| "toBeBelow"
+	| "toBeLeftOf"
+	| "toBeRightOf";
+
 export type DayOfWeek = "Sunday" | "Monday" | "Tuesday" | "Wednesday" | "Thursday" | "Friday" | "Saturday";
 export type MonthName =
 	| "January"
@@ -151,15 +431,64 @@ declare global {
 			 *     - subset (default): expected array is treated as a one-to-one subset of actual (order ignored)
 			 *     - exactLength: one-to-one matching with required equal lengths (order ignored)
 			 *     - exactOrder: one-to-one positional matching with required equal lengths
+			 *     - orderedSubset: expected items appear in actual in the same order, with gaps allowed
+			 *     - an object of array path patterns to modes, e.g. `{ events: 'orderedSubset' }`
+			 *   - comparators: custom comparators by path, e.g. `items[*].price`
+			 *   - numericTolerance: numbers match when they differ by at most this amount
+			 *   - ignoreCase: compare strings case-insensitively
+			 *   - dateEquivalence: Dates and ISO 8601 strings match when they represent the same instant
+			 *   - ignorePaths: paths that are not compared, e.g. `**.requestId` or `items[*].id`
+			 *   - strictKeys: fail on actual keys missing from expected, everywhere (`true`) or at the given paths
 			 *
 			 * @example
 			 * expect({ id: 1, name: 'Alice', role: 'admin' }).toEqualPartially({ name: 'Alice' });
 			 *
 			 * @example
 			 * expect([{ id: 1 }, { id: 2 }]).toEqualPartially([{ id: 2 }]);
+			 *
+			 * @example
+			 * expect(order).toEqualPartially(
+			 *   { createdAt: new Date('2024-01-31T10:00:00Z'), items: [{ price: 9.99 }] },
+			 *   { dateEquivalence: true, comparators: { 'items[*].price': (a, e) => Math.abs(a - e) < 0.01 } },
+			 * );
 			 */
 			toEqualPartially(expected: unknown, options?: PartialMatchOptions): R;
 
+			/**
+			 * Asserts that a value partially matches the JSON structure in a fixture file, with the same semantics
+			 * and options as `toEqualPartially()`.
+			 *
+			 * The path is resolved relative to the test file. With `--update-snapshots`, the matching subset of the
+			 * received value is written back to the fixture ("changed": only when it no longer matches, "all":
+			 * always). A missing fixture is created from the received value and the assertion fails once.
+			 *
+			 * @param fixturePath - Path of the JSON fixture, relative to the test file
+			 * @param options - Partial matching options, see `toEqualPartially()`
+			 *
+			 * @example
+			 * expect(user).toEqualPartiallyFile('fixtures/user.json');
+			 * expect(order).toEqualPartiallyFile('fixtures/order.json', { ignorePaths: ['**.id'] });
+			 */
+			toEqualPartiallyFile(fixturePath: string, options?: PartialMatchOptions): R;
+
+			/**
+			 * Asserts that a value matches a JSON Schema (draft 2020-12).
+			 *
+			 * Supports types, `enum`/`const`, string/number/array/object constraints, formats,
+			 * local `$ref` (e.g. `"#/$defs/address"`) and `allOf`/`anyOf`/`oneOf`/`not`.
+			 * The failure message lists every violation by JSON pointer.
+			 *
+			 * @param schema - The JSON Schema to validate against
+			 *
+			 * @example
+			 * expect(await response.json()).toMatchJsonSchema({
+			 *   type: 'object',
+			 *   required: ['id', 'email'],
+			 *   properties: { id: { type: 'integer' }, email: { type: 'string', format: 'email' } },
+			 * });
+			 */
+			toMatchJsonSchema(schema: JsonSchema): R;
+
 			/**
 			 * Asserts that a string starts with the expected substring.
 			 *
@@ -252,199 +581,352 @@ declare global {
 			/**
 			 * Asserts that a date is close to another date within a specified deviation.
 			 *
-			 * The deviation can be specified in days, hours, minutes, and/or seconds.
+			 * The deviation can be specified in days, hours, minutes, and/or seconds. Days are calendar days in the
+			 * `timeZone`, so one day across a DST change keeps the time of day.
+			 *
+			 * On a locator, polls the element text parsed as a date until it is close to the expected date.
 			 *
 			 * @param expectedDate - The expected date to compare against
 			 * @param deviation - Object specifying allowed time difference
+			 * @param options - Optional `timeZone` the days are added in, and `strictParsing`.
+			 * For locators also polling configuration and the text `format`, `locale` and `timeZone`
 			 *
 			 * @example
 			 * expect(responseDate).toBeCloseTo(expectedDate, { seconds: 30 });
+			 * await expect(page.locator('.updated-at')).toBeCloseTo(new Date(), { minutes: 1 }, { format: 'dd-MM-yyyy HH:mm' });
 			 */
-			toBeCloseTo(expectedDate: Date, deviation: DateDeviationOptions): R;
+			toBeCloseTo(
+				expectedDate: DateInput,
+				deviation: DateDeviationOptions,
+				options?: LocatorDateTextOptions,
+			): T extends Locator ? Promise<R> : R;
 
 			/**
 			 * Asserts that an array of dates is in ascending (earliest to latest) order.
 			 *
+			 * @param options - Optional `strictParsing` to reject date strings that are not ISO 8601
+			 *
 			 * @example
 			 * expect([new Date('2024-01-01'), new Date('2024-01-02')]).toHaveDatesAscendingOrder();
 			 */
-			toHaveDatesAscendingOrder(): R;
+			toHaveDatesAscendingOrder(options?: DateParseOptions): R;
 
 			/**
 			 * Asserts that an array of dates is in descending (latest to earliest) order.
 			 *
+			 * @param options - Optional `strictParsing` to reject date strings that are not ISO 8601
+			 *
 			 * @example
 			 * expect([new Date('2024-12-31'), new Date('2024-01-01')]).toHaveDatesDescendingOrder();
 			 */
-			toHaveDatesDescendingOrder(): R;
+			toHaveDatesDescendingOrder(options?: DateParseOptions): R;
 
 			/**
 			 * Asserts that a date is before another date.
 			 *
+			 * Like all date matchers, accepts Dates, ISO 8601 strings, epoch milliseconds and objects with
+			 * `epochMilliseconds` (e.g. a Temporal `Instant`) for both the received and the expected dates.
+			 *
 			 * @param expectedDate - The date that should come after
+			 * @param options - Optional `strictParsing` to reject date strings that are not ISO 8601
 			 *
 			 * @example
 			 * expect(startDate).toBeBefore(endDate);
+			 * expect(order.createdAt).toBeBefore('2026-03-01T10:00:00Z', { strictParsing: true });
 			 */
-			toBeBefore(expectedDate: Date): R;
+			toBeBefore(expectedDate: DateInput, options?: DateParseOptions): R;
 
 			/**
 			 * Asserts that a date is after another date.
 			 *
 			 * @param expectedDate - The date that should come before
+			 * @param options - Optional `strictParsing` to reject date strings that are not ISO 8601
 			 *
 			 * @example
 			 * expect(expiryDate).toBeAfter(new Date());
 			 */
-			toBeAfter(expectedDate: Date): R;
+			toBeAfter(expectedDate: DateInput, options?: DateParseOptions): R;
 
 			/**
 			 * Asserts that a date falls between two dates (inclusive).
 			 *
+			 * On a locator, polls the element text parsed as a date until it is in the range.
+			 *
 			 * @param startDate - The start of the range
 			 * @param endDate - The end of the range
+			 * @param options - Optional `strictParsing` to reject date strings that are not ISO 8601.
+			 * For locators also polling configuration and the text `format`, `locale` and `timeZone`
 			 *
 			 * @example
 			 * expect(eventDate).toBeBetween(new Date('2024-01-01'), new Date('2024-12-31'));
+			 * await expect(page.locator('.due-date')).toBeBetween('2026-10-01', '2026-10-31', { format: 'dd-MM-yyyy' });
 			 */
-			toBeBetween(startDate: Date, endDate: Date): R;
+			toBeBetween(
+				startDate: DateInput,
+				endDate: DateInput,
+				options?: LocatorDateTextOptions,
+			): T extends Locator ? Promise<R> : R;
 
 			/**
 			 * Asserts that two dates are on the same calendar day (ignoring time).
 			 *
 			 * @param expectedDate - The expected date to compare
+			 * @param options - Optional `timeZone` the calendar fields are read in, and `strictParsing`
 			 *
 			 * @example
 			 * expect(eventDate).toBeSameDay(new Date());
+			 * expect(new Date('2024-03-31T22:30:00Z')).toBeSameDay(new Date('2024-04-01T08:00:00Z'), { timeZone: 'Europe/Amsterdam' });
 			 */
-			toBeSameDay(expectedDate: Date): R;
+			toBeSameDay(expectedDate: DateInput, options?: DateTimeZoneOptions): R;
 
 			/**
 			 * Asserts that two dates are in the same month and year.
 			 *
 			 * @param expectedDate - The expected date to compare
+			 * @param options - Optional `timeZone` the calendar fields are read in, and `strictParsing`
 			 *
 			 * @example
 			 * expect(new Date('2024-01-15')).toBeSameMonth(new Date('2024-01-20'));
 			 */
-			toBeSameMonth(expectedDate: Date): R;
+			toBeSameMonth(expectedDate: DateInput, options?: DateTimeZoneOptions): R;
 
 			/**
 			 * Asserts that two dates are in the same year.
 			 *
 			 * @param expectedDate - The expected date to compare
+			 * @param options - Optional `timeZone` the calendar fields are read in, and `strictParsing`
 			 *
 			 * @example
 			 * expect(new Date('2024-01-01')).toBeSameYear(new Date('2024-12-31'));
 			 */
-			toBeSameYear(expectedDate: Date): R;
+			toBeSameYear(expectedDate: DateInput, options?: DateTimeZoneOptions): R;
 
 			/**
 			 * Asserts that a date is today (current calendar day).
 			 *
+			 * On a locator, polls the element text parsed as a date until it is today.
+			 *
+			 * @param options - Optional `timeZone` the calendar fields are read in, reference time `now` and `strictParsing`.
+			 * For locators also polling configuration and the text `format` and `locale`
+			 *
 			 * @example
 			 * expect(new Date()).toBeToday();
+			 * expect(order.createdAt).toBeToday({ timeZone: 'America/New_York' });
+			 * expect(order.createdAt).toBeToday({ now: new Date('2024-02-02T10:00:00Z') });
+			 * await expect(page.locator('.order-date')).toBeToday({ format: 'dd-MM-yyyy HH:mm' });
 			 */
-			toBeToday(): R;
+			toBeToday(options?: RelativeDateOptions & LocatorDateTextOptions): T extends Locator ? Promise<R> : R;
 
 			/**
 			 * Asserts that a date is yesterday.
 			 *
+			 * @param options - Optional `timeZone` the calendar fields are read in, reference time `now` and `strictParsing`
+			 *
 			 * @example
 			 * expect(lastLogin).toBeYesterday();
 			 */
-			toBeYesterday(): R;
+			toBeYesterday(options?: RelativeDateOptions): R;
 
 			/**
 			 * Asserts that a date is tomorrow.
 			 *
+			 * @param options - Optional `timeZone` the calendar fields are read in, reference time `now` and `strictParsing`
+			 *
 			 * @example
 			 * expect(scheduledDate).toBeTomorrow();
 			 */
-			toBeTomorrow(): R;
+			toBeTomorrow(options?: RelativeDateOptions): R;
 
 			/**
 			 * Asserts that a date falls on a weekday (Monday through Friday).
 			 *
+			 * @param options - Optional `timeZone` the calendar fields are read in, and `strictParsing`
+			 *
 			 * @example
 			 * expect(deliveryDate).toBeWeekday();
 			 */
-			toBeWeekday(): R;
+			toBeWeekday(options?: DateTimeZoneOptions): R;
 
 			/**
 			 * Asserts that a date falls on a weekend (Saturday or Sunday).
 			 *
+			 * @param options - Optional `timeZone` the calendar fields are read in, and `strictParsing`
+			 *
 			 * @example
 			 * expect(event.date).toBeWeekend();
 			 */
-			toBeWeekend(): R;
+			toBeWeekend(options?: DateTimeZoneOptions): R;
+
+			/**
+			 * Asserts that a date is a business day: not a weekend day and not a holiday.
+			 *
+			 * @param options - Optional `holidays` (dates or a predicate), `weekend` days (defaults to [0, 6]),
+			 * `timeZone` the calendar fields are read in, and `strictParsing`
+			 *
+			 * @example
+			 * expect(settlementDate).toBeBusinessDay();
+			 * expect(settlementDate).toBeBusinessDay({ holidays: ['2026-12-25', '2026-12-26'], weekend: [5, 6] });
+			 * expect(settlementDate).toBeBusinessDay({ holidays: (day) => day.endsWith('-12-25') });
+			 */
+			toBeBusinessDay(options?: BusinessDayOptions): R;
+
+			/**
+			 * Asserts that a date falls on the calendar day that is a number of business days after another date.
+			 * Weekend days and holidays are skipped; a negative number counts backwards.
+			 *
+			 * @param startDate - The date to count from
+			 * @param businessDays - Number of business days
+			 * @param options - Optional `holidays`, `weekend` days, `timeZone` and `strictParsing`
+			 *
+			 * @example
+			 * // Friday + 1 business day is Monday
+			 * expect(new Date('2026-10-19')).toBeNBusinessDaysAfter(new Date('2026-10-16'), 1);
+			 * expect(payoutDate).toBeNBusinessDaysAfter(orderDate, 3, { holidays: companyHolidays });
+			 */
+			toBeNBusinessDaysAfter(startDate: DateInput, businessDays: number, options?: BusinessDayOptions): R;
 
 			/**
 			 * Asserts that a date is in the past (before the current moment).
 			 *
+			 * @param options - Optional reference time `now` and `strictParsing`
+			 *
 			 * @example
 			 * expect(user.createdAt).toBeInThePast();
+			 * expect(user.createdAt).toBeInThePast({ now: () => fakeClock.now() });
 			 */
-			toBeInThePast(): R;
+			toBeInThePast(options?: DateReferenceOptions): R;
 
 			/**
 			 * Asserts that a date is in the future (after the current moment).
 			 *
+			 * @param options - Optional reference time `now` and `strictParsing`
+			 *
 			 * @example
 			 * expect(subscription.expiresAt).toBeInTheFuture();
 			 */
-			toBeInTheFuture(): R;
+			toBeInTheFuture(options?: DateReferenceOptions): R;
 
 			/**
 			 * Asserts that a date's year is a leap year.
 			 *
+			 * @param options - Optional `timeZone` the calendar fields are read in, and `strictParsing`
+			 *
 			 * @example
 			 * expect(new Date('2024-06-15')).toBeLeapYear();
 			 * expect(new Date('2023-06-15')).not.toBeLeapYear();
 			 */
-			toBeLeapYear(): R;
+			toBeLeapYear(options?: DateTimeZoneOptions): R;
 
 			/**
-			 * Asserts that an array of dates spans approximately the expected range.
+			 * Asserts that an array of dates spans the expected range: the last date is on the calendar day
+			 * of the first date plus the range. Months are calendar months, so January 31 plus one month is
+			 * the last day of February.
 			 *
 			 * @param expectedRange - Object specifying expected time span
+			 * @param options - Optional `timeZone` the calendar days are read in, and `strictParsing`
 			 *
 			 * @example
 			 * expect(reportDates).toHaveDateRange({ days: 30 });
+			 * expect(['2026-01-31', '2026-02-28']).toHaveDateRange({ months: 1 });
 			 */
-			toHaveDateRange(expectedRange: DateRangeOptions): R;
+			toHaveDateRange(expectedRange: DateRangeOptions, options?: DateTimeZoneOptions): R;
 
 			/**
 			 * Asserts that an array of dates are consecutive by the specified unit.
 			 *
 			 * @param unit - The unit of time to check ('day', 'month', or 'year')
+			 * @param options - Optional `timeZone` the calendar fields are read in, and `strictParsing`
 			 *
 			 * @example
 			 * expect(['2024-01-01', '2024-01-02', '2024-01-03']).toHaveConsecutiveDates('day');
 			 */
-			toHaveConsecutiveDates(unit: "day" | "month" | "year"): R;
+			toHaveConsecutiveDates(unit: "day" | "month" | "year", options?: DateTimeZoneOptions): R;
+
+			/**
+			 * Asserts that an array of dates (in any order) holds exactly the occurrences of an RFC 5545 recurrence rule.
+			 * Supports FREQ (DAILY, WEEKLY, MONTHLY, YEARLY), INTERVAL, BYDAY, BYMONTHDAY, COUNT and UNTIL;
+			 * weeks start on Monday. Occurrences repeat the time of day of the start in the `timeZone`.
+			 * Rules without COUNT or UNTIL are checked up to the last date.
+			 * Failure messages list missing occurrences and unexpected dates.
+			 *
+			 * @param rule - Recurrence rule such as "FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;COUNT=6"
+			 * @param options - Optional `start` (DTSTART, defaults to the earliest date), `timeZone` and `strictParsing`
+			 *
+			 * @example
+			 * expect(standups).toFollowRecurrence('FREQ=WEEKLY;BYDAY=MO,WE,FR;COUNT=9');
+			 * expect(invoices).toFollowRecurrence('FREQ=MONTHLY;BYMONTHDAY=-1;UNTIL=20261231', { timeZone: 'Europe/Amsterdam' });
+			 */
+			toFollowRecurrence(rule: string, options?: RecurrenceOptions): R;
+
+			/**
+			 * Asserts that a date interval overlaps another. Intervals that only touch do not overlap.
+			 *
+			 * @param interval - The `{ start, end }` interval to compare with
+			 * @param options - Optional `strictParsing` to reject date strings that are not ISO 8601
+			 *
+			 * @example
+			 * expect(booking).toOverlap({ start: '2026-10-19T10:00:00Z', end: '2026-10-19T11:00:00Z' });
+			 * expect(booking).not.toOverlap(maintenanceWindow);
+			 */
+			toOverlap(interval: DateInterval, options?: DateParseOptions): R;
+
+			/**
+			 * Asserts that a date interval contains another interval, including its boundaries.
+			 *
+			 * @param interval - The `{ start, end }` interval that should lie within the received interval
+			 * @param options - Optional `strictParsing` to reject date strings that are not ISO 8601
+			 *
+			 * @example
+			 * expect(openingHours).toContainInterval({ start: booking.start, end: booking.end });
+			 */
+			toContainInterval(interval: DateInterval, options?: DateParseOptions): R;
+
+			/**
+			 * Asserts that no two date intervals of an array overlap. Failure messages list the overlapping pairs.
+			 *
+			 * @param options - Optional `strictParsing` to reject date strings that are not ISO 8601
+			 *
+			 * @example
+			 * expect(roomBookings).toHaveNoOverlappingIntervals();
+			 */
+			toHaveNoOverlappingIntervals(options?: DateParseOptions): R;
+
+			/**
+			 * Asserts that the date intervals of an array together cover a range without gaps.
+			 * Intervals may overlap, touch, or extend beyond the range. Failure messages list the gaps.
+			 *
+			 * @param start - Start of the range
+			 * @param end - End of the range
+			 * @param options - Optional `strictParsing` to reject date strings that are not ISO 8601
+			 *
+			 * @example
+			 * expect(shifts).toCoverContinuously('2026-10-19T00:00:00Z', '2026-10-20T00:00:00Z');
+			 */
+			toCoverContinuously(start: DateInput, end: DateInput, options?: DateParseOptions): R;
 
 			/**
 			 * Asserts that all dates in an array fall within a specified range.
 			 *
 			 * @param startDate - The start of the acceptable range
 			 * @param endDate - The end of the acceptable range
+			 * @param options - Optional `strictParsing` to reject date strings that are not ISO 8601
 			 *
 			 * @example
 			 * expect(transactions).toHaveDatesWithinRange(new Date('2024-01-01'), new Date('2024-03-31'));
 			 */
-			toHaveDatesWithinRange(startDate: Date, endDate: Date): R;
+			toHaveDatesWithinRange(startDate: DateInput, endDate: DateInput, options?: DateParseOptions): R;
 
 			/**
 			 * Asserts that all dates in an array are unique.
 			 *
 			 * @param ignoreTime - If true, only compares dates (ignores time)
+			 * @param options - Optional `timeZone` the calendar fields are read in, and `strictParsing`
 			 *
 			 * @example
 			 * expect(eventTimestamps).toHaveUniqueDates();
 			 * expect(dailyRecords).toHaveUniqueDates(true);
 			 */
-			toHaveUniqueDates(ignoreTime?: boolean): R;
+			toHaveUniqueDates(ignoreTime?: boolean, options?: DateTimeZoneOptions): R;
 
 			/**
 			 * Asserts that a string is a valid ISO 8601 date format.
@@ -456,101 +938,210 @@ declare global {
 			 */
 			toBeValidISODate(): R;
 
+			/**
+			 * Asserts that a string is an ISO 8601 duration such as "PT1H30M", "P2DT4H", "P1W" or "P1Y2M".
+			 * Only the smallest unit may have a fraction, e.g. "PT1.5S".
+			 *
+			 * On a locator, polls the trimmed element text until it is an ISO 8601 duration.
+			 *
+			 * @param options - For locators, polling configuration
+			 *
+			 * @example
+			 * expect(video.duration).toBeValidISODuration();
+			 * await expect(page.locator('.duration')).toBeValidISODuration();
+			 */
+			toBeValidISODuration(options?: PollOptions): T extends Locator ? Promise<R> : R;
+
+			/**
+			 * Asserts that a duration is within a tolerance of the expected duration.
+			 * Durations can be ISO 8601 strings ("PT1H30M"), human strings ("1h 30m", "90 minutes") or
+			 * `{ days, hours, minutes, seconds }` objects; days are 24 hours.
+			 *
+			 * On a locator, polls the element text parsed as a duration until it is close to the expected duration.
+			 *
+			 * @param expected - The expected duration
+			 * @param tolerance - The allowed difference
+			 * @param options - For locators, polling configuration
+			 *
+			 * @example
+			 * expect(response.estimatedTime).toHaveDurationCloseTo('PT1H30M', { minutes: 5 });
+			 * await expect(page.locator('.travel-time')).toHaveDurationCloseTo({ hours: 2 }, { minutes: 10 });
+			 */
+			toHaveDurationCloseTo(
+				expected: DurationInput,
+				tolerance: DateDeviationOptions,
+				options?: PollOptions,
+			): T extends Locator ? Promise<R> : R;
+
+			/**
+			 * Asserts that the locator text is a date in the given format, e.g. "19-10-2026 14:30" for "dd-MM-yyyy HH:mm".
+			 * Polls until the text matches the format and is a valid date.
+			 *
+			 * Supported tokens: `yyyy`, `yy`, `MMMM`, `MMM`, `MM`, `M`, `dd`, `d`, `EEEE`, `EEE`, `HH`, `H`, `hh`, `h`,
+			 * `mm`, `m`, `ss`, `s`, `SSS` and `a`. Text in single quotes is literal.
+			 *
+			 * @param options - The text `format`, optional `locale` of month and weekday names, `timeZone` and polling configuration
+			 *
+			 * @example
+			 * await expect(page.locator('.created-at')).toHaveDateText({ format: 'dd-MM-yyyy HH:mm' });
+			 * await expect(page.locator('.published')).toHaveDateText({ format: 'd MMMM yyyy', locale: 'nl-NL' });
+			 */
+			toHaveDateText(options: LocatorDateTextOptions & { format: string }): Promise<R>;
+
 			/**
 			 * Asserts that a date matches a specific timezone offset.
 			 *
 			 * @param expectedOffset - Expected timezone offset as minutes (e.g., -300), string format (e.g., '+05:00'), or 'UTC'
+			 * @param options - Optional `strictParsing` to reject date strings that are not ISO 8601
 			 *
 			 * @example
 			 * expect(timestamp).toMatchTimeZone('UTC');
 			 * expect(date).toMatchTimeZone('-05:00');
 			 */
-			toMatchTimeZone(expectedOffset: number | string): R;
+			toMatchTimeZone(expectedOffset: number | string, options?: DateParseOptions): R;
 
 			/**
 			 * Asserts that a date is the first day of the month.
 			 *
+			 * @param options - Optional `timeZone` the calendar fields are read in, and `strictParsing`
+			 *
 			 * @example
 			 * expect(new Date('2024-01-01')).toBeStartOfMonth();
 			 */
-			toBeStartOfMonth(): R;
+			toBeStartOfMonth(options?: DateTimeZoneOptions): R;
 
 			/**
 			 * Asserts that a date is the last day of the month.
 			 *
+			 * @param options - Optional `timeZone` the calendar fields are read in, and `strictParsing`
+			 *
 			 * @example
 			 * expect(new Date('2024-01-31')).toBeEndOfMonth();
 			 */
-			toBeEndOfMonth(): R;
+			toBeEndOfMonth(options?: DateTimeZoneOptions): R;
 
 			/**
 			 * Asserts that an array of dates has gaps larger than the specified duration.
+			 * Years, months and days are added in calendar terms in the `timeZone`.
 			 *
 			 * @param minGap - Minimum gap duration to check for
+			 * @param options - Optional `timeZone` the calendar units are added in, and `strictParsing`
 			 *
 			 * @example
 			 * expect(activityDates).toHaveDateGapsLargerThan({ days: 7 });
 			 */
-			toHaveDateGapsLargerThan(minGap: DateGapOptions): R;
+			toHaveDateGapsLargerThan(minGap: DateGapOptions, options?: DateTimeZoneOptions): R;
+
+			/**
+			 * Asserts that an array of dates has gaps smaller than the specified duration.
+			 * Use `.not` to assert that sorted dates are at least the duration apart.
+			 * Years, months and days are added in calendar terms in the `timeZone`.
+			 *
+			 * @param maxGap - Maximum gap duration to check for
+			 * @param options - Optional `timeZone` the calendar units are added in, and `strictParsing`
+			 *
+			 * @example
+			 * expect(retryDates).toHaveDateGapsSmallerThan({ seconds: 5 });
+			 * expect(invoiceDates).not.toHaveDateGapsSmallerThan({ months: 1 }, { timeZone: 'Europe/Amsterdam' });
+			 */
+			toHaveDateGapsSmallerThan(maxGap: DateGapOptions, options?: DateTimeZoneOptions): R;
+
+			/**
+			 * Asserts that consecutive dates in an array (after sorting) are a number of business days apart.
+			 *
+			 * @param gap - Exact number of business days, or an inclusive `{ min, max }` range
+			 * @param options - Optional `holidays`, `weekend` days, `timeZone` and `strictParsing`
+			 *
+			 * @example
+			 * expect(dailyReportDates).toHaveBusinessDayGap(1);
+			 * expect(paymentDates).toHaveBusinessDayGap({ min: 2 }, { holidays: companyHolidays });
+			 */
+			toHaveBusinessDayGap(gap: BusinessDayGap, options?: BusinessDayOptions): R;
 
 			/**
 			 * Asserts that a date falls within a specific quarter of the year.
 			 *
 			 * @param expectedQuarter - Quarter number (1-4)
+			 * @param options - Optional `timeZone` the calendar fields are read in, and `strictParsing`
 			 *
 			 * @example
 			 * expect(date).toBeInQuarter(1); // Jan-Mar
 			 * expect(yearEndReport).toBeInQuarter(4); // Oct-Dec
 			 */
-			toBeInQuarter(expectedQuarter: 1 | 2 | 3 | 4): R;
+			toBeInQuarter(expectedQuarter: 1 | 2 | 3 | 4, options?: DateTimeZoneOptions): R;
 
 			/**
 			 * Asserts that a date falls on a specific day of the week.
 			 *
 			 * @param expectedDay - Day name or number (0=Sunday, 1=Monday, etc.)
+			 * @param options - Optional `timeZone` the calendar fields are read in, and `strictParsing`
 			 *
 			 * @example
 			 * expect(meetingDate).toBeSpecificDayOfWeek('Monday');
 			 * expect(meetingDate).toBeSpecificDayOfWeek(1);
 			 */
-			toBeSpecificDayOfWeek(expectedDay: DayOfWeek | number): R;
+			toBeSpecificDayOfWeek(expectedDay: DayOfWeek | number, options?: DateTimeZoneOptions): R;
 
 			/**
 			 * Asserts that a date falls within a specific month.
 			 *
 			 * @param expectedMonth - Month name or number (1-12)
+			 * @param options - Optional `timeZone` the calendar fields are read in, and `strictParsing`
 			 *
 			 * @example
 			 * expect(date).toBeInMonth('January');
 			 * expect(date).toBeInMonth(1);
 			 */
-			toBeInMonth(expectedMonth: MonthName | number): R;
+			toBeInMonth(expectedMonth: MonthName | number, options?: DateTimeZoneOptions): R;
 
 			/**
-			 * Asserts that an array of numbers is in ascending order (smallest to largest).
+			 * Asserts that an array of numbers or strings is in ascending order (smallest to largest).
+			 *
+			 * On a locator, polls the texts of all matched elements until they are in order.
+			 *
+			 * Strings are compared by UTF-16 code units unless collation options are given.
+			 *
+			 * @param options - Collation options for strings (`locale`, `sensitivity`, `numeric`, `ignorePunctuation`);
+			 * for locators also polling configuration and an optional text `parser`
 			 *
 			 * @example
 			 * expect([9.99, 19.99, 29.99]).toHaveAscendingOrder();
+			 * expect(['Émile', 'Zoe']).toHaveAscendingOrder({ locale: 'fr' });
+			 * expect(['item2', 'item10']).toHaveAscendingOrder({ numeric: true });
+			 * await expect(page.locator('td.price')).toHaveAscendingOrder({ parser: 'currency' });
 			 */
-			toHaveAscendingOrder(): R;
+			toHaveAscendingOrder(options?: CollectionOrderOptions): T extends Locator ? Promise<R> : R;
 
 			/**
-			 * Asserts that an array of numbers is in descending order (largest to smallest).
+			 * Asserts that an array of numbers or strings is in descending order (largest to smallest).
+			 *
+			 * On a locator, polls the texts of all matched elements until they are in order.
+			 *
+			 * Strings are compared by UTF-16 code units unless collation options are given.
+			 *
+			 * @param options - Collation options for strings (`locale`, `sensitivity`, `numeric`, `ignorePunctuation`);
+			 * for locators also polling configuration and an optional text `parser`
 			 *
 			 * @example
 			 * expect([100, 95, 87, 75]).toHaveDescendingOrder();
+			 * expect(['Zoe', 'Émile']).toHaveDescendingOrder({ locale: 'fr' });
+			 * await expect(page.locator('td.created')).toHaveDescendingOrder({ parser: 'date' });
 			 */
-			toHaveDescendingOrder(): R;
+			toHaveDescendingOrder(options?: CollectionOrderOptions): T extends Locator ? Promise<R> : R;
 
 			/**
 			 * Asserts that an array of numbers sums to the expected value.
 			 *
+			 * On a locator, polls the texts of all matched elements, parsed as numbers by default.
+			 *
 			 * @param expected - The expected sum
+			 * @param options - For locators: polling configuration and an optional text `parser`
 			 *
 			 * @example
 			 * expect([10.99, 5.50, 15.00]).toHaveSum(31.49);
+			 * await expect(page.locator('td.amount')).toHaveSum(31.49, { parser: 'currency' });
 			 */
-			toHaveSum(expected: number): R;
+			toHaveSum(expected: number, options?: LocatorCollectionOptions): T extends Locator ? Promise<R> : R;
 
 			/**
 			 * Asserts that an array of numbers has the expected average (mean).
@@ -602,16 +1193,72 @@ declare global {
 			 */
 			toHaveRange(expected: number): R;
 
+			/**
+			 * Asserts that the standard deviation of an array of numbers is within a tolerance of the expected value.
+			 * Uses the population standard deviation unless `sample` is set.
+			 * The failure message shows the count, mean, median, min and max.
+			 *
+			 * @param expected - The expected standard deviation
+			 * @param tolerance - The allowed absolute difference (default: 0)
+			 * @param options - `sample: true` for the sample standard deviation (n - 1)
+			 *
+			 * @example
+			 * expect([2, 4, 4, 4, 5, 5, 7, 9]).toHaveStandardDeviation(2);
+			 * expect(responseTimes).toHaveStandardDeviation(50, 10, { sample: true });
+			 */
+			toHaveStandardDeviation(expected: number, tolerance?: number, options?: NumberSpreadOptions): R;
+
+			/**
+			 * Asserts that the variance of an array of numbers is within a tolerance of the expected value.
+			 * Uses the population variance unless `sample` is set.
+			 *
+			 * @param expected - The expected variance
+			 * @param tolerance - The allowed absolute difference (default: 0)
+			 * @param options - `sample: true` for the sample variance (n - 1)
+			 *
+			 * @example
+			 * expect([2, 4, 4, 4, 5, 5, 7, 9]).toHaveVariance(4);
+			 */
+			toHaveVariance(expected: number, tolerance?: number, options?: NumberSpreadOptions): R;
+
+			/**
+			 * Asserts that a percentile of an array of numbers meets the given bounds.
+			 * Percentiles interpolate linearly between the closest values, like `PERCENTILE.INC` in spreadsheets.
+			 *
+			 * @param percentile - The percentile, from 0 to 100
+			 * @param bounds - `lessThan`, `lessThanOrEqual`, `greaterThan` and/or `greaterThanOrEqual`
+			 *
+			 * @example
+			 * expect(responseTimes).toHavePercentile(95, { lessThan: 500 });
+			 */
+			toHavePercentile(percentile: number, bounds: PercentileBounds): R;
+
+			/**
+			 * Asserts that the most frequent value of an array of numbers is the expected value.
+			 * Pass an array when several values are equally frequent.
+			 *
+			 * @param expected - The expected mode, or all modes
+			 *
+			 * @example
+			 * expect([1, 2, 2, 3]).toHaveMode(2);
+			 * expect([1, 1, 2, 2, 3]).toHaveMode([1, 2]);
+			 */
+			toHaveMode(expected: number | number[]): R;
+
 			/**
 			 * Asserts that all numbers in an array fall within the specified range (inclusive).
 			 *
+			 * On a locator, polls the texts of all matched elements, parsed as numbers by default.
+			 *
 			 * @param min - The minimum allowed value
 			 * @param max - The maximum allowed value
+			 * @param options - For locators: polling configuration and an optional text `parser`
 			 *
 			 * @example
 			 * expect([45, 67, 89, 92, 78]).toBeAllBetween(0, 100);
+			 * await expect(page.locator('td.score')).toBeAllBetween(0, 100);
 			 */
-			toBeAllBetween(min: number, max: number): R;
+			toBeAllBetween(min: number, max: number, options?: LocatorCollectionOptions): T extends Locator ? Promise<R> : R;
 
 			/**
 			 * Asserts that all numbers in an array are positive (greater than 0).
@@ -658,26 +1305,32 @@ declare global {
 			toBeAllLessThan(value: number): R;
 
 			/**
-			 * Asserts that numbers are in strictly ascending order (each element > previous).
+			 * Asserts that numbers or strings are in strictly ascending order (each element > previous).
 			 *
 			 * Unlike toHaveAscendingOrder, this rejects equal consecutive values.
 			 *
+			 * @param options - Collation options for strings; values the collator considers equal are a violation
+			 *
 			 * @example
 			 * expect([10, 20, 35, 50]).toHaveStrictlyAscendingOrder();
 			 * expect([1, 2, 2, 3]).not.toHaveStrictlyAscendingOrder();
+			 * expect(['a', 'A']).not.toHaveStrictlyAscendingOrder({ sensitivity: 'base' });
 			 */
-			toHaveStrictlyAscendingOrder(): R;
+			toHaveStrictlyAscendingOrder(options?: StringCollationOptions): R;
 
 			/**
-			 * Asserts that numbers are in strictly descending order (each element < previous).
+			 * Asserts that numbers or strings are in strictly descending order (each element < previous).
 			 *
 			 * Unlike toHaveDescendingOrder, this rejects equal consecutive values.
 			 *
+			 * @param options - Collation options for strings; values the collator considers equal are a violation
+			 *
 			 * @example
 			 * expect([100, 75, 50, 25]).toHaveStrictlyDescendingOrder();
 			 * expect([5, 4, 4, 3]).not.toHaveStrictlyDescendingOrder();
+			 * expect(['item10', 'item2']).toHaveStrictlyDescendingOrder({ numeric: true });
 			 */
-			toHaveStrictlyDescendingOrder(): R;
+			toHaveStrictlyDescendingOrder(options?: StringCollationOptions): R;
 
 			/**
 			 * Asserts that an array is monotonic (consistently ascending or descending).
@@ -693,11 +1346,16 @@ declare global {
 			/**
 			 * Asserts that all values in an array are unique (no duplicates).
 			 *
+			 * On a locator, polls the texts of all matched elements until they are unique.
+			 *
+			 * @param options - For locators: polling configuration and an optional text `parser`
+			 *
 			 * @example
 			 * expect([101, 202, 303]).toHaveUniqueValues();
 			 * expect([1, 2, 2, 3]).not.toHaveUniqueValues();
+			 * await expect(page.locator('td.order-id')).toHaveUniqueValues();
 			 */
-			toHaveUniqueValues(): R;
+			toHaveUniqueValues(options?: LocatorCollectionOptions): T extends Locator ? Promise<R> : R;
 
 			/**
 			 * Asserts that an array contains consecutive integers (e.g., 1, 2, 3, 4).
@@ -722,24 +1380,44 @@ declare global {
 			toHaveOnlyUniqueObjects(): R;
 
 			/**
-			 * Asserts that an array of objects is sorted in ascending order by a specific property.
+			 * Asserts that no two objects share the same key value. Unlike toHaveOnlyUniqueObjects,
+			 * objects that differ in other properties still count as duplicates.
 			 *
-			 * @param propertyName - The property name to sort by
+			 * @param uniqueBy - Dot/bracket property path, several paths whose combination must be unique, or a key selector
+			 *
+			 * @example
+			 * expect(users).toHaveUniqueObjectsBy('id');
+			 * expect(pages).toHaveUniqueObjectsBy(['tenantId', 'slug']);
+			 * expect(users).toHaveUniqueObjectsBy((user) => user.email.toLowerCase());
+			 */
+			toHaveUniqueObjectsBy(uniqueBy: ObjectUniqueBy<ObjectArrayItem<T>>): R;
+
+			/**
+			 * Asserts that an array of objects is sorted in ascending order by a property, a key selector,
+			 * or several sort keys (later keys break ties of earlier keys).
+			 *
+			 * @param sortBy - Dot/bracket property path, key selector, or `[{ path, order }]` sort keys
 			 *
 			 * @example
 			 * expect([{ age: 25 }, { age: 30 }, { age: 35 }]).toHaveObjectsInAscendingOrderBy('age');
+			 * expect(users).toHaveObjectsInAscendingOrderBy('address.city');
+			 * expect(users).toHaveObjectsInAscendingOrderBy((user) => user.name.toLowerCase());
+			 * expect(users).toHaveObjectsInAscendingOrderBy([{ path: 'lastName' }, { path: 'createdAt', order: 'desc' }]);
 			 */
-			toHaveObjectsInAscendingOrderBy(propertyName: string): R;
+			toHaveObjectsInAscendingOrderBy(sortBy: ObjectSortBy<ObjectArrayItem<T>>): R;
 
 			/**
-			 * Asserts that an array of objects is sorted in descending order by a specific property.
+			 * Asserts that an array of objects is sorted in descending order by a property, a key selector,
+			 * or several sort keys (later keys break ties of earlier keys).
 			 *
-			 * @param propertyName - The property name to sort by
+			 * @param sortBy - Dot/bracket property path, key selector, or `[{ path, order }]` sort keys
 			 *
 			 * @example
 			 * expect([{ score: 950 }, { score: 850 }, { score: 750 }]).toHaveObjectsInDescendingOrderBy('score');
+			 * expect(results).toHaveObjectsInDescendingOrderBy('stats[0].points');
+			 * expect(results).toHaveObjectsInDescendingOrderBy([{ path: 'score' }, { path: 'name', order: 'asc' }]);
 			 */
-			toHaveObjectsInDescendingOrderBy(propertyName: string): R;
+			toHaveObjectsInDescendingOrderBy(sortBy: ObjectSortBy<ObjectArrayItem<T>>): R;
 
 			/**
 			 * Asserts that the locator's text is all uppercase letters.
@@ -958,6 +1636,96 @@ declare global {
 			 * await expect(page.locator('tbody tr')).toHaveCountVisible(5, { timeout: 5000 });
 			 */
 			toHaveCountVisible(count: number, options?: PollOptions): Promise<R>;
+
+			/**
+			 * Asserts that every element matched by the locator satisfies another locator matcher.
+			 * The matcher is applied to each element of `locator.all()`, and the failure message lists
+			 * the index and text of every offending element. Fails when the locator matches no elements, also with `.not`.
+			 *
+			 * @param matcherName - Name of the locator matcher to apply to each element
+			 * @param args - Arguments of that matcher, optionally followed by polling configuration
+			 *
+			 * @example
+			 * await expect(page.locator('tbody tr')).toSatisfyAll('toHaveDataAttribute', 'status', 'ok');
+			 * await expect(page.locator('.price')).toSatisfyAll('toMatchPattern', /^€\d+/, { timeout: 5000 });
+			 */
+			toSatisfyAll<K extends EachLocatorMatcherName>(
+				matcherName: K,
+				...args: Parameters<PlaywrightTest.Matchers<R, Locator>[K]>
+			): Promise<R>;
+
+			/**
+			 * Asserts that an `APIResponse` (or page `Response`) has a status within a status class or an inclusive range.
+			 * The failure message includes the request URL, the method (page responses and tracked requests) and a truncated body.
+			 *
+			 * @param statusClass - Status class such as `"2xx"` or `"4xx"`
+			 *
+			 * @example
+			 * await expect(await request.get('/api/users/404')).toHaveStatusInRange('4xx');
+			 * await expect(response).toHaveStatusInRange(200, 204);
+			 */
+			toHaveStatusInRange(statusClass: HttpStatusClass): Promise<R>;
+			toHaveStatusInRange(min: number, max: number): Promise<R>;
+
+			/**
+			 * Asserts that an `APIResponse` (or page `Response`) has a 2xx status.
+			 *
+			 * @example
+			 * await expect(await request.post('/api/users', { data: user })).toBeSuccessful();
+			 */
+			toBeSuccessful(): Promise<R>;
+
+			/**
+			 * Asserts that an `APIResponse` (or page `Response`) has a header, optionally with a value
+			 * equal to a string or matching a RegExp. Header names are case-insensitive.
+			 *
+			 * @param name - Header name
+			 * @param expected - Optional expected value
+			 *
+			 * @example
+			 * await expect(response).toHaveHeader('x-request-id');
+			 * await expect(response).toHaveHeader('Cache-Control', /max-age=\d+/);
+			 */
+			toHaveHeader(name: string, expected?: string | RegExp): Promise<R>;
+
+			/**
+			 * Asserts the content type of an `APIResponse` (or page `Response`). A string is compared with the
+			 * media type only, ignoring parameters such as `charset`; a RegExp is tested against the full header.
+			 *
+			 * @param expected - Media type such as `"application/json"`, or a RegExp
+			 *
+			 * @example
+			 * await expect(response).toHaveContentType('application/json');
+			 * await expect(response).toHaveContentType(/^text\/html; charset=utf-8$/);
+			 */
+			toHaveContentType(expected: string | RegExp): Promise<R>;
+
+			/**
+			 * Asserts that the JSON body of an `APIResponse` (or page `Response`) partially matches the expected
+			 * structure, with the same semantics and options as `toEqualPartially()`.
+			 *
+			 * @param expected - The expected partial structure
+			 * @param options - Partial matching options, see `toEqualPartially()`
+			 *
+			 * @example
+			 * await expect(response).toHaveJsonBody({ data: { user: { name: 'Alice' } } });
+			 * await expect(response).toHaveJsonBody({ items: [{ id: 1 }, { id: 2 }] }, { arrayMode: 'exactOrder' });
+			 */
+			toHaveJsonBody(expected: unknown, options?: PartialMatchOptions): Promise<R>;
+
+			/**
+			 * Asserts that an `APIResponse` (or page `Response`) arrived within a maximum duration. Page responses
+			 * use the browser's resource timing; an `APIResponse` must come from a request context wrapped
+			 * with `trackApiRequests()`.
+			 *
+			 * @param maxDuration - Milliseconds, or a duration such as `"1.5s"` or `{ seconds: 2 }`
+			 *
+			 * @example
+			 * const api = trackApiRequests(request);
+			 * await expect(await api.get('/api/users')).toRespondWithin(500);
+			 * await expect(await page.waitForResponse('**\/api/search')).toRespondWithin('2s');
+			 */
+			toRespondWithin(maxDuration: number | DurationInput): Promise<R>;
 		}
 	}
 }
@@ -0,0 +1,170 @@
+import { expect, test } from "@playwright/test";
+
+import { getRejectedErrorSync } from "../../../tests/common/assertion-utils";
+import { expectlyAny } from "../src/expectly-any";
+import type { JsonSchema } from "../src/types/matcher-types";
+
+const userSchema: JsonSchema = {
+	$schema: "https://json-schema.org/draft/2020-12/schema",
+	type: "object",
+	required: ["id", "email", "role"],
+	properties: {
+		id: { type: "integer", minimum: 1 },
+		email: { type: "string", format: "email" },
+		role: { enum: ["admin", "member"] },
+		address: { $ref: "#/$defs/address" },
+		tags: { type: "array", items: { type: "string" }, uniqueItems: true },
+	},
+	additionalProperties: false,
+	$defs: {
+		address: {
+			type: "object",
+			required: ["city"],
+			properties: { city: { type: "string", minLength: 1 }, zip: { type: "string", pattern: "^\\d{4}[A-Z]{2}$" } },
+		},
+	},
+};
+
+test.describe("toMatchJsonSchema", () => {
+	test("should pass when the value matches the schema", () => {
+		expectlyAny({
+			id: 1,
+			email: "alice@example.com",
+			role: "admin",
+			address: { city: "Utrecht", zip: "3511AB" },
+			tags: ["a", "b"],
+		}).toMatchJsonSchema(userSchema);
+	});
+
+	test("should list every violation by JSON pointer", () => {
+		const error = getRejectedErrorSync(() => {
+			expectlyAny({
+				id: 0,
+				email: "not-an-email",
+				address: { zip: "1234" },
+				tags: ["a", "a"],
+				nickname: "Al",
+			}).toMatchJsonSchema(userSchema);
+		});
+
+		expect(error.message).toContain("found 7 violation(s)");
+		expect(error.message).toContain("First failing path: /");
+		expect(error.message).toContain('- /: Missing required property "role"');
+		expect(error.message).toContain("- /id: Expected number >= 1, received 0");
+		expect(error.message).toContain('- /email: Expected format "email", received "not-an-email"');
+		expect(error.message).toContain('- /address: Missing required property "city"');
+		expect(error.message).toContain('- /address/zip: Expected string to match /^\\d{4}[A-Z]{2}$/, received "1234"');
+		expect(error.message).toContain('- /tags/1: Expected unique items, but "a" occurs more than once');
+		expect(error.message).toContain('- /nickname: Unexpected property "nickname"');
+	});
+
+	test("should validate types, including integer and nullable unions", () => {
+		expectlyAny(1.5).toMatchJsonSchema({ type: "number" });
+		expectlyAny(null).toMatchJsonSchema({ type: ["string", "null"] });
+		expectlyAny(1.5).not.toMatchJsonSchema({ type: "integer" });
+
+		const error = getRejectedErrorSync(() => {
+			expectlyAny({ count: "3" }).toMatchJsonSchema({ properties: { count: { type: "integer" } } });
+		});
+		expect(error.message).toContain('- /count: Expected type "integer", received string');
+	});
+
+	test("should accept decimal multiples despite floating-point rounding", () => {
+		expectlyAny(19.99).toMatchJsonSchema({ type: "number", multipleOf: 0.01 });
+		expectlyAny(0.3).toMatchJsonSchema({ type: "number", multipleOf: 0.1 });
+		expectlyAny(19.995).not.toMatchJsonSchema({ type: "number", multipleOf: 0.01 });
+
+		const error = getRejectedErrorSync(() => {
+			expectlyAny({ price: 0.35 }).toMatchJsonSchema({ properties: { price: { multipleOf: 0.1 } } });
+		});
+		expect(error.message).toContain("- /price: Expected a multiple of 0.1, received 0.35");
+	});
+
+	test("should validate tuples with prefixItems", () => {
+		const schema: JsonSchema = { type: "array", prefixItems: [{ type: "number" }, { type: "string" }], items: false };
+
+		expectlyAny([1, "a"]).toMatchJsonSchema(schema);
+		expectlyAny([1, "a", true]).not.toMatchJsonSchema(schema);
+	});
+
+	test("should report anyOf and oneOf failures with the closest branch", () => {
+		const schema: JsonSchema = {
+			oneOf: [
+				{ type: "object", required: ["card"], properties: { card: { type: "string" } } },
+				{ type: "object", required: ["iban"] },
+			],
+		};
+
+		expectlyAny({ card: "4111" }).toMatchJsonSchema(schema);
+
+		const noMatch = getRejectedErrorSync(() => {
+			expectlyAny({ card: 4111 }).toMatchJsonSchema(schema);
+		});
+		expect(noMatch.message).toContain(
+			'- /: Expected value to match exactly one schema in oneOf (closest: oneOf[0] failed at /card: Expected type "string", received integer)',
+		);
+
+		const twoMatches = getRejectedErrorSync(() => {
+			expectlyAny({ card: "4111", iban: "NL00" }).toMatchJsonSchema(schema);
+		});
+		expect(twoMatches.message).toContain("but it matched oneOf[0], oneOf[1]");
+
+		expectlyAny("x").not.toMatchJsonSchema({ anyOf: [{ type: "number" }, { type: "boolean" }] });
+	});
+
+	test("should support formats", () => {
+		const schema: JsonSchema = {
+			type: "object",
+			properties: {
+				createdAt: { format: "date-time" },
+				day: { format: "date" },
+				id: { format: "uuid" },
+				ip: { format: "ipv4" },
+				site: { format: "uri" },
+			},
+		};
+
+		expectlyAny({
+			createdAt: "2024-01-31T10:00:00Z",
+			day: "2024-02-29",
+			id: "123e4567-e89b-42d3-a456-426614174000",
+			ip: "192.168.0.1",
+			site: "https://example.com",
+		}).toMatchJsonSchema(schema);
+		expectlyAny({ day: "2023-02-29" }).not.toMatchJsonSchema(schema);
+		expectlyAny({ ip: "256.1.1.1" }).not.toMatchJsonSchema(schema);
+	});
+
+	test("should report out-of-range dates as format violations", () => {
+		const error = getRejectedErrorSync(() => {
+			expectlyAny({ day: "2024-13-01" }).toMatchJsonSchema({ properties: { day: { format: "date" } } });
+		});
+		expect(error.message).toContain('- /day: Expected format "date", received "2024-13-01"');
+		expectlyAny("2024-99-99").not.toMatchJsonSchema({ format: "date" });
+	});
+
+	test("should escape JSON pointer segments", () => {
+		const error = getRejectedErrorSync(() => {
+			expectlyAny({ "a/b": { "c~d": 1 } }).toMatchJsonSchema({
+				properties: { "a/b": { properties: { "c~d": { type: "string" } } } },
+			});
+		});
+		expect(error.message).toContain("- /a~1b/c~0d: Expected type");
+	});
+
+	test("should throw for unresolvable or remote $ref", () => {
+		expect(() => expectlyAny({}).toMatchJsonSchema({ $ref: "#/$defs/missing" })).toThrow(
+			'cannot resolve $ref "#/$defs/missing"',
+		);
+		expect(() => expectlyAny({}).toMatchJsonSchema({ $ref: "https://example.com/schema.json" })).toThrow(
+			"only local $ref values are supported",
+		);
+	});
+
+	test("should fail with .not when the value matches", () => {
+		const error = getRejectedErrorSync(() => {
+			expectlyAny({ id: 1 }).not.toMatchJsonSchema({ type: "object" });
+		});
+		expect(error.message).toContain("Expected value to not match the JSON Schema");
+	});
+});
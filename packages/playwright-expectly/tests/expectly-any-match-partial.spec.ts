@@ -940,3 +940,226 @@ test.describe("toEqualPartially array error rendering", () => {
 		expect(error.message.indexOf("First failing path:")).toBeLessThan(error.message.indexOf("Closest actual[0]"));
 	});
 });
+
+test.describe("toEqualPartially value comparison", () => {
+	const order = {
+		id: "ord-1",
+		status: "SHIPPED",
+		createdAt: "2024-01-31T10:00:00.000Z",
+		total: 30.000000000000004,
+		items: [
+			{ sku: "a", price: 9.999, qty: 1 },
+			{ sku: "b", price: 20.004, qty: 2 },
+		],
+	};
+
+	test("should use per-path comparators with array wildcards", () => {
+		expectlyAny(order).toEqualPartially(
+			{ items: [{ sku: "b", price: 20 }, { price: 10 }] },
+			{ comparators: { "items[*].price": (a: number, e: number) => Math.abs(a - e) < 0.01 } },
+		);
+		expectlyAny(order).not.toEqualPartially(
+			{ items: [{ price: 21 }] },
+			{ comparators: { "items[*].price": (a: number, e: number) => Math.abs(a - e) < 0.01 } },
+		);
+	});
+
+	test("should let a comparator decide at its path only", () => {
+		const options = { comparators: { "$.status": (a: string, e: string): boolean => a.startsWith(e) } };
+
+		expectlyAny(order).toEqualPartially({ status: "SHIP" }, options);
+		expectlyAny(order).not.toEqualPartially({ status: "SHIP", id: "ord" }, options);
+	});
+
+	test("should apply a numeric tolerance", () => {
+		expectlyAny(order).toEqualPartially({ total: 30, items: [{ price: 10 }] }, { numericTolerance: 0.005 });
+		expectlyAny(order).not.toEqualPartially({ items: [{ price: 10.1 }] }, { numericTolerance: 0.005 });
+	});
+
+	test("should compare strings case-insensitively", () => {
+		expectlyAny(order).toEqualPartially({ status: "shipped", items: [{ sku: "A" }] }, { ignoreCase: true });
+		expectlyAny(order).not.toEqualPartially({ status: "shipped" });
+	});
+
+	test("should treat Dates and ISO strings for the same instant as equal", () => {
+		expectlyAny(order).toEqualPartially({ createdAt: new Date("2024-01-31T10:00:00Z") }, { dateEquivalence: true });
+		expectlyAny({ at: new Date("2024-01-31T10:00:00Z") }).toEqualPartially(
+			{ at: "2024-01-31T11:00:00+01:00" },
+			{ dateEquivalence: true },
+		);
+		expectlyAny(order).not.toEqualPartially({ createdAt: new Date("2024-01-31T10:00:01Z") }, { dateEquivalence: true });
+		expectlyAny(order).not.toEqualPartially({ createdAt: new Date("2024-01-31T10:00:00Z") });
+	});
+
+	test("should combine ignoreCase and dateEquivalence for strings", () => {
+		const options = { ignoreCase: true, dateEquivalence: true };
+
+		expectlyAny({ at: "2024-01-01T00:00:00Z", status: "SHIPPED" }).toEqualPartially(
+			{ at: "2024-01-01T00:00:00.000Z", status: "shipped" },
+			options,
+		);
+		expectlyAny({ at: "2024-01-01T00:00:00Z" }).not.toEqualPartially({ at: "2024-01-01T00:00:01.000Z" }, options);
+	});
+
+	test("should only report values that differ after comparison", () => {
+		const error = getRejectedErrorSync(() => {
+			expectlyAny(order).toEqualPartially(
+				{ status: "shipped", total: 31 },
+				{ ignoreCase: true, numericTolerance: 0.5 },
+			);
+		});
+
+		expect(error.message).toContain("31");
+		expect(error.message).not.toMatch(/-\s+"status"/);
+	});
+
+	test("should reject invalid value comparison options", () => {
+		expect(() => {
+			expectlyAny(order).toEqualPartially({}, { numericTolerance: -1 });
+		}).toThrow(/numericTolerance/);
+		expect(() => {
+			expectlyAny(order).toEqualPartially({}, { comparators: { "items[": () => true } });
+		}).toThrow(/Invalid path pattern: "items\["/);
+	});
+});
+
+test.describe("toEqualPartially ignorePaths and strictKeys", () => {
+	const payload = {
+		requestId: "req-9f2",
+		updatedAt: "2024-05-01T12:00:00Z",
+		user: { id: "u-1", name: "Alice", meta: { requestId: "req-1a0" } },
+		items: [
+			{ id: "gen-71", sku: "A-1", qty: 2 },
+			{ id: "gen-72", sku: "B-2", qty: 1 },
+		],
+	};
+
+	const fixture = {
+		requestId: "req-fixture",
+		user: { name: "Alice", meta: { requestId: "req-fixture" } },
+		items: [
+			{ id: "fixture-1", sku: "B-2", qty: 1 },
+			{ id: "fixture-2", sku: "A-1", qty: 2 },
+		],
+	};
+
+	test("should skip ignored paths at any depth", () => {
+		expectlyAny(payload).not.toEqualPartially(fixture);
+		expectlyAny(payload).toEqualPartially(fixture, { ignorePaths: ["**.requestId", "items[*].id"] });
+	});
+
+	test("should accept ignored keys that are missing from actual", () => {
+		expectlyAny({ name: "Alice" }).toEqualPartially(
+			{ name: "Alice", updatedAt: "2024-01-01" },
+			{ ignorePaths: ["updatedAt"] },
+		);
+	});
+
+	test("should fail on unexpected keys with strictKeys", () => {
+		expectlyAny(payload.user).toEqualPartially({ id: "u-1", name: "Alice", meta: {} }, { strictKeys: ["$"] });
+
+		const error = getRejectedErrorSync(() => {
+			expectlyAny(payload.user).toEqualPartially({ name: "Alice" }, { strictKeys: true });
+		});
+		expect(error.message).toContain("Strict keys: **");
+		expect(error.message).toContain('"id": "u-1"');
+	});
+
+	test("should fail when an unexpected key is undefined", () => {
+		expectlyAny({ id: 1, extra: undefined }).not.toEqualPartially({ id: 1 }, { strictKeys: true });
+	});
+
+	test("should only check the selected strict key paths", () => {
+		const expected = { user: { id: "u-1", name: "Alice", meta: { requestId: "req-1a0" } } };
+
+		expectlyAny(payload).toEqualPartially(expected, { strictKeys: ["user"] });
+		expectlyAny(payload).not.toEqualPartially(expected, { strictKeys: ["$"] });
+		expectlyAny(payload).toEqualPartially(expected, {
+			strictKeys: ["$"],
+			ignorePaths: ["requestId", "updatedAt", "items"],
+		});
+	});
+
+	test("should report strict key failures in array items in the failure route", () => {
+		const error = getRejectedErrorSync(() => {
+			expectlyAny(payload).toEqualPartially(
+				{ items: [{ sku: "A-1", qty: 2 }] },
+				{ strictKeys: ["items[*]"], ignorePaths: ["**.requestId"] },
+			);
+		});
+
+		expect(error.message).toContain("First failing path: $.items[0].id");
+		expect(error.message).toContain("Ignored paths: **.requestId");
+		expect(error.message).toContain("Strict keys: items[*]");
+		expect(error.message).toContain('Unexpected keys at $.items[0]: "id" (strictKeys).');
+	});
+
+	test("should reject invalid ignorePaths and strictKeys", () => {
+		expect(() => {
+			expectlyAny(payload).toEqualPartially({}, { ignorePaths: "requestId" } as unknown as PartialMatchOptions);
+		}).toThrow(/ignorePaths/);
+		expect(() => {
+			expectlyAny(payload).toEqualPartially({}, { strictKeys: ["items[x"] });
+		}).toThrow(/Invalid path pattern: "items\[x" in "strictKeys"/);
+	});
+});
+
+test.describe("toEqualPartially per-path array modes", () => {
+	const ticket = {
+		tags: ["urgent", "billing", "vip"],
+		events: [
+			{ type: "created", at: 1 },
+			{ type: "assigned", at: 2 },
+			{ type: "commented", at: 3 },
+			{ type: "resolved", at: 4 },
+		],
+	};
+
+	test("should match ordered subsets with gaps", () => {
+		expectlyAny(ticket.events).toEqualPartially([{ type: "created" }, { type: "resolved" }], {
+			arrayMode: "orderedSubset",
+		});
+		expectlyAny(ticket.events).not.toEqualPartially([{ type: "resolved" }, { type: "created" }], {
+			arrayMode: "orderedSubset",
+		});
+	});
+
+	test("should report ordered subset items that appear out of order", () => {
+		const error = getRejectedErrorSync(() => {
+			expectlyAny(ticket).toEqualPartially(
+				{ events: [{ type: "commented" }, { type: "assigned" }] },
+				{ arrayMode: { events: "orderedSubset" } },
+			);
+		});
+
+		expect(error.message).toContain("// partial match (events: orderedSubset)");
+		expect(error.message).toContain("Failing array: $.events (ArrayMatchMode: orderedSubset)");
+		expect(error.message).toContain(
+			"Order mismatch at $.events[1]: expected item matches actual[1], before the previous expected item's match at actual[2].",
+		);
+	});
+
+	test("should apply modes by path and default other arrays to subset", () => {
+		const expected = {
+			tags: ["vip", "urgent"],
+			events: [{ type: "created" }, { type: "commented" }],
+		};
+
+		expectlyAny(ticket).toEqualPartially(expected, { arrayMode: { events: "orderedSubset" } });
+		expectlyAny(ticket).not.toEqualPartially(expected, { arrayMode: { tags: "exactOrder" } });
+		expectlyAny(ticket).not.toEqualPartially(expected, { arrayMode: { "**": "exactLength" } });
+	});
+
+	test("should use the first matching path", () => {
+		const expected = { events: [{ type: "assigned" }, { type: "created" }] };
+
+		expectlyAny(ticket).toEqualPartially(expected, { arrayMode: { events: "subset", "**": "orderedSubset" } });
+		expectlyAny(ticket).not.toEqualPartially(expected, { arrayMode: { "**": "orderedSubset", events: "subset" } });
+	});
+
+	test("should reject invalid array mode maps", () => {
+		expect(() => {
+			expectlyAny(ticket).toEqualPartially({}, { arrayMode: { events: "sorted" } } as unknown as PartialMatchOptions);
+		}).toThrow('arrayMode for "events" must be one of: subset, exactLength, exactOrder, orderedSubset.');
+	});
+});
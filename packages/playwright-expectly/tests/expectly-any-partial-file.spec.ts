@@ -0,0 +1,149 @@
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
+
+import { expect, test } from "@playwright/test";
+import type { TestInfo } from "@playwright/test";
+
+import { getRejectedErrorSync } from "../../../tests/common/assertion-utils";
+import { expectlyAny } from "../src/expectly-any";
+
+const user = {
+	id: 7,
+	name: "Alice",
+	address: { city: "Utrecht", zip: "3511AB" },
+	roles: ["member", "admin"],
+};
+
+function withUpdateSnapshots(testInfo: TestInfo, mode: TestInfo["config"]["updateSnapshots"], run: () => void): void {
+	const previous = testInfo.config.updateSnapshots;
+	testInfo.config.updateSnapshots = mode;
+	try {
+		run();
+	} finally {
+		testInfo.config.updateSnapshots = previous;
+	}
+}
+
+test.describe("toEqualPartiallyFile", () => {
+	test("should load the fixture relative to the test file", () => {
+		expectlyAny(user).toEqualPartiallyFile("data/partial-user.json");
+		expectlyAny({ ...user, name: "Bob" }).not.toEqualPartiallyFile("data/partial-user.json");
+	});
+
+	test("should pass options to the partial match", () => {
+		expectlyAny({ ...user, name: "ALICE" }).toEqualPartiallyFile("data/partial-user.json", { ignoreCase: true });
+	});
+
+	test("should fail with the fixture path and an update hint", () => {
+		const testInfo = test.info();
+		withUpdateSnapshots(testInfo, "none", () => {
+			const error = getRejectedErrorSync(() => {
+				expectlyAny({ ...user, address: { city: "Delft" } }).toEqualPartiallyFile("data/partial-user.json");
+			});
+
+			expect(error.message).toContain("Received partial:");
+			expect(error.message).toContain(`Fixture: ${testInfo.file.replace(/[^/\\]+$/, "")}data`);
+			expect(error.message).toContain("Run with --update-snapshots");
+		});
+	});
+
+	test("should create a missing fixture and fail once", () => {
+		const testInfo = test.info();
+		const fixturePath = testInfo.outputPath("created.json");
+
+		withUpdateSnapshots(testInfo, "missing", () => {
+			const error = getRejectedErrorSync(() => {
+				expectlyAny({ name: "Alice" }).toEqualPartiallyFile(fixturePath);
+			});
+			expect(error.message).toContain("does not exist, writing the received value.");
+		});
+
+		expect(readFileSync(fixturePath, "utf8")).toBe('{\n\t"name": "Alice"\n}\n');
+		expectlyAny({ name: "Alice", id: 1 }).toEqualPartiallyFile(fixturePath);
+	});
+
+	for (const mode of ["changed", "all"] as const) {
+		test(`should create a missing fixture and pass with --update-snapshots=${mode}`, () => {
+			const testInfo = test.info();
+			const fixturePath = testInfo.outputPath("created.json");
+
+			withUpdateSnapshots(testInfo, mode, () => {
+				expectlyAny({ name: "Alice" }).toEqualPartiallyFile(fixturePath);
+			});
+
+			expect(readFileSync(fixturePath, "utf8")).toBe('{\n\t"name": "Alice"\n}\n');
+			expectlyAny({ name: "Alice", id: 1 }).toEqualPartiallyFile(fixturePath);
+		});
+	}
+
+	test("should not create a missing fixture with .not", () => {
+		const testInfo = test.info();
+		const fixturePath = testInfo.outputPath("absent.json");
+
+		withUpdateSnapshots(testInfo, "all", () => {
+			const error = getRejectedErrorSync(() => {
+				expectlyAny({}).not.toEqualPartiallyFile(fixturePath);
+			});
+			expect(error.message).toContain("does not exist.");
+		});
+		expect(existsSync(fixturePath)).toBe(false);
+	});
+
+	test("should not create a missing fixture when updates are disabled", () => {
+		const testInfo = test.info();
+		withUpdateSnapshots(testInfo, "none", () => {
+			const error = getRejectedErrorSync(() => {
+				expectlyAny({}).toEqualPartiallyFile(testInfo.outputPath("absent.json"));
+			});
+			expect(error.message).toContain("does not exist.");
+		});
+		expect(existsSync(testInfo.outputPath("absent.json"))).toBe(false);
+	});
+
+	test("should write the matching subset back with --update-snapshots=changed", () => {
+		const testInfo = test.info();
+		const fixturePath = testInfo.outputPath("user.json");
+		writeFileSync(fixturePath, JSON.stringify({ name: "Alice", address: { city: "Delft" } }, null, 2));
+
+		withUpdateSnapshots(testInfo, "changed", () => {
+			expectlyAny(user).toEqualPartiallyFile(fixturePath);
+		});
+
+		expect(JSON.parse(readFileSync(fixturePath, "utf8"))).toEqual({ name: "Alice", address: { city: "Utrecht" } });
+		expect(readFileSync(fixturePath, "utf8")).toContain('\n  "name"');
+		expectlyAny(user).toEqualPartiallyFile(fixturePath);
+	});
+
+	test("should only update mismatching fixtures unless the mode is all", () => {
+		const testInfo = test.info();
+		const fixturePath = testInfo.outputPath("roles.json");
+		const original = '{ "roles": [{ "name": "admin" }] }';
+		writeFileSync(fixturePath, original);
+		const actual = { roles: [{ name: "member" }, { name: "admin", level: 2 }] };
+
+		withUpdateSnapshots(testInfo, "missing", () => {
+			expect(() => expectlyAny({ roles: [] }).toEqualPartiallyFile(fixturePath)).toThrow();
+		});
+		withUpdateSnapshots(testInfo, "changed", () => {
+			expectlyAny(actual).toEqualPartiallyFile(fixturePath);
+		});
+		expect(readFileSync(fixturePath, "utf8")).toBe(original);
+
+		withUpdateSnapshots(testInfo, "all", () => {
+			expectlyAny(actual).toEqualPartiallyFile(fixturePath);
+		});
+		expect(readFileSync(fixturePath, "utf8")).not.toBe(original);
+	});
+
+	test("should fail when the fixture is not valid JSON", () => {
+		const testInfo = test.info();
+		const fixturePath = testInfo.outputPath("broken.json");
+		writeFileSync(fixturePath, "{ name: Alice }");
+
+		withUpdateSnapshots(testInfo, "all", () => {
+			const error = getRejectedErrorSync(() => {
+				expectlyAny(user).toEqualPartiallyFile(fixturePath);
+			});
+			expect(error.message).toContain("is not valid JSON");
+		});
+	});
+});
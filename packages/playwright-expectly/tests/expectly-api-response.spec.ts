@@ -0,0 +1,228 @@
+import { createServer } from "node:http";
+import type { Server } from "node:http";
+import type { AddressInfo } from "node:net";
+
+import { expect, test } from "@playwright/test";
+
+import { getRejectedError } from "../../../tests/common/assertion-utils";
+import { expectly } from "../src/expectly";
+import { expectlyApiResponse, trackApiRequests } from "../src/expectly-api-response";
+
+const users = {
+	data: [
+		{ id: 1, name: "Alice", role: "admin" },
+		{ id: 2, name: "Bob", role: "member" },
+	],
+	total: 2,
+};
+
+let server: Server;
+let baseURL: string;
+
+test.beforeAll(async () => {
+	server = createServer((req, res) => {
+		if (req.url === "/users") {
+			res.writeHead(200, { "Content-Type": "application/json; charset=utf-8", "X-Request-Id": "req-42" });
+			res.end(JSON.stringify(users));
+			return;
+		}
+		if (req.url === "/slow") {
+			setTimeout(() => {
+				res.writeHead(200, { "Content-Type": "application/json" });
+				res.end("{}");
+			}, 300);
+			return;
+		}
+		if (req.url === "/html") {
+			res.writeHead(200, { "Content-Type": "text/html" });
+			res.end(`<html><body>${"x".repeat(2000)}</body></html>`);
+			return;
+		}
+		res.writeHead(404, { "Content-Type": "application/json" });
+		res.end(JSON.stringify({ error: "Not found" }));
+	});
+	await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+	baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+test.afterAll(async () => {
+	await new Promise((resolve) => server.close(resolve));
+});
+
+test.describe("toHaveStatusInRange", () => {
+	test("should accept status classes and numeric ranges", async ({ request }) => {
+		const ok = await request.get(`${baseURL}/users`);
+		const missing = await request.get(`${baseURL}/missing`);
+
+		await expectlyApiResponse(ok).toHaveStatusInRange("2xx");
+		await expectlyApiResponse(ok).toHaveStatusInRange(200, 204);
+		await expectlyApiResponse(missing).toHaveStatusInRange("4xx");
+		await expectlyApiResponse(missing).not.toHaveStatusInRange("2xx");
+	});
+
+	test("should fail with the request URL and the response body", async ({ request }) => {
+		const response = await request.get(`${baseURL}/missing`);
+		const error = await getRejectedError(expectlyApiResponse(response).toHaveStatusInRange(200, 299));
+
+		expect(error.message).toContain("Received status:");
+		expect(error.message).toContain(`Request: ${baseURL}/missing`);
+		expect(error.message).toContain("Response: 404 Not Found");
+		expect(error.message).toContain('Body: {"error":"Not found"}');
+	});
+
+	test("should throw for an invalid range", async ({ request }) => {
+		const response = await request.get(`${baseURL}/users`);
+		await expect(expectlyApiResponse(response).toHaveStatusInRange(300, 200)).rejects.toThrow(
+			"toHaveStatusInRange: expected a status class",
+		);
+	});
+});
+
+test.describe("toBeSuccessful", () => {
+	test("should pass for 2xx and fail otherwise", async ({ request }) => {
+		await expectlyApiResponse(await request.get(`${baseURL}/users`)).toBeSuccessful();
+
+		const error = await getRejectedError(expectlyApiResponse(await request.get(`${baseURL}/missing`)).toBeSuccessful());
+		expect(error.message).toContain("Expected response to be successful (2xx)");
+	});
+});
+
+test.describe("toHaveHeader", () => {
+	test("should match header presence and values case-insensitively by name", async ({ request }) => {
+		const response = await request.get(`${baseURL}/users`);
+
+		await expectlyApiResponse(response).toHaveHeader("X-Request-Id");
+		await expectlyApiResponse(response).toHaveHeader("x-request-id", "req-42");
+		await expectlyApiResponse(response).toHaveHeader("X-REQUEST-ID", /^req-\d+$/);
+		await expectlyApiResponse(response).not.toHaveHeader("x-missing");
+	});
+
+	test("should list the received headers when the header is missing", async ({ request }) => {
+		const response = await request.get(`${baseURL}/users`);
+		const error = await getRejectedError(expectlyApiResponse(response).toHaveHeader("ETag"));
+
+		expect(error.message).toContain("to be present");
+		expect(error.message).toMatch(/Received headers: .*x-request-id/);
+	});
+});
+
+test.describe("toHaveContentType", () => {
+	test("should compare the media type and ignore parameters", async ({ request }) => {
+		const response = await request.get(`${baseURL}/users`);
+
+		await expectlyApiResponse(response).toHaveContentType("application/json");
+		await expectlyApiResponse(response).toHaveContentType(/charset=utf-8/);
+		await expectlyApiResponse(response).not.toHaveContentType("text/html");
+	});
+
+	test("should truncate long bodies in the failure message", async ({ request }) => {
+		const response = await request.get(`${baseURL}/html`);
+		const error = await getRejectedError(expectlyApiResponse(response).toHaveContentType("application/json"));
+
+		expect(error.message).toContain("(truncated, 2026 characters total)");
+	});
+});
+
+test.describe("toHaveJsonBody", () => {
+	test("should partially match the JSON body", async ({ request }) => {
+		const response = await request.get(`${baseURL}/users`);
+
+		await expectlyApiResponse(response).toHaveJsonBody({ data: [{ name: "Bob" }], total: 2 });
+		await expectlyApiResponse(response).toHaveJsonBody({ data: [{ id: expect.any(Number) }, { role: "admin" }] });
+		await expectlyApiResponse(response).not.toHaveJsonBody(
+			{ data: [{ name: "Bob" }, { name: "Alice" }] },
+			{ arrayMode: "exactOrder" },
+		);
+	});
+
+	test("should fail with the partial match diff and the response", async ({ request }) => {
+		const response = await request.get(`${baseURL}/users`);
+		const error = await getRejectedError(expectlyApiResponse(response).toHaveJsonBody({ total: 3 }));
+
+		expect(error.message).toContain("toHaveJsonBody");
+		expect(error.message).toContain("- Expected");
+		expect(error.message).toContain(`Request: ${baseURL}/users`);
+	});
+
+	test("should fail when the body is not JSON", async ({ request }) => {
+		const response = await request.get(`${baseURL}/html`);
+		const error = await getRejectedError(expectlyApiResponse(response).toHaveJsonBody({}));
+
+		expect(error.message).toContain("Expected response body to be JSON, but it could not be parsed");
+	});
+});
+
+test.describe("page responses", () => {
+	test("should include the request method", async ({ page }) => {
+		await page.route("**/api/orders", (route) =>
+			route.fulfill({ status: 500, contentType: "application/json", body: '{"error":"boom"}' }),
+		);
+		await page.route("https://example.test/", (route) =>
+			route.fulfill({ contentType: "text/html", body: "<p>orders</p>" }),
+		);
+		await page.goto("https://example.test/");
+		const [response] = await Promise.all([
+			page.waitForResponse("**/api/orders"),
+			page.evaluate(async () => fetch("/api/orders", { method: "POST" }).then(() => undefined)),
+		]);
+
+		const error = await getRejectedError(expectly(response).toBeSuccessful());
+		expect(error.message).toContain("Request: POST https://example.test/api/orders");
+		expect(error.message).toContain("Response: 500");
+	});
+});
+
+test.describe("tracked API requests", () => {
+	test("should include the request method", async ({ request }) => {
+		const api = trackApiRequests(request);
+
+		const deleted = await getRejectedError(
+			expectlyApiResponse(await api.delete(`${baseURL}/missing`)).toBeSuccessful(),
+		);
+		expect(deleted.message).toContain(`Request: DELETE ${baseURL}/missing`);
+
+		const fetched = await getRejectedError(
+			expectlyApiResponse(await api.fetch(`${baseURL}/missing`, { method: "patch" })).toBeSuccessful(),
+		);
+		expect(fetched.message).toContain(`Request: PATCH ${baseURL}/missing`);
+	});
+});
+
+test.describe("toRespondWithin", () => {
+	test("should compare the duration of tracked requests", async ({ request }) => {
+		const api = trackApiRequests(request);
+		const response = await api.get(`${baseURL}/slow`);
+
+		await expectlyApiResponse(response).toRespondWithin(30_000);
+		await expectlyApiResponse(response).toRespondWithin("30s");
+		await expectlyApiResponse(response).not.toRespondWithin(200);
+
+		const error = await getRejectedError(expectlyApiResponse(response).toRespondWithin({ seconds: 0.2 }));
+		expect(error.message).toContain("Expected response time to be at most:");
+		expect(error.message).toContain('"200ms"');
+		expect(error.message).toMatch(/Received response time: .*"\d+ms"/);
+		expect(error.message).toContain(`Request: GET ${baseURL}/slow`);
+	});
+
+	test("should use the resource timing of page responses", async ({ page }) => {
+		const response = await page.goto(`${baseURL}/users`);
+
+		await expectly(response).toRespondWithin(30_000);
+		await expectly(response).not.toRespondWithin(0);
+	});
+
+	test("should throw for untracked API responses and invalid durations", async ({ request }) => {
+		const response = await request.get(`${baseURL}/users`);
+		await expect(expectlyApiResponse(response).toRespondWithin(500)).rejects.toThrow(
+			"toRespondWithin: the response time of an APIResponse is only known for requests made through trackApiRequests(request)",
+		);
+
+		const tracked = await trackApiRequests(request).get(`${baseURL}/users`);
+		await expect(expectlyApiResponse(tracked).toRespondWithin(-1)).rejects.toThrow(
+			"toRespondWithin: maximum duration must be a non-negative number of milliseconds",
+		);
+		await expect(expectlyApiResponse(tracked).toRespondWithin("soon")).rejects.toThrow(
+			'Invalid maximum duration: "soon"',
+		);
+	});
+});
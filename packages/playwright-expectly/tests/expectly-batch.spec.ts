@@ -0,0 +1,107 @@
+import { test } from "@playwright/test";
+
+import { getRejectedError } from "../../../tests/common/assertion-utils";
+import { expectly } from "../src/expectly";
+import { createExpectlyBatch } from "../src/expectly-batch";
+
+import { expect } from "./fixtures";
+
+test.describe("expectly.all", () => {
+	test("should pass when every assertion passes", async ({ page }) => {
+		await page.setContent('<a id="docs" href="/docs">Docs</a>');
+
+		await expectly.all(async (e) => {
+			e([40, 60]).toHaveSum(100);
+			e("hello").toStartWith("he");
+			await e(page.locator("#docs")).toHaveHref("/docs");
+		});
+	});
+
+	test("should collect synchronous failures and throw once with a numbered report", async () => {
+		const error = await getRejectedError(
+			expectly.all((e) => {
+				e([40, 50]).toHaveSum(100);
+				e("hello").toStartWith("he");
+				e(["b", "a"]).toHaveAscendingOrder();
+			}),
+		);
+
+		expect(error.message).toMatch(/^2 of 3 expectly assertions failed:/);
+		expect(error.message).toContain("1) ");
+		expect(error.message).toContain("toHaveSum");
+		expect(error.message).toContain("3) ");
+		expect(error.message).toContain("toHaveAscendingOrder");
+		expect(error.message).not.toContain("2) ");
+	});
+
+	test("should collect polled locator failures, including ones that are not awaited", async ({ page }) => {
+		await page.setContent('<a id="docs" href="/docs">Docs</a><div id="email">not-an-email</div>');
+
+		const error = await getRejectedError(
+			expectly.all((e) => {
+				void e(page.locator("#docs")).toHaveHref("/guide", { timeout: 300 });
+				void e(page.locator("#email")).toBeValidEmail({ timeout: 300 });
+				e([1, 2]).toHaveSum(3);
+			}),
+		);
+
+		expect(error.message).toMatch(/^2 of 3 expectly assertions failed:/);
+		expect(error.message).toContain("toHaveHref");
+		expect(error.message).toContain("toBeValidEmail");
+		expect(error.message.indexOf("1) ")).toBeLessThan(error.message.indexOf("2) "));
+	});
+
+	test("should record failures of negated assertions", async () => {
+		const error = await getRejectedError(
+			expectly.all((e) => {
+				e([1, 2, 3]).not.toHaveSum(6);
+			}),
+		);
+
+		expect(error.message).toMatch(/^1 of 1 expectly assertion failed:/);
+		expect(error.message).toContain("Expected sum to not equal");
+	});
+
+	test("should keep the custom message of each assertion", async () => {
+		const error = await getRejectedError(
+			expectly.all((e) => {
+				e("", "Email field").toBeValidEmail();
+				e("", "Website field").toBeValidUrl();
+			}),
+		);
+
+		expect(error.message).toContain("Email field");
+		expect(error.message).toContain("Website field");
+	});
+
+	test("should report an error thrown by the callback after the collected failures", async () => {
+		const error = await getRejectedError(
+			expectly.all((e) => {
+				e([1]).toHaveSum(2);
+				throw new Error("form could not be loaded");
+			}),
+		);
+
+		expect(error.message).toMatch(/^2 of 2 expectly assertions failed:/);
+		expect(error.message).toMatch(/2\) form could not be loaded/);
+	});
+});
+
+test.describe("createExpectlyBatch", () => {
+	test("should work with a project-level extended expect", async () => {
+		const batch = createExpectlyBatch(expect);
+		batch.expect([3, 1, 2]).toHaveAscendingOrder();
+		batch.expect([1, 2, 3]).toHaveAscendingOrder();
+
+		const failures = await batch.settle();
+		expect(failures.map((failure) => failure.index)).toEqual([1]);
+		await expect(batch.assertAll()).rejects.toThrow(/1 of 2 expectly assertions failed/);
+	});
+
+	test("should wrap expect.poll assertions", async () => {
+		const batch = createExpectlyBatch(expectly);
+		void batch.expect.poll(() => [1, 2], { timeout: 200 }).toHaveSum(4);
+
+		await expect(batch.assertAll()).rejects.toThrow(/1 of 1 expectly assertion failed/);
+	});
+});
@@ -0,0 +1,188 @@
+import { expect, test } from "@playwright/test";
+
+import { getRejectedErrorSync } from "../../../tests/common/assertion-utils";
+import { expectlyDate } from "../src/expectly-date";
+import { addCalendarDuration, formatCalendarDuration, getCalendarDuration } from "../src/matchers/date-arithmetic";
+
+const UTC = { timeZone: "UTC" };
+const AMSTERDAM = { timeZone: "Europe/Amsterdam" };
+
+// Amsterdam moves from UTC+1 to UTC+2 on 2026-03-29 at 02:00
+const BEFORE_DST = new Date("2026-03-28T12:00:00Z");
+const AFTER_DST = new Date("2026-03-29T11:00:00Z");
+
+test.describe("calendar arithmetic", () => {
+	test("should keep the time of day when adding days across a DST change", () => {
+		expect(addCalendarDuration(BEFORE_DST, { days: 1 }, "Europe/Amsterdam")).toEqual(AFTER_DST);
+		expect(addCalendarDuration(AFTER_DST, { days: 1 }, "Europe/Amsterdam", -1)).toEqual(BEFORE_DST);
+		expect(addCalendarDuration(BEFORE_DST, { hours: 24 }, "Europe/Amsterdam")).toEqual(
+			new Date("2026-03-29T12:00:00Z"),
+		);
+	});
+
+	test("should clamp the day to the length of the target month", () => {
+		const january31 = new Date("2026-01-31T09:00:00Z");
+
+		expect(addCalendarDuration(january31, { months: 1 }, "UTC")).toEqual(new Date("2026-02-28T09:00:00Z"));
+		expect(addCalendarDuration(new Date("2024-02-29T09:00:00Z"), { years: 1 }, "UTC")).toEqual(
+			new Date("2025-02-28T09:00:00Z"),
+		);
+		expect(addCalendarDuration(january31, { months: 1, days: 1 }, "UTC")).toEqual(new Date("2026-03-01T09:00:00Z"));
+	});
+
+	test("should get and format the calendar duration between two dates", () => {
+		const duration = getCalendarDuration(new Date("2025-01-31T08:00:00Z"), new Date("2026-03-02T10:30:00Z"), "UTC");
+
+		expect(duration).toEqual({ years: 1, months: 1, days: 2, hours: 2, minutes: 30, seconds: 0 });
+		expect(formatCalendarDuration(duration)).toBe("1y 1mo 2d 2h 30m");
+		expect(formatCalendarDuration(getCalendarDuration(BEFORE_DST, AFTER_DST, "Europe/Amsterdam"))).toBe("1d");
+		expect(formatCalendarDuration({})).toBe("0s");
+	});
+
+	test("should add a fraction of a day as exact hours", () => {
+		expect(addCalendarDuration(BEFORE_DST, { days: 0.5 }, "Europe/Amsterdam")).toEqual(
+			new Date("2026-03-29T00:00:00Z"),
+		);
+		expect(addCalendarDuration(BEFORE_DST, { days: 1.5 }, "Europe/Amsterdam", -1)).toEqual(
+			new Date("2026-03-27T00:00:00Z"),
+		);
+	});
+
+	test("should reject fractional years and months", () => {
+		expect(() => addCalendarDuration(BEFORE_DST, { months: 1.5 }, "UTC")).toThrow(
+			"Invalid duration: years and months have no fixed length and must be whole numbers, received 1.5mo",
+		);
+	});
+});
+
+test.describe("toBeCloseTo with calendar days", () => {
+	test("should allow one calendar day across a DST change", () => {
+		expectlyDate(AFTER_DST).toBeCloseTo(BEFORE_DST, { days: 1 }, AMSTERDAM);
+		expectlyDate(new Date("2026-03-29T11:30:00Z")).not.toBeCloseTo(BEFORE_DST, { days: 1 }, AMSTERDAM);
+		expectlyDate(new Date("2026-03-29T11:30:00Z")).toBeCloseTo(BEFORE_DST, { days: 1 }, UTC);
+	});
+
+	test("should allow a fraction of a day as exact hours", () => {
+		const base = new Date("2026-10-19T00:00:00Z");
+
+		expectlyDate(new Date("2026-10-19T06:00:00Z")).toBeCloseTo(base, { days: 0.5 });
+		expectlyDate(new Date("2026-10-18T12:00:00Z")).toBeCloseTo(base, { days: 0.5 });
+		expectlyDate(new Date("2026-10-19T12:00:01Z")).not.toBeCloseTo(base, { days: 0.5 });
+	});
+
+	test("should show the allowed range and the time zone", () => {
+		const error = getRejectedErrorSync(() =>
+			expectlyDate("2026-03-29T12:00:01Z").toBeCloseTo(BEFORE_DST, { days: 1 }, AMSTERDAM),
+		);
+
+		expect(error.message).toContain("Allowed deviation: ±1d");
+		expect(error.message).toContain("Allowed range: 2026-03-27T12:00:00.000Z - 2026-03-29T11:00:00.000Z");
+		expect(error.message).toContain("Time zone: Europe/Amsterdam");
+	});
+});
+
+test.describe("toHaveDateRange with calendar months", () => {
+	test("should end a month from January 31 on the last day of February", () => {
+		expectlyDate(["2026-01-31T10:00:00Z", "2026-02-28T18:00:00Z"]).toHaveDateRange({ months: 1 }, UTC);
+		expectlyDate(["2024-01-31T10:00:00Z", "2024-02-29T18:00:00Z"]).toHaveDateRange({ months: 1 }, UTC);
+		expectlyDate(["2026-01-31T10:00:00Z", "2026-03-02T10:00:00Z"]).not.toHaveDateRange({ months: 1 }, UTC);
+	});
+
+	test("should compare calendar days in the time zone", () => {
+		const dates = ["2026-03-28T23:30:00Z", "2026-03-30T21:30:00Z"];
+
+		expectlyDate(dates).toHaveDateRange({ days: 2 }, UTC);
+		expectlyDate(dates).toHaveDateRange({ days: 1 }, AMSTERDAM);
+	});
+
+	test("should show the expected last day and the actual range", () => {
+		const error = getRejectedErrorSync(() =>
+			expectlyDate(["2026-01-31T10:00:00Z", "2026-03-03T12:00:00Z"]).toHaveDateRange({ months: 1 }, UTC),
+		);
+
+		expect(error.message).toContain("(last day 2026-02-28)");
+		expect(error.message).toMatch(/Actual range: .*1mo 3d 2h/);
+		expect(error.message).toContain("Time zone: UTC");
+	});
+});
+
+test.describe("toHaveConsecutiveDates with calendar months", () => {
+	test("should accept month ends that follow the month lengths", () => {
+		expectlyDate(["2026-01-31T10:00:00Z", "2026-02-28T10:00:00Z", "2026-03-28T10:00:00Z"]).toHaveConsecutiveDates(
+			"month",
+			UTC,
+		);
+		expectlyDate(["2026-01-31T10:00:00Z", "2026-03-31T10:00:00Z"]).not.toHaveConsecutiveDates("month", UTC);
+	});
+
+	test("should read days across a DST change in the time zone", () => {
+		expectlyDate(["2026-03-28T23:30:00Z", "2026-03-29T22:30:00Z"]).toHaveConsecutiveDates("day", AMSTERDAM);
+	});
+});
+
+test.describe("toHaveDateGapsLargerThan with calendar units", () => {
+	test("should compare gaps with calendar months", () => {
+		expectlyDate(["2026-02-01T00:00:00Z", "2026-03-01T00:00:01Z"]).toHaveDateGapsLargerThan({ months: 1 }, UTC);
+		expectlyDate(["2026-01-01T00:00:00Z", "2026-01-31T12:00:00Z"]).not.toHaveDateGapsLargerThan({ months: 1 }, UTC);
+	});
+
+	test("should compare gaps with a fraction of a day as exact hours", () => {
+		expectlyDate(["2026-10-19T00:00:00Z", "2026-10-19T06:00:00Z"]).not.toHaveDateGapsLargerThan({ days: 0.5 });
+		expectlyDate(["2026-10-19T00:00:00Z", "2026-10-19T13:00:00Z"]).toHaveDateGapsLargerThan({ days: 0.5 });
+		expectlyDate(["2026-10-19T00:00:00Z", "2026-10-19T06:00:00Z"]).toHaveDateGapsSmallerThan({ days: 0.5 });
+		expectlyDate(["2026-10-19T00:00:00Z", "2026-10-19T13:00:00Z"]).not.toHaveDateGapsSmallerThan({ days: 0.5 });
+	});
+
+	test("should list the gaps as calendar durations", () => {
+		const error = getRejectedErrorSync(() =>
+			expectlyDate(["2026-01-15T00:00:00Z", "2026-03-18T06:00:00Z"]).not.toHaveDateGapsLargerThan({ months: 1 }, UTC),
+		);
+
+		expect(error.message).toContain("Expected dates to not have gaps larger than 1mo");
+		expect(error.message).toContain("2026-01-15T00:00:00.000Z -> 2026-03-18T06:00:00.000Z (2mo 3d 6h)");
+	});
+});
+
+test.describe("toHaveDateGapsSmallerThan", () => {
+	const invoices = ["2026-01-31T09:00:00Z", "2026-02-28T09:00:00Z", "2026-03-31T09:00:00Z"];
+
+	test("should pass when a sorted gap is smaller than the duration", () => {
+		expectlyDate(["2026-10-19T10:00:04Z", "2026-10-19T10:00:00Z", "2026-10-19T11:00:00Z"]).toHaveDateGapsSmallerThan({
+			seconds: 5,
+		});
+		expectlyDate(["2026-10-19T10:00:00Z", "2026-10-19T11:00:00Z"]).not.toHaveDateGapsSmallerThan({ hours: 1 });
+	});
+
+	test("should assert a minimum spacing in calendar months with .not", () => {
+		expectlyDate(invoices).not.toHaveDateGapsSmallerThan({ months: 1 }, UTC);
+		expectlyDate([...invoices, "2026-04-29T09:00:00Z"]).toHaveDateGapsSmallerThan({ months: 1 }, UTC);
+	});
+
+	test("should treat a day across a DST change as one day", () => {
+		const dates = [BEFORE_DST, AFTER_DST];
+
+		expectlyDate(dates).not.toHaveDateGapsSmallerThan({ days: 1 }, AMSTERDAM);
+		expectlyDate(dates).toHaveDateGapsSmallerThan({ days: 1 }, UTC);
+	});
+
+	test("should list the smaller gaps", () => {
+		const error = getRejectedErrorSync(() =>
+			expectlyDate(["2026-10-01T00:00:00Z", "2026-10-20T00:00:00Z"]).not.toHaveDateGapsSmallerThan({ months: 1 }, UTC),
+		);
+
+		expect(error.message).toContain("Expected dates to not have gaps smaller than 1mo");
+		expect(error.message).toContain("2026-10-01T00:00:00.000Z -> 2026-10-20T00:00:00.000Z (19d)");
+	});
+
+	test("should fail when no gap is smaller", () => {
+		const error = getRejectedErrorSync(() => expectlyDate(invoices).toHaveDateGapsSmallerThan({ days: 7 }, UTC));
+
+		expect(error.message).toContain("No gaps smaller than 7d were found");
+	});
+
+	test("should throw for arrays with less than two dates", () => {
+		expect(() => expectlyDate([new Date()]).toHaveDateGapsSmallerThan({ days: 1 })).toThrow(
+			"Array must contain at least two dates",
+		);
+	});
+});
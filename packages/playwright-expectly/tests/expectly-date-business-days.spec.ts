@@ -0,0 +1,150 @@
+import { expect, test } from "@playwright/test";
+
+import { getRejectedErrorSync } from "../../../tests/common/assertion-utils";
+import { expectlyDate } from "../src/expectly-date";
+import { configureExpectlyDates } from "../src/matchers/date-config";
+
+const UTC = { timeZone: "UTC" };
+
+test.describe("toBeBusinessDay", () => {
+	test("should skip Saturday and Sunday by default", () => {
+		expectlyDate("2026-10-16T12:00:00Z").toBeBusinessDay(UTC);
+		expectlyDate("2026-10-17T12:00:00Z").not.toBeBusinessDay(UTC);
+		expectlyDate("2026-10-18T12:00:00Z").not.toBeBusinessDay(UTC);
+	});
+
+	test("should use custom weekend days", () => {
+		const options = { ...UTC, weekend: [5, 6] };
+
+		expectlyDate("2026-10-16T12:00:00Z").not.toBeBusinessDay(options);
+		expectlyDate("2026-10-18T12:00:00Z").toBeBusinessDay(options);
+	});
+
+	test("should accept holidays as calendar days, dates or a predicate", () => {
+		const christmas = "2026-12-25T12:00:00Z";
+
+		expectlyDate(christmas).not.toBeBusinessDay({ ...UTC, holidays: ["2026-12-25"] });
+		expectlyDate(christmas).not.toBeBusinessDay({ ...UTC, holidays: [new Date("2026-12-25T08:00:00Z")] });
+		expectlyDate(christmas).not.toBeBusinessDay({ ...UTC, holidays: (day) => day.endsWith("-12-25") });
+		expectlyDate(christmas).toBeBusinessDay({ ...UTC, holidays: ["2026-12-24"] });
+	});
+
+	test("should fail with the weekday and the reason", () => {
+		const error = getRejectedErrorSync(() =>
+			expectlyDate("2026-12-25T12:00:00Z").toBeBusinessDay({ ...UTC, holidays: ["2026-12-25"] }),
+		);
+
+		expect(error.message).toContain("Expected date to be a business day");
+		expect(error.message).toContain("(Friday, holiday)");
+		expect(error.message).toContain("Weekend: Sunday, Saturday");
+		expect(error.message).toContain("Time zone: UTC");
+	});
+
+	test("should reject invalid weekends", () => {
+		expect(() => expectlyDate(new Date()).toBeBusinessDay({ weekend: [0, 1, 2, 3, 4, 5, 6] })).toThrow(
+			'toBeBusinessDay: "weekend" must be an array of weekdays',
+		);
+		expect(() => expectlyDate(new Date()).toBeBusinessDay({ weekend: [7] })).toThrow(
+			'toBeBusinessDay: "weekend" must be an array of weekdays',
+		);
+	});
+});
+
+test.describe("toBeNBusinessDaysAfter", () => {
+	test("should skip weekends and holidays", () => {
+		const friday = "2026-10-16T09:00:00Z";
+
+		expectlyDate("2026-10-19T17:00:00Z").toBeNBusinessDaysAfter(friday, 1, UTC);
+		expectlyDate("2026-10-21T17:00:00Z").toBeNBusinessDaysAfter(friday, 3, UTC);
+		expectlyDate("2026-10-20T17:00:00Z").toBeNBusinessDaysAfter(friday, 1, { ...UTC, holidays: ["2026-10-19"] });
+		expectlyDate("2026-10-18T17:00:00Z").toBeNBusinessDaysAfter(friday, 1, { ...UTC, weekend: [5, 6] });
+	});
+
+	test("should count backwards for negative numbers", () => {
+		expectlyDate("2026-10-16T09:00:00Z").toBeNBusinessDaysAfter("2026-10-19T09:00:00Z", -1, UTC);
+		expectlyDate("2026-10-16T09:00:00Z").toBeNBusinessDaysAfter("2026-10-16T20:00:00Z", 0, UTC);
+	});
+
+	test("should fail with the expected day and the received business days", () => {
+		const error = getRejectedErrorSync(() =>
+			expectlyDate("2026-10-17T09:00:00Z").toBeNBusinessDaysAfter("2026-10-15T09:00:00Z", 2, UTC),
+		);
+
+		expect(error.message).toContain("Expected date to be 2 business day(s) after the start date");
+		expect(error.message).toMatch(/Expected day: .*2026-10-19/);
+		expect(error.message).toContain("(Saturday, weekend), 1 business day(s) after the start");
+	});
+
+	test("should reject a fractional number of business days", () => {
+		expect(() => expectlyDate(new Date()).toBeNBusinessDaysAfter(new Date(), 1.5)).toThrow(
+			"toBeNBusinessDaysAfter: business days must be an integer, received 1.5",
+		);
+	});
+
+	test("should stop when a holiday predicate leaves no business days", () => {
+		expect(() => expectlyDate(new Date()).toBeNBusinessDaysAfter(new Date(), 1, { holidays: () => true })).toThrow(
+			"No business day within a year",
+		);
+	});
+});
+
+test.describe("toHaveBusinessDayGap", () => {
+	const dailyReports = ["2026-10-15T08:00:00Z", "2026-10-16T08:00:00Z", "2026-10-19T08:00:00Z", "2026-10-20T08:00:00Z"];
+
+	test("should pass when sorted dates are the exact number of business days apart", () => {
+		expectlyDate([...dailyReports].reverse()).toHaveBusinessDayGap(1, UTC);
+		expectlyDate(dailyReports).not.toHaveBusinessDayGap(2, UTC);
+	});
+
+	test("should accept a range", () => {
+		const payments = ["2026-10-12T08:00:00Z", "2026-10-14T08:00:00Z", "2026-10-19T08:00:00Z"];
+
+		expectlyDate(payments).toHaveBusinessDayGap({ min: 2 }, UTC);
+		expectlyDate(payments).toHaveBusinessDayGap({ min: 2, max: 3 }, UTC);
+		expectlyDate(payments).not.toHaveBusinessDayGap({ max: 2 }, UTC);
+	});
+
+	test("should skip holidays", () => {
+		const reports = ["2026-12-24T08:00:00Z", "2026-12-28T08:00:00Z"];
+
+		expectlyDate(reports).toHaveBusinessDayGap(1, { ...UTC, holidays: ["2026-12-25"] });
+		expectlyDate(reports).not.toHaveBusinessDayGap(1, UTC);
+	});
+
+	test("should list the gaps outside the range", () => {
+		const error = getRejectedErrorSync(() =>
+			expectlyDate(["2026-10-15T08:00:00Z", "2026-10-20T08:00:00Z"]).toHaveBusinessDayGap(1, UTC),
+		);
+
+		expect(error.message).toContain("Expected dates to be exactly 1 business day(s) apart");
+		expect(error.message).toContain("2026-10-15T08:00:00.000Z -> 2026-10-20T08:00:00.000Z (3 business day(s))");
+	});
+
+	test("should reject invalid gaps and arrays with less than two dates", () => {
+		expect(() => expectlyDate(dailyReports).toHaveBusinessDayGap({ min: 3, max: 1 })).toThrow(
+			"toHaveBusinessDayGap: gap must be a non-negative integer or { min, max } with min <= max",
+		);
+		expect(() => expectlyDate([new Date()]).toHaveBusinessDayGap(1)).toThrow("Array must contain at least two dates");
+	});
+});
+
+test.describe("configureExpectlyDates business days", () => {
+	test.afterEach(() => {
+		configureExpectlyDates({ holidays: undefined, weekend: undefined });
+	});
+
+	test("should use the configured holidays and weekend", () => {
+		configureExpectlyDates({ holidays: ["2026-12-25"], weekend: [0] });
+
+		expectlyDate("2026-12-25T12:00:00Z").not.toBeBusinessDay(UTC);
+		expectlyDate("2026-12-26T12:00:00Z").toBeBusinessDay(UTC);
+		expectlyDate("2026-12-26T12:00:00Z").not.toBeBusinessDay({ ...UTC, weekend: [6] });
+	});
+
+	test("should validate the configuration", () => {
+		expect(() => configureExpectlyDates({ weekend: [-1] })).toThrow('configureExpectlyDates: "weekend" must be');
+		expect(() => configureExpectlyDates({ holidays: "2026-12-25" as unknown as string[] })).toThrow(
+			'configureExpectlyDates: "holidays" must be an array of dates or a function',
+		);
+	});
+});
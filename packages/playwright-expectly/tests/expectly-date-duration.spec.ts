@@ -0,0 +1,69 @@
+import { expect, test } from "@playwright/test";
+
+import { getRejectedErrorSync } from "../../../tests/common/assertion-utils";
+import { expectly } from "../src/expectly";
+import { expectlyDate } from "../src/expectly-date";
+
+test.describe("toBeValidISODuration", () => {
+	test("should pass for ISO 8601 durations", () => {
+		for (const duration of ["PT1H30M", "P3D", "P1W", "P1Y2M10DT2H30M", "PT1.5S", "PT0,5H", "P0D"]) {
+			expectlyDate(duration).toBeValidISODuration();
+		}
+	});
+
+	test("should fail for strings that are not ISO 8601 durations", () => {
+		for (const duration of ["P", "PT", "1h 30m", "PT1.5H30M", "P1H", "PT-1H", "pt1h", ""]) {
+			expectlyDate(duration).not.toBeValidISODuration();
+		}
+	});
+
+	test("should show the expected format", () => {
+		const error = getRejectedErrorSync(() => expectlyDate("1:30:00").toBeValidISODuration());
+
+		expect(error.message).toContain("Expected string to be a valid ISO 8601 duration");
+		expect(error.message).toContain("Expected format: PnYnMnWnDTnHnMnS, e.g. PT1H30M or P2DT4H");
+	});
+});
+
+test.describe("toHaveDurationCloseTo", () => {
+	test("should compare ISO, human and object durations", () => {
+		expectlyDate("PT1H30M").toHaveDurationCloseTo("1h 30m", { seconds: 0 });
+		expectlyDate("90 minutes").toHaveDurationCloseTo({ hours: 1, minutes: 30 }, { seconds: 0 });
+		expectlyDate("2 days, 4 hours").toHaveDurationCloseTo("P2DT4H", { seconds: 0 });
+		expectlyDate("P1W").toHaveDurationCloseTo("7d", { seconds: 0 });
+		expectlyDate("1h 29m 45s").toHaveDurationCloseTo("PT1H30M", { seconds: 15 });
+		expectlyDate("1h 29m 44s").not.toHaveDurationCloseTo("PT1H30M", { seconds: 15 });
+		expectlyDate("1.5h").toHaveDurationCloseTo("PT1H30M", { seconds: 0 });
+	});
+
+	test("should show the difference and the tolerance", () => {
+		const error = getRejectedErrorSync(() => expectlyDate("PT1H45M").toHaveDurationCloseTo("1h 30m", { minutes: 5 }));
+
+		expect(error.message).toContain(
+			"Expected duration to be close to the expected duration within the allowed tolerance",
+		);
+		expect(error.message).toContain('"1h 30m"');
+		expect(error.message).toContain('"1h 45m"');
+		expect(error.message).toContain("Difference: 15m (longer)");
+		expect(error.message).toContain("Allowed tolerance: ±5m");
+	});
+
+	test("should reject durations that cannot be compared", () => {
+		expect(() => expectlyDate("P1M").toHaveDurationCloseTo("PT1H", { minutes: 1 })).toThrow(
+			'Invalid duration: "P1M", years and months have no fixed length',
+		);
+		expect(() => expectlyDate("PT1H").toHaveDurationCloseTo("an hour", { minutes: 1 })).toThrow(
+			'Invalid expected duration: "an hour", not an ISO 8601 or human duration',
+		);
+		expect(() =>
+			expectlyDate("PT1H").toHaveDurationCloseTo("PT1H", { weeks: 1 } as unknown as { days: number }),
+		).toThrow('Invalid tolerance: {"weeks":1}, unknown unit "weeks"');
+	});
+});
+
+test.describe("expectly - duration matchers", () => {
+	test("should be available on expectly", () => {
+		expectly("PT1H30M").toBeValidISODuration();
+		expectly("PT1H30M").toHaveDurationCloseTo("90m", { seconds: 1 });
+	});
+});
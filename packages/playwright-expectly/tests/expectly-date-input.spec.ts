@@ -0,0 +1,94 @@
+import { expect, test } from "@playwright/test";
+
+import { getRejectedErrorSync } from "../../../tests/common/assertion-utils";
+import { expectlyDate } from "../src/expectly-date";
+import { configureExpectlyDates } from "../src/matchers/date-config";
+
+const instant = { epochMilliseconds: Date.parse("2026-03-01T10:00:00Z") };
+
+test.describe("date matcher inputs", () => {
+	test("should accept ISO strings, epoch milliseconds and epochMilliseconds objects", () => {
+		expectlyDate("2026-03-01T10:00:00Z").toBeBefore(new Date("2026-03-01T10:00:01Z"));
+		expectlyDate(Date.parse("2026-03-01T10:00:00Z")).toBeAfter("2026-02-28");
+		expectlyDate(instant).toBeBetween("2026-03-01T00:00:00Z", Date.parse("2026-03-02T00:00:00Z"));
+		expectlyDate("2026-03-01T10:00:00+01:00").toBeCloseTo(instant, { hours: 1 });
+		expectlyDate("2026-03-01T23:30:00Z").toBeSameDay(instant, { timeZone: "UTC" });
+		expectlyDate(instant).toBeSpecificDayOfWeek("Sunday", { timeZone: "UTC" });
+		expectlyDate("2026-03-31T12:00:00Z").toBeEndOfMonth({ timeZone: "UTC" });
+	});
+
+	test("should accept mixed inputs in date arrays", () => {
+		const dates = ["2026-03-01T10:00:00Z", Date.parse("2026-03-02T10:00:00Z"), new Date("2026-03-03T10:00:00Z")];
+
+		expectlyDate(dates).toHaveDatesAscendingOrder();
+		expectlyDate([...dates].reverse()).toHaveDatesDescendingOrder();
+		expectlyDate(dates).toHaveConsecutiveDates("day", { timeZone: "UTC" });
+		expectlyDate(dates).toHaveDatesWithinRange("2026-03-01", instant.epochMilliseconds + 3 * 24 * 60 * 60 * 1000);
+		expectlyDate([...dates, instant]).not.toHaveUniqueDates();
+		expectlyDate(dates).toHaveDateGapsLargerThan({ hours: 12 });
+		expectlyDate(dates).toHaveDateRange({ days: 2 });
+	});
+
+	test("should print parsed dates in failure messages", () => {
+		const error = getRejectedErrorSync(() => {
+			expectlyDate(instant).toBeBefore("2026-01-01T00:00:00Z");
+		});
+
+		expect(error.message).toContain("2026-01-01T00:00:00.000Z");
+		expect(error.message).toContain("2026-03-01T10:00:00.000Z");
+	});
+
+	test("should throw for values that are not dates", () => {
+		expect(() => expectlyDate("not a date").toBeInThePast()).toThrow('Invalid actual date: "not a date"');
+		expect(() => expectlyDate(Number.NaN).toBeInThePast()).toThrow("Invalid actual date: NaN");
+		expect(() => expectlyDate(new Date()).toBeBefore({} as unknown as Date)).toThrow(
+			"Invalid expected date: [object Object]",
+		);
+		expect(() => expectlyDate(["2026-03-01", "soon"]).toHaveDatesAscendingOrder()).toThrow(
+			'Invalid date in array: "soon"',
+		);
+	});
+});
+
+test.describe("strictParsing", () => {
+	test.afterEach(() => {
+		configureExpectlyDates({ strictParsing: undefined });
+	});
+
+	test("should reject strings that are not ISO 8601", () => {
+		expectlyDate("03/01/2026").toBeSameDay("2026-03-01T12:00:00", { timeZone: "UTC" });
+
+		expect(() => expectlyDate("03/01/2026").toBeBefore("2026-04-01", { strictParsing: true })).toThrow(
+			'Invalid actual date: "03/01/2026" (strictParsing only accepts ISO 8601 strings',
+		);
+		expect(() => expectlyDate("2026-03-01").toBeBefore("March 2, 2026", { strictParsing: true })).toThrow(
+			'Invalid expected date: "March 2, 2026"',
+		);
+	});
+
+	test("should reject ISO strings with out-of-range fields instead of rolling them over", () => {
+		expectlyDate("2023-02-30").toBeInMonth("March", { timeZone: "UTC" });
+
+		expect(() => expectlyDate("2023-02-30").toBeInMonth("March", { timeZone: "UTC", strictParsing: true })).toThrow(
+			'Invalid actual date: "2023-02-30"',
+		);
+		expect(() => expectlyDate("2026-03-01T24:00:00Z").toBeInThePast({ strictParsing: true })).toThrow(
+			"Invalid actual date",
+		);
+	});
+
+	test("should accept ISO 8601 variants, numbers and epochMilliseconds objects", () => {
+		const options = { strictParsing: true };
+
+		expectlyDate("2024-02-29").toBeBefore("2024-03-01T10:00Z", options);
+		expectlyDate("2024-03-01T10:00:00.123+01:00").toBeBefore("2024-03-01T10:00:00+0000", options);
+		expectlyDate(instant).toBeAfter(0, options);
+	});
+
+	test("should apply the configured default", () => {
+		configureExpectlyDates({ strictParsing: true });
+
+		expect(() => expectlyDate("2026/03/01").toBeInThePast()).toThrow('Invalid actual date: "2026/03/01"');
+		expectlyDate("2026/03/01").toBeBefore("2026-03-02", { strictParsing: false });
+	});
+});
@@ -0,0 +1,149 @@
+import { expect, test } from "@playwright/test";
+
+import { getRejectedErrorSync } from "../../../tests/common/assertion-utils";
+import { expectly } from "../src/expectly";
+import { expectlyDateInterval } from "../src/expectly-date-interval";
+
+const morning = { start: "2026-10-19T09:00:00Z", end: "2026-10-19T12:00:00Z" };
+const lunch = { start: "2026-10-19T12:00:00Z", end: "2026-10-19T13:00:00Z" };
+const afternoon = { start: "2026-10-19T13:00:00Z", end: "2026-10-19T17:00:00Z" };
+
+test.describe("toOverlap", () => {
+	test("should pass when intervals share time", () => {
+		expectlyDateInterval(morning).toOverlap({ start: "2026-10-19T11:00:00Z", end: "2026-10-19T14:00:00Z" });
+		expectlyDateInterval({
+			start: new Date("2026-10-19T10:00:00Z"),
+			end: Date.parse("2026-10-19T10:30:00Z"),
+		}).toOverlap(morning);
+	});
+
+	test("should not treat touching intervals as overlapping", () => {
+		expectlyDateInterval(morning).not.toOverlap(lunch);
+		expectlyDateInterval(morning).not.toOverlap(afternoon);
+	});
+
+	test("should show the overlap or the gap", () => {
+		const overlapError = getRejectedErrorSync(() =>
+			expectlyDateInterval(morning).not.toOverlap({ start: "2026-10-19T11:00:00Z", end: "2026-10-19T14:00:00Z" }),
+		);
+		expect(overlapError.message).toContain("Expected intervals to not overlap");
+		expect(overlapError.message).toContain("Overlap: 2026-10-19T11:00:00.000Z - 2026-10-19T12:00:00.000Z");
+
+		const gapError = getRejectedErrorSync(() => expectlyDateInterval(afternoon).toOverlap(morning));
+		expect(gapError.message).toContain("Expected intervals to overlap");
+		expect(gapError.message).toContain("Gap: 2026-10-19T12:00:00.000Z - 2026-10-19T13:00:00.000Z");
+	});
+
+	test("should reject invalid intervals", () => {
+		expect(() => expectlyDateInterval({ start: lunch.end, end: lunch.start }).toOverlap(morning)).toThrow(
+			"toOverlap: interval starts after it ends: 2026-10-19T13:00:00.000Z - 2026-10-19T12:00:00.000Z",
+		);
+		expect(() => expectlyDateInterval(morning).toOverlap({ start: "soon", end: lunch.end })).toThrow(
+			'Invalid start of expected interval: "soon"',
+		);
+		expect(() => expectlyDateInterval(morning).toOverlap(null as unknown as typeof morning)).toThrow(
+			"toOverlap: expected interval must be an object with start and end",
+		);
+	});
+});
+
+test.describe("toContainInterval", () => {
+	const workday = { start: morning.start, end: afternoon.end };
+
+	test("should pass when the interval lies within, including the boundaries", () => {
+		expectlyDateInterval(workday).toContainInterval(lunch);
+		expectlyDateInterval(workday).toContainInterval(workday);
+		expectlyDateInterval(lunch).not.toContainInterval(workday);
+	});
+
+	test("should name the boundaries that are outside", () => {
+		const error = getRejectedErrorSync(() =>
+			expectlyDateInterval(lunch).toContainInterval({ start: "2026-10-19T11:30:00Z", end: "2026-10-19T13:30:00Z" }),
+		);
+
+		expect(error.message).toContain("Expected interval to contain the expected interval");
+		expect(error.message).toContain(
+			"The expected interval starts before 2026-10-19T12:00:00.000Z and ends after 2026-10-19T13:00:00.000Z",
+		);
+	});
+});
+
+test.describe("toHaveNoOverlappingIntervals", () => {
+	test("should pass for touching and unsorted intervals", () => {
+		expectlyDateInterval([afternoon, morning, lunch]).toHaveNoOverlappingIntervals();
+		expectlyDateInterval([]).toHaveNoOverlappingIntervals();
+	});
+
+	test("should list every overlapping pair by index", () => {
+		const bookings = [
+			afternoon,
+			{ start: "2026-10-19T08:00:00Z", end: "2026-10-19T10:00:00Z" },
+			morning,
+			{ start: "2026-10-19T16:00:00Z", end: "2026-10-19T18:00:00Z" },
+		];
+		const error = getRejectedErrorSync(() => expectlyDateInterval(bookings).toHaveNoOverlappingIntervals());
+
+		expect(error.message).toContain("found 2 overlapping pair(s)");
+		expect(error.message).toContain(
+			"[0] 2026-10-19T13:00:00.000Z - 2026-10-19T17:00:00.000Z and [3] 2026-10-19T16:00:00.000Z - 2026-10-19T18:00:00.000Z" +
+				" (overlap: 2026-10-19T16:00:00.000Z - 2026-10-19T17:00:00.000Z)",
+		);
+		expect(error.message).toContain(
+			"[1] 2026-10-19T08:00:00.000Z - 2026-10-19T10:00:00.000Z and [2] 2026-10-19T09:00:00.000Z - 2026-10-19T12:00:00.000Z",
+		);
+	});
+
+	test("should find overlaps with long intervals that start early", () => {
+		const day = { start: "2026-10-19T00:00:00Z", end: "2026-10-20T00:00:00Z" };
+
+		expectlyDateInterval([day, morning, afternoon]).not.toHaveNoOverlappingIntervals();
+	});
+
+	test("should reject invalid intervals by index", () => {
+		expect(() =>
+			expectlyDateInterval([morning, { start: "2026-10-19", end: "later" }]).toHaveNoOverlappingIntervals(),
+		).toThrow('Invalid end of interval 1: "later"');
+	});
+});
+
+test.describe("toCoverContinuously", () => {
+	test("should pass when intervals touch or overlap across the range", () => {
+		expectlyDateInterval([afternoon, lunch, morning]).toCoverContinuously(morning.start, afternoon.end);
+		expectlyDateInterval([
+			{ start: "2026-10-19T08:00:00Z", end: "2026-10-19T12:30:00Z" },
+			{ start: "2026-10-19T12:00:00Z", end: "2026-10-19T18:00:00Z" },
+		]).toCoverContinuously(morning.start, afternoon.end);
+	});
+
+	test("should list the gaps", () => {
+		const error = getRejectedErrorSync(() =>
+			expectlyDateInterval([lunch, { start: "2026-10-19T14:00:00Z", end: "2026-10-19T15:00:00Z" }]).toCoverContinuously(
+				morning.start,
+				afternoon.end,
+			),
+		);
+
+		expect(error.message).toContain("Expected intervals to cover the range continuously");
+		expect(error.message).toContain(
+			"Found 3 gap(s):\n" +
+				"  2026-10-19T09:00:00.000Z - 2026-10-19T12:00:00.000Z\n" +
+				"  2026-10-19T13:00:00.000Z - 2026-10-19T14:00:00.000Z\n" +
+				"  2026-10-19T15:00:00.000Z - 2026-10-19T17:00:00.000Z",
+		);
+	});
+
+	test("should not cover a range without intervals", () => {
+		expectlyDateInterval([]).not.toCoverContinuously(morning.start, morning.end);
+		expect(() => expectlyDateInterval([morning]).toCoverContinuously(morning.end, morning.start)).toThrow(
+			"toCoverContinuously: range starts after it ends",
+		);
+	});
+});
+
+test.describe("expectly - date interval matchers", () => {
+	test("should be available on expectly", () => {
+		expectly(morning).toOverlap({ start: "2026-10-19T11:00:00Z", end: "2026-10-19T14:00:00Z" });
+		expectly([morning, lunch, afternoon]).toHaveNoOverlappingIntervals();
+		expectly([morning, lunch, afternoon]).toCoverContinuously(morning.start, afternoon.end);
+	});
+});
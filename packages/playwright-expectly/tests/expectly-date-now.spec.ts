@@ -0,0 +1,123 @@
+import { expect, test } from "@playwright/test";
+
+import { getRejectedErrorSync } from "../../../tests/common/assertion-utils";
+import { expectlyDate } from "../src/expectly-date";
+import {
+	configureExpectlyDates,
+	resetExpectlyDatesPageClock,
+	syncExpectlyDatesWithPageClock,
+} from "../src/matchers/date-config";
+
+const reference = new Date("2024-02-02T10:00:00Z");
+
+test.describe("relative date matchers with a now option", () => {
+	test("should accept a fixed Date, epoch milliseconds or a function", () => {
+		expectlyDate(new Date("2024-02-02T23:00:00Z")).toBeToday({ now: reference, timeZone: "UTC" });
+		expectlyDate(new Date("2024-02-01T08:00:00Z")).toBeYesterday({ now: reference.getTime(), timeZone: "UTC" });
+		expectlyDate(new Date("2024-02-03T08:00:00Z")).toBeTomorrow({ now: () => reference, timeZone: "UTC" });
+		expectlyDate(new Date("2024-02-02T09:59:59Z")).toBeInThePast({ now: reference });
+		expectlyDate(new Date("2024-02-02T10:00:01Z")).toBeInTheFuture({ now: () => reference.getTime() });
+	});
+
+	test("should combine the reference time with a time zone", () => {
+		// 2024-02-02 21:00 in Tokyo
+		const now = new Date("2024-02-02T12:00:00Z");
+
+		expectlyDate(new Date("2024-02-02T16:00:00Z")).toBeTomorrow({ now, timeZone: "Asia/Tokyo" });
+		expectlyDate(new Date("2024-02-02T16:00:00Z")).toBeToday({ now, timeZone: "UTC" });
+	});
+
+	test("should print the reference time in failure messages", () => {
+		const today = getRejectedErrorSync(() => {
+			expectlyDate(new Date("2024-02-05T10:00:00Z")).toBeToday({ now: reference });
+		});
+		expect(today.message).toMatch(/Today: .*2024-02-02T10:00:00\.000Z/);
+
+		const yesterday = getRejectedErrorSync(() => {
+			expectlyDate(new Date("2024-02-01T10:00:00Z")).not.toBeYesterday({ now: reference, timeZone: "UTC" });
+		});
+		expect(yesterday.message).toMatch(/Now: .*2024-02-02T10:00:00\.000Z/);
+
+		const past = getRejectedErrorSync(() => {
+			expectlyDate(new Date("2024-03-01T00:00:00Z")).toBeInThePast({ now: reference });
+		});
+		expect(past.message).toMatch(/Now: .*2024-02-02T10:00:00\.000Z/);
+	});
+
+	test("should throw when the provider does not give a valid date", () => {
+		expect(() => expectlyDate(new Date()).toBeInThePast({ now: () => Number.NaN })).toThrow(
+			'toBeInThePast: "now" must be a valid Date, epoch milliseconds or a function returning one',
+		);
+	});
+});
+
+test.describe("configured reference time", () => {
+	test.afterEach(() => {
+		configureExpectlyDates({ now: undefined });
+	});
+
+	test("should apply the configured now provider", () => {
+		let now = reference.getTime();
+		configureExpectlyDates({ now: () => now });
+
+		expectlyDate(new Date("2024-02-02T09:00:00Z")).toBeInThePast();
+		now -= 2 * 60 * 60 * 1000;
+		expectlyDate(new Date("2024-02-02T09:00:00Z")).toBeInTheFuture();
+		expectlyDate(new Date("2024-02-02T09:00:00Z")).not.toBeInTheFuture({ now: reference });
+	});
+
+	test("should reject an invalid now provider", () => {
+		expect(() => configureExpectlyDates({ now: "today" as unknown as Date })).toThrow(
+			'configureExpectlyDates: "now" must be a valid Date',
+		);
+	});
+
+	test("should sync the reference time from page.clock", async ({ page }) => {
+		await page.clock.setFixedTime(reference);
+		await page.goto("about:blank");
+
+		const synced = await syncExpectlyDatesWithPageClock(page);
+
+		expect(synced.toISOString()).toBe(reference.toISOString());
+		expectlyDate(new Date("2024-02-01T12:00:00Z")).toBeYesterday({ timeZone: "UTC" });
+		expectlyDate(new Date("2024-02-02T10:30:00Z")).toBeInTheFuture();
+	});
+});
+
+test.describe("page clock reference time", () => {
+	test.describe.configure({ mode: "serial" });
+
+	test("should apply the synced time in the test that synced it", async ({ page }) => {
+		await page.clock.setFixedTime(reference);
+		await page.goto("about:blank");
+		await syncExpectlyDatesWithPageClock(page);
+
+		expectlyDate(new Date("2024-02-02T10:30:00Z")).toBeInTheFuture();
+	});
+
+	test("should not affect the next test in the worker", () => {
+		expectlyDate(new Date("2024-02-02T10:30:00Z")).toBeInThePast();
+	});
+
+	test("should stop applying the synced time after a reset", async ({ page }) => {
+		await page.clock.setFixedTime(reference);
+		await page.goto("about:blank");
+		await syncExpectlyDatesWithPageClock(page);
+		resetExpectlyDatesPageClock();
+
+		expectlyDate(new Date("2024-02-02T10:30:00Z")).toBeInThePast();
+	});
+
+	test("should take precedence over the configured now until the test ends", async ({ page }) => {
+		configureExpectlyDates({ now: new Date("2030-01-01T00:00:00Z") });
+		try {
+			await page.clock.setFixedTime(reference);
+			await page.goto("about:blank");
+			await syncExpectlyDatesWithPageClock(page);
+
+			expectlyDate(new Date("2024-02-02T10:30:00Z")).toBeInTheFuture();
+		} finally {
+			configureExpectlyDates({ now: undefined });
+		}
+	});
+});
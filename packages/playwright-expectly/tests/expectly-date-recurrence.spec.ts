@@ -0,0 +1,126 @@
+import { expect, test } from "@playwright/test";
+
+import { getRejectedErrorSync } from "../../../tests/common/assertion-utils";
+import { expectlyDate } from "../src/expectly-date";
+
+const UTC = { timeZone: "UTC" };
+
+test.describe("toFollowRecurrence", () => {
+	test("should match weekly occurrences on several weekdays in any order", () => {
+		const standups = [
+			"2026-10-23T09:00:00Z",
+			"2026-10-19T09:00:00Z",
+			"2026-10-21T09:00:00Z",
+			"2026-10-26T09:00:00Z",
+			"2026-10-30T09:00:00Z",
+			"2026-10-28T09:00:00Z",
+		];
+
+		expectlyDate(standups).toFollowRecurrence("FREQ=WEEKLY;BYDAY=MO,WE,FR;COUNT=6", UTC);
+		expectlyDate(standups).toFollowRecurrence("RRULE:FREQ=WEEKLY;BYDAY=MO,WE,FR;UNTIL=20261030", UTC);
+		expectlyDate(standups).not.toFollowRecurrence("FREQ=WEEKLY;BYDAY=MO,WE,FR;COUNT=7", UTC);
+	});
+
+	test("should skip weeks with INTERVAL", () => {
+		const dates = ["2026-10-19T09:00:00Z", "2026-10-21T09:00:00Z", "2026-11-02T09:00:00Z", "2026-11-04T09:00:00Z"];
+
+		expectlyDate(dates).toFollowRecurrence("FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;COUNT=4", UTC);
+	});
+
+	test("should support weekday positions and negative month days", () => {
+		expectlyDate(["2026-10-30T17:00:00Z", "2026-11-27T17:00:00Z", "2026-12-25T17:00:00Z"]).toFollowRecurrence(
+			"FREQ=MONTHLY;BYDAY=-1FR;COUNT=3",
+			UTC,
+		);
+		expectlyDate(["2026-10-31T12:00:00Z", "2026-11-30T12:00:00Z", "2026-12-31T12:00:00Z"]).toFollowRecurrence(
+			"FREQ=MONTHLY;BYMONTHDAY=-1;UNTIL=20261231",
+			UTC,
+		);
+		expectlyDate(["2026-11-13T12:00:00Z", "2027-08-13T12:00:00Z"]).toFollowRecurrence(
+			"FREQ=MONTHLY;BYDAY=FR;BYMONTHDAY=13;COUNT=2",
+			UTC,
+		);
+	});
+
+	test("should skip months and years without the day of the start", () => {
+		expectlyDate(["2026-01-31T12:00:00Z", "2026-03-31T12:00:00Z", "2026-05-31T12:00:00Z"]).toFollowRecurrence(
+			"FREQ=MONTHLY;COUNT=3",
+			UTC,
+		);
+		expectlyDate(["2024-02-29T12:00:00Z", "2028-02-29T12:00:00Z"]).toFollowRecurrence("FREQ=YEARLY;COUNT=2", UTC);
+	});
+
+	test("should check rules without COUNT or UNTIL up to the last date", () => {
+		const dates = ["2026-10-01T08:00:00Z", "2026-10-04T08:00:00Z", "2026-10-07T08:00:00Z"];
+
+		expectlyDate(dates).toFollowRecurrence("FREQ=DAILY;INTERVAL=3", UTC);
+		expectlyDate([dates[0], dates[2]]).not.toFollowRecurrence("FREQ=DAILY;INTERVAL=3", UTC);
+	});
+
+	test("should keep the wall-clock time across a DST change", () => {
+		const dates = ["2026-03-28T08:00:00Z", "2026-03-29T07:00:00Z", "2026-03-30T07:00:00Z"];
+
+		expectlyDate(dates).toFollowRecurrence("FREQ=DAILY;COUNT=3", { timeZone: "Europe/Amsterdam" });
+		expectlyDate(dates).not.toFollowRecurrence("FREQ=DAILY;COUNT=3", UTC);
+	});
+
+	test("should compare UNTIL times as instants", () => {
+		const dates = ["2026-10-19T09:00:00Z", "2026-10-20T09:00:00Z"];
+
+		expectlyDate(dates).toFollowRecurrence("FREQ=DAILY;UNTIL=20261021T085959Z", UTC);
+		expectlyDate(dates).not.toFollowRecurrence("FREQ=DAILY;UNTIL=20261021T090000Z", UTC);
+	});
+
+	test("should use the start option as the first occurrence", () => {
+		const dates = ["2026-10-20T09:00:00Z", "2026-10-21T09:00:00Z"];
+
+		expectlyDate(dates).not.toFollowRecurrence("FREQ=DAILY", { ...UTC, start: "2026-10-19T09:00:00Z" });
+	});
+
+	test("should list missing occurrences and unexpected dates", () => {
+		const error = getRejectedErrorSync(() =>
+			expectlyDate(["2026-10-19T09:00:00Z", "2026-10-22T09:00:00Z", "2026-10-22T09:00:00Z"]).toFollowRecurrence(
+				"FREQ=WEEKLY;BYDAY=MO,WE;COUNT=2",
+				UTC,
+			),
+		);
+
+		expect(error.message).toContain("Expected dates to follow the recurrence rule");
+		expect(error.message).toContain("Start: 2026-10-19T09:00:00.000Z");
+		expect(error.message).toContain("Occurrences: 2, received dates: 3");
+		expect(error.message).toContain("Missing occurrences (1):\n  2026-10-21T09:00:00.000Z (Wednesday)");
+		expect(error.message).toContain(
+			"Unexpected dates (2):\n  2026-10-22T09:00:00.000Z (Thursday)\n  2026-10-22T09:00:00.000Z (Thursday)",
+		);
+		expect(error.message).toContain("Time zone: UTC");
+	});
+
+	test("should reject invalid and unsupported rules", () => {
+		const dates = [new Date()];
+
+		expect(() => expectlyDate(dates).toFollowRecurrence("FREQ=HOURLY")).toThrow(
+			'toFollowRecurrence: Invalid recurrence rule "FREQ=HOURLY": FREQ must be DAILY, WEEKLY, MONTHLY or YEARLY',
+		);
+		expect(() => expectlyDate(dates).toFollowRecurrence("FREQ=YEARLY;BYMONTH=3")).toThrow('unsupported part "BYMONTH"');
+		expect(() => expectlyDate(dates).toFollowRecurrence("FREQ=DAILY;COUNT=2;UNTIL=20261231")).toThrow(
+			"COUNT and UNTIL cannot be combined",
+		);
+		expect(() => expectlyDate(dates).toFollowRecurrence("FREQ=WEEKLY;BYDAY=1MO")).toThrow(
+			"BYDAY positions such as 1MO are only supported with FREQ=MONTHLY or FREQ=YEARLY",
+		);
+		expect(() => expectlyDate(dates).toFollowRecurrence("FREQ=MONTHLY;BYMONTHDAY=32")).toThrow(
+			"BYMONTHDAY must be days from 1 to 31 or -31 to -1",
+		);
+	});
+
+	test("should throw for rules without occurrences and for empty arrays without a start", () => {
+		expect(() =>
+			expectlyDate([new Date("2026-10-05T00:00:00Z")]).toFollowRecurrence(
+				"FREQ=MONTHLY;BYDAY=5MO;BYMONTHDAY=1;COUNT=2",
+			),
+		).toThrow("No occurrence of the recurrence rule within 1000 periods");
+		expect(() => expectlyDate([]).toFollowRecurrence("FREQ=DAILY;COUNT=1")).toThrow(
+			"Array must contain at least one date",
+		);
+	});
+});
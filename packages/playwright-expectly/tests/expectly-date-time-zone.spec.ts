@@ -0,0 +1,115 @@
+import { expect, test } from "@playwright/test";
+
+import { getRejectedErrorSync } from "../../../tests/common/assertion-utils";
+import { expectlyDate } from "../src/expectly-date";
+import { configureExpectlyDates } from "../src/matchers/date-config";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+test.describe("calendar date matchers with a timeZone option", () => {
+	test("should compare calendar days in the given time zone", () => {
+		const lateEvening = new Date("2024-03-31T22:30:00Z"); // 2024-04-01 00:30 in Amsterdam
+		const morning = new Date("2024-04-01T08:00:00Z");
+
+		expectlyDate(lateEvening).toBeSameDay(morning, { timeZone: "Europe/Amsterdam" });
+		expectlyDate(lateEvening).not.toBeSameDay(morning, { timeZone: "UTC" });
+		expectlyDate(lateEvening).toBeSameMonth(morning, { timeZone: "Europe/Amsterdam" });
+		expectlyDate(new Date("2023-12-31T23:30:00Z")).toBeSameYear(new Date("2024-06-01T00:00:00Z"), {
+			timeZone: "Europe/Amsterdam",
+		});
+	});
+
+	test("should read weekdays, months and quarters in the given time zone", () => {
+		const fridayNightUtc = new Date("2024-01-05T23:30:00Z");
+
+		expectlyDate(fridayNightUtc).toBeWeekday({ timeZone: "UTC" });
+		expectlyDate(fridayNightUtc).toBeWeekend({ timeZone: "Europe/Amsterdam" });
+		expectlyDate(fridayNightUtc).toBeSpecificDayOfWeek("Saturday", { timeZone: "Asia/Tokyo" });
+		expectlyDate(fridayNightUtc).toBeSpecificDayOfWeek("Friday", { timeZone: "America/New_York" });
+
+		const endOfMarchUtc = new Date("2024-03-31T23:00:00Z");
+		expectlyDate(endOfMarchUtc).toBeInQuarter(1, { timeZone: "UTC" });
+		expectlyDate(endOfMarchUtc).toBeInQuarter(2, { timeZone: "Europe/Amsterdam" });
+		expectlyDate(endOfMarchUtc).toBeInMonth("April", { timeZone: "Europe/Amsterdam" });
+		expectlyDate(new Date("2024-12-31T23:30:00Z")).not.toBeLeapYear({ timeZone: "Europe/Amsterdam" });
+	});
+
+	test("should detect the start and end of the month in the given time zone", () => {
+		const date = new Date("2024-01-31T23:30:00Z");
+
+		expectlyDate(date).toBeEndOfMonth({ timeZone: "UTC" });
+		expectlyDate(date).toBeStartOfMonth({ timeZone: "Europe/Amsterdam" });
+		expectlyDate(new Date("2024-02-29T12:00:00Z")).toBeEndOfMonth({ timeZone: "Pacific/Honolulu" });
+	});
+
+	test("should compare with the current day in the given time zone", () => {
+		const now = Date.now();
+
+		expectlyDate(new Date(now)).toBeToday({ timeZone: "Asia/Tokyo" });
+		expectlyDate(new Date(now - DAY_MS)).toBeYesterday({ timeZone: "Asia/Tokyo" });
+		expectlyDate(new Date(now + DAY_MS)).toBeTomorrow({ timeZone: "UTC" });
+		expectlyDate(new Date(now + DAY_MS)).not.toBeToday({ timeZone: "UTC" });
+	});
+
+	test("should step over DST changes for consecutive days", () => {
+		// Local midnights in Amsterdam around the switch to summer time (23 hours apart)
+		const midnights = [
+			new Date("2024-03-29T23:00:00Z"),
+			new Date("2024-03-30T23:00:00Z"),
+			new Date("2024-03-31T22:00:00Z"),
+		];
+
+		expectlyDate(midnights).toHaveConsecutiveDates("day", { timeZone: "Europe/Amsterdam" });
+		expectlyDate([new Date("2024-01-31T23:30:00Z"), new Date("2024-03-01T00:00:00Z")]).toHaveConsecutiveDates("month", {
+			timeZone: "Europe/Amsterdam",
+		});
+	});
+
+	test("should group dates by calendar day in the given time zone when ignoring time", () => {
+		const dates = [new Date("2024-01-01T23:30:00Z"), new Date("2024-01-02T10:00:00Z")];
+
+		expectlyDate(dates).toHaveUniqueDates(true, { timeZone: "UTC" });
+		expectlyDate(dates).not.toHaveUniqueDates(true, { timeZone: "Europe/Amsterdam" });
+	});
+
+	test("should name the time zone in failure messages", () => {
+		const error = getRejectedErrorSync(() => {
+			expectlyDate(new Date("2024-01-05T12:00:00Z")).toBeWeekend({ timeZone: "Europe/Amsterdam" });
+		});
+
+		expect(error.message).toContain("(Friday)");
+		expect(error.message).toContain("Time zone: Europe/Amsterdam");
+	});
+
+	test("should throw for an unknown time zone", () => {
+		expect(() => expectlyDate(new Date()).toBeToday({ timeZone: "Mars/Olympus_Mons" })).toThrow(
+			'toBeToday: unknown time zone "Mars/Olympus_Mons"',
+		);
+	});
+});
+
+test.describe("configureExpectlyDates", () => {
+	test.afterEach(() => {
+		configureExpectlyDates({ timeZone: undefined });
+	});
+
+	test("should apply the default time zone to matchers without a timeZone option", () => {
+		const lateEvening = new Date("2024-03-31T22:30:00Z");
+		const morning = new Date("2024-04-01T08:00:00Z");
+
+		configureExpectlyDates({ timeZone: "Europe/Amsterdam" });
+		expectlyDate(lateEvening).toBeSameDay(morning);
+		expectlyDate(lateEvening).not.toBeSameDay(morning, { timeZone: "UTC" });
+
+		const error = getRejectedErrorSync(() => {
+			expectlyDate(lateEvening).toBeStartOfMonth({ timeZone: "UTC" });
+		});
+		expect(error.message).toContain("Time zone: UTC");
+	});
+
+	test("should reject an unknown default time zone", () => {
+		expect(() => configureExpectlyDates({ timeZone: "Nowhere" })).toThrow(
+			'configureExpectlyDates: unknown time zone "Nowhere"',
+		);
+	});
+});
@@ -0,0 +1,217 @@
+import { expect, test } from "@playwright/test";
+
+import { getRejectedError } from "../../../../tests/common/assertion-utils";
+import { expectly } from "../../src/expectly";
+import { expectlyLocator } from "../../src/expectly-locator";
+
+function cells(texts: string[]): string {
+	return `<table>${texts.map((text) => `<tr><td class="cell">${text}</td></tr>`).join("")}</table>`;
+}
+
+test.describe("expectLocator - toHaveAscendingOrder", () => {
+	test("should pass when element texts are in ascending order", async ({ page }) => {
+		await page.setContent(cells(["Apple", "Banana", "Cherry"]));
+		await expectlyLocator(page.locator(".cell")).toHaveAscendingOrder();
+	});
+
+	test("should compare parsed numbers instead of strings", async ({ page }) => {
+		await page.setContent(cells(["9", "10", "1,200"]));
+		await expectlyLocator(page.locator(".cell")).toHaveAscendingOrder({ parser: "number" });
+	});
+
+	test("should parse currency amounts", async ({ page }) => {
+		await page.setContent(cells(["$5.00", "$12.50", "$1,024.99"]));
+		await expectlyLocator(page.locator(".cell")).toHaveAscendingOrder({ parser: "currency" });
+	});
+
+	test("should parse dates", async ({ page }) => {
+		await page.setContent(cells(["2024-01-05", "2024-02-01", "2024-12-31"]));
+		await expectlyLocator(page.locator(".cell")).toHaveAscendingOrder({ parser: "date" });
+	});
+
+	test("should accept a custom parser", async ({ page }) => {
+		await page.setContent(cells(["Item 3", "Item 20", "Item 100"]));
+		await expectlyLocator(page.locator(".cell")).toHaveAscendingOrder({
+			parser: (text) => Number(text.replace("Item ", "")),
+		});
+	});
+
+	test("should retry until the column is sorted", async ({ page }) => {
+		await page.setContent(`
+			${cells(["30", "10", "20"])}
+			<script>
+				setTimeout(() => {
+					const values = ["10", "20", "30"];
+					document.querySelectorAll(".cell").forEach((cell, i) => cell.textContent = values[i]);
+				}, 300);
+			</script>
+		`);
+		await expectlyLocator(page.locator(".cell")).toHaveAscendingOrder({ parser: "number", timeout: 2000 });
+	});
+
+	test("should fail with the parsed values and the element texts", async ({ page }) => {
+		await page.setContent(cells(["$20.00", "$5.00"]));
+		const error = await getRejectedError(
+			expectlyLocator(page.locator(".cell")).toHaveAscendingOrder({ parser: "currency", timeout: 300 }),
+		);
+		expect(error.message).toContain("Failure type: mismatch");
+		expect(error.message).toContain("Expected array to be in ascending order");
+		expect(error.message).toContain("Element texts:");
+		expect(error.message).toContain('"$20.00"');
+	});
+
+	test("should report texts that cannot be parsed as a mismatch", async ({ page }) => {
+		await page.setContent(cells(["12", "n/a"]));
+		const error = await getRejectedError(
+			expectlyLocator(page.locator(".cell")).toHaveAscendingOrder({ parser: "number", timeout: 300 }),
+		);
+		expect(error.message).toContain("Failure type: mismatch");
+		expect(error.message).toContain('Could not parse the element texts: Cannot parse "n/a" as a number');
+		expect(error.message).toContain("Element texts:");
+	});
+
+	test("should retry while the texts cannot be parsed yet", async ({ page }) => {
+		await page.setContent(`
+			${cells(["Loading...", "Loading..."])}
+			<script>
+				setTimeout(() => {
+					const values = ["10", "20"];
+					document.querySelectorAll(".cell").forEach((cell, i) => cell.textContent = values[i]);
+				}, 300);
+			</script>
+		`);
+		await expectlyLocator(page.locator(".cell")).toHaveAscendingOrder({ parser: "number", timeout: 2000 });
+	});
+
+	test("should reject decimal commas with the number parser", async ({ page }) => {
+		await page.setContent(cells(["1,5", "2,5"]));
+		const error = await getRejectedError(
+			expectlyLocator(page.locator(".cell")).toHaveAscendingOrder({ parser: "number", timeout: 300 }),
+		);
+		expect(error.message).toContain('Cannot parse "1,5" as a number: "," is only supported as a thousands separator');
+	});
+
+	test("should throw right away for an unknown parser", async ({ page }) => {
+		await page.setContent(cells(["1", "2"]));
+		const error = await getRejectedError(
+			expectlyLocator(page.locator(".cell")).toHaveAscendingOrder({
+				parser: "decimal" as "number",
+			}),
+		);
+		expect(error.message).toContain('toHaveAscendingOrder: Unknown parser: decimal. Use "number", "currency", "date"');
+		expect(error.message).not.toContain("Failure type");
+	});
+});
+
+test.describe("expectLocator - toHaveDescendingOrder", () => {
+	test("should pass when element texts are in descending order", async ({ page }) => {
+		await page.setContent(cells(["2024-12-31", "2024-06-01", "2023-01-01"]));
+		await expectlyLocator(page.locator(".cell")).toHaveDescendingOrder({ parser: "date" });
+	});
+
+	test("should fail when element texts are not in descending order", async ({ page }) => {
+		await page.setContent(cells(["1", "3", "2"]));
+		const error = await getRejectedError(
+			expectlyLocator(page.locator(".cell")).toHaveDescendingOrder({ parser: "number", timeout: 300 }),
+		);
+		expect(error.message).toContain("Expected array to be in descending order");
+	});
+});
+
+test.describe("expectLocator - toHaveUniqueValues", () => {
+	test("should pass when element texts are unique", async ({ page }) => {
+		await page.setContent(cells(["A-1", "A-2", "A-3"]));
+		await expectlyLocator(page.locator(".cell")).toHaveUniqueValues();
+	});
+
+	test("should fail and list duplicated texts", async ({ page }) => {
+		await page.setContent(cells(["A-1", "A-2", "A-1"]));
+		const error = await getRejectedError(expectlyLocator(page.locator(".cell")).toHaveUniqueValues({ timeout: 300 }));
+		expect(error.message).toContain("Duplicate values (1)");
+	});
+
+	test("should treat equal parsed values as duplicates", async ({ page }) => {
+		await page.setContent(cells(["1,000", "1000"]));
+		await expectlyLocator(page.locator(".cell")).not.toHaveUniqueValues({ parser: "number" });
+	});
+});
+
+test.describe("expectLocator - toHaveSum", () => {
+	test("should parse element texts as numbers by default", async ({ page }) => {
+		await page.setContent(cells(["10", "20.5", "1,000"]));
+		await expectlyLocator(page.locator(".cell")).toHaveSum(1030.5);
+	});
+
+	test("should sum currency amounts", async ({ page }) => {
+		await page.setContent(cells(["€ 1.234,50", "€ 0,50", "(35,00)"]));
+		await expectlyLocator(page.locator(".cell")).toHaveSum(1200, { parser: "currency" });
+	});
+
+	test("should throw right away for a parser that does not produce numbers", async ({ page }) => {
+		await page.setContent(cells(["2024-01-01"]));
+		const error = await getRejectedError(expectlyLocator(page.locator(".cell")).toHaveSum(1, { parser: "date" }));
+		expect(error.message).toContain("toHaveSum needs numeric element texts");
+		expect(error.message).not.toContain("Failure type");
+	});
+
+	test("should fail when a custom parser does not return numbers", async ({ page }) => {
+		await page.setContent(cells(["10", "twenty"]));
+		const error = await getRejectedError(
+			expectlyLocator(page.locator(".cell")).toHaveSum(30, {
+				parser: (text) => (/^\d+$/.test(text) ? Number(text) : text),
+				timeout: 300,
+			}),
+		);
+		expect(error.message).toContain("Failure type: mismatch");
+		expect(error.message).toContain('Element text "twenty" was not parsed as a number');
+	});
+
+	test("should fail with the received sum", async ({ page }) => {
+		await page.setContent(cells(["10", "20"]));
+		const error = await getRejectedError(expectlyLocator(page.locator(".cell")).toHaveSum(40, { timeout: 300 }));
+		expect(error.message).toContain("Received sum:");
+		expect(error.message).toContain("Value history (");
+	});
+});
+
+test.describe("expectLocator - toBeAllBetween", () => {
+	test("should pass when all parsed values are in range", async ({ page }) => {
+		await page.setContent(cells(["45", "67", "89"]));
+		await expectlyLocator(page.locator(".cell")).toBeAllBetween(0, 100);
+	});
+
+	test("should fail and list out of range values", async ({ page }) => {
+		await page.setContent(cells(["45", "167", "89"]));
+		const error = await getRejectedError(
+			expectlyLocator(page.locator(".cell")).toBeAllBetween(0, 100, { timeout: 300 }),
+		);
+		expect(error.message).toContain("Out of range values (1)");
+	});
+});
+
+test.describe("expectly - collection matchers on arrays and locators", () => {
+	test("should keep working on in-memory arrays", () => {
+		expectly([1, 2, 3]).toHaveAscendingOrder();
+		expectly(["c", "b", "a"]).toHaveDescendingOrder();
+		expectly(["a", "b"]).toHaveUniqueValues();
+		expectly([1, 2, 3]).toHaveSum(6);
+		expectly([1, 2, 3]).toBeAllBetween(1, 3);
+	});
+
+	test("should dispatch to the locator matchers for locators", async ({ page }) => {
+		await page.setContent(cells(["1", "2", "3"]));
+		const column = page.locator(".cell");
+		await expectly(column).toHaveAscendingOrder({ parser: "number" });
+		await expectly(column).toHaveSum(6);
+		await expectly(column).toBeAllBetween(1, 3);
+		await expectly(column).toHaveUniqueValues();
+	});
+});
+
+test.describe("expectLocator - collation options", () => {
+	test("should sort element texts with Intl.Collator", async ({ page }) => {
+		await page.setContent(cells(["Émile", "Oskar", "Zoe"]));
+		await expectlyLocator(page.locator(".cell")).toHaveAscendingOrder({ locale: "fr" });
+		await expectly(page.locator(".cell")).not.toHaveAscendingOrder({ timeout: 300 });
+	});
+});
@@ -0,0 +1,205 @@
+import { expect, test } from "@playwright/test";
+
+import { getRejectedError } from "../../../../tests/common/assertion-utils";
+import { expectly } from "../../src/expectly";
+import { expectlyLocator } from "../../src/expectly-locator";
+import { createDateFormatParser } from "../../src/matchers/date-format";
+
+function dateText(text: string): string {
+	return `<span class="date">${text}</span>`;
+}
+
+test.describe("createDateFormatParser", () => {
+	test("should parse numeric tokens and literals", () => {
+		const parse = createDateFormatParser("dd-MM-yyyy HH:mm", { timeZone: "UTC" });
+		expect(parse("19-10-2026 14:30").toISOString()).toBe("2026-10-19T14:30:00.000Z");
+	});
+
+	test("should parse month names, weekdays and AM/PM in a locale", () => {
+		const parseEnglish = createDateFormatParser("EEE, MMMM d, yyyy h:mm a", { timeZone: "UTC" });
+		expect(parseEnglish("Mon, October 19, 2026 2:30 PM").toISOString()).toBe("2026-10-19T14:30:00.000Z");
+		expect(parseEnglish("mon, october 19, 2026 12:05 am").toISOString()).toBe("2026-10-19T00:05:00.000Z");
+
+		const parseDutch = createDateFormatParser("d MMM yyyy", { locale: "nl-NL", timeZone: "UTC" });
+		expect(parseDutch("3 mrt 2026").toISOString()).toBe("2026-03-03T00:00:00.000Z");
+	});
+
+	test("should read the text in a time zone", () => {
+		const parse = createDateFormatParser("yyyy-MM-dd HH:mm", { timeZone: "Europe/Amsterdam" });
+		expect(parse("2026-07-01 12:00").toISOString()).toBe("2026-07-01T10:00:00.000Z");
+		expect(parse("2026-01-01 12:00").toISOString()).toBe("2026-01-01T11:00:00.000Z");
+	});
+
+	test("should support quoted literals and take missing date fields from the reference date", () => {
+		const parse = createDateFormatParser("'at' HH:mm", {
+			timeZone: "UTC",
+			referenceDate: new Date("2026-10-19T08:00:00Z"),
+		});
+		expect(parse("at 14:30").toISOString()).toBe("2026-10-19T14:30:00.000Z");
+	});
+
+	test("should reject texts that do not match or are not valid dates", () => {
+		const parse = createDateFormatParser("dd-MM-yyyy", { timeZone: "UTC" });
+		expect(() => parse("2026-10-19")).toThrow('Cannot parse "2026-10-19" as a date with format "dd-MM-yyyy"');
+		expect(() => parse("31-02-2026")).toThrow("day 31 is out of range");
+		expect(() => createDateFormatParser("EEE dd-MM-yyyy", { timeZone: "UTC" })("Tue 19-10-2026")).toThrow(
+			"the weekday does not match the date",
+		);
+	});
+
+	test("should reject unsupported tokens", () => {
+		expect(() => createDateFormatParser("YYYY-MM-DD")).toThrow('Unsupported token "YYYY" in date format "YYYY-MM-DD"');
+	});
+});
+
+test.describe("expectLocator - toHaveDateText", () => {
+	test("should pass when the text is a date in the format", async ({ page }) => {
+		await page.setContent(dateText("19-10-2026 14:30"));
+		await expectlyLocator(page.locator(".date")).toHaveDateText({ format: "dd-MM-yyyy HH:mm" });
+	});
+
+	test("should retry until the text is a date", async ({ page }) => {
+		await page.setContent(`
+			${dateText("Loading...")}
+			<script>
+				setTimeout(() => document.querySelector(".date").textContent = "19 oktober 2026", 300);
+			</script>
+		`);
+		await expectlyLocator(page.locator(".date")).toHaveDateText({
+			format: "d MMMM yyyy",
+			locale: "nl-NL",
+			timeout: 2000,
+		});
+	});
+
+	test("should fail with the parse error", async ({ page }) => {
+		await page.setContent(dateText("2026-10-19"));
+		const error = await getRejectedError(
+			expectlyLocator(page.locator(".date")).toHaveDateText({ format: "dd-MM-yyyy", timeout: 300 }),
+		);
+		expect(error.message).toContain("Expected locator text to be a date in format");
+		expect(error.message).toContain("the text does not match the format");
+	});
+
+	test("should pass with .not for texts that are not dates", async ({ page }) => {
+		await page.setContent(dateText("n/a"));
+		await expectlyLocator(page.locator(".date")).not.toHaveDateText({ format: "dd-MM-yyyy", timeout: 300 });
+	});
+
+	test("should throw for unsupported format tokens", async ({ page }) => {
+		await page.setContent(dateText("19-10-2026"));
+		const error = await getRejectedError(
+			expectlyLocator(page.locator(".date")).toHaveDateText({ format: "DD-MM-YYYY" }),
+		);
+		expect(error.message).toContain('toHaveDateText: Unsupported token "DD"');
+	});
+});
+
+test.describe("expectLocator - date matchers", () => {
+	const now = new Date("2026-10-19T12:00:00Z");
+
+	test("toBeToday should parse the text with the format", async ({ page }) => {
+		await page.setContent(dateText("19-10-2026 08:15"));
+		await expectlyLocator(page.locator(".date")).toBeToday({ format: "dd-MM-yyyy HH:mm", timeZone: "UTC", now });
+		await expectlyLocator(page.locator(".date")).not.toBeToday({
+			format: "dd-MM-yyyy HH:mm",
+			timeZone: "UTC",
+			now: new Date("2026-10-20T12:00:00Z"),
+			timeout: 300,
+		});
+	});
+
+	test("toBeToday should parse ISO texts without a format", async ({ page }) => {
+		await page.setContent(dateText(" 2026-10-19T08:15:00Z "));
+		await expectlyLocator(page.locator(".date")).toBeToday({ timeZone: "UTC", now });
+	});
+
+	test("toBeBetween should poll until the date is in range", async ({ page }) => {
+		await page.setContent(`
+			${dateText("01-01-2026")}
+			<script>
+				setTimeout(() => document.querySelector(".date").textContent = "15-10-2026", 300);
+			</script>
+		`);
+		await expectlyLocator(page.locator(".date")).toBeBetween("2026-10-01T00:00:00Z", "2026-10-31T00:00:00Z", {
+			format: "dd-MM-yyyy",
+			timeZone: "UTC",
+			timeout: 2000,
+		});
+	});
+
+	test("toBeCloseTo should fail with the date message and the element text", async ({ page }) => {
+		await page.setContent(dateText("19-10-2026 14:30"));
+		const error = await getRejectedError(
+			expectlyLocator(page.locator(".date")).toBeCloseTo(
+				now,
+				{ minutes: 5 },
+				{ format: "dd-MM-yyyy HH:mm", timeZone: "UTC", timeout: 300 },
+			),
+		);
+		expect(error.message).toContain("Failure type: mismatch");
+		expect(error.message).toContain("Expected date to be close to the expected date within the allowed deviation");
+		expect(error.message).toContain("Element text:");
+		expect(error.message).toContain('"19-10-2026 14:30"');
+	});
+
+	test("should fail when the text cannot be parsed, also with .not", async ({ page }) => {
+		await page.setContent(dateText("tomorrow"));
+		const error = await getRejectedError(
+			expectlyLocator(page.locator(".date")).not.toBeToday({ format: "dd-MM-yyyy", now, timeout: 300 }),
+		);
+		expect(error.message).toContain('Cannot parse "tomorrow" as a date with format "dd-MM-yyyy"');
+	});
+
+	test("expectly should dispatch dates and locators", async ({ page }) => {
+		await page.setContent(dateText("19-10-2026 12:02"));
+		const format = { format: "dd-MM-yyyy HH:mm", timeZone: "UTC" };
+
+		expectly(now).toBeToday({ now });
+		expectly(now).toBeBetween("2026-01-01", "2026-12-31");
+		expectly(now).toBeCloseTo("2026-10-19T12:01:00Z", { minutes: 1 });
+		await expectly(page.locator(".date")).toBeToday({ ...format, now });
+		await expectly(page.locator(".date")).toBeBetween("2026-10-19T12:00:00Z", "2026-10-19T12:05:00Z", format);
+		await expectly(page.locator(".date")).toBeCloseTo(now, { minutes: 5 }, format);
+		await expectly(page.locator(".date")).toHaveDateText({ format: "dd-MM-yyyy HH:mm" });
+	});
+});
+
+test.describe("expectLocator - duration matchers", () => {
+	test("toBeValidISODuration should check the element text", async ({ page }) => {
+		await page.setContent(dateText(" PT1H30M "));
+		await expectlyLocator(page.locator(".date")).toBeValidISODuration();
+		await expectly(page.locator(".date")).toBeValidISODuration();
+
+		await page.setContent(dateText("1h 30m"));
+		await expectlyLocator(page.locator(".date")).not.toBeValidISODuration({ timeout: 300 });
+	});
+
+	test("toHaveDurationCloseTo should poll until the duration is close", async ({ page }) => {
+		await page.setContent(`
+			${dateText("2h")}
+			<script>
+				setTimeout(() => document.querySelector(".date").textContent = "1h 31m", 300);
+			</script>
+		`);
+		await expectly(page.locator(".date")).toHaveDurationCloseTo("PT1H30M", { minutes: 2 }, { timeout: 2000 });
+	});
+
+	test("toHaveDurationCloseTo should fail with the duration message and the element text", async ({ page }) => {
+		await page.setContent(dateText("2h"));
+		const error = await getRejectedError(
+			expectlyLocator(page.locator(".date")).toHaveDurationCloseTo("PT1H30M", { minutes: 5 }, { timeout: 300 }),
+		);
+		expect(error.message).toContain("Difference: 30m (longer)");
+		expect(error.message).toContain("Element text:");
+		expect(error.message).toContain('"2h"');
+	});
+
+	test("toHaveDurationCloseTo should throw for an invalid expected duration right away", async ({ page }) => {
+		await page.setContent(dateText("2h"));
+		const error = await getRejectedError(
+			expectlyLocator(page.locator(".date")).toHaveDurationCloseTo("P1M", { minutes: 5 }),
+		);
+		expect(error.message).toContain('Invalid expected duration: "P1M"');
+	});
+});
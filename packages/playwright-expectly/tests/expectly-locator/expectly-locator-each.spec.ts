@@ -0,0 +1,145 @@
+import { expect, test } from "@playwright/test";
+
+import { getRejectedError } from "../../../../tests/common/assertion-utils";
+import { expectly } from "../../src/expectly";
+import { expectlyLocator } from "../../src/expectly-locator";
+
+const ROWS = `
+	<table>
+		<tr data-status="ok"><td>Row A</td></tr>
+		<tr data-status="pending"><td>Row B</td></tr>
+		<tr data-status="ok"><td>Row C</td></tr>
+		<tr data-status="failed"><td>Row D</td></tr>
+	</table>
+`;
+
+test.describe("expectLocator - toSatisfyAll", () => {
+	test("should pass when every element satisfies the matcher", async ({ page }) => {
+		await page.setContent('<ul><li data-status="ok">A</li><li data-status="ok">B</li></ul>');
+		await expectlyLocator(page.locator("li")).toSatisfyAll("toHaveDataAttribute", "status", "ok");
+	});
+
+	test("should pass with matchers that take no arguments", async ({ page }) => {
+		await page.setContent("<ul><li>ALPHA</li><li>BETA</li></ul>");
+		await expectlyLocator(page.locator("li")).toSatisfyAll("toBeUpperCase");
+	});
+
+	test("should pass once elements are updated while polling", async ({ page }) => {
+		await page.setContent(`
+			<ul><li>alpha</li><li>beta</li></ul>
+			<script>
+				setTimeout(() => document.querySelectorAll('li').forEach((li) => li.textContent = li.textContent.toUpperCase()), 100);
+			</script>
+		`);
+		await expectlyLocator(page.locator("li")).toSatisfyAll("toBeUpperCase");
+	});
+
+	test("should list the index and text of every offending element", async ({ page }) => {
+		await page.setContent(ROWS);
+		const error = await getRejectedError(
+			expectlyLocator(page.locator("tr")).toSatisfyAll("toHaveDataAttribute", "status", "ok", { timeout: 300 }),
+		);
+
+		expect(error.message).toContain("Failure type: mismatch");
+		expect(error.message).toContain("2 of 4 elements did not:");
+		expect(error.message).toMatch(/\[1\] .*"Row B"/);
+		expect(error.message).toMatch(/\[3\] .*"Row D"/);
+		expect(error.message).not.toMatch(/\[0\]/);
+		expect(error.message).toContain("pending");
+	});
+
+	test("should apply the trailing poll options to the whole assertion", async ({ page }) => {
+		await page.setContent(ROWS);
+		const start = Date.now();
+		await getRejectedError(
+			expectlyLocator(page.locator("tr")).toSatisfyAll("toHaveDataAttribute", "status", "ok", { timeout: 300 }),
+		);
+		expect(Date.now() - start).toBeLessThan(3000);
+	});
+
+	test("should fail when the locator matches no elements", async ({ page }) => {
+		await page.setContent("<ul></ul>");
+		const error = await getRejectedError(
+			expectlyLocator(page.locator("li")).toSatisfyAll("toBeUpperCase", { timeout: 300 }),
+		);
+		expect(error.message).toContain("did not match any elements");
+	});
+
+	test("should fail .not when the locator matches no elements", async ({ page }) => {
+		await page.setContent("<ul></ul>");
+		const error = await getRejectedError(
+			expectlyLocator(page.locator("li")).not.toSatisfyAll("toBeUpperCase", { timeout: 300 }),
+		);
+		expect(error.message).toContain("Expected at least one element to not satisfy:");
+		expect(error.message).toContain("did not match any elements");
+		expect(error).toHaveProperty("matcherResult.failureType", "mismatch");
+	});
+
+	test("should pass .not once elements are rendered while polling", async ({ page }) => {
+		await page.setContent(`
+			<ul></ul>
+			<script>
+				setTimeout(() => document.querySelector('ul').innerHTML = '<li>alpha</li>', 100);
+			</script>
+		`);
+		await expectlyLocator(page.locator("li")).not.toSatisfyAll("toBeUpperCase", { timeout: 2000 });
+	});
+
+	test("should pass .not when at least one element does not satisfy the matcher", async ({ page }) => {
+		await page.setContent(ROWS);
+		await expectlyLocator(page.locator("tr")).not.toSatisfyAll("toHaveDataAttribute", "status", "ok");
+	});
+
+	test("should fail .not when every element satisfies the matcher", async ({ page }) => {
+		await page.setContent("<ul><li>ALPHA</li><li>BETA</li></ul>");
+		const error = await getRejectedError(
+			expectlyLocator(page.locator("li")).not.toSatisfyAll("toBeUpperCase", { timeout: 300 }),
+		);
+		expect(error.message).toContain("But all 2 elements did");
+	});
+
+	test("should throw for matchers that cannot be applied to each element", async ({ page }) => {
+		await page.setContent("<ul><li>A</li></ul>");
+		const error = await getRejectedError(
+			// @ts-expect-error toBeStable is not supported
+			expectlyLocator(page.locator("li")).toSatisfyAll("toBeStable", { timeout: 300 }),
+		);
+		expect(error.message).toContain('"toBeStable" is not a locator matcher that can be applied to each element');
+	});
+});
+
+test.describe("expectly - each", () => {
+	test("should apply a locator matcher to every element", async ({ page }) => {
+		await page.setContent('<nav><a href="/docs/a">A</a><a href="/docs/b">B</a></nav>');
+		await expectly(page.locator("a")).each.toHaveHref(/^\/docs\//);
+	});
+
+	test("should report offending elements like toSatisfyAll", async ({ page }) => {
+		await page.setContent(ROWS);
+		const error = await getRejectedError(
+			expectly(page.locator("tr")).each.toHaveDataAttribute("status", "ok", { timeout: 300 }),
+		);
+		expect(error.message).toContain("toSatisfyAll");
+		expect(error.message).toMatch(/\[3\] .*"Row D"/);
+	});
+
+	test("should be available on expectlyLocator", async ({ page }) => {
+		await page.setContent('<nav><a href="/docs/a">A</a><a href="/docs/b">B</a></nav>');
+		await expectlyLocator(page.locator("a")).each.toHaveHref(/^\/docs\//);
+
+		const error = await getRejectedError(
+			expectlyLocator(page.locator("a")).each.toHaveHref(/^\/blog\//, { timeout: 300 }),
+		);
+		expect(error.message).toContain("toSatisfyAll");
+	});
+
+	test("should be recorded inside expectly.all", async ({ page }) => {
+		await page.setContent(ROWS);
+		const error = await getRejectedError(
+			expectly.all(async (e) => {
+				await e(page.locator("tr")).each.toHaveDataAttribute("status", "ok", { timeout: 300 });
+			}),
+		);
+		expect(error.message).toMatch(/^1 of 1 expectly assertion failed:/);
+	});
+});
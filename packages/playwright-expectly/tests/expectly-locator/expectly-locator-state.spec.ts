@@ -82,6 +82,61 @@ test.describe("expectLocator - toBeStable", () => {
 		).rejects.toThrowError();
 	});
 
+	test("should report a timeout failure type when locator is not found", async ({ page }) => {
+		await page.setContent('<div id="present">Content</div>');
+		const element = page.locator("#not-present");
+
+		const error = await getRejectedError(
+			expectlyLocator(element).toBeStable({
+				stabilityDuration: 300,
+				timeout: 1000,
+			}),
+		);
+		expect(error.message).toContain("Failure type: timeout");
+		expect(error.message).toContain("Locator was not found or never became available");
+		expect(error).toHaveProperty("matcherResult.failureType", "timeout");
+	});
+
+	test("should report a strict mode violation when locator matches several elements", async ({ page }) => {
+		await page.setContent('<div class="item">One</div><div class="item">Two</div>');
+		const element = page.locator(".item");
+
+		const error = await getRejectedError(
+			expectlyLocator(element).toBeStable({
+				stabilityDuration: 300,
+				timeout: 1000,
+			}),
+		);
+		expect(error.message).toContain("Failure type: strict-mode-violation");
+		expect(error).toHaveProperty("matcherResult.failureType", "strict-mode-violation");
+	});
+
+	test("should fail with .not when locator matches several elements", async ({ page }) => {
+		await page.setContent('<div class="item">One</div><div class="item">Two</div>');
+
+		const error = await getRejectedError(
+			expectlyLocator(page.locator(".item")).not.toBeStable({
+				stabilityDuration: 300,
+				timeout: 1000,
+			}),
+		);
+		expect(error.message).toContain("Failure type: strict-mode-violation");
+		expect(error).toHaveProperty("matcherResult.failureType", "strict-mode-violation");
+	});
+
+	test("should fail with .not when locator is not found", async ({ page }) => {
+		await page.setContent('<div id="present">Content</div>');
+
+		const error = await getRejectedError(
+			expectlyLocator(page.locator("#not-present")).not.toBeStable({
+				stabilityDuration: 300,
+				timeout: 1000,
+			}),
+		);
+		expect(error.message).toContain("Locator was not found or never became available");
+		expect(error).toHaveProperty("matcherResult.failureType", "timeout");
+	});
+
 	test("should work with .not when content is unstable", async ({ page }) => {
 		await page.setContent(`
 			<div id="changing">Initial</div>
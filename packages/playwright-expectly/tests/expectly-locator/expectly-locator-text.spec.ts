@@ -1,5 +1,6 @@
-import { test } from "@playwright/test";
+import { expect, test } from "@playwright/test";
 
+import { getRejectedError } from "../../../../tests/common/assertion-utils";
 import { expectlyLocator } from "../../src/expectly-locator";
 
 // For granular imports, you can also use:
@@ -614,3 +615,88 @@ test.describe("expectLocator - toHaveDirectText", () => {
 		await expectlyLocator(element).toHaveDirectText("Delayed text", { timeout: 1000 });
 	});
 });
+
+test.describe("expectLocator - value history", () => {
+	test("should list every distinct value when text keeps changing", async ({ page }) => {
+		await page.setContent(`
+			<div id="status">Loading...</div>
+			<script>
+				setTimeout(() => { document.getElementById('status').textContent = 'Almost'; }, 100);
+			</script>
+		`);
+		const element = page.locator("#status");
+		const error = await getRejectedError(expectlyLocator(element).toStartWith("Done", { timeout: 500 }));
+		expect(error.message).toContain("Value history (");
+		expect(error.message).toContain('"Loading..."');
+		expect(error.message).toContain('"Almost"');
+		expect(error.message).toMatch(/attempts? 1 \(\+\d+ms\)/);
+	});
+
+	test("should collapse repeated values into a single attempt range", async ({ page }) => {
+		await page.setContent('<div id="status">Stuck</div>');
+		const element = page.locator("#status");
+		const error = await getRejectedError(
+			expectlyLocator(element).toStartWith("Done", { timeout: 500, intervals: [50] }),
+		);
+		expect(error.message).toMatch(/attempts 1-\d+ \(\+\d+ms\): .*"Stuck"/);
+	});
+
+	test("should report when the element was never rendered", async ({ page }) => {
+		await page.setContent("<div></div>");
+		const element = page.locator("#missing");
+		const error = await getRejectedError(expectlyLocator(element).toStartWith("Done", { timeout: 300 }));
+		expect(error.message).toContain("(no value was read before the timeout)");
+	});
+
+	test("should include the history for failing .not assertions", async ({ page }) => {
+		await page.setContent('<div id="status">Done</div>');
+		const element = page.locator("#status");
+		const error = await getRejectedError(expectlyLocator(element).not.toStartWith("Done", { timeout: 300 }));
+		expect(error.message).toContain("Value history (");
+		expect(error.message).toContain('"Done"');
+	});
+});
+
+test.describe("expectLocator - failure type", () => {
+	test("should report a mismatch when the text was read but did not match", async ({ page }) => {
+		await page.setContent('<div id="status">Pending</div>');
+		const element = page.locator("#status");
+		const error = await getRejectedError(expectlyLocator(element).toStartWith("Done", { timeout: 300 }));
+		expect(error.message).toContain("Failure type: mismatch");
+		expect(error).toHaveProperty("matcherResult.failureType", "mismatch");
+	});
+
+	test("should report a timeout when the element was never rendered", async ({ page }) => {
+		await page.setContent("<div></div>");
+		const element = page.locator("#missing");
+		const error = await getRejectedError(expectlyLocator(element).toStartWith("Done", { timeout: 300 }));
+		expect(error.message).toContain("Failure type: timeout");
+		expect(error.message).toMatch(/Timed out after \d+ms before the locator value could be read/);
+		expect(error).toHaveProperty("matcherResult.failureType", "timeout");
+	});
+
+	test("should report a strict mode violation when the locator matches several elements", async ({ page }) => {
+		await page.setContent('<div class="item">One</div><div class="item">Two</div>');
+		const element = page.locator(".item");
+		const error = await getRejectedError(expectlyLocator(element).toStartWith("One", { timeout: 300 }));
+		expect(error.message).toContain("Failure type: strict-mode-violation");
+		expect(error.message).toContain("Locator error:");
+		expect(error).toHaveProperty("matcherResult.failureType", "strict-mode-violation");
+	});
+
+	test("should fail a .not assertion on a strict mode violation", async ({ page }) => {
+		await page.setContent('<div class="item">One</div><div class="item">Two</div>');
+		const element = page.locator(".item");
+		const error = await getRejectedError(expectlyLocator(element).not.toStartWith("Done", { timeout: 300 }));
+		expect(error.message).toContain("Failure type: strict-mode-violation");
+	});
+
+	test("should report a locator error when reading the element throws", async ({ page }) => {
+		await page.setContent('<div id="status">Done</div>');
+		const element = page.locator("#status");
+		await page.close();
+		const error = await getRejectedError(expectlyLocator(element).toStartWith("Done", { timeout: 300 }));
+		expect(error.message).toContain("Failure type: locator-error");
+		expect(error).toHaveProperty("matcherResult.failureType", "locator-error");
+	});
+});
@@ -328,6 +328,129 @@ test.describe("toHaveRange", () => {
 	});
 });
 
+test.describe("toHaveStandardDeviation", () => {
+	const values = [2, 4, 4, 4, 5, 5, 7, 9];
+
+	test("should pass for the population standard deviation", () => {
+		expectlyNumberArray(values).toHaveStandardDeviation(2);
+		expectlyNumberArray([42]).toHaveStandardDeviation(0);
+	});
+
+	test("should pass for the sample standard deviation within the tolerance", () => {
+		expectlyNumberArray(values).toHaveStandardDeviation(2.138, 0.001, { sample: true });
+		expectlyNumberArray(values).not.toHaveStandardDeviation(2, 0.1, { sample: true });
+	});
+
+	test("should show the computed statistics", () => {
+		const error = getRejectedErrorSync(() => {
+			expectlyNumberArray(values).toHaveStandardDeviation(1.5, 0.25);
+		});
+		expect(error.message).toContain("Expected population standard deviation:");
+		expect(error.message).toContain("± 0.25");
+		expect(error.message).toContain("Difference: 0.5");
+		expect(error.message).toContain("Statistics: count 8, mean 5, median 4.5, min 2, max 9, standard deviation 2");
+	});
+
+	test("should throw for too few numbers and invalid tolerances", () => {
+		expect(() => expectlyNumberArray([]).toHaveStandardDeviation(0)).toThrow(
+			"toHaveStandardDeviation: array must contain at least 1 number, received 0",
+		);
+		expect(() => expectlyNumberArray([1]).toHaveStandardDeviation(0, 0, { sample: true })).toThrow(
+			"array must contain at least 2 numbers, received 1",
+		);
+		expect(() => expectlyNumberArray([1, Number.NaN]).toHaveStandardDeviation(0)).toThrow(
+			"element 1 is not a finite number: NaN",
+		);
+		expect(() => expectlyNumberArray([1, 2]).toHaveStandardDeviation(0, -1)).toThrow(
+			"tolerance must be a non-negative number, received -1",
+		);
+	});
+});
+
+test.describe("toHaveVariance", () => {
+	test("should pass for the population and sample variance", () => {
+		expectlyNumberArray([2, 4, 4, 4, 5, 5, 7, 9]).toHaveVariance(4);
+		expectlyNumberArray([2, 4, 4, 4, 5, 5, 7, 9]).toHaveVariance(32 / 7, 1e-9, { sample: true });
+	});
+
+	test("should fail with the received variance", () => {
+		const error = getRejectedErrorSync(() => {
+			expectlyNumberArray([1, 2, 3]).toHaveVariance(1);
+		});
+		expect(error.message).toContain("Expected population variance:");
+		expect(error.message).toContain("Received variance:");
+		expect(error.message).toContain("Difference: 0.333333");
+	});
+
+	test("should work with .not", () => {
+		expectlyNumberArray([1, 2, 3]).not.toHaveVariance(1, 0.1);
+	});
+});
+
+test.describe("toHavePercentile", () => {
+	const responseTimes = [300, 100, 200, 400, 500, 600, 700, 800, 900, 1000];
+
+	test("should interpolate between the closest values", () => {
+		expectlyNumberArray(responseTimes).toHavePercentile(95, { lessThanOrEqual: 955, greaterThanOrEqual: 955 });
+		expectlyNumberArray(responseTimes).toHavePercentile(50, { greaterThan: 500, lessThan: 600 });
+		expectlyNumberArray(responseTimes).toHavePercentile(0, { greaterThanOrEqual: 100 });
+		expectlyNumberArray(responseTimes).toHavePercentile(100, { lessThanOrEqual: 1000 });
+		expectlyNumberArray([42]).toHavePercentile(99, { lessThan: 43 });
+	});
+
+	test("should show the percentile and the statistics", () => {
+		const error = getRejectedErrorSync(() => {
+			expectlyNumberArray(responseTimes).toHavePercentile(95, { lessThan: 900 });
+		});
+		expect(error.message).toContain("Expected p95 to be less than");
+		expect(error.message).toContain("Received p95:");
+		expect(error.message).toContain("955");
+		expect(error.message).toContain("Statistics: count 10, mean 550, median 550, min 100, max 1000");
+	});
+
+	test("should work with .not", () => {
+		expectlyNumberArray(responseTimes).not.toHavePercentile(95, { lessThan: 900 });
+	});
+
+	test("should throw for invalid percentiles and bounds", () => {
+		expect(() => expectlyNumberArray(responseTimes).toHavePercentile(101, { lessThan: 1 })).toThrow(
+			"toHavePercentile: percentile must be a number from 0 to 100, received 101",
+		);
+		expect(() => expectlyNumberArray(responseTimes).toHavePercentile(95, {})).toThrow(
+			"toHavePercentile: expected at least one bound",
+		);
+		expect(() =>
+			expectlyNumberArray(responseTimes).toHavePercentile(95, { below: 1 } as unknown as { lessThan: number }),
+		).toThrow('toHavePercentile: unknown bound "below"');
+		expect(() => expectlyNumberArray([]).toHavePercentile(95, { lessThan: 1 })).toThrow(
+			"toHavePercentile: array must contain at least 1 number",
+		);
+	});
+});
+
+test.describe("toHaveMode", () => {
+	test("should pass for the most frequent value", () => {
+		expectlyNumberArray([1, 2, 2, 3]).toHaveMode(2);
+		expectlyNumberArray([1, 2, 2, 3]).toHaveMode([2]);
+		expectlyNumberArray([1, 2, 2, 3]).not.toHaveMode(1);
+	});
+
+	test("should expect all modes when values are equally frequent", () => {
+		expectlyNumberArray([3, 1, 3, 1, 2]).toHaveMode([3, 1]);
+		expectlyNumberArray([3, 1, 3, 1, 2]).not.toHaveMode(1);
+		expectlyNumberArray([]).toHaveMode([]);
+	});
+
+	test("should show the most frequent values", () => {
+		const error = getRejectedErrorSync(() => {
+			expectlyNumberArray([5, 4, 4, 5, 3, 1, 2, 6, 7]).toHaveMode(3);
+		});
+		expect(error.message).toContain("Expected mode:");
+		expect(error.message).toContain("(2 occurrences each)");
+		expect(error.message).toContain("Most frequent values: 4 (2×), 5 (2×), 1 (1×), 2 (1×), 3 (1×), ... 2 more");
+	});
+});
+
 test.describe("toBeAllBetween", () => {
 	test("should pass when all values are within range", () => {
 		expectlyNumberArray([2, 3, 4, 5]).toBeAllBetween(1, 6);
@@ -1,5 +1,6 @@
 import { expect, test } from "@playwright/test";
 
+import { getRejectedErrorSync } from "../../../tests/common/assertion-utils";
 import { expectlyObjectArray } from "../src/expectly-object-array";
 
 test.describe("toHaveOnlyUniqueObjects", () => {
@@ -283,8 +284,7 @@ test.describe("toHaveObjectsInAscendingOrderBy", () => {
 	test("should work with nested property access", () => {
 		const array = [{ user: { age: 25 } }, { user: { age: 30 } }, { user: { age: 35 } }];
 
-		// Note: This tests direct property name, not dot notation
-		// For nested properties, users would need to pass "age" and ensure objects are structured accordingly
+		expectlyObjectArray(array).toHaveObjectsInAscendingOrderBy("user.age");
 		expect(() => {
 			expectlyObjectArray(array).toHaveObjectsInAscendingOrderBy("age");
 		}).toThrow(/not found/);
@@ -406,3 +406,148 @@ test.describe("toHaveObjectsInDescendingOrderBy", () => {
 		}).toThrow(/not be sorted in descending order/);
 	});
 });
+
+test.describe("object-array order matchers - property paths and sort keys", () => {
+	const users = [
+		{ lastName: "Doe", createdAt: new Date("2024-03-01"), address: { city: "Amsterdam" }, tags: ["b"] },
+		{ lastName: "Doe", createdAt: new Date("2024-01-01"), address: { city: "Berlin" }, tags: ["a"] },
+		{ lastName: "Smith", createdAt: new Date("2024-02-01"), address: { city: "Cairo" }, tags: ["c"] },
+	];
+
+	test("should follow dot and bracket paths", () => {
+		expectlyObjectArray(users).toHaveObjectsInAscendingOrderBy("address.city");
+		expectlyObjectArray(users).toHaveObjectsInAscendingOrderBy('["address"]["city"]');
+		expectlyObjectArray(users).not.toHaveObjectsInAscendingOrderBy("tags[0]");
+	});
+
+	test("should report which segment of a path is missing", () => {
+		const error = getRejectedErrorSync(() => {
+			expectlyObjectArray([{ address: { city: "A" } }, { address: null }]).toHaveObjectsInAscendingOrderBy(
+				"address.city",
+			);
+		});
+		expect(error.message).toContain('Property "address.city" not found on object at index 1 (missing "city")');
+	});
+
+	test("should throw for malformed paths", () => {
+		expect(() => {
+			expectlyObjectArray(users).toHaveObjectsInAscendingOrderBy("address..city");
+		}).toThrow('Invalid property path: "address..city"');
+	});
+
+	test("should sort by a key selector", () => {
+		const items = [{ name: "alpha" }, { name: "Beta" }, { name: "gamma" }];
+
+		expectlyObjectArray(items).toHaveObjectsInAscendingOrderBy((item) => item.name.toLowerCase());
+		expectlyObjectArray(items).not.toHaveObjectsInAscendingOrderBy("name");
+	});
+
+	test("should compare later sort keys only when earlier keys are equal", () => {
+		expectlyObjectArray(users).toHaveObjectsInAscendingOrderBy([
+			{ path: "lastName" },
+			{ path: "createdAt", order: "desc" },
+		]);
+		expectlyObjectArray([...users].reverse()).toHaveObjectsInDescendingOrderBy([
+			{ path: "lastName" },
+			{ path: "createdAt", order: "asc" },
+		]);
+	});
+
+	test("should report the sort key that is out of order", () => {
+		const error = getRejectedErrorSync(() => {
+			expectlyObjectArray(users).toHaveObjectsInAscendingOrderBy([{ path: "lastName" }, { path: "createdAt" }]);
+		});
+		expect(error.message).toMatch(/by keys .*"lastName".* \(asc\), .*"createdAt".* \(asc\)/);
+		expect(error.message).toContain(
+			'Found out of order at indices 0 and 1 by "createdAt" (asc): 2024-03-01T00:00:00.000Z > 2024-01-01T00:00:00.000Z',
+		);
+	});
+
+	test("should throw for an empty list of sort keys", () => {
+		expect(() => {
+			expectlyObjectArray(users).toHaveObjectsInAscendingOrderBy([]);
+		}).toThrow("At least one sort key is required");
+	});
+});
+
+test.describe("toHaveUniqueObjectsBy", () => {
+	test("should pass when every key value is unique", () => {
+		expectlyObjectArray([
+			{ id: 1, name: "Alice" },
+			{ id: 2, name: "Alice" },
+		]).toHaveUniqueObjectsBy("id");
+	});
+
+	test("should report each duplicated value with all of its indices", () => {
+		const users = [
+			{ id: 1, name: "Alice" },
+			{ id: 2, name: "Bob" },
+			{ id: 1, name: "Carol" },
+			{ id: 2, name: "Dave" },
+			{ id: 1, name: "Eve" },
+		];
+
+		const error = getRejectedErrorSync(() => {
+			expectlyObjectArray(users).toHaveUniqueObjectsBy("id");
+		});
+		expect(error.message).toMatch(/found .*2.* duplicated value\(s\)/);
+		expect(error.message).toMatch(/1.* at indices 0, 2, 4/);
+		expect(error.message).toMatch(/2.* at indices 1, 3/);
+	});
+
+	test("should check combinations of several keys", () => {
+		const pages = [
+			{ tenantId: "a", slug: "home" },
+			{ tenantId: "b", slug: "home" },
+			{ tenantId: "a", slug: "about" },
+		];
+		expectlyObjectArray(pages).toHaveUniqueObjectsBy(["tenantId", "slug"]);
+
+		const error = getRejectedErrorSync(() => {
+			expectlyObjectArray([...pages, { tenantId: "b", slug: "home", title: "Copy" }]).toHaveUniqueObjectsBy([
+				"tenantId",
+				"slug",
+			]);
+		});
+		expect(error.message).toMatch(/"slug": .*"home".*"tenantId": .*"b".* at indices 1, 3/);
+	});
+
+	test("should support nested paths and key selectors", () => {
+		const users = [{ profile: { email: "A@x.io" } }, { profile: { email: "a@x.io" } }];
+
+		expectlyObjectArray(users).toHaveUniqueObjectsBy("profile.email");
+		expectlyObjectArray(users).not.toHaveUniqueObjectsBy((user) => user.profile.email.toLowerCase());
+	});
+
+	test("should compare Date keys by their time", () => {
+		const events = [
+			{ createdAt: new Date("2024-01-01T10:00:00Z"), room: "a" },
+			{ createdAt: new Date("2024-01-02T10:00:00Z"), room: "a" },
+		];
+		expectlyObjectArray(events).toHaveUniqueObjectsBy("createdAt");
+		expectlyObjectArray(events).toHaveUniqueObjectsBy(["createdAt", "room"]);
+		expectlyObjectArray(events).toHaveOnlyUniqueObjects();
+
+		const withDuplicate = [...events, { createdAt: new Date("2024-01-02T10:00:00Z"), room: "a" }];
+		expectlyObjectArray(withDuplicate).not.toHaveUniqueObjectsBy("createdAt");
+		const error = getRejectedErrorSync(() => {
+			expectlyObjectArray(withDuplicate).toHaveUniqueObjectsBy(["createdAt", "room"]);
+		});
+		expect(error.message).toMatch(/found .*1.* duplicated value\(s\)/);
+		expect(error.message).toMatch(/at indices 1, 2/);
+	});
+
+	test("should fail when a key is missing", () => {
+		const error = getRejectedErrorSync(() => {
+			expectlyObjectArray([{ id: 1 }, { name: "no id" }]).toHaveUniqueObjectsBy("id");
+		});
+		expect(error.message).toContain('Property "id" not found on object at index 1');
+	});
+
+	test("should fail with .not when all key values are unique", () => {
+		const error = getRejectedErrorSync(() => {
+			expectlyObjectArray([{ id: 1 }, { id: 2 }]).not.toHaveUniqueObjectsBy("id");
+		});
+		expect(error.message).toContain("but all 2 were unique");
+	});
+});
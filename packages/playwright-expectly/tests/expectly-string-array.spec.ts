@@ -270,3 +270,40 @@ test.describe("toHaveUniqueValues", () => {
 		expectlyStringArray(["a", "b", "b", "c"]).not.toHaveUniqueValues();
 	});
 });
+
+test.describe("locale-aware ordering", () => {
+	test("should compare by code units without collation options", () => {
+		expectlyStringArray(["Zoe", "Émile"]).toHaveAscendingOrder();
+		expectlyStringArray(["item10", "item2"]).toHaveAscendingOrder();
+	});
+
+	test("should sort accented names with a locale", () => {
+		expectlyStringArray(["Émile", "Zoe"]).toHaveAscendingOrder({ locale: "fr" });
+		expectlyStringArray(["Zoe", "Émile"]).toHaveDescendingOrder({ locale: "fr" });
+		expectlyStringArray(["Zoe", "Émile"]).not.toHaveAscendingOrder({ locale: "fr" });
+	});
+
+	test("should sort digit sequences numerically with numeric", () => {
+		expectlyStringArray(["item1", "item2", "item10"]).toHaveAscendingOrder({ numeric: true });
+		expectlyStringArray(["item10", "item2", "item1"]).toHaveStrictlyDescendingOrder({ numeric: true });
+	});
+
+	test("should ignore punctuation with ignorePunctuation", () => {
+		expectlyStringArray(["alpha", "(beta)", "gamma"]).toHaveAscendingOrder({ locale: "en", ignorePunctuation: true });
+		expectlyStringArray(["alpha", "(beta)", "gamma"]).not.toHaveAscendingOrder({ locale: "en" });
+	});
+
+	test("should treat values the collator considers equal as a strict order violation", () => {
+		expectlyStringArray(["a", "b"]).toHaveStrictlyAscendingOrder({ sensitivity: "base" });
+		expectlyStringArray(["a", "A", "b"]).not.toHaveStrictlyAscendingOrder({ sensitivity: "base" });
+	});
+
+	test("should show the collation options in the failure message", () => {
+		const error = getRejectedErrorSync(() => {
+			expectlyStringArray(["item10", "item2"]).toHaveAscendingOrder({ locale: "en", numeric: true });
+		});
+		expect(error.message).toContain("Collation:");
+		expect(error.message).toMatch(/"locale": .*"en"/);
+		expect(error.message).toMatch(/"numeric": .*true/);
+	});
+});
@@ -10,6 +10,13 @@ export default defineConfig({
 	},
 	reporter: [["line"]],
 	projects: [
+		{
+			name: "expectly-core",
+			testDir: "./packages/playwright-expectly-core/tests",
+			expect: {
+				timeout: 200,
+			},
+		},
 		{
 			name: "expectly",
 			testDir: "./packages/playwright-expectly/tests",